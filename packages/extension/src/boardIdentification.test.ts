@@ -0,0 +1,164 @@
+import type { DetectedPorts, Port } from 'boards-list'
+import { describe, expect, it, vi } from 'vitest'
+import type * as vscode from 'vscode'
+
+import {
+  BoardIdentifications,
+  portHardwareId,
+  toIdentifiedBoards,
+  unidentifiedPorts,
+  withRememberedBoards,
+} from './boardIdentification'
+
+const ch340: Port = {
+  address: '/dev/ttyUSB0',
+  label: '/dev/ttyUSB0',
+  protocol: 'serial',
+  protocolLabel: 'Serial Port (USB)',
+  properties: { vid: '0x1A86', pid: '0x7523' },
+}
+
+const uno: Port = {
+  address: '/dev/ttyACM0',
+  label: '/dev/ttyACM0',
+  protocol: 'serial',
+  protocolLabel: 'Serial Port (USB)',
+  properties: { vid: '0x2341', pid: '0x0043' },
+}
+
+const network: Port = {
+  address: '192.168.1.10',
+  label: 'esp32',
+  protocol: 'network',
+  protocolLabel: 'Network Port',
+}
+
+const detectedPorts: DetectedPorts = {
+  'serial|/dev/ttyUSB0': { port: ch340 },
+  'serial|/dev/ttyACM0': {
+    port: uno,
+    boards: [{ name: 'Arduino Uno', fqbn: 'arduino:avr:uno' }],
+  },
+  'network|192.168.1.10': { port: network, boards: [] },
+}
+
+function createMemento(): vscode.Memento {
+  const state = new Map<string, unknown>()
+  return {
+    keys: () => [...state.keys()],
+    get: (key: string, defaultValue?: unknown) =>
+      state.has(key) ? state.get(key) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      state.set(key, value)
+    },
+  } as vscode.Memento
+}
+
+describe('boardIdentification', () => {
+  it('normalizes the VID/PID of the port', () => {
+    expect(portHardwareId(ch340)).toBe('0x1a86:0x7523')
+    expect(portHardwareId(network)).toBeUndefined()
+    expect(portHardwareId(undefined)).toBeUndefined()
+  })
+
+  it('lists the ports with VID/PID without boards', () => {
+    expect(unidentifiedPorts(detectedPorts)).toEqual([ch340])
+  })
+
+  it('adds the remembered board to the ports without boards', () => {
+    const augmented = withRememberedBoards(detectedPorts, (port) =>
+      portHardwareId(port) === '0x1a86:0x7523'
+        ? { name: 'Arduino Nano', fqbn: 'arduino:avr:nano' }
+        : undefined
+    )
+
+    expect(augmented['serial|/dev/ttyUSB0'].boards).toEqual([
+      { name: 'Arduino Nano', fqbn: 'arduino:avr:nano' },
+    ])
+    expect(augmented['serial|/dev/ttyACM0']).toBe(
+      detectedPorts['serial|/dev/ttyACM0']
+    )
+    expect(withRememberedBoards(detectedPorts, () => undefined)).toBe(
+      detectedPorts
+    )
+  })
+
+  it('lists the remembered board first without duplicates and hidden boards', () => {
+    expect(
+      toIdentifiedBoards(
+        { name: 'Arduino Nano', fqbn: 'arduino:avr:nano:cpu=atmega328old' },
+        [
+          {
+            name: 'Arduino Nano',
+            fqbn: 'arduino:avr:nano',
+            isHidden: false,
+            platform: undefined,
+          },
+          {
+            name: 'ESP32 Dev Module',
+            fqbn: 'esp32:esp32:esp32',
+            isHidden: false,
+            platform: undefined,
+          },
+          {
+            name: 'Hidden',
+            fqbn: 'esp32:esp32:hidden',
+            isHidden: true,
+            platform: undefined,
+          },
+          { name: '', fqbn: '', isHidden: false, platform: undefined },
+        ],
+        new Set(['arduino:avr'])
+      )
+    ).toEqual([
+      {
+        board: {
+          name: 'Arduino Nano',
+          fqbn: 'arduino:avr:nano:cpu=atmega328old',
+        },
+        platformId: 'arduino:avr',
+        installed: true,
+        remembered: true,
+      },
+      {
+        board: { name: 'ESP32 Dev Module', fqbn: 'esp32:esp32:esp32' },
+        platformId: 'esp32:esp32',
+        installed: false,
+        remembered: false,
+      },
+    ])
+  })
+
+  it('remembers and forgets the board of the VID/PID', async () => {
+    const memento = createMemento()
+    const identifications = new BoardIdentifications(memento)
+    const didChange = vi.fn()
+    identifications.onDidChange(didChange)
+
+    await identifications.remember(ch340, {
+      name: 'Arduino Nano',
+      fqbn: 'arduino:avr:nano',
+    })
+    await identifications.remember(network, {
+      name: 'ESP32 Dev Module',
+      fqbn: 'esp32:esp32:esp32',
+    })
+
+    expect(identifications.boardOf(ch340)).toEqual({
+      name: 'Arduino Nano',
+      fqbn: 'arduino:avr:nano',
+    })
+    expect(
+      new BoardIdentifications(memento).boardOf({
+        properties: { vid: '0x1a86', pid: '0x7523' },
+      })
+    ).toEqual({ name: 'Arduino Nano', fqbn: 'arduino:avr:nano' })
+    expect(didChange).toHaveBeenCalledTimes(1)
+
+    await identifications.forget('0x1a86:0x7523')
+
+    expect(identifications.boardOf(ch340)).toBeUndefined()
+    expect(identifications.entries).toEqual([])
+    identifications.dispose()
+  })
+})
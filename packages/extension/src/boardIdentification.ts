@@ -0,0 +1,221 @@
+import type { BoardListItem } from 'ardunno-cli'
+import type { BoardIdentifier, DetectedPorts, Port } from 'boards-list'
+import { FQBN } from 'fqbn'
+import * as vscode from 'vscode'
+
+import type { Arduino } from './cli/arduino'
+import { mementoKey } from './utils'
+
+/** The board the user selected for the ports with the VID/PID. */
+export interface RememberedBoard {
+  readonly name: string
+  readonly fqbn: string
+}
+
+/** A candidate board of a port that the CLI did not match. */
+export interface IdentifiedBoard {
+  readonly board: RememberedBoard
+  /** For example, `arduino:avr`. */
+  readonly platformId: string
+  readonly installed: boolean
+  /** The user selected the board for the VID/PID before. */
+  readonly remembered: boolean
+}
+
+/**
+ * The lowercase `vid:pid` of the port, for example, `0x1a86:0x7523` for the
+ * CH340 chip of the clone boards. `undefined` if the port has no VID/PID.
+ */
+export function portHardwareId(
+  port: Pick<Port, 'properties'> | undefined
+): string | undefined {
+  const vid = port?.properties?.vid?.toLowerCase()
+  const pid = port?.properties?.pid?.toLowerCase()
+  return vid && pid ? `${vid}:${pid}` : undefined
+}
+
+/** The ports with VID/PID that no installed platform matches. */
+export function unidentifiedPorts(detectedPorts: DetectedPorts): Port[] {
+  return Object.values(detectedPorts)
+    .filter(({ port, boards }) => !boards?.length && portHardwareId(port))
+    .map(({ port }) => port)
+}
+
+/**
+ * Adds the remembered board to the detected ports without boards, so that the
+ * board of the VID/PID is selected like a detected board.
+ */
+export function withRememberedBoards(
+  detectedPorts: DetectedPorts,
+  boardOf: (port: Port) => RememberedBoard | undefined
+): DetectedPorts {
+  let result: Record<string, DetectedPorts[string]> | undefined
+  for (const [key, detectedPort] of Object.entries(detectedPorts)) {
+    if (detectedPort.boards?.length) {
+      continue
+    }
+    const board = boardOf(detectedPort.port)
+    if (board) {
+      result ??= { ...detectedPorts }
+      result[key] = { ...detectedPort, boards: [{ ...board }] }
+    }
+  }
+  return result ?? detectedPorts
+}
+
+function platformIdOf(fqbn: string): string | undefined {
+  try {
+    const { vendor, arch } = new FQBN(fqbn)
+    return `${vendor}:${arch}`
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The remembered board comes first, then the boards identified by the CLI
+ * without the duplicates and the hidden boards.
+ */
+export function toIdentifiedBoards(
+  remembered: RememberedBoard | undefined,
+  identified: readonly BoardListItem[],
+  installedPlatformIds: ReadonlySet<string>
+): IdentifiedBoard[] {
+  const result: IdentifiedBoard[] = []
+  const seen = new Set<string>()
+  const add = (board: RememberedBoard, isRemembered: boolean) => {
+    const platformId = platformIdOf(board.fqbn)
+    if (!platformId) {
+      return
+    }
+    const key = new FQBN(board.fqbn).toString(true)
+    if (seen.has(key)) {
+      return
+    }
+    seen.add(key)
+    result.push({
+      board: { name: board.name, fqbn: board.fqbn },
+      platformId,
+      installed: installedPlatformIds.has(platformId),
+      remembered: isRemembered,
+    })
+  }
+  if (remembered) {
+    add(remembered, true)
+  }
+  for (const { name, fqbn, isHidden } of identified) {
+    if (fqbn && !isHidden) {
+      add({ name: name || fqbn, fqbn }, false)
+    }
+  }
+  return result
+}
+
+export async function identifyBoards(
+  arduino: Arduino,
+  port: Port,
+  identifications: BoardIdentifications,
+  signal?: AbortSignal
+): Promise<IdentifiedBoard[]> {
+  const [identified, installedPlatforms] = await Promise.all([
+    arduino
+      .identifyBoard(
+        {
+          properties: { ...port.properties },
+          useCloudApiForUnknownBoardDetection: true,
+        },
+        signal
+      )
+      .catch((err) => {
+        console.warn('Failed to identify the board of', port.address, err)
+        return []
+      }),
+    arduino.installedPlatforms({}, signal),
+  ])
+  return toIdentifiedBoards(
+    identifications.boardOf(port),
+    identified,
+    new Set(installedPlatforms.map(({ metadata }) => metadata?.id ?? ''))
+  )
+}
+
+/** Remembers the board the user selected for the VID/PID of a port. */
+export class BoardIdentifications implements vscode.Disposable {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>()
+  private readonly boards: Record<string, RememberedBoard>
+
+  constructor(private readonly memento: vscode.Memento) {
+    this.boards = { ...memento.get(mementoKey('boardIdentifications'), {}) }
+  }
+
+  get onDidChange(): vscode.Event<void> {
+    return this.onDidChangeEmitter.event
+  }
+
+  get entries(): [hardwareId: string, board: RememberedBoard][] {
+    return Object.entries(this.boards)
+  }
+
+  boardOf(
+    port: Pick<Port, 'properties'> | undefined
+  ): RememberedBoard | undefined {
+    const hardwareId = portHardwareId(port)
+    return hardwareId ? this.boards[hardwareId] : undefined
+  }
+
+  async remember(
+    port: Pick<Port, 'properties'>,
+    board: BoardIdentifier
+  ): Promise<void> {
+    const hardwareId = portHardwareId(port)
+    if (!hardwareId || !board.fqbn) {
+      return
+    }
+    const current = this.boards[hardwareId]
+    if (current?.fqbn === board.fqbn && current.name === board.name) {
+      return
+    }
+    this.boards[hardwareId] = { name: board.name, fqbn: board.fqbn }
+    await this.save()
+  }
+
+  async forget(...hardwareIds: string[]): Promise<void> {
+    hardwareIds.forEach((hardwareId) => delete this.boards[hardwareId])
+    await this.save()
+  }
+
+  dispose(): void {
+    this.onDidChangeEmitter.dispose()
+  }
+
+  private async save(): Promise<void> {
+    await this.memento.update(mementoKey('boardIdentifications'), this.boards)
+    this.onDidChangeEmitter.fire()
+  }
+}
+
+/** Lets the user pick the remembered VID/PID boards to forget. */
+export async function forgetRememberedBoards(
+  identifications: BoardIdentifications
+): Promise<void> {
+  const items = identifications.entries.map(([hardwareId, board]) => ({
+    label: board.name,
+    description: hardwareId,
+    detail: board.fqbn,
+    hardwareId,
+  }))
+  if (!items.length) {
+    vscode.window.showInformationMessage(
+      'No boards are remembered for VID/PID. Select a board for a port with an unknown board to remember it.'
+    )
+    return
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Forget Remembered Boards',
+    placeHolder: 'Select the VID/PID boards to forget',
+    canPickMany: true,
+  })
+  if (picked?.length) {
+    await identifications.forget(...picked.map(({ hardwareId }) => hardwareId))
+  }
+}
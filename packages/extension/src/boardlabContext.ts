@@ -18,6 +18,7 @@ import {
   isBoardIdentifier,
   isBoardsListItem,
   isPortIdentifier,
+  portIdentifierEquals,
 } from 'boards-list'
 import { FQBN } from 'fqbn'
 import defer from 'p-defer'
@@ -42,10 +43,13 @@ import {
   getSelectedBoard,
   notifyDidChangeSelectedBoard,
   type InstallEventParams,
+  type LineEnding,
 } from '@boardlab/protocol'
 
+import { BoardIdentifications, identifyBoards } from './boardIdentification'
 import { findBoardHistoryMatches, matchBoardByName } from './boardNameMatch'
 import {
+  BoardIdentificationSupport,
   BoardPickOptions,
   PickBoardResult,
   PlatformNotInstalledError,
@@ -60,17 +64,24 @@ import {
   InMemoryMonitorsRegistry,
   MonitorsRegistry,
 } from './central/monitorsRegistry'
-import { PortQName } from './cli/arduino'
+import { Arduino, PortQName } from './cli/arduino'
 import { Client } from './cli/client'
 import { TrackedCliConfig } from './cli/config'
 import { CliContext } from './cli/context'
 import { DaemonAddress } from './cli/daemon'
+import { DaemonStatusBar } from './cli/daemonStatusBar'
+import { DaemonSupervisor } from './cli/daemonSupervisor'
 import { toCompileSummary } from './compile'
 import { computeConfigOverrides } from './configOptions'
 import {
   MonitorManager,
   type MonitorRuntimeState,
 } from './monitor/monitorManager'
+import {
+  loadMonitorMacros,
+  runMonitorMacro,
+  type MonitorMacro,
+} from './monitor/monitorMacros'
 import { PlatformInfo, getPlatformRequirement } from './platformMissing'
 import {
   collectHistoryUpdates,
@@ -81,7 +92,11 @@ import { PortPickOptions, pickPort } from './ports'
 import { readProfiles } from './profile/profiles'
 import { LibrariesManager, PlatformsManager } from './resourcesManager'
 import { ConfigOptionItem } from './sketch/currentSketchView'
-import { SketchFolderImpl } from './sketch/sketchFolder'
+import {
+  SketchFolderImpl,
+  sketchProfileMementoKey,
+} from './sketch/sketchFolder'
+import type { SketchProfile } from './sketch/sketchProfile'
 import { restoreCurrentSketch } from './sketch/sketchRestore'
 import {
   SketchPathLike,
@@ -191,6 +206,14 @@ export interface MonitorClient {
   readonly onDidReceiveData: vscode.Event<Uint8Array>
   readonly onDidChangeState: vscode.Event<MonitorRuntimeState>
   send(message: string | Uint8Array): Promise<void>
+  /**
+   * Runs the macro on the port. A string is the name of a macro defined in the
+   * settings or the workspace `.boardlab/macros.json` file.
+   */
+  runMacro(
+    macro: MonitorMacro | string,
+    options?: { signal?: AbortSignal }
+  ): Promise<void>
   dispose(): void
 }
 
@@ -220,7 +243,8 @@ class BoardLabMonitorClientImpl implements MonitorClient {
       this.onDidReceiveDataEmitter,
       this.onDidChangeStateEmitter,
       monitorManager.onDidReceiveMonitorData((event) => {
-        if (createPortKey(event.port) !== portKey) {
+        // Each client has its own stream of the port
+        if (event.clientId !== this.clientId) {
           return
         }
         this.onDidReceiveDataEmitter.fire(event.data)
@@ -248,6 +272,27 @@ class BoardLabMonitorClientImpl implements MonitorClient {
     await this.monitorManager.sendMonitorMessage(this.port, message)
   }
 
+  async runMacro(
+    macro: MonitorMacro | string,
+    options?: { signal?: AbortSignal }
+  ): Promise<void> {
+    if (typeof macro === 'string') {
+      const name = macro
+      const { macros } = await loadMonitorMacros()
+      const found = macros.find((candidate) => candidate.macro.name === name)
+      if (!found) {
+        throw new Error(`Monitor macro not found: ${name}`)
+      }
+      macro = found.macro
+    }
+    await runMonitorMacro(macro, this, {
+      signal: options?.signal,
+      lineEnding: vscode.workspace
+        .getConfiguration('boardlab.monitor')
+        .get<LineEnding>('lineEnding', 'crlf'),
+    })
+  }
+
   dispose(): void {
     this.monitorManager.unregisterExternalMonitorClient(
       this.clientId,
@@ -265,6 +310,14 @@ export interface MonitorSuspensionResult {
   result: Promise<PortIdentifier | undefined>
 }
 
+/** How the compile summary of a sketch was built. */
+export interface CompileSummaryOrigin {
+  readonly fqbn?: string
+  readonly profile?: string
+  /** `true` if the sketch was compiled with debug symbols. */
+  readonly optimizeForDebug: boolean
+}
+
 type SketchPort = SketchFolder['port']
 type SelectedPort = NonNullable<SketchPort>
 
@@ -326,7 +379,9 @@ export class BoardLabContextImpl implements BoardLabContext {
   readonly librariesManager: LibrariesManager
   readonly monitorManager: MonitorManager
   readonly boardsListWatcher: BoardsListWatcher
+  readonly boardIdentifications: BoardIdentifications
   readonly monitorsRegistry: MonitorsRegistry
+  readonly daemonSupervisor: DaemonSupervisor
 
   private readonly pinnedSketches: RecentItems<string>
   private readonly recentSketches: RecentItems<string>
@@ -370,6 +425,11 @@ export class BoardLabContextImpl implements BoardLabContext {
     ApiBoardDetails | PlatformNotInstalledError
   > = new Map()
 
+  private readonly compileSummaryOrigins = new Map<
+    string,
+    CompileSummaryOrigin
+  >()
+
   constructor(
     private readonly context: vscode.ExtensionContext,
     private readonly messenger: Messenger,
@@ -378,11 +438,22 @@ export class BoardLabContextImpl implements BoardLabContext {
     this.outputChannel = outputChannel
     this.workspaceState = context.workspaceState
     this.cliContext = new CliContext(context)
-    this._client = createClient(this.cliContext)
+    this.daemonSupervisor = new DaemonSupervisor(this.cliContext.daemon)
+    this._client = createClient(this.cliContext, this.daemonSupervisor)
     this._currentCliConfig = this.snapshotCliConfig(
       this.cliContext.cliConfig.data
     )
     context.subscriptions.push(
+      this.daemonSupervisor,
+      new DaemonStatusBar(this.daemonSupervisor),
+      vscode.commands.registerCommand('boardlab.cli.restartDaemon', () =>
+        this.daemonSupervisor.retry()
+      ),
+      this.cliContext.daemon.onDidChangeAddress((address) => {
+        if (!address) {
+          this.handleDaemonStopped()
+        }
+      }),
       this.cliContext.cliConfig.onDidChangeData((data) => {
         const previous = this._currentCliConfig
         const current = this.snapshotCliConfig(data)
@@ -455,8 +526,10 @@ export class BoardLabContextImpl implements BoardLabContext {
       outputChannel
     )
     this.monitorsRegistry = new InMemoryMonitorsRegistry()
+    this.boardIdentifications = new BoardIdentifications(context.globalState)
     this.boardsListWatcher = new BoardsListWatcher(
-      this.monitorManager.getBridgeClient()
+      this.monitorManager.getBridgeClient(),
+      this.boardIdentifications
     )
     this.boardsListWatcher.start()
     // Load active profiles from global state
@@ -518,6 +591,7 @@ export class BoardLabContextImpl implements BoardLabContext {
       this.monitorManager,
       this.monitorsRegistry,
       this.boardsListWatcher,
+      this.boardIdentifications,
       this._onDidChangeActiveProfile,
       vscode.commands.registerCommand('boardlab.selectSketch', () =>
         this.selectSketch()
@@ -1025,11 +1099,38 @@ export class BoardLabContextImpl implements BoardLabContext {
 
   get client(): Promise<Client> {
     if (!this._client) {
-      this._client = createClient(this.cliContext)
+      this._client = createClient(this.cliContext, this.daemonSupervisor)
     }
     return this._client
   }
 
+  /**
+   * The daemon is gone. Callers of `client` wait for the restarted daemon. The
+   * caches are rebuilt from the new daemon once it's ready.
+   */
+  private handleDaemonStopped(): void {
+    const previous = this._client
+    const next = createClient(this.cliContext, this.daemonSupervisor)
+    this._client = next
+    previous?.then(
+      (client) => client.dispose(),
+      () => undefined
+    )
+    next.then(
+      () => {
+        if (this._client !== next) {
+          return
+        }
+        this._boardDetailsCache = new Map()
+        this.portSettingsCache.clear()
+        this.platformsManager.notifyIndexUpdated()
+        this.librariesManager.notifyIndexUpdated()
+      },
+      (error) =>
+        console.warn('Failed to reconnect to the Arduino CLI daemon', error)
+    )
+  }
+
   get config(): CliConfig {
     if (!this._currentCliConfig) {
       return {
@@ -1128,9 +1229,17 @@ export class BoardLabContextImpl implements BoardLabContext {
     return this.currentSketch
   }
 
+  /** How the current compile summary of the sketch was built, if known. */
+  getCompileSummaryOrigin(
+    sketchPath: string
+  ): CompileSummaryOrigin | undefined {
+    return this.compileSummaryOrigins.get(sketchPath)
+  }
+
   async updateCompileSummary(
     sketchPath: string,
-    result: BuilderResult | undefined
+    result: BuilderResult | undefined,
+    origin?: CompileSummaryOrigin
   ): Promise<void> {
     let sketch = this.sketchbooks.resolvedSketchFolders.find(
       (folder) => folder.sketchPath === sketchPath
@@ -1148,6 +1257,11 @@ export class BoardLabContextImpl implements BoardLabContext {
       return
     }
     sketch.compileSummary = summary
+    if (summary && origin) {
+      this.compileSummaryOrigins.set(sketchPath, origin)
+    } else {
+      this.compileSummaryOrigins.delete(sketchPath)
+    }
     this._onDidChangeSketch.fire({
       object: sketch,
       changedProperties: ['compileSummary'],
@@ -1173,7 +1287,11 @@ export class BoardLabContextImpl implements BoardLabContext {
       arduino,
       boardsConfig,
       () => this.boardsListWatcher.detectedPorts,
-      this.boardsListWatcher.onDidChangeDetectedPorts
+      this.boardsListWatcher.onDidChangeDetectedPorts,
+      undefined,
+      undefined,
+      undefined,
+      this.boardIdentificationSupport(arduino)
     )
     let board: BoardIdentifier
     let port: SketchPort
@@ -1212,9 +1330,58 @@ export class BoardLabContextImpl implements BoardLabContext {
     sketch.setBoard(boardsConfig.selectedBoard)
     sketch.setPort(boardsConfig.selectedPort)
     this.emitSketchChange(sketch, 'port', 'board')
+    this.rememberUnidentifiedBoard(
+      boardsConfig.selectedPort,
+      boardsConfig.selectedBoard
+    )
     return boardsConfig
   }
 
+  /**
+   * Remembers the board selected for a port that no installed platform matches,
+   * so that the board is detected on the ports with the same VID/PID.
+   */
+  private rememberUnidentifiedBoard(
+    port: PortIdentifier | undefined,
+    board: BoardIdentifier | undefined
+  ): void {
+    if (!port || !board?.fqbn) {
+      return
+    }
+    const detected = Object.values(
+      this.boardsListWatcher.cliDetectedPorts
+    ).find((candidate) => portIdentifierEquals(candidate.port, port))
+    if (detected && !detected.boards?.length) {
+      this.boardIdentifications.remember(detected.port, board)
+    }
+  }
+
+  private boardIdentificationSupport(
+    arduino: Arduino
+  ): BoardIdentificationSupport {
+    return {
+      identify: (port, signal) =>
+        identifyBoards(arduino, port, this.boardIdentifications, signal),
+      installPlatform: async (id) => {
+        const platform = await this.platformsManager.lookupPlatformQuick(id)
+        const version = platform?.availableVersions[0]
+        if (!version) {
+          vscode.window.showWarningMessage(
+            `Unable to resolve versions for platform '${id}'.`
+          )
+          return false
+        }
+        await this.platformsManager.install({
+          id,
+          name: platform.label,
+          version,
+        })
+        const installed = await arduino.installedPlatforms({})
+        return installed.some(({ metadata }) => metadata?.id === id)
+      },
+    }
+  }
+
   async pickPort(
     currentSketchOrOptions: SketchFolder | PortPickOptions | undefined = this
       .currentSketch,
@@ -1279,10 +1446,20 @@ export class BoardLabContextImpl implements BoardLabContext {
     if (!currentSketch) {
       return undefined
     }
-    const boardsConfig: BoardsConfig = {
-      selectedBoard: currentSketch.board,
-      selectedPort: currentSketch.port,
-    }
+    return this.pickBoardForConfig(
+      {
+        selectedBoard: currentSketch.board,
+        selectedPort: currentSketch.port,
+      },
+      options
+    )
+  }
+
+  /** Picks a board without a sketch, for example, for a new sketch. */
+  async pickBoardForConfig(
+    boardsConfig: BoardsConfig | undefined,
+    options?: BoardPickOptions
+  ): Promise<PickBoardResult | undefined> {
     const { arduino } = await this.client
     return pickBoard(
       arduino,
@@ -1291,7 +1468,8 @@ export class BoardLabContextImpl implements BoardLabContext {
       this.boardsListWatcher.onDidChangeDetectedPorts,
       this.recentBoards,
       this.pinnedBoards,
-      options
+      options,
+      this.boardIdentificationSupport(arduino)
     )
   }
 
@@ -1450,6 +1628,7 @@ export class BoardLabContextImpl implements BoardLabContext {
       sketch.setPort(port)
     }
     this.emitSketchChange(sketch, 'port', 'board')
+    this.rememberUnidentifiedBoard(port ?? sketch.port, board)
 
     // TODO: move this somewhere else
     this.messenger.sendNotification(
@@ -1461,6 +1640,18 @@ export class BoardLabContextImpl implements BoardLabContext {
     return picked
   }
 
+  /**
+   * Selects the board of a sketch before it is resolved, for example, the board
+   * of a new sketch that is not in the workspace yet.
+   */
+  async presetSketchBoard(sketchPath: string, fqbn: string): Promise<void> {
+    const profile: SketchProfile = { fqbn }
+    await this.context.globalState.update(
+      sketchProfileMementoKey(sketchPath),
+      profile
+    )
+  }
+
   async applyBoardSettingsFromFqbn(
     sketch: SketchFolderImpl,
     fqbn: string
@@ -1936,25 +2127,30 @@ export class BoardLabContextImpl implements BoardLabContext {
   }
 }
 
-async function createClient(cliContext: CliContext): Promise<Client> {
+async function createClient(
+  cliContext: CliContext,
+  supervisor: DaemonSupervisor
+): Promise<Client> {
   const { daemon } = cliContext
   const { address } = daemon
   if (address) {
-    return initClient(address)
+    return initClient(address, supervisor)
   }
   const deferred = defer<Client>()
   const toDispose = [
     daemon.onDidChangeAddress((address) => {
       if (address) {
-        deferred.resolve(initClient(address))
+        deferred.resolve(initClient(address, supervisor))
       }
     }),
   ]
   return deferred.promise.finally(() => disposeAll(...toDispose))
 }
 
-function initClient(address: DaemonAddress) {
-  const client = new Client(address)
+function initClient(address: DaemonAddress, supervisor: DaemonSupervisor) {
+  const client: Client = new Client(address, () =>
+    supervisor.reportUnavailable(client)
+  )
   return Promise.resolve(
     vscode.window.withProgress(
       { title: 'Arduino CLI', location: vscode.ProgressLocation.Window },
@@ -14,6 +14,7 @@ import {
   PortIdentifier,
   boardIdentifierEquals,
   createBoardsList,
+  createPortKey,
   isBoardIdentifier,
 } from 'boards-list'
 import { FQBN } from 'fqbn'
@@ -28,6 +29,11 @@ import {
   BoardDetails,
 } from 'vscode-arduino-api'
 
+import {
+  portHardwareId,
+  unidentifiedPorts,
+  type IdentifiedBoard,
+} from './boardIdentification'
 import { Arduino } from './cli/arduino'
 import { portProtocolIcon } from './ports'
 import {
@@ -65,6 +71,18 @@ export interface BoardPickCandidate {
 export interface BoardPickOptions
   extends QuickPickConstraints<BoardPickCandidate> {}
 
+/** Suggests the boards of the ports that no installed platform matches. */
+export interface BoardIdentificationSupport {
+  identify(port: Port, signal: AbortSignal): Promise<IdentifiedBoard[]>
+  /** Resolves to `true` when the platform is installed. */
+  installPlatform(platformId: string): Promise<boolean>
+}
+
+export interface IdentifiedPortBoards {
+  readonly port: Port
+  readonly boards: readonly IdentifiedBoard[]
+}
+
 function toBoardPickCandidate(selection: PickBoardResult): BoardPickCandidate {
   if (isBoardIdentifier(selection)) {
     return {
@@ -129,7 +147,8 @@ export async function pickBoard(
   onDidChangeDetectedPorts: vscode.Event<unknown>,
   recentItems: RecentItems<BoardIdentifier> = noopRecentItems(),
   pinnedItems: RecentItems<BoardIdentifier> = noopRecentItems(),
-  options: BoardPickOptions = {}
+  options: BoardPickOptions = {},
+  identification?: BoardIdentificationSupport
 ): Promise<PickBoardResult | undefined> {
   const toDispose: vscode.Disposable[] = []
   const input = vscode.window.createQuickPick()
@@ -143,102 +162,149 @@ export async function pickBoard(
   // input.ignoreFocusOut = true // TODO:  (debug only)
   input.show()
   try {
-    const selected = await new Promise<PickBoardResult | undefined>(
-      (resolve) => {
-        const cancel = new AbortController()
-        let updateToken = 0
-        let searchResultBoards: BoardListItem[] | undefined
-        const search = async (searchArgs = '') => {
+    const selected = await new Promise<
+      PickBoardResult | IdentifiedBoardQuickPickItem | undefined
+    >((resolve) => {
+      const cancel = new AbortController()
+      let updateToken = 0
+      let searchResultBoards: BoardListItem[] | undefined
+      let identifiedBoards: IdentifiedPortBoards[] = []
+      const identifications = new Map<string, Promise<IdentifiedBoard[]>>()
+      const identify = async () => {
+        if (!identification) {
+          return
+        }
+        const ports = unidentifiedPorts(detectedPorts())
+        const identified = await Promise.all(
+          ports.map(async (port) => {
+            const key = createPortKey(port)
+            let boards = identifications.get(key)
+            if (!boards) {
+              boards = identification
+                .identify(port, cancel.signal)
+                .catch(() => [])
+              identifications.set(key, boards)
+            }
+            return { port, boards: await boards }
+          })
+        )
+        if (cancel.signal.aborted) {
+          return
+        }
+        identifiedBoards = identified.filter(({ boards }) => boards.length)
+        updateItems()
+      }
+      const search = async (searchArgs = '') => {
+        input.busy = true
+        try {
+          searchResultBoards = !searchArgs
+            ? undefined
+            : await arduino.searchBoard({ searchArgs }, cancel.signal)
+        } finally {
+          updateItems()
+        }
+      }
+      const updateItems = (): void => {
+        const currentToken = ++updateToken
+        ;(async () => {
           input.busy = true
           try {
-            searchResultBoards = !searchArgs
-              ? undefined
-              : await arduino.searchBoard({ searchArgs }, cancel.signal)
+            const boardsList = createBoardsList(detectedPorts(), boardsConfig)
+            const items = await toBoardQuickPickItems(
+              boardsList,
+              searchResultBoards?.slice(),
+              pinnedItems.items,
+              recentItems.items,
+              options,
+              identifiedBoards
+            )
+            if (currentToken !== updateToken) {
+              return
+            }
+            input.items = items
           } finally {
-            updateItems()
+            if (currentToken === updateToken) {
+              input.busy = false
+            }
           }
-        }
-        const updateItems = (): void => {
-          const currentToken = ++updateToken
+        })()
+      }
+      toDispose.push(
+        input.onDidChangeValue(search),
+        input.onDidHide(() => {
+          cancel.abort()
+          resolve(undefined)
+          input.dispose()
+        }),
+        input.onDidChangeSelection((items) => {
           ;(async () => {
-            input.busy = true
-            try {
-              const boardsList = createBoardsList(detectedPorts(), boardsConfig)
-              const items = await toBoardQuickPickItems(
-                boardsList,
-                searchResultBoards?.slice(),
-                pinnedItems.items,
-                recentItems.items,
-                options
-              )
-              if (currentToken !== updateToken) {
-                return
-              }
-              input.items = items
-            } finally {
-              if (currentToken === updateToken) {
-                input.busy = false
-              }
-            }
-          })()
-        }
-        toDispose.push(
-          input.onDidChangeValue(search),
-          input.onDidHide(() => {
-            cancel.abort()
-            resolve(undefined)
-            input.dispose()
-          }),
-          input.onDidChangeSelection((items) => {
-            ;(async () => {
-              const item = items[0]
-              if (item instanceof QuickInputNoopLabel) {
-                return
-              }
-              let result: PickBoardResult | undefined
-              let selectedBoardForHistory: BoardIdentifier | undefined
-              if (item instanceof BoardsListQuickPickItem) {
-                result = item.item
-                selectedBoardForHistory = item.item.board
-              } else if (item instanceof BoardQuickPickItem) {
-                result = item.data
-                selectedBoardForHistory = item.data
-              }
-              if (!result || !selectedBoardForHistory) {
-                return
-              }
-              // Fire and forget; history update is persisted via memento.
-              recentItems.add(selectedBoardForHistory)
-              resolve(result)
-              input.hide()
-            })()
-          }),
-          input.onDidTriggerItemButton(async ({ item, button }) => {
+            const item = items[0]
             if (item instanceof QuickInputNoopLabel) {
               return
             }
-            if (!(item instanceof BoardQuickPickItem)) {
+            if (item instanceof IdentifiedBoardQuickPickItem) {
+              resolve(item)
+              input.hide()
               return
             }
-            const data = item.data
-            if (!data) {
-              return
+            let result: PickBoardResult | undefined
+            let selectedBoardForHistory: BoardIdentifier | undefined
+            if (item instanceof BoardsListQuickPickItem) {
+              result = item.item
+              selectedBoardForHistory = item.item.board
+            } else if (item instanceof BoardQuickPickItem) {
+              result = item.data
+              selectedBoardForHistory = item.data
             }
-            if (button === pinnedButton) {
-              await pinnedItems.remove(data)
-            } else if (button === pinButton) {
-              await pinnedItems.add(data)
-            } else if (button === removeButton) {
-              await recentItems.remove(data)
+            if (!result || !selectedBoardForHistory) {
+              return
             }
-          }),
-          onDidChangeDetectedPorts(updateItems),
-          pinnedItems.onDidUpdate(updateItems),
-          recentItems.onDidUpdate(updateItems)
-        )
-        updateItems()
+            // Fire and forget; history update is persisted via memento.
+            recentItems.add(selectedBoardForHistory)
+            resolve(result)
+            input.hide()
+          })()
+        }),
+        input.onDidTriggerItemButton(async ({ item, button }) => {
+          if (item instanceof QuickInputNoopLabel) {
+            return
+          }
+          if (!(item instanceof BoardQuickPickItem)) {
+            return
+          }
+          const data = item.data
+          if (!data) {
+            return
+          }
+          if (button === pinnedButton) {
+            await pinnedItems.remove(data)
+          } else if (button === pinButton) {
+            await pinnedItems.add(data)
+          } else if (button === removeButton) {
+            await recentItems.remove(data)
+          }
+        }),
+        onDidChangeDetectedPorts(() => {
+          updateItems()
+          identify()
+        }),
+        pinnedItems.onDidUpdate(updateItems),
+        recentItems.onDidUpdate(updateItems)
+      )
+      updateItems()
+      identify()
+    })
+    if (selected instanceof IdentifiedBoardQuickPickItem) {
+      const { port, identified } = selected
+      if (
+        !identified.installed &&
+        !(await identification?.installPlatform(identified.platformId))
+      ) {
+        return undefined
       }
-    )
+      recentItems.add(identified.board)
+      return { port, board: identified.board }
+    }
     return selected
   } finally {
     disposeAll(...toDispose)
@@ -250,9 +316,38 @@ export async function toBoardQuickPickItems(
   searchResultBoards: BoardListItem[] | undefined,
   pinnedBoards: BoardIdentifier[],
   recentBoards: BoardIdentifier[],
-  options: BoardPickOptions = {}
+  options: BoardPickOptions = {},
+  identifiedBoards: readonly IdentifiedPortBoards[] = []
 ): Promise<vscode.QuickPickItem[]> {
   const quickItems: vscode.QuickPickItem[] = []
+
+  // The suggestions for the unknown ports come first, except when searching
+  if (!searchResultBoards) {
+    const identifiedItems: vscode.QuickPickItem[] = []
+    for (const { port, boards } of identifiedBoards) {
+      for (const identified of boards) {
+        if (
+          await isBoardSelectionAllowed(
+            { port, board: identified.board },
+            options
+          )
+        ) {
+          identifiedItems.push(
+            new IdentifiedBoardQuickPickItem(port, identified)
+          )
+        }
+      }
+    }
+    if (identifiedItems.length) {
+      quickItems.push(
+        {
+          label: 'identified boards',
+          kind: vscode.QuickPickItemKind.Separator,
+        },
+        ...identifiedItems
+      )
+    }
+  }
   const filteredSearchResultBoards = searchResultBoards
     ? await filterBoardIdentifiersForQuickPick(searchResultBoards, options)
     : undefined
@@ -500,6 +595,26 @@ class BoardsListQuickPickItem extends BoardQuickPickItem {
     }
   }
 }
+class IdentifiedBoardQuickPickItem implements vscode.QuickPickItem {
+  readonly label: string
+  readonly description: string
+  readonly detail: string
+  readonly alwaysShow = true
+
+  constructor(
+    readonly port: Port,
+    readonly identified: IdentifiedBoard
+  ) {
+    this.label = `$(sparkle) ${identified.board.name}`
+    this.description = `on ${port.address}`
+    this.detail = !identified.installed
+      ? `Install platform ${identified.platformId} and select`
+      : identified.remembered
+        ? `Remembered for ${portHardwareId(port)}`
+        : `Identified from ${portHardwareId(port)}`
+  }
+}
+
 export function portQuickItemLabel(port: Port, selected = false): string {
   const icon = portProtocolIcon(port)
   return `${selected ? '$(check) ' : ''}${icon} ${port.label}`
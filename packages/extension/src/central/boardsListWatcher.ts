@@ -2,6 +2,10 @@ import type { DetectedPorts } from 'boards-list'
 import deepEqual from 'fast-deep-equal'
 import * as vscode from 'vscode'
 
+import {
+  withRememberedBoards,
+  type BoardIdentifications,
+} from '../boardIdentification'
 import type { MonitorBridgeClient } from '../monitor/monitorBridgeClient'
 
 export type PortId = string
@@ -30,18 +34,37 @@ export class BoardsListWatcher implements vscode.Disposable {
 
   private started = false
   private disposed = false
+  private _cliDetectedPorts: DetectedPorts = {}
   private _detectedPorts: DetectedPorts = {}
 
-  constructor(private readonly bridgeClient: MonitorBridgeClient) {}
+  constructor(
+    private readonly bridgeClient: MonitorBridgeClient,
+    private readonly identifications?: BoardIdentifications
+  ) {
+    if (identifications) {
+      this.disposables.push(
+        identifications.onDidChange(() => this.updateDetectedPorts())
+      )
+    }
+  }
 
   get onDidChangeDetectedPorts(): vscode.Event<DetectedPorts> {
     return this.onDidChangeDetectedPortsEmitter.event
   }
 
+  /**
+   * The ports without a matching board have the remembered board of the
+   * VID/PID.
+   */
   get detectedPorts(): DetectedPorts {
     return this._detectedPorts
   }
 
+  /** The ports as detected by the CLI, without the remembered boards. */
+  get cliDetectedPorts(): DetectedPorts {
+    return this._cliDetectedPorts
+  }
+
   get onDidChangeDefaultBaudrateHint(): vscode.Event<
     DefaultBaudrateHint | undefined
   > {
@@ -90,6 +113,20 @@ export class BoardsListWatcher implements vscode.Disposable {
   }
 
   private handleDetectedPorts(detectedPorts: DetectedPorts): void {
+    if (deepEqual(this._cliDetectedPorts, detectedPorts)) {
+      return
+    }
+    this._cliDetectedPorts = detectedPorts
+    this.updateDetectedPorts()
+  }
+
+  private updateDetectedPorts(): void {
+    const identifications = this.identifications
+    const detectedPorts = identifications
+      ? withRememberedBoards(this._cliDetectedPorts, (port) =>
+          identifications.boardOf(port)
+        )
+      : this._cliDetectedPorts
     if (deepEqual(this._detectedPorts, detectedPorts)) {
       return
     }
@@ -1,5 +1,5 @@
 import { performance } from 'node:perf_hooks'
-import { TextDecoder } from 'node:util'
+import { TextDecoder, TextEncoder } from 'node:util'
 
 import { isAbortError } from 'abort-controller-x'
 import type {
@@ -8,6 +8,7 @@ import type {
   ArduinoCoreServiceClient,
   BoardDetailsRequest,
   BoardDetailsResponse,
+  BoardIdentifyRequest,
   BoardListItem,
   BoardSearchRequest,
   BuilderResult,
@@ -19,8 +20,14 @@ import type {
   ConfigurationSaveRequest,
   EnumerateMonitorPortSettingsRequest,
   EnumerateMonitorPortSettingsResponse,
+  GetDebugConfigRequest,
+  GetDebugConfigResponse,
+  GitLibraryInstallRequest,
+  GitLibraryInstallResponse,
   InstalledLibrary,
   Instance,
+  IsDebugSupportedRequest,
+  IsDebugSupportedResponse,
   Library,
   LibraryInstallRequest,
   LibraryInstallResponse,
@@ -42,14 +49,19 @@ import type {
   PlatformUninstallResponse,
   SearchedLibrary,
   SettingsSetValueRequest,
+  SketchProfile,
+  SupportedUserFieldsRequest,
   UpdateIndexRequest,
   UpdateIndexResponse,
   UpdateLibrariesIndexRequest,
   UpdateLibrariesIndexResponse,
+  ZipLibraryInstallRequest,
+  ZipLibraryInstallResponse,
   UploadRequest,
   UploadResponse,
   UploadUsingProgrammerRequest,
   UploadUsingProgrammerResponse,
+  UserField,
 } from 'ardunno-cli/api'
 import {
   BoardIdentifier,
@@ -109,15 +121,23 @@ export interface Arduino extends vscode.Disposable {
   // #endregion
 
   // #region commands
-  compile(req: Partial<Omit<CompileRequest, 'instance'>>): {
+  /**
+   * When `profile` is set, the request runs on a dedicated instance initialized
+   * with the sketch profile, and the FQBN of the profile takes precedence over
+   * `fqbn`.
+   */
+  compile(req: Partial<Omit<CompileRequest, 'instance'>> & ProfileOptions): {
     pty: vscode.Pseudoterminal
     result: Promise<BuilderResult | undefined>
     progress: vscode.Event<CompileProgressUpdate>
   }
 
   // TODO: should be upload(req, {signal?, retry?})
+  /** See `compile` for how the `profile` is applied. */
   upload(
-    req: Partial<Omit<UploadRequest, 'instance'>> & { retry?: number },
+    req: Partial<Omit<UploadRequest, 'instance'>> & {
+      retry?: number
+    } & ProfileOptions,
     signal?: AbortSignal
   ): {
     pty: vscode.Pseudoterminal
@@ -141,6 +161,15 @@ export interface Arduino extends vscode.Disposable {
     pty: vscode.Pseudoterminal
     result: Promise<PortIdentifier | undefined>
   }
+
+  /**
+   * The fields, such as the network password, the upload tool of the board
+   * needs for the protocol. Empty when the upload needs no user input.
+   */
+  supportedUserFields(
+    req: Partial<Omit<SupportedUserFieldsRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<UserField[]>
   // #endregion
 
   // #region platforms
@@ -186,6 +215,21 @@ export interface Arduino extends vscode.Disposable {
     signal?: AbortSignal
   ): AsyncIterable<LibraryInstallResponse>
 
+  /** Installs the library from the archive at `path`. */
+  installLibraryFromZip(
+    req: Partial<Omit<ZipLibraryInstallRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): AsyncIterable<ZipLibraryInstallResponse>
+
+  /**
+   * Installs the library from the git repository at `url`. A `#ref` suffix
+   * selects the tag, branch, or commit.
+   */
+  installLibraryFromGit(
+    req: Partial<Omit<GitLibraryInstallRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): AsyncIterable<GitLibraryInstallResponse>
+
   resolveLibraryDependencies(
     req: Partial<Omit<LibraryResolveDependenciesRequest, 'instance'>>,
     signal?: AbortSignal
@@ -206,6 +250,32 @@ export interface Arduino extends vscode.Disposable {
   boardDetails(
     req: Partial<Omit<BoardDetailsRequest, 'instance'>>
   ): Promise<BoardDetailsResponse>
+
+  /**
+   * The boards matching the port properties. With the cloud API, the boards of
+   * the platforms that are not installed are included.
+   */
+  identifyBoard(
+    req: Partial<Omit<BoardIdentifyRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<BoardListItem[]>
+  // #endregion
+
+  // #region debug
+  isDebugSupported(
+    req: Partial<Omit<IsDebugSupportedRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<IsDebugSupportedResponse>
+
+  /**
+   * Resolves the GDB server, toolchain, and executable details of a sketch
+   * compiled with debug symbols. Use `importDir` to point to the build folder
+   * of the last compilation.
+   */
+  getDebugConfig(
+    req: Partial<Omit<GetDebugConfigRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<GetDebugConfigResponse>
   // #endregion
 
   // #region cli configuration
@@ -237,6 +307,11 @@ export interface Arduino extends vscode.Disposable {
   // #endregion
 }
 
+export interface ProfileOptions {
+  /** The name of the profile from the `sketch.yaml` of the sketch. */
+  profile?: string
+}
+
 /** For example, `arduino:avr:core`. */
 export type FQBN = string
 
@@ -343,17 +418,30 @@ export class ArduinoCli implements Arduino {
     )
   }
 
-  compile(req: Partial<Omit<CompileRequest, 'instance'>>): {
+  compile(req: Partial<Omit<CompileRequest, 'instance'>> & ProfileOptions): {
     pty: vscode.Pseudoterminal
     result: Promise<BuilderResult | undefined>
     progress: vscode.Event<CompileProgressUpdate>
   } {
+    const { profile, ...compileRequest } = req
     const deferred = defer<BuilderResult | undefined>()
     const onDidProgressEmitter =
       new vscode.EventEmitter<CompileProgressUpdate>()
     const streamable = createStreamable<CompileResponse, BuilderResult>(
       (signal) =>
-        this.client.compile({ ...req, instance: this.instance }, { signal }),
+        this.withProfileInstance<CompileResponse>(
+          { profile, sketchPath: compileRequest.sketchPath },
+          signal,
+          (instance, sketchProfile) =>
+            this.client.compile(
+              {
+                ...compileRequest,
+                fqbn: sketchProfile?.fqbn || compileRequest.fqbn,
+                instance,
+              },
+              { signal }
+            )
+        ),
       (response, emitter) => {
         const msg = response.message
         if (!msg) {
@@ -403,13 +491,15 @@ export class ArduinoCli implements Arduino {
   }
 
   upload(
-    req: Partial<Omit<UploadRequest, 'instance'>> & { retry?: number },
+    req: Partial<Omit<UploadRequest, 'instance'>> & {
+      retry?: number
+    } & ProfileOptions,
     signal?: AbortSignal
   ): {
     pty: vscode.Pseudoterminal
     result: Promise<PortIdentifier | undefined>
   } {
-    const { retry, ...uploadRequest } = req
+    const { retry, profile, ...uploadRequest } = req
     const retryOptions = buildRetryOptions(retry)
     const deferred = defer<PortIdentifier | undefined>()
     const streamable = createStreamable<
@@ -417,9 +507,18 @@ export class ArduinoCli implements Arduino {
       PortIdentifier | undefined
     >(
       (streamSignal) =>
-        this.client.upload(
-          { ...uploadRequest, instance: this.instance },
-          { signal: streamSignal }
+        this.withProfileInstance<UploadResponse>(
+          { profile, sketchPath: uploadRequest.sketchPath },
+          streamSignal,
+          (instance, sketchProfile) =>
+            this.client.upload(
+              {
+                ...uploadRequest,
+                fqbn: sketchProfile?.fqbn || uploadRequest.fqbn,
+                instance,
+              },
+              { signal: streamSignal }
+            )
         ),
       (response, emitter) => {
         const message = response.message
@@ -501,6 +600,77 @@ export class ArduinoCli implements Arduino {
     )
   }
 
+  async supportedUserFields(
+    req: Partial<Omit<SupportedUserFieldsRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<UserField[]> {
+    const { userFields } = await this.client.supportedUserFields(
+      { instance: this.instance, ...req },
+      { signal }
+    )
+    return userFields
+  }
+
+  /**
+   * Runs the command on the shared instance when no `profile` is given.
+   * Otherwise, creates a short-lived instance initialized with the sketch
+   * profile. The CLI installs the missing platforms and libraries of the
+   * profile during the init; the progress is streamed as command output.
+   */
+  private async *withProfileInstance<RESP extends StdResponse>(
+    { profile, sketchPath }: ProfileOptions & { sketchPath?: string },
+    signal: AbortSignal,
+    run: (
+      instance: Instance | undefined,
+      sketchProfile?: SketchProfile
+    ) => AsyncIterable<RESP>
+  ): AsyncIterable<RESP> {
+    if (!profile) {
+      for await (const response of run(this.instance)) {
+        yield response
+      }
+      return
+    }
+    const { instance } = await this.client.create({}, { signal })
+    try {
+      let sketchProfile: SketchProfile | undefined
+      for await (const { message } of this.client.init(
+        { instance, profile, sketchPath: sketchPath ?? '' },
+        { signal }
+      )) {
+        switch (message?.$case) {
+          case 'profile': {
+            sketchProfile = message.profile
+            break
+          }
+          case 'error': {
+            yield toStreamResponse<RESP>(
+              'errStream',
+              `${message.error.message}\n`
+            )
+            break
+          }
+          case 'initProgress': {
+            const task = message.initProgress.taskProgress
+            if (task?.name && !task.completed) {
+              yield toStreamResponse<RESP>('outStream', `${task.name}\n`)
+            }
+            break
+          }
+        }
+      }
+      for await (const response of run(instance, sketchProfile)) {
+        yield response
+      }
+    } finally {
+      await this.client
+        .destroy({ instance })
+        .catch((err) =>
+          console.warn(`Failed to destroy instance of profile ${profile}`, err)
+        )
+    }
+  }
+
   private execute<RESP extends StdResponse, RESULT = void>(
     task: (signal: AbortSignal) => AsyncIterable<RESP>,
     signal?: AbortSignal,
@@ -677,6 +847,26 @@ export class ArduinoCli implements Arduino {
     )
   }
 
+  installLibraryFromZip(
+    req: Partial<Omit<ZipLibraryInstallRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): AsyncIterable<ZipLibraryInstallResponse> {
+    return this.client.zipLibraryInstall(
+      { ...req, instance: this.instance },
+      { signal }
+    )
+  }
+
+  installLibraryFromGit(
+    req: Partial<Omit<GitLibraryInstallRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): AsyncIterable<GitLibraryInstallResponse> {
+    return this.client.gitLibraryInstall(
+      { ...req, instance: this.instance },
+      { signal }
+    )
+  }
+
   resolveLibraryDependencies(
     req: Partial<Omit<LibraryResolveDependenciesRequest, 'instance'>>,
     signal?: AbortSignal
@@ -721,6 +911,44 @@ export class ArduinoCli implements Arduino {
     return this.client.boardDetails({ instance: this.instance, ...req })
   }
 
+  async identifyBoard(
+    req: Partial<Omit<BoardIdentifyRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<BoardListItem[]> {
+    try {
+      const { boards } = await this.client.boardIdentify(
+        { instance: this.instance, ...req },
+        { signal }
+      )
+      return boards
+    } catch (err) {
+      if (isAbortError(err)) {
+        return []
+      }
+      throw err
+    }
+  }
+
+  async isDebugSupported(
+    req: Partial<Omit<IsDebugSupportedRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<IsDebugSupportedResponse> {
+    return await this.client.isDebugSupported(
+      { instance: this.instance, ...req },
+      { signal }
+    )
+  }
+
+  async getDebugConfig(
+    req: Partial<Omit<GetDebugConfigRequest, 'instance'>>,
+    signal?: AbortSignal
+  ): Promise<GetDebugConfigResponse> {
+    return await this.client.getDebugConfig(
+      { instance: this.instance, ...req },
+      { signal }
+    )
+  }
+
   async readConfiguration(signal?: AbortSignal): Promise<Configuration> {
     const { configuration } = await this.client.configurationGet({}, { signal })
     if (!configuration) {
@@ -767,6 +995,19 @@ type StdResponse =
   | BurnBootloaderResponse
   | UploadUsingProgrammerResponse
 
+function toStreamResponse<RESP extends StdResponse>(
+  $case: 'outStream' | 'errStream',
+  text: string
+): RESP {
+  const data = new TextEncoder().encode(text)
+  return {
+    message:
+      $case === 'outStream'
+        ? { $case, outStream: data }
+        : { $case, errStream: data },
+  } as RESP
+}
+
 interface RetryOptions {
   retries: number
   delayMs?: number
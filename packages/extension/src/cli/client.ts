@@ -4,10 +4,15 @@ import {
   Instance,
 } from 'ardunno-cli'
 import {
+  CallOptions,
   Channel,
   ChannelCredentials,
+  ClientError,
+  ClientMiddlewareCall,
   createChannel,
-  createClient,
+  createClientFactory,
+  Status,
+  waitForChannelReady,
 } from 'nice-grpc'
 import * as vscode from 'vscode'
 
@@ -19,8 +24,13 @@ export class Client implements vscode.Disposable {
   private readonly client: ArduinoCoreServiceClient
   private _instance: Instance | undefined
   private _arduino: Arduino | undefined
+  private disposed = false
 
-  constructor({ hostname, port }: DaemonAddress) {
+  constructor(
+    { hostname, port }: DaemonAddress,
+    /** Called when a call fails because the daemon is not reachable. */
+    onUnavailable?: (err: ClientError) => void
+  ) {
     this.channel = createChannel(
       `${hostname}:${port}`,
       ChannelCredentials.createInsecure(),
@@ -29,7 +39,27 @@ export class Client implements vscode.Disposable {
         'grpc.max_send_message_length': 1024 * 1024 * 100,
       }
     )
-    this.client = createClient(ArduinoCoreServiceDefinition, this.channel)
+    const factory = onUnavailable
+      ? createClientFactory().use(
+          unavailableMiddleware((err) => {
+            // Calls of a disposed client fail when the channel closes.
+            if (!this.disposed) {
+              onUnavailable(err)
+            }
+          })
+        )
+      : createClientFactory()
+    this.client = factory.create(ArduinoCoreServiceDefinition, this.channel)
+  }
+
+  /** Resolves to `false` if the channel cannot connect within the timeout. */
+  async isReachable(timeoutMs = 5_000): Promise<boolean> {
+    try {
+      await waitForChannelReady(this.channel, new Date(Date.now() + timeoutMs))
+      return true
+    } catch {
+      return false
+    }
   }
 
   async start(progress?: vscode.Progress<ProgressUpdate>): Promise<void> {
@@ -48,7 +78,39 @@ export class Client implements vscode.Disposable {
   }
 
   dispose(): void {
+    this.disposed = true
     this._arduino?.dispose()
     this.channel.close()
   }
 }
+
+function unavailableMiddleware(onUnavailable: (err: ClientError) => void) {
+  return async function* <Request, Response>(
+    call: ClientMiddlewareCall<Request, Response>,
+    options: CallOptions
+  ): AsyncGenerator<Response, Response | void, undefined> {
+    const iterator: AsyncGenerator<Response, Response | void, undefined> =
+      call.next(call.request as Request & AsyncIterable<Request>, options)
+    let done = false
+    try {
+      let result = await iterator.next()
+      while (!result.done) {
+        yield result.value
+        result = await iterator.next()
+      }
+      done = true
+      return result.value
+    } catch (err) {
+      done = true
+      if (err instanceof ClientError && err.code === Status.UNAVAILABLE) {
+        onUnavailable(err)
+      }
+      throw err
+    } finally {
+      if (!done) {
+        // The consumer stopped early. Cancel the underlying call.
+        await iterator.return(undefined)
+      }
+    }
+  }
+}
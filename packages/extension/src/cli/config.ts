@@ -22,6 +22,9 @@ export interface AddAdditionalPackageIndexUrlParams {
   url: string
 }
 
+export type RemoveAdditionalPackageIndexUrlParams =
+  AddAdditionalPackageIndexUrlParams
+
 export interface TrackedCliConfigWithValidationIssues extends TrackedCliConfig {
   validationIssues?: string[]
 }
@@ -129,6 +132,39 @@ export class CliConfig implements vscode.Disposable {
     return true
   }
 
+  async removeAdditionalPackageIndexUrl({
+    url,
+  }: RemoveAdditionalPackageIndexUrlParams): Promise<boolean> {
+    await this.ready()
+
+    const additionalUrls = this._data?.additionalUrls ?? []
+    if (!additionalUrls.includes(url)) {
+      return false
+    }
+    await this.setConfigValue(
+      'board_manager.additional_urls',
+      additionalUrls.filter((candidate) => candidate !== url),
+      this._uri
+    )
+    return true
+  }
+
+  /**
+   * The directory where the CLI stages the downloaded archives. Defaults to the
+   * `staging` folder of the data directory.
+   */
+  async downloadsDirPath(): Promise<string | undefined> {
+    await this.ready()
+
+    try {
+      const directories = await this.loadConfigValue('directories', this._uri)
+      return directories.downloads ?? path.join(directories.data, 'staging')
+    } catch (error) {
+      console.warn('Failed to get the Arduino CLI downloads directory', error)
+      return undefined
+    }
+  }
+
   private async initialize(): Promise<void> {
     const uri = await this.resolveAndSetUri({ allowPrompt: true })
     await this.loadConfiguration(uri)
@@ -178,7 +214,9 @@ export class CliConfig implements vscode.Disposable {
     cliConfigFileUri?: vscode.Uri
   ): Promise<any> {
     const executablePath = await this.cliContext.resolveExecutablePath()
-    const configArgs = ['config', 'set', configKey]
+    // `config set` requires at least one value
+    const unset = Array.isArray(value) && !value.length
+    const configArgs = ['config', unset ? 'delete' : 'set', configKey]
     if (Array.isArray(value)) {
       configArgs.push(...value)
     } else {
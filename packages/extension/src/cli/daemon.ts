@@ -11,12 +11,19 @@ export interface DaemonAddress {
   readonly port: number
 }
 
+export interface DaemonExit {
+  readonly code: number | null
+  readonly signal: NodeJS.Signals | null
+}
+
 export class Daemon implements vscode.Disposable {
   private readonly outputChannel: vscode.OutputChannel
   private readonly onDidChangeAddressEmitter: vscode.EventEmitter<
     DaemonAddress | undefined
   >
 
+  private readonly onDidExitEmitter: vscode.EventEmitter<DaemonExit>
+
   private _deferredAddress: defer.DeferredPromise<DaemonAddress> | undefined
   private _process: ({ address: DaemonAddress } & vscode.Disposable) | undefined
 
@@ -27,6 +34,7 @@ export class Daemon implements vscode.Disposable {
     this.onDidChangeAddressEmitter = new vscode.EventEmitter<
       DaemonAddress | undefined
     >()
+    this.onDidExitEmitter = new vscode.EventEmitter<DaemonExit>()
     this.outputChannel = vscode.window.createOutputChannel(
       'BoardLab - Arduino CLI',
       {
@@ -36,6 +44,7 @@ export class Daemon implements vscode.Disposable {
     context.subscriptions.push(
       this.outputChannel,
       this.onDidChangeAddressEmitter,
+      this.onDidExitEmitter,
       this
     )
   }
@@ -51,6 +60,14 @@ export class Daemon implements vscode.Disposable {
     return this.onDidChangeAddressEmitter.event
   }
 
+  /**
+   * Fires when the running daemon process exits unexpectedly, for example, when
+   * the OS kills it after running out of memory.
+   */
+  get onDidExit(): vscode.Event<DaemonExit> {
+    return this.onDidExitEmitter.event
+  }
+
   get address(): DaemonAddress | undefined {
     return this._process?.address
   }
@@ -69,21 +86,55 @@ export class Daemon implements vscode.Disposable {
     const debugEnabled = vscode.workspace
       .getConfiguration('boardlab.cli')
       .get<boolean>('daemonDebug', false)
+    const deferred = this._deferredAddress
     setTimeout(async () => {
+      let process: ({ address: DaemonAddress } & vscode.Disposable) | undefined
       try {
-        const process = await spawnDaemon(
+        process = await spawnDaemon(
           command,
           cliConfigPath,
           (data) => this.outputChannel.append(data.trim()),
-          debugEnabled
+          debugEnabled,
+          undefined,
+          (exit) => process && this.handleExit(process, exit)
         )
         this._process = process
+        deferred.resolve(process.address)
         this.onDidChangeAddressEmitter.fire(this._process.address)
       } catch (err) {
-        this._deferredAddress?.reject(err)
+        deferred.reject(err)
+      } finally {
+        if (this._deferredAddress === deferred) {
+          this._deferredAddress = undefined
+        }
       }
     }, 0)
-    return this._deferredAddress.promise
+    return deferred.promise
+  }
+
+  /** Kills the running daemon, if any, and starts a new one. */
+  async restart(): Promise<DaemonAddress | undefined> {
+    if (this._process) {
+      this._process.dispose()
+      this._process = undefined
+      this.onDidChangeAddressEmitter.fire(undefined)
+    }
+    return this.start()
+  }
+
+  private handleExit(
+    process: { address: DaemonAddress } & vscode.Disposable,
+    exit: DaemonExit
+  ): void {
+    if (this._process !== process) {
+      return // disposed or restarted
+    }
+    this._process = undefined
+    this.outputChannel.appendLine(
+      `Arduino CLI daemon exited unexpectedly (code: ${exit.code}, signal: ${exit.signal})`
+    )
+    this.onDidChangeAddressEmitter.fire(undefined)
+    this.onDidExitEmitter.fire(exit)
   }
 }
 
@@ -92,7 +143,8 @@ async function spawnDaemon(
   cliConfigPath: string | undefined,
   onStdOut: (data: string) => void = console.log,
   debug = false,
-  onStdErr?: (data: string) => void
+  onStdErr?: (data: string) => void,
+  onExitAfterStart?: (exit: DaemonExit) => void
 ): Promise<{ address: DaemonAddress } & vscode.Disposable> {
   return new Promise((resolve, reject) => {
     let address: DaemonAddress | undefined
@@ -132,6 +184,10 @@ async function spawnDaemon(
     )
     cp.on('error', (err) => reject(err))
     cp.on('exit', (code, signal) => {
+      if (address) {
+        onExitAfterStart?.({ code, signal })
+        return
+      }
       let err: Error | undefined
       if (signal) {
         err = new Error(`Exited with signal ${signal}`)
@@ -139,12 +195,7 @@ async function spawnDaemon(
       if (!err && code) {
         err = new Error(`Exited with code ${code}`)
       }
-      if (err) {
-        reject(err)
-      }
-      if (!address) {
-        reject(new Error('Exited before receiving the daemon address.'))
-      }
+      reject(err ?? new Error('Exited before receiving the daemon address.'))
     })
   })
 }
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode'
+
+import type {
+  DaemonSupervisor,
+  DaemonSupervisorState,
+} from './daemonSupervisor'
+
+export class DaemonStatusBar implements vscode.Disposable {
+  private readonly statusBarItem: vscode.StatusBarItem
+  private readonly disposables: vscode.Disposable[]
+
+  constructor(supervisor: DaemonSupervisor) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      'boardlab.daemonStatusBar',
+      vscode.StatusBarAlignment.Left,
+      102
+    )
+    this.statusBarItem.name = 'BoardLab Arduino CLI'
+    this.disposables = [
+      this.statusBarItem,
+      supervisor.onDidChangeState((state) => this.update(state)),
+    ]
+    this.update(supervisor.state)
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.disposables).dispose()
+  }
+
+  private update(state: DaemonSupervisorState): void {
+    switch (state.status) {
+      case 'running': {
+        this.statusBarItem.hide()
+        return
+      }
+      case 'reconnecting': {
+        this.statusBarItem.text = '$(sync~spin) Arduino CLI: Reconnecting'
+        this.statusBarItem.tooltip = `${state.reason}. Restarting the daemon (attempt ${state.attempt})`
+        this.statusBarItem.command = undefined
+        this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+          'statusBarItem.warningBackground'
+        )
+        break
+      }
+      case 'failed': {
+        this.statusBarItem.text = '$(error) Arduino CLI: Stopped'
+        this.statusBarItem.tooltip = `${state.reason}. Click to restart the daemon`
+        this.statusBarItem.command = 'boardlab.cli.restartDaemon'
+        this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+          'statusBarItem.errorBackground'
+        )
+        break
+      }
+    }
+    this.statusBarItem.show()
+  }
+}
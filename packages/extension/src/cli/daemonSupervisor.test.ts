@@ -0,0 +1,177 @@
+import { EventEmitter } from '@c4312/evt'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+
+import type { DaemonExit } from './daemon'
+import {
+  backoffDelay,
+  DaemonSupervisor,
+  type BackoffOptions,
+  type DaemonSupervisorState,
+} from './daemonSupervisor'
+
+const options: BackoffOptions = {
+  initialDelayMs: 100,
+  maxDelayMs: 1_000,
+  maxAttempts: 3,
+  stableAfterMs: 5_000,
+}
+
+function createFakeDaemon() {
+  const onDidExit = new EventEmitter<DaemonExit>()
+  const restart = vi.fn(async () => ({ hostname: 'localhost', port: 50051 }))
+  return {
+    onDidExit: onDidExit.event,
+    restart,
+    exit: (exit: DaemonExit = { code: null, signal: 'SIGKILL' }) =>
+      onDidExit.fire(exit),
+  }
+}
+
+describe('daemonSupervisor', () => {
+  describe('backoffDelay', () => {
+    it('should double the delay up to the max', () => {
+      expect(
+        [1, 2, 3, 4, 5].map((attempt) => backoffDelay(attempt, options))
+      ).toEqual([100, 200, 400, 800, 1_000])
+    })
+  })
+
+  describe('DaemonSupervisor', () => {
+    let showErrorMessage: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      showErrorMessage = vi.fn(async () => undefined)
+      Object.defineProperty(vscode, 'window', {
+        configurable: true,
+        writable: true,
+        value: { showErrorMessage },
+      })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      // @ts-ignore
+      delete vscode.window
+    })
+
+    it('should restart the daemon with backoff after an unexpected exit', async () => {
+      const daemon = createFakeDaemon()
+      const supervisor = new DaemonSupervisor(daemon, options)
+      const states: DaemonSupervisorState['status'][] = []
+      supervisor.onDidChangeState(({ status }) => states.push(status))
+
+      daemon.exit()
+      expect(supervisor.state).toMatchObject({
+        status: 'reconnecting',
+        attempt: 1,
+      })
+      await vi.advanceTimersByTimeAsync(99)
+      expect(daemon.restart).not.toHaveBeenCalled()
+      await vi.advanceTimersByTimeAsync(1)
+      expect(daemon.restart).toHaveBeenCalledOnce()
+      expect(states).toEqual(['reconnecting', 'running'])
+
+      // The second crash within the stable period backs off longer
+      daemon.exit()
+      expect(supervisor.state).toMatchObject({ attempt: 2 })
+      await vi.advanceTimersByTimeAsync(200)
+      expect(daemon.restart).toHaveBeenCalledTimes(2)
+
+      supervisor.dispose()
+    })
+
+    it('should reset the attempts when the daemon stays up', async () => {
+      const daemon = createFakeDaemon()
+      const supervisor = new DaemonSupervisor(daemon, options)
+
+      daemon.exit()
+      await vi.advanceTimersByTimeAsync(100)
+      await vi.advanceTimersByTimeAsync(options.stableAfterMs)
+
+      daemon.exit()
+      expect(supervisor.state).toMatchObject({ attempt: 1 })
+
+      supervisor.dispose()
+    })
+
+    it('should give up after the max attempts', async () => {
+      const daemon = createFakeDaemon()
+      daemon.restart.mockRejectedValue(new Error('spawn ENOENT'))
+      const supervisor = new DaemonSupervisor(daemon, options)
+
+      daemon.exit()
+      await vi.advanceTimersByTimeAsync(100 + 200 + 400)
+
+      expect(daemon.restart).toHaveBeenCalledTimes(3)
+      expect(supervisor.state).toEqual({
+        status: 'failed',
+        reason: 'Failed to restart the Arduino CLI daemon: spawn ENOENT',
+      })
+      expect(showErrorMessage).toHaveBeenCalledOnce()
+
+      daemon.restart.mockResolvedValue({ hostname: 'localhost', port: 1 })
+      supervisor.retry()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(supervisor.state).toEqual({ status: 'running' })
+
+      supervisor.dispose()
+    })
+
+    it('should not restart again when retried during a restart', async () => {
+      const daemon = createFakeDaemon()
+      let restarted: (() => void) | undefined
+      daemon.restart.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            restarted = () => resolve({ hostname: 'localhost', port: 50051 })
+          })
+      )
+      const supervisor = new DaemonSupervisor(daemon, options)
+
+      daemon.exit()
+      await vi.advanceTimersByTimeAsync(100)
+      expect(daemon.restart).toHaveBeenCalledOnce()
+
+      supervisor.retry()
+      daemon.exit()
+      await vi.advanceTimersByTimeAsync(1_000)
+      expect(daemon.restart).toHaveBeenCalledOnce()
+      expect(supervisor.state).toMatchObject({ attempt: 1 })
+
+      restarted?.()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(supervisor.state).toEqual({ status: 'running' })
+      expect(daemon.restart).toHaveBeenCalledOnce()
+
+      supervisor.dispose()
+    })
+
+    it('should coalesce the restart requests', async () => {
+      const daemon = createFakeDaemon()
+      const supervisor = new DaemonSupervisor(daemon, options)
+
+      daemon.exit()
+      await supervisor.reportUnavailable({ isReachable: async () => false })
+      await vi.advanceTimersByTimeAsync(1_000)
+
+      expect(daemon.restart).toHaveBeenCalledOnce()
+
+      supervisor.dispose()
+    })
+
+    it('should restart only when the daemon is not reachable', async () => {
+      const daemon = createFakeDaemon()
+      const supervisor = new DaemonSupervisor(daemon, options)
+
+      await supervisor.reportUnavailable({ isReachable: async () => true })
+      expect(supervisor.state).toEqual({ status: 'running' })
+
+      await supervisor.reportUnavailable({ isReachable: async () => false })
+      expect(supervisor.state).toMatchObject({ status: 'reconnecting' })
+
+      supervisor.dispose()
+    })
+  })
+})
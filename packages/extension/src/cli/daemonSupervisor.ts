@@ -0,0 +1,179 @@
+import * as vscode from 'vscode'
+
+import type { Daemon } from './daemon'
+
+export type DaemonSupervisorState =
+  | Readonly<{ status: 'running' }>
+  | Readonly<{ status: 'reconnecting'; attempt: number; reason: string }>
+  | Readonly<{ status: 'failed'; reason: string }>
+
+export interface BackoffOptions {
+  readonly initialDelayMs: number
+  readonly maxDelayMs: number
+  readonly maxAttempts: number
+  /**
+   * The restarted daemon must stay up this long before the attempts are reset.
+   * Otherwise, a daemon crashing at startup would restart forever.
+   */
+  readonly stableAfterMs: number
+}
+
+export const defaultBackoffOptions: BackoffOptions = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  maxAttempts: 5,
+  stableAfterMs: 60_000,
+}
+
+/** Exponential backoff. The `attempt` is one-based. */
+export function backoffDelay(
+  attempt: number,
+  options: Pick<
+    BackoffOptions,
+    'initialDelayMs' | 'maxDelayMs'
+  > = defaultBackoffOptions
+): number {
+  const exponent = Math.max(0, attempt - 1)
+  return Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** exponent)
+}
+
+/**
+ * Restarts the Arduino CLI daemon with backoff when it exits unexpectedly or
+ * when the gRPC calls fail with `UNAVAILABLE`.
+ */
+export class DaemonSupervisor implements vscode.Disposable {
+  private readonly _onDidChangeState: vscode.EventEmitter<DaemonSupervisorState>
+  private readonly toDispose: vscode.Disposable[]
+  private _state: DaemonSupervisorState = { status: 'running' }
+  private attempts = 0
+  private restartTimer: ReturnType<typeof setTimeout> | undefined
+  private restarting: Promise<void> | undefined
+  private stableTimer: ReturnType<typeof setTimeout> | undefined
+  private disposed = false
+
+  constructor(
+    private readonly daemon: Pick<Daemon, 'onDidExit' | 'restart'>,
+    private readonly options: BackoffOptions = defaultBackoffOptions
+  ) {
+    this._onDidChangeState = new vscode.EventEmitter()
+    this.toDispose = [
+      this._onDidChangeState,
+      daemon.onDidExit(({ code, signal }) =>
+        this.scheduleRestart(
+          `The Arduino CLI daemon exited (${signal ? `signal: ${signal}` : `code: ${code}`})`
+        )
+      ),
+    ]
+  }
+
+  get state(): DaemonSupervisorState {
+    return this._state
+  }
+
+  get onDidChangeState(): vscode.Event<DaemonSupervisorState> {
+    return this._onDidChangeState.event
+  }
+
+  /**
+   * Called when a gRPC call fails with `UNAVAILABLE`. Restarts the daemon if
+   * it's not reachable anymore.
+   */
+  async reportUnavailable(client: {
+    isReachable(): Promise<boolean>
+  }): Promise<void> {
+    if (this._state.status !== 'running') {
+      return
+    }
+    if (await client.isReachable()) {
+      return
+    }
+    this.scheduleRestart('The Arduino CLI daemon is not reachable')
+  }
+
+  /**
+   * Restarts the daemon immediately and resets the attempts. Does nothing while
+   * a restart is running: it either succeeds or schedules the next attempt.
+   */
+  retry(): void {
+    if (this.restarting) {
+      return
+    }
+    this.clearTimers()
+    this.attempts = 0
+    this.scheduleRestart('Restart requested', 0)
+  }
+
+  dispose(): void {
+    this.disposed = true
+    this.clearTimers()
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  private scheduleRestart(reason: string, delay?: number): void {
+    if (this.disposed || this.restartTimer || this.restarting) {
+      return
+    }
+    clearTimeout(this.stableTimer)
+    this.stableTimer = undefined
+
+    const attempt = ++this.attempts
+    if (attempt > this.options.maxAttempts) {
+      this.setState({ status: 'failed', reason })
+      this.showFailure(reason)
+      return
+    }
+    console.warn(`${reason}. Restarting (attempt ${attempt})...`)
+    this.setState({ status: 'reconnecting', attempt, reason })
+    this.restartTimer = setTimeout(
+      () => {
+        this.restartTimer = undefined
+        this.restarting = this.restart()
+      },
+      delay ?? backoffDelay(attempt, this.options)
+    )
+  }
+
+  private async restart(): Promise<void> {
+    try {
+      await this.daemon.restart()
+    } catch (err) {
+      this.restarting = undefined
+      this.scheduleRestart(
+        `Failed to restart the Arduino CLI daemon: ${err instanceof Error ? err.message : String(err)}`
+      )
+      return
+    }
+    this.restarting = undefined
+    if (this.disposed) {
+      return
+    }
+    this.setState({ status: 'running' })
+    this.stableTimer = setTimeout(() => {
+      this.attempts = 0
+      this.stableTimer = undefined
+    }, this.options.stableAfterMs)
+  }
+
+  private async showFailure(reason: string): Promise<void> {
+    const restart = 'Restart'
+    const answer = await vscode.window.showErrorMessage(
+      `${reason}. BoardLab gave up restarting the Arduino CLI daemon.`,
+      restart
+    )
+    if (answer === restart) {
+      this.retry()
+    }
+  }
+
+  private setState(state: DaemonSupervisorState): void {
+    this._state = state
+    this._onDidChangeState.fire(state)
+  }
+
+  private clearTimers(): void {
+    clearTimeout(this.restartTimer)
+    clearTimeout(this.stableTimer)
+    this.restartTimer = undefined
+    this.stableTimer = undefined
+  }
+}
@@ -0,0 +1,216 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+import * as vscode from 'vscode'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import {
+  CompileErrorsProvider,
+  explainCompileError,
+  findHeaderProviders,
+  parseCompileError,
+} from './compileErrors'
+
+describe('parseCompileError', () => {
+  it('recognizes the missing headers', () => {
+    expect(
+      parseCompileError('Adafruit_Sensor.h: No such file or directory')
+    ).toEqual({ kind: 'missingHeader', header: 'Adafruit_Sensor.h' })
+    expect(parseCompileError("'utility/twi.h' file not found")).toEqual({
+      kind: 'missingHeader',
+      header: 'utility/twi.h',
+    })
+  })
+
+  it('recognizes the errors of the wrong board', () => {
+    expect(
+      parseCompileError(
+        "'Serial1' was not declared in this scope; did you mean 'Serial'?"
+      )
+    ).toEqual({ kind: 'missingSerial', identifier: 'Serial1' })
+    expect(
+      parseCompileError("'LED_BUILTIN' was not declared in this scope")
+    ).toEqual({ kind: 'missingLedBuiltin' })
+    expect(
+      parseCompileError(
+        '#error "This library only supports boards with an AVR or SAM processor."'
+      )
+    ).toEqual({
+      kind: 'unsupportedBoard',
+      detail: 'This library only supports boards with an AVR or SAM processor',
+    })
+  })
+
+  it('ignores the other errors', () => {
+    expect(
+      parseCompileError("'foo' was not declared in this scope")
+    ).toBeUndefined()
+    expect(parseCompileError('#error "Define the API key"')).toBeUndefined()
+    expect(parseCompileError("expected ';' before '}' token")).toBeUndefined()
+  })
+})
+
+describe('explainCompileError', () => {
+  const header = { kind: 'missingHeader', header: 'ArduinoJson.h' } as const
+
+  it('names the libraries of the missing header', () => {
+    expect(
+      explainCompileError(header, [{ name: 'ArduinoJson', version: '7.0.0' }])
+    ).toBe(
+      "'ArduinoJson.h' is provided by the 'ArduinoJson' library, which is not installed. Install the library, or add it to the sketch profile when the sketch compiles with a profile."
+    )
+    expect(
+      explainCompileError(header, [
+        { name: 'A', version: '1.0.0' },
+        { name: 'B', version: '1.0.0', installedVersion: '1.0.0' },
+        { name: 'C', version: '1.0.0', installedVersion: '0.9.0' },
+      ])
+    ).toBe(
+      "'ArduinoJson.h' is provided by the 'B' and 'C' libraries, which are installed. When the sketch compiles with a profile, add the library to the profile; otherwise, the library might not support the selected board."
+    )
+    expect(explainCompileError(header)).toMatch(
+      /^No library of the Library Manager provides 'ArduinoJson.h'/
+    )
+  })
+
+  it('explains the errors of the wrong board', () => {
+    expect(
+      explainCompileError(
+        { kind: 'missingSerial', identifier: 'Serial1' },
+        [],
+        'Arduino Uno'
+      )
+    ).toBe(
+      "The selected board (Arduino Uno) has no 'Serial1' hardware serial port. Select a board that has it, or use 'Serial' or a software serial library."
+    )
+  })
+})
+
+describe('findHeaderProviders', () => {
+  it('keeps the libraries that provide the header', async () => {
+    let searchArgs: string | undefined
+    const arduino = {
+      searchLibrary: async (req: { searchArgs?: string }) => {
+        searchArgs = req.searchArgs
+        return [
+          {
+            name: 'DHT sensor library',
+            latest: { version: '1.4.6', providesIncludes: ['DHT.h'] },
+          },
+          {
+            name: 'DHT_U',
+            latest: { version: '1.0.0', providesIncludes: ['DHT_U.h'] },
+          },
+        ]
+      },
+      listLibraries: async () => [
+        { library: { name: 'DHT sensor library', version: '1.4.4' } },
+      ],
+    } as any
+
+    expect(await findHeaderProviders(arduino, 'DHT.h')).toEqual([
+      {
+        name: 'DHT sensor library',
+        version: '1.4.6',
+        installedVersion: '1.4.4',
+      },
+    ])
+    expect(searchArgs).toBe('provides:DHT.h')
+  })
+})
+
+describe('CompileErrorsProvider', () => {
+  let tempDir: string | undefined
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('installs the library of the missing header or adds it to the profile', async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'boardlab-compile-errors-'))
+    const sketchPath = path.join(tempDir, 'blink')
+    await mkdir(sketchPath)
+    await writeFile(path.join(sketchPath, 'sketch.yaml'), 'profiles: {}\n')
+
+    const actions = await provideCodeActions(
+      sketchPath,
+      'ArduinoJson.h: No such file or directory'
+    )
+
+    expect(
+      actions.map(({ title, command }) => [title, command?.arguments])
+    ).toEqual([
+      [
+        "Install library 'ArduinoJson' (7.0.0)",
+        [{ id: 'ArduinoJson', version: '7.0.0' }],
+      ],
+      [
+        "Add library 'ArduinoJson' (7.0.0) to the sketch profile",
+        [{ sketchPath, library: 'ArduinoJson', version: '7.0.0' }],
+      ],
+    ])
+    expect(actions[0].isPreferred).toBe(true)
+  })
+
+  it('selects another board and skips the other diagnostics', async () => {
+    const actions = await provideCodeActions(
+      '/workspace/blink',
+      "'Serial2' was not declared in this scope"
+    )
+
+    expect(actions.map(({ command }) => command?.command)).toEqual([
+      'boardlab.selectBoard',
+    ])
+    expect(
+      await provideCodeActions(
+        '/workspace/blink',
+        'ArduinoJson.h: No such file or directory',
+        'boardlab'
+      )
+    ).toEqual([])
+  })
+})
+
+async function provideCodeActions(
+  sketchPath: string,
+  message: string,
+  source = 'ino'
+): Promise<vscode.CodeAction[]> {
+  const boardlabContext: any = {
+    client: Promise.resolve({
+      arduino: {
+        searchLibrary: async () => [
+          {
+            name: 'ArduinoJson',
+            latest: { version: '7.0.0', providesIncludes: ['ArduinoJson.h'] },
+          },
+        ],
+        listLibraries: async () => [],
+      },
+    }),
+    openedSketches: [{ sketchPath }],
+    librariesManager: { onDidUpdate: () => new vscode.Disposable(() => {}) },
+  }
+  const provider = new CompileErrorsProvider(boardlabContext)
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(2, 10, 2, 10),
+    message,
+    vscode.DiagnosticSeverity.Error
+  )
+  diagnostic.source = source
+  try {
+    return await provider.provideCodeActions(
+      {
+        uri: vscode.Uri.file(path.join(sketchPath, 'blink.ino')),
+      } as vscode.TextDocument,
+      diagnostic.range,
+      { diagnostics: [diagnostic] } as unknown as vscode.CodeActionContext
+    )
+  } finally {
+    provider.dispose()
+  }
+}
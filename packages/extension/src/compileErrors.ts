@@ -0,0 +1,332 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import * as vscode from 'vscode'
+import type { SketchFolder } from 'vscode-arduino-api'
+
+import type { BoardLabContextImpl } from './boardlabContext'
+import type { Arduino } from './cli/arduino'
+
+/** The `source` of the diagnostics of the `$boardlab` problem matcher. */
+const compileDiagnosticSource = 'ino'
+const explanationCode = 'boardlab.compile.explanation'
+const maxListedLibraries = 3
+
+/**
+ * - `missingHeader`: an `#include` the compiler cannot find.
+ * - `missingSerial`: a hardware serial port the board does not have.
+ * - `missingLedBuiltin`: the variant of the board has no `LED_BUILTIN`.
+ * - `unsupportedBoard`: an `#error` of a library that does not support the board.
+ */
+export type CompileError =
+  | { readonly kind: 'missingHeader'; readonly header: string }
+  | { readonly kind: 'missingSerial'; readonly identifier: string }
+  | { readonly kind: 'missingLedBuiltin' }
+  | { readonly kind: 'unsupportedBoard'; readonly detail: string }
+
+/** A library of the index that provides the missing header. */
+export interface HeaderProvider {
+  readonly name: string
+  readonly version: string
+  readonly installedVersion?: string
+}
+
+/** Recognizes the common errors in the message of a compiler diagnostic. */
+export function parseCompileError(message: string): CompileError | undefined {
+  const header =
+    message.match(
+      /^([^\s:]+\.(?:h|hh|hpp|hxx|inc)): No such file or directory/
+    )?.[1] ??
+    message.match(/^'([^']+\.(?:h|hh|hpp|hxx|inc))' file not found/)?.[1]
+  if (header) {
+    return { kind: 'missingHeader', header }
+  }
+  const undeclared = message.match(
+    /^'(\w+)' was not declared in this scope|^use of undeclared identifier '(\w+)'/
+  )
+  const identifier = undeclared?.[1] ?? undeclared?.[2]
+  if (identifier && /^Serial(?:[1-9]|USB)$/.test(identifier)) {
+    return { kind: 'missingSerial', identifier }
+  }
+  if (identifier === 'LED_BUILTIN') {
+    return { kind: 'missingLedBuiltin' }
+  }
+  const directive = message.match(/^#error\s+"?(.*?)"?\s*$/)?.[1]
+  if (
+    directive &&
+    /\b(?:architecture|board|processor|mcu|platform|chip)s?\b/i.test(
+      directive
+    ) &&
+    /support|only|unknown|not (?:yet )?(?:available|compatible)/i.test(
+      directive
+    )
+  ) {
+    return { kind: 'unsupportedBoard', detail: directive.replace(/\.$/, '') }
+  }
+  return undefined
+}
+
+/**
+ * Explains the error for beginners. `providers` are the libraries of the
+ * missing header, and `boardName` is the name of the selected board.
+ */
+export function explainCompileError(
+  error: CompileError,
+  providers: readonly HeaderProvider[] = [],
+  boardName?: string
+): string {
+  const board = boardName
+    ? `The selected board (${boardName})`
+    : 'The selected board'
+  switch (error.kind) {
+    case 'missingHeader': {
+      const { header } = error
+      if (!providers.length) {
+        return `No library of the Library Manager provides '${header}'. Check the spelling of the #include, or install the library from a ZIP archive or a git repository.`
+      }
+      const installed = providers.filter(
+        ({ installedVersion }) => installedVersion
+      )
+      if (!installed.length) {
+        return `'${header}' is provided by ${formatLibraryNames(providers)}, ${providers.length > 1 ? 'none of them is' : 'which is not'} installed. Install the library, or add it to the sketch profile when the sketch compiles with a profile.`
+      }
+      return `'${header}' is provided by ${formatLibraryNames(installed)}, which ${installed.length > 1 ? 'are' : 'is'} installed. When the sketch compiles with a profile, add the library to the profile; otherwise, the library might not support the selected board.`
+    }
+    case 'missingSerial':
+      return `${board} has no '${error.identifier}' hardware serial port. Select a board that has it, or use 'Serial' or a software serial library.`
+    case 'missingLedBuiltin':
+      return `${board} does not define 'LED_BUILTIN'. Use the pin number of the on-board LED, or select the correct board.`
+    case 'unsupportedBoard':
+      return `${board} is not supported by the sketch or one of its libraries: ${error.detail}. Select a supported board.`
+  }
+}
+
+/**
+ * The libraries of the index whose `provides_includes` has the header, in the
+ * order of the search.
+ */
+export async function findHeaderProviders(
+  arduino: Pick<Arduino, 'searchLibrary' | 'listLibraries'>,
+  header: string,
+  signal?: AbortSignal
+): Promise<HeaderProvider[]> {
+  const [searchedLibraries, installedLibraries] = await Promise.all([
+    arduino.searchLibrary(
+      { omitReleasesDetails: true, searchArgs: `provides:${header}` },
+      signal
+    ),
+    arduino.listLibraries({}, signal),
+  ])
+  const installedVersions = new Map<string, string>()
+  for (const { library } of installedLibraries) {
+    if (library) {
+      installedVersions.set(library.name, library.version)
+    }
+  }
+  return searchedLibraries
+    .filter(({ latest }) => latest?.providesIncludes.includes(header))
+    .map(({ name, latest }) => ({
+      name,
+      version: latest!.version,
+      installedVersion: installedVersions.get(name),
+    }))
+}
+
+function formatLibraryNames(providers: readonly HeaderProvider[]): string {
+  const names = providers
+    .slice(0, maxListedLibraries)
+    .map(({ name }) => `'${name}'`)
+  const more = providers.length - names.length
+  const list = more > 0 ? [...names, `${more} more`] : names
+  const joined =
+    list.length > 1
+      ? `${list.slice(0, -1).join(', ')} and ${list.at(-1)}`
+      : list[0]
+  return `the ${joined} ${providers.length > 1 ? 'libraries' : 'library'}`
+}
+
+/**
+ * Explains the recognized errors of the compiler diagnostics in the Problems
+ * view and offers quick fixes: installs the library of the missing header or
+ * adds it to the sketch profile, and selects another board.
+ */
+export class CompileErrorsProvider
+  implements vscode.CodeActionProvider, vscode.Disposable
+{
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  private readonly explanations: vscode.DiagnosticCollection
+  /** The compiler diagnostics the explanations were computed from. */
+  private readonly signatures = new Map<string, string>()
+  private readonly providersByHeader = new Map<
+    string,
+    Promise<HeaderProvider[]>
+  >()
+
+  private readonly toDispose: vscode.Disposable[]
+
+  constructor(private readonly boardlabContext: BoardLabContextImpl) {
+    this.explanations =
+      vscode.languages.createDiagnosticCollection('boardlabCompile')
+    this.toDispose = [
+      this.explanations,
+      vscode.languages.onDidChangeDiagnostics(({ uris }) =>
+        uris.forEach((uri) => this.explainSafe(uri))
+      ),
+      // the installed libraries change the explanations of the missing headers
+      boardlabContext.librariesManager.onDidUpdate(() => {
+        this.providersByHeader.clear()
+        this.signatures.clear()
+        this.explanations.forEach((uri) => this.explainSafe(uri))
+      }),
+    ]
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const actions: vscode.CodeAction[] = []
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== compileDiagnosticSource) {
+        continue
+      }
+      const error = parseCompileError(diagnostic.message)
+      if (!error) {
+        continue
+      }
+      const add = (title: string, command: string, ...args: unknown[]) => {
+        const action = new vscode.CodeAction(
+          title,
+          vscode.CodeActionKind.QuickFix
+        )
+        action.command = { command, title, arguments: args }
+        action.diagnostics = [diagnostic]
+        actions.push(action)
+        return action
+      }
+      if (error.kind !== 'missingHeader') {
+        add('Select Another Board', 'boardlab.selectBoard')
+        continue
+      }
+      const providers = await this.headerProviders(error.header)
+      const sketchPath = await this.profileSketchPath(document.uri)
+      for (const { name, version, installedVersion } of providers) {
+        if (!installedVersion) {
+          add(
+            `Install library '${name}' (${version})`,
+            'boardlab.profiles.installLibrary',
+            { id: name, version }
+          ).isPreferred = providers.length === 1
+        }
+        if (sketchPath) {
+          add(
+            `Add library '${name}' (${installedVersion ?? version}) to the sketch profile`,
+            'boardlab.profiles.addLibraryToProfile',
+            { sketchPath, library: name, version: installedVersion ?? version }
+          )
+        }
+      }
+      if (!providers.length) {
+        add('Install Library from ZIP...', 'boardlab.installLibraryFromZip')
+        add('Install Library from Git...', 'boardlab.installLibraryFromGit')
+      }
+    }
+    return actions
+  }
+
+  private explainSafe(uri: vscode.Uri): void {
+    this.explain(uri).catch((err) =>
+      console.warn('Failed to explain the compile errors', err)
+    )
+  }
+
+  private async explain(uri: vscode.Uri): Promise<void> {
+    const key = uri.toString()
+    const diagnostics = vscode.languages
+      .getDiagnostics(uri)
+      .filter(({ source }) => source === compileDiagnosticSource)
+    // setting the explanations changes the diagnostics of the URI too
+    const signature = diagnostics
+      .map(({ range, message }) => `${range.start.line}:${message}`)
+      .join('\n')
+    if (this.signatures.get(key) === signature) {
+      return
+    }
+    this.signatures.set(key, signature)
+    if (!diagnostics.length) {
+      this.signatures.delete(key)
+      this.explanations.delete(uri)
+      return
+    }
+    const boardName = this.sketchOf(uri)?.board?.name
+    const explanations: vscode.Diagnostic[] = []
+    for (const diagnostic of diagnostics) {
+      const error = parseCompileError(diagnostic.message)
+      if (!error) {
+        continue
+      }
+      const providers =
+        error.kind === 'missingHeader'
+          ? await this.headerProviders(error.header)
+          : []
+      const explanation = new vscode.Diagnostic(
+        diagnostic.range,
+        explainCompileError(error, providers, boardName),
+        vscode.DiagnosticSeverity.Information
+      )
+      explanation.source = 'boardlab'
+      explanation.code = explanationCode
+      explanations.push(explanation)
+    }
+    if (this.signatures.get(key) === signature) {
+      this.explanations.set(uri, explanations)
+    }
+  }
+
+  private headerProviders(header: string): Promise<HeaderProvider[]> {
+    let providers = this.providersByHeader.get(header)
+    if (!providers) {
+      providers = this.boardlabContext.client
+        .then(({ arduino }) => findHeaderProviders(arduino, header))
+        .catch((err) => {
+          console.warn(`Failed to find the libraries of ${header}`, err)
+          this.providersByHeader.delete(header)
+          return []
+        })
+      this.providersByHeader.set(header, providers)
+    }
+    return providers
+  }
+
+  private sketchOf(uri: vscode.Uri): SketchFolder | undefined {
+    const sketches = this.boardlabContext.openedSketches
+    return (
+      sketches.find(({ sketchPath }) => {
+        const relative = path.relative(sketchPath, uri.fsPath)
+        return !relative.startsWith('..') && !path.isAbsolute(relative)
+      }) ?? this.boardlabContext.currentSketch
+    )
+  }
+
+  /** The path of the sketch of the URI if it has a `sketch.yaml`. */
+  private async profileSketchPath(
+    uri: vscode.Uri
+  ): Promise<string | undefined> {
+    const sketchPath = this.sketchOf(uri)?.sketchPath
+    if (!sketchPath) {
+      return undefined
+    }
+    try {
+      await fs.access(path.join(sketchPath, 'sketch.yaml'))
+      return sketchPath
+    } catch {
+      return undefined
+    }
+  }
+}
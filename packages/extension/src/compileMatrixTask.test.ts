@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  annotateProblemLine,
+  formatCompileMatrixSummary,
+  isCompileMatrixTaskDefinition,
+  resolveCompileMatrixTargets,
+  runWithConcurrency,
+} from './compileMatrixTask'
+
+describe('compileMatrixTask', () => {
+  describe('isCompileMatrixTaskDefinition', () => {
+    it('accepts FQBN lists and all profiles', () => {
+      expect(
+        isCompileMatrixTaskDefinition(
+          {
+            type: 'boardlab',
+            command: 'compile-matrix',
+            sketchPath: '/sketch',
+            fqbns: ['arduino:avr:uno'],
+            profiles: '*',
+            parallel: 2,
+          },
+          'boardlab'
+        )
+      ).toBe(true)
+    })
+
+    it('rejects invalid profiles', () => {
+      expect(
+        isCompileMatrixTaskDefinition(
+          {
+            type: 'boardlab',
+            command: 'compile-matrix',
+            sketchPath: '/sketch',
+            profiles: 'uno',
+          },
+          'boardlab'
+        )
+      ).toBe(false)
+    })
+  })
+
+  describe('resolveCompileMatrixTargets', () => {
+    const profiles = {
+      esp32: { fqbn: 'esp32:esp32:esp32' },
+      pico: { fqbn: 'rp2040:rp2040:rpipico' },
+    }
+
+    it('resolves the FQBNs and the profiles', () => {
+      expect(
+        resolveCompileMatrixTargets(
+          { fqbns: ['arduino:avr:uno', 'arduino:avr:uno'], profiles: ['pico'] },
+          profiles
+        )
+      ).toEqual([
+        { label: 'arduino:avr:uno', fqbn: 'arduino:avr:uno', profile: '' },
+        {
+          label: 'rp2040:rp2040:rpipico (pico)',
+          fqbn: 'rp2040:rp2040:rpipico',
+          profile: 'pico',
+        },
+      ])
+    })
+
+    it('resolves all profiles of the sketch', () => {
+      expect(
+        resolveCompileMatrixTargets({ profiles: '*' }, profiles).map(
+          ({ profile }) => profile
+        )
+      ).toEqual(['esp32', 'pico'])
+    })
+  })
+
+  describe('annotateProblemLine', () => {
+    it('appends the target to the compiler diagnostics', () => {
+      expect(
+        annotateProblemLine(
+          '/sketch/sketch.ino:3:5: error: expected initializer',
+          'arduino:avr:uno'
+        )
+      ).toBe(
+        '/sketch/sketch.ino:3:5: error: expected initializer [arduino:avr:uno]'
+      )
+    })
+
+    it('keeps the trailing color reset', () => {
+      expect(
+        annotateProblemLine(
+          '\x1b[31m/sketch/sketch.ino:3:5: warning: unused variable\x1b[0m',
+          'esp32:esp32:esp32'
+        )
+      ).toBe(
+        '\x1b[31m/sketch/sketch.ino:3:5: warning: unused variable [esp32:esp32:esp32]\x1b[0m'
+      )
+    })
+
+    it('ignores other lines', () => {
+      const line = 'Sketch uses 924 bytes (2%) of program storage space.'
+      expect(annotateProblemLine(line, 'arduino:avr:uno')).toBe(line)
+    })
+  })
+
+  describe('formatCompileMatrixSummary', () => {
+    it('prints the result and the flash and RAM usage per target', () => {
+      expect(
+        formatCompileMatrixSummary([
+          {
+            target: { label: 'arduino:avr:uno', profile: '' },
+            status: 'passed',
+            executableSectionsSize: [
+              { name: 'text', size: 924, maxSize: 32256 },
+              { name: 'data', size: 9, maxSize: 2048 },
+            ],
+          },
+          {
+            target: { label: 'esp32:esp32:esp32 (esp32)', profile: 'esp32' },
+            status: 'failed',
+          },
+        ])
+      ).toEqual([
+        'Target                     Result  Flash               RAM',
+        'arduino:avr:uno            passed  924 / 32256 B (3%)  9 / 2048 B (0%)',
+        'esp32:esp32:esp32 (esp32)  failed  -                   -',
+      ])
+    })
+  })
+
+  describe('runWithConcurrency', () => {
+    it('limits the running tasks and keeps the order of the results', async () => {
+      let running = 0
+      let maxRunning = 0
+      const results = await runWithConcurrency([30, 10, 20, 0], 2, (delay) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        return new Promise<number>((resolve) =>
+          setTimeout(() => {
+            running--
+            resolve(delay)
+          }, delay)
+        )
+      })
+
+      expect(results).toEqual([30, 10, 20, 0])
+      expect(maxRunning).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,415 @@
+import { createHash } from 'node:crypto'
+import os from 'node:os'
+import path from 'node:path'
+
+import type { ExecutableSectionSize } from 'ardunno-cli/api'
+import * as vscode from 'vscode'
+
+import type { BoardLabContextImpl } from './boardlabContext'
+import { red, terminalEOL } from './cli/arduino'
+import { readProfiles } from './profile/profiles'
+import { formatSectionSize as formatBuildSectionSize } from './sketch/buildSize'
+
+export const compileMatrixCommand = 'compile-matrix' as const
+/** Selects all the profiles of the `sketch.yaml`. */
+export const allProfiles = '*' as const
+
+export interface CompileMatrixTaskDefinition extends vscode.TaskDefinition {
+  type: string
+  command: typeof compileMatrixCommand
+  sketchPath: string
+  /** The FQBNs to compile for without a sketch profile. */
+  fqbns?: string[]
+  /** The sketch profile names, or `'*'` for all profiles of the sketch. */
+  profiles?: string[] | typeof allProfiles
+  /** How many targets compile at the same time. Defaults to `1`. */
+  parallel?: number
+}
+
+export function isCompileMatrixTaskDefinition(
+  arg: unknown,
+  boardlabTaskType: string
+): arg is CompileMatrixTaskDefinition {
+  const definition = arg as CompileMatrixTaskDefinition
+  return (
+    definition.type === boardlabTaskType &&
+    definition.command === compileMatrixCommand &&
+    typeof definition.sketchPath === 'string' &&
+    (definition.fqbns === undefined || isStringArray(definition.fqbns)) &&
+    (definition.profiles === undefined ||
+      definition.profiles === allProfiles ||
+      isStringArray(definition.profiles)) &&
+    (definition.parallel === undefined ||
+      typeof definition.parallel === 'number')
+  )
+}
+
+function isStringArray(arg: unknown): arg is string[] {
+  return Array.isArray(arg) && arg.every((item) => typeof item === 'string')
+}
+
+export interface CompileMatrixTarget {
+  /** The FQBN, and the profile name in parentheses for profile targets. */
+  readonly label: string
+  readonly fqbn?: string
+  /** An empty string compiles without a sketch profile. */
+  readonly profile: string
+}
+
+export interface CompileMatrixResult {
+  readonly target: CompileMatrixTarget
+  readonly status: 'passed' | 'failed' | 'cancelled'
+  readonly executableSectionsSize?: ExecutableSectionSize[]
+}
+
+/**
+ * The FQBN targets come first, then the profile targets in the order of the
+ * task definition (or the `sketch.yaml` for `'*'`).
+ */
+export function resolveCompileMatrixTargets(
+  definition: Pick<CompileMatrixTaskDefinition, 'fqbns' | 'profiles'>,
+  profiles: Record<string, { fqbn?: string } | undefined>
+): CompileMatrixTarget[] {
+  const targets: CompileMatrixTarget[] = []
+  for (const fqbn of new Set(definition.fqbns ?? [])) {
+    targets.push({ label: fqbn, fqbn, profile: '' })
+  }
+  const profileNames =
+    definition.profiles === allProfiles
+      ? Object.keys(profiles)
+      : Array.from(new Set(definition.profiles ?? []))
+  for (const profile of profileNames) {
+    const fqbn = profiles[profile]?.fqbn
+    targets.push({
+      label: fqbn ? `${fqbn} (${profile})` : `(${profile})`,
+      fqbn,
+      profile,
+    })
+  }
+  return targets
+}
+
+/** Same as the pattern of the `$boardlab` problem matcher. */
+const problemPattern =
+  /^(.*?):(\d+):(\d*):?\s+(?:fatal\s+)?(note|warning|error):\s+(.*)$/
+// eslint-disable-next-line no-control-regex
+const ansiPattern = /\x1b\[[0-9;]*m/g
+// eslint-disable-next-line no-control-regex
+const trailingAnsiPattern = /(?:\x1b\[[0-9;]*m)*$/
+
+/**
+ * Appends the target label to the message of the compiler diagnostics so that
+ * the problems of the different targets can be told apart.
+ */
+export function annotateProblemLine(line: string, label: string): string {
+  if (!problemPattern.test(line.replace(ansiPattern, ''))) {
+    return line
+  }
+  const trailing = line.match(trailingAnsiPattern)?.[0] ?? ''
+  return `${line.slice(0, line.length - trailing.length)} [${label}]${trailing}`
+}
+
+/** Flash is the `text` section, RAM is the `data` section. */
+export function formatSectionSize(
+  sections: ExecutableSectionSize[] | undefined,
+  name: 'text' | 'data'
+): string {
+  const section = sections?.find((candidate) => candidate.name === name)
+  return section ? formatBuildSectionSize(section) : '-'
+}
+
+export function formatCompileMatrixSummary(
+  results: readonly CompileMatrixResult[]
+): string[] {
+  const rows = [
+    ['Target', 'Result', 'Flash', 'RAM'],
+    ...results.map(({ target, status, executableSectionsSize }) => [
+      target.label,
+      status,
+      formatSectionSize(executableSectionsSize, 'text'),
+      formatSectionSize(executableSectionsSize, 'data'),
+    ]),
+  ]
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  )
+  return rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd()
+  )
+}
+
+/**
+ * Runs `task` for each item with at most `limit` running at the same time. The
+ * results are in the order of the items.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index])
+    }
+  }
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
+}
+
+export function createCompileMatrixTask(params: {
+  definition: CompileMatrixTaskDefinition
+  boardlabTaskType: string
+  boardlabProblemMatcher: string
+  boardlabContext: BoardLabContextImpl
+}): vscode.Task {
+  const { definition } = params
+  return new vscode.Task(
+    definition,
+    vscode.TaskScope.Workspace,
+    `${compileMatrixCommand} ${path.basename(definition.sketchPath)}`,
+    params.boardlabTaskType,
+    new vscode.CustomExecution(async (resolvedTask) =>
+      createCompileMatrixPty(
+        resolvedTask as CompileMatrixTaskDefinition,
+        params.boardlabContext
+      )
+    ),
+    params.boardlabProblemMatcher
+  )
+}
+
+function createCompileMatrixPty(
+  definition: CompileMatrixTaskDefinition,
+  boardlabContext: BoardLabContextImpl
+): vscode.Pseudoterminal {
+  const emitter = new vscode.EventEmitter<string>()
+  const closeEmitter = new vscode.EventEmitter<void | number>()
+  const abortController = new AbortController()
+  let closed = false
+
+  const doClose = (code?: number) => {
+    if (closed) {
+      return
+    }
+    closed = true
+    closeEmitter.fire(code)
+    emitter.dispose()
+    closeEmitter.dispose()
+  }
+
+  const write = (text: string) => {
+    if (!closed) {
+      emitter.fire(text)
+    }
+  }
+  const writeLine = (line: string) => write(terminalEOL(`${line}\n`))
+
+  const run = async () => {
+    try {
+      const { sketchPath } = definition
+      const profiles = await readProfiles(sketchPath, false)
+        .then((content) => content.profiles ?? {})
+        .catch(() => ({}))
+      const targets = resolveCompileMatrixTargets(definition, profiles)
+      if (!targets.length) {
+        writeLine(red('No FQBNs or sketch profiles to compile for.'))
+        doClose(1)
+        return
+      }
+      const parallel = Math.max(1, Math.floor(definition.parallel ?? 1))
+      writeLine(
+        `Compiling ${path.basename(sketchPath)} for ${targets.length} target(s)...`
+      )
+      const results = await runWithConcurrency(targets, parallel, (target) =>
+        compileTarget({
+          target,
+          sketchPath,
+          boardlabContext,
+          signal: abortController.signal,
+          // Concurrent targets are buffered to keep their output together
+          write: parallel > 1 ? undefined : write,
+          onDidComplete: (output) => {
+            if (parallel > 1) {
+              writeLine(`\n> ${target.label}`)
+              output.forEach(write)
+            }
+          },
+        })
+      )
+      writeLine('')
+      formatCompileMatrixSummary(results).forEach((line, index) =>
+        writeLine(
+          index > 0 && results[index - 1].status === 'failed' ? red(line) : line
+        )
+      )
+      doClose(results.every(({ status }) => status === 'passed') ? 0 : 1)
+    } catch (err) {
+      writeLine(red(err instanceof Error ? err.message : String(err)))
+      doClose(1)
+    }
+  }
+
+  return {
+    onDidWrite: emitter.event,
+    onDidClose: closeEmitter.event,
+    open: () => {
+      run()
+    },
+    close: () => {
+      abortController.abort()
+      doClose()
+    },
+  }
+}
+
+async function compileTarget(params: {
+  target: CompileMatrixTarget
+  sketchPath: string
+  boardlabContext: BoardLabContextImpl
+  signal: AbortSignal
+  write: ((text: string) => void) | undefined
+  onDidComplete: (output: string[]) => void
+}): Promise<CompileMatrixResult> {
+  const { target, sketchPath, signal } = params
+  if (signal.aborted) {
+    return { target, status: 'cancelled' }
+  }
+  const output: string[] = []
+  const emit = (text: string) =>
+    params.write ? params.write(text) : output.push(text)
+  emit(terminalEOL(`\n> Compiling for ${target.label}\n`))
+
+  const { arduino } = await params.boardlabContext.client
+  const compileConfig = vscode.workspace.getConfiguration('boardlab.compile')
+  const { pty, result } = arduino.compile({
+    sketchPath,
+    fqbn: target.fqbn,
+    profile: target.profile || undefined,
+    buildPath: matrixBuildPath(sketchPath, target),
+    verbose: compileConfig.get<boolean>('verbose') ?? false,
+    warnings: (compileConfig.get<string>('warnings') ?? 'none').toLowerCase(),
+  })
+
+  const toDispose = [pty.onDidWrite((text) => emitLines(text))]
+  // The compiler output arrives in chunks; annotate complete lines only
+  let pending = ''
+  const emitLines = (text: string, flush = false) => {
+    const lines = (pending + text).split('\r\n')
+    pending = flush ? '' : (lines.pop() ?? '')
+    const complete = flush ? lines.filter(Boolean) : lines
+    for (const line of complete) {
+      emit(`${annotateProblemLine(line, target.label)}\r\n`)
+    }
+  }
+  const exit = new Promise<number | void>((resolve) => {
+    const onDidClose = pty.onDidClose?.((code) => resolve(code))
+    if (onDidClose) {
+      toDispose.push(onDidClose)
+    } else {
+      result.then(
+        () => resolve(0),
+        () => resolve(1)
+      )
+    }
+  })
+  const abort = () => pty.close()
+  signal.addEventListener('abort', abort)
+  try {
+    pty.open(undefined)
+    const code = await exit
+    emitLines('', true)
+    if (signal.aborted) {
+      return { target, status: 'cancelled' }
+    }
+    const builderResult =
+      code === 0 ? await result.catch(() => undefined) : undefined
+    return code === 0
+      ? {
+          target,
+          status: 'passed',
+          executableSectionsSize: builderResult?.executableSectionsSize,
+        }
+      : { target, status: 'failed' }
+  } finally {
+    signal.removeEventListener('abort', abort)
+    toDispose.forEach((disposable) => disposable.dispose())
+    params.onDidComplete(output)
+  }
+}
+
+/**
+ * Each target builds into its own folder. The default build path only depends
+ * on the sketch, so concurrent targets would overwrite each other's files.
+ */
+function matrixBuildPath(
+  sketchPath: string,
+  target: CompileMatrixTarget
+): string {
+  const hash = (value: string) =>
+    createHash('md5').update(value).digest('hex').toUpperCase()
+  return path.join(
+    os.tmpdir(),
+    'boardlab',
+    'compile-matrix',
+    hash(sketchPath),
+    hash(`${target.profile}\0${target.fqbn ?? ''}`)
+  )
+}
+
+/**
+ * Lets the user pick the sketch profiles and the FQBN of the selected board to
+ * compile for. All items are picked by default.
+ */
+export async function pickCompileMatrixTargets(params: {
+  sketchPath: string
+  fqbn?: string
+}): Promise<
+  Pick<CompileMatrixTaskDefinition, 'fqbns' | 'profiles'> | undefined
+> {
+  const profiles = await readProfiles(params.sketchPath, false)
+    .then((content) => content.profiles ?? {})
+    .catch(() => ({}))
+  const items: (vscode.QuickPickItem & { fqbn?: string; profile?: string })[] =
+    []
+  if (params.fqbn) {
+    items.push({
+      label: params.fqbn,
+      description: 'Selected board',
+      fqbn: params.fqbn,
+      picked: true,
+    })
+  }
+  for (const [profile, { fqbn } = {}] of Object.entries(profiles)) {
+    items.push({
+      label: profile,
+      description: fqbn,
+      profile,
+      picked: true,
+    })
+  }
+  if (!items.length) {
+    vscode.window.showInformationMessage(
+      'Select a board or add sketch profiles to compile for multiple targets.'
+    )
+    return undefined
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Compile for Multiple Targets',
+    placeHolder: 'Select the boards and sketch profiles to compile for',
+    canPickMany: true,
+  })
+  if (!picked?.length) {
+    return undefined
+  }
+  return {
+    fqbns: picked.flatMap(({ fqbn }) => (fqbn ? [fqbn] : [])),
+    profiles: picked.flatMap(({ profile }) => (profile ? [profile] : [])),
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  DebugOpenOCDServerConfiguration,
+  type GetDebugConfigResponse,
+} from 'ardunno-cli/api'
+import { describe, expect, it } from 'vitest'
+
+import {
+  createCortexDebugConfiguration,
+  isBoardLabDebugConfiguration,
+} from './debugConfig'
+
+function createResponse(
+  overrides: Partial<GetDebugConfigResponse> = {}
+): GetDebugConfigResponse {
+  return {
+    executable: '/tmp/build/Blink.ino.elf',
+    toolchain: 'gcc',
+    toolchainPath: '/arduino/tools/arm-none-eabi-gcc/bin',
+    toolchainPrefix: 'arm-none-eabi-',
+    server: 'openocd',
+    serverPath: '/arduino/tools/openocd/bin/openocd',
+    toolchainConfiguration: undefined,
+    serverConfiguration: {
+      typeUrl:
+        'type.googleapis.com/cc.arduino.cli.commands.v1.DebugOpenOCDServerConfiguration',
+      value: DebugOpenOCDServerConfiguration.encode({
+        path: '/arduino/tools/openocd/bin/openocd',
+        scriptsDir: '/arduino/tools/openocd/share/openocd/scripts',
+        scripts: ['interface/cmsis-dap.cfg', 'target/rp2040.cfg'],
+      }).finish(),
+    },
+    customConfigs: {},
+    svdFile: '/arduino/hardware/rp2040/rp2040.svd',
+    programmer: 'picoprobe',
+    ...overrides,
+  }
+}
+
+describe('debugConfig', () => {
+  describe('createCortexDebugConfiguration', () => {
+    it('should map the CLI debug config to a cortex-debug launch config', () => {
+      const config = createCortexDebugConfiguration({
+        name: 'Debug',
+        sketchPath: '/sketches/Blink',
+        response: createResponse(),
+      })
+
+      expect(config).toEqual({
+        type: 'cortex-debug',
+        request: 'launch',
+        name: 'Debug',
+        cwd: '/sketches/Blink',
+        executable: '/tmp/build/Blink.ino.elf',
+        toolchainPrefix: 'arm-none-eabi',
+        armToolchainPath: '/arduino/tools/arm-none-eabi-gcc/bin',
+        servertype: 'openocd',
+        serverpath: '/arduino/tools/openocd/bin/openocd',
+        svdFile: '/arduino/hardware/rp2040/rp2040.svd',
+        searchDir: ['/arduino/tools/openocd/share/openocd/scripts'],
+        configFiles: ['interface/cmsis-dap.cfg', 'target/rp2040.cfg'],
+      })
+    })
+
+    it('should skip the OpenOCD settings for other GDB servers', () => {
+      const config = createCortexDebugConfiguration({
+        name: 'Debug',
+        sketchPath: '/sketches/Blink',
+        response: createResponse({
+          server: 'jlink',
+          serverPath: '/opt/jlink/JLinkGDBServer',
+          svdFile: '',
+        }),
+      })
+
+      expect(config.servertype).toBe('jlink')
+      expect(config.serverpath).toBe('/opt/jlink/JLinkGDBServer')
+      expect(config).not.toHaveProperty('configFiles')
+      expect(config).not.toHaveProperty('searchDir')
+      expect(config).not.toHaveProperty('svdFile')
+    })
+
+    it('should merge the cortex-debug custom configs and the overrides', () => {
+      const config = createCortexDebugConfiguration({
+        name: 'Debug',
+        sketchPath: '/sketches/Blink',
+        response: createResponse({
+          customConfigs: {
+            'cortex-debug': JSON.stringify({
+              runToEntryPoint: 'setup',
+              svdFile: '/custom.svd',
+            }),
+          },
+        }),
+        overrides: { runToEntryPoint: 'loop' },
+      })
+
+      expect(config.runToEntryPoint).toBe('loop')
+      expect(config.svdFile).toBe('/custom.svd')
+    })
+
+    it('should ignore invalid custom configs', () => {
+      const config = createCortexDebugConfiguration({
+        name: 'Debug',
+        sketchPath: '/sketches/Blink',
+        response: createResponse({
+          customConfigs: { 'cortex-debug': '{not json' },
+        }),
+      })
+
+      expect(config.type).toBe('cortex-debug')
+    })
+  })
+
+  describe('isBoardLabDebugConfiguration', () => {
+    it('should detect the boardlab debug type', () => {
+      expect(
+        isBoardLabDebugConfiguration({
+          type: 'boardlab',
+          request: 'launch',
+          name: 'Debug',
+        })
+      ).toBe(true)
+      expect(
+        isBoardLabDebugConfiguration({
+          type: 'cortex-debug',
+          request: 'launch',
+          name: 'Debug',
+        })
+      ).toBe(false)
+      expect(isBoardLabDebugConfiguration(undefined)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import {
+  DebugOpenOCDServerConfiguration,
+  type GetDebugConfigResponse,
+} from 'ardunno-cli/api'
+import type * as vscode from 'vscode'
+
+export const boardlabDebugType = 'boardlab'
+export const cortexDebugType = 'cortex-debug'
+export const cortexDebugExtensionId = 'marus25.cortex-debug'
+
+const openOCDServerConfigurationTypeUrl =
+  'type.googleapis.com/cc.arduino.cli.commands.v1.DebugOpenOCDServerConfiguration'
+
+/** The `launch.json` attributes of the `boardlab` debug type. */
+export interface BoardLabDebugConfiguration extends vscode.DebugConfiguration {
+  sketchPath?: string
+  fqbn?: string
+  /** The port key of the debugger, for example, `arduino+serial://COM3`. */
+  port?: string
+  programmer?: string
+}
+
+export function isBoardLabDebugConfiguration(
+  arg: unknown
+): arg is BoardLabDebugConfiguration {
+  return (
+    typeof arg === 'object' &&
+    arg !== null &&
+    (<BoardLabDebugConfiguration>arg).type === boardlabDebugType
+  )
+}
+
+export function createCortexDebugConfiguration(params: {
+  name: string
+  sketchPath: string
+  response: GetDebugConfigResponse
+  /**
+   * Attributes from the user's launch configuration. They win over the
+   * generated ones.
+   */
+  overrides?: Record<string, unknown>
+}): vscode.DebugConfiguration {
+  const { name, sketchPath, response, overrides = {} } = params
+  const configuration: vscode.DebugConfiguration = {
+    type: cortexDebugType,
+    request: 'launch',
+    name,
+    cwd: sketchPath,
+    executable: response.executable,
+    toolchainPrefix: response.toolchainPrefix.replace(/-$/, ''),
+    armToolchainPath: response.toolchainPath,
+    servertype: response.server,
+    serverpath: response.serverPath,
+  }
+  if (response.svdFile) {
+    configuration.svdFile = response.svdFile
+  }
+
+  const openOCD = decodeOpenOCDServerConfiguration(response)
+  if (openOCD) {
+    if (openOCD.path) {
+      configuration.serverpath = openOCD.path
+    }
+    if (openOCD.scriptsDir) {
+      configuration.searchDir = [openOCD.scriptsDir]
+    }
+    configuration.configFiles = openOCD.scripts
+  }
+
+  return {
+    ...configuration,
+    ...parseCustomConfig(response.customConfigs[cortexDebugType]),
+    ...overrides,
+  }
+}
+
+function decodeOpenOCDServerConfiguration(
+  response: GetDebugConfigResponse
+): DebugOpenOCDServerConfiguration | undefined {
+  const { serverConfiguration } = response
+  if (
+    response.server !== 'openocd' ||
+    serverConfiguration?.typeUrl !== openOCDServerConfigurationTypeUrl
+  ) {
+    return undefined
+  }
+  return DebugOpenOCDServerConfiguration.decode(serverConfiguration.value)
+}
+
+function parseCustomConfig(
+  raw: string | undefined
+): Record<string, unknown> | undefined {
+  if (!raw) {
+    return undefined
+  }
+  try {
+    const parsed = JSON.parse(raw)
+    return typeof parsed === 'object' &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+      ? parsed
+      : undefined
+  } catch (err) {
+    console.warn('Failed to parse the cortex-debug custom configuration', err)
+    return undefined
+  }
+}
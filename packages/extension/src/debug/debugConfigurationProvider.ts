@@ -0,0 +1,234 @@
+import { Port } from 'ardunno-cli/api'
+import * as vscode from 'vscode'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import { revivePort } from '../cli/arduino'
+import type { BoardLabTasks } from '../tasks'
+import {
+  boardlabDebugType,
+  cortexDebugExtensionId,
+  createCortexDebugConfiguration,
+  isBoardLabDebugConfiguration,
+  type BoardLabDebugConfiguration,
+} from './debugConfig'
+
+const defaultConfigurationName = 'BoardLab: Debug Sketch'
+
+export class BoardLabDebugConfigurationProvider
+  implements vscode.DebugConfigurationProvider, vscode.Disposable
+{
+  private readonly toDispose: vscode.Disposable[]
+
+  constructor(
+    private readonly boardlabContext: BoardLabContextImpl,
+    private readonly tasks: BoardLabTasks
+  ) {
+    this.toDispose = [
+      vscode.debug.registerDebugConfigurationProvider(boardlabDebugType, this),
+      vscode.debug.registerDebugConfigurationProvider(
+        boardlabDebugType,
+        this,
+        vscode.DebugConfigurationProviderTriggerKind.Dynamic
+      ),
+      vscode.commands.registerCommand('boardlab.debug', () =>
+        vscode.debug.startDebugging(
+          vscode.workspace.workspaceFolders?.[0],
+          this.defaultConfiguration()
+        )
+      ),
+    ]
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  provideDebugConfigurations(): vscode.DebugConfiguration[] {
+    return [this.defaultConfiguration()]
+  }
+
+  async resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    debugConfiguration: vscode.DebugConfiguration,
+    token?: vscode.CancellationToken
+  ): Promise<vscode.DebugConfiguration | undefined> {
+    // F5 without a launch.json
+    if (!debugConfiguration.type && !debugConfiguration.request) {
+      debugConfiguration = this.defaultConfiguration()
+    }
+    if (!isBoardLabDebugConfiguration(debugConfiguration)) {
+      return debugConfiguration
+    }
+    const {
+      type: _type,
+      request: _request,
+      name,
+      sketchPath: sketchPathAttr,
+      fqbn: fqbnAttr,
+      port: portAttr,
+      programmer: programmerAttr,
+      ...overrides
+    } = debugConfiguration
+
+    const sketchPath =
+      sketchPathAttr || this.boardlabContext.currentSketch?.sketchPath
+    if (!sketchPath) {
+      vscode.window.showErrorMessage('Select a sketch to debug.')
+      return undefined
+    }
+    const sketch = this.boardlabContext.openedSketches.find(
+      (candidate) => candidate.sketchPath === sketchPath
+    )
+    const fqbn = fqbnAttr || sketch?.board?.fqbn
+    if (!fqbn) {
+      vscode.window.showErrorMessage(
+        `Select a board to debug the sketch at ${sketchPath}.`
+      )
+      return undefined
+    }
+    const selectedProgrammer = sketch?.selectedProgrammer
+    const programmer =
+      programmerAttr ||
+      (typeof selectedProgrammer === 'string'
+        ? selectedProgrammer
+        : selectedProgrammer?.id) ||
+      ''
+    const portIdentifier = portAttr ? revivePort(portAttr) : sketch?.port
+    const port = portIdentifier
+      ? Port.fromPartial({
+          protocol: portIdentifier.protocol,
+          address: portIdentifier.address,
+        })
+      : undefined
+
+    if (!(await this.ensureCortexDebugInstalled())) {
+      return undefined
+    }
+
+    const { arduino } = await this.boardlabContext.client
+    const controller = new AbortController()
+    const cancellation = token?.onCancellationRequested(() =>
+      controller.abort()
+    )
+    const { signal } = controller
+    try {
+      const { debuggingSupported, debugFqbn } = await arduino.isDebugSupported(
+        { fqbn, programmer, port },
+        signal
+      )
+      if (!debuggingSupported) {
+        vscode.window.showErrorMessage(
+          `Debugging is not supported for '${fqbn}'${programmer ? ` with the '${programmer}' programmer` : ''}.`
+        )
+        return undefined
+      }
+
+      const buildPath = await this.resolveBuildPath(sketchPath, fqbn)
+      if (!buildPath || token?.isCancellationRequested) {
+        return undefined
+      }
+
+      const response = await arduino.getDebugConfig(
+        {
+          fqbn: debugFqbn || fqbn,
+          sketchPath,
+          port,
+          programmer,
+          importDir: buildPath,
+        },
+        signal
+      )
+      return createCortexDebugConfiguration({
+        name: name || defaultConfigurationName,
+        sketchPath,
+        response,
+        overrides,
+      })
+    } catch (err) {
+      console.error('Failed to resolve the debug configuration', err)
+      vscode.window.showErrorMessage(
+        `Failed to resolve the debug configuration: ${err instanceof Error ? err.message : String(err)}`
+      )
+      return undefined
+    } finally {
+      cancellation?.dispose()
+    }
+  }
+
+  private defaultConfiguration(): BoardLabDebugConfiguration {
+    return {
+      type: boardlabDebugType,
+      request: 'launch',
+      name: defaultConfigurationName,
+    }
+  }
+
+  /**
+   * The build folder of the last compilation of the sketch if it was compiled
+   * with debug symbols for the board. Otherwise, compiles the sketch with debug
+   * symbols first.
+   */
+  private async resolveBuildPath(
+    sketchPath: string,
+    fqbn: string
+  ): Promise<string | undefined> {
+    const buildPath = this.debugBuildPathOf(sketchPath, fqbn)
+    if (buildPath) {
+      return buildPath
+    }
+    const compile = 'Compile with Debug Symbols'
+    const answer = await vscode.window.showInformationMessage(
+      this.compileSummaryOf(sketchPath)
+        ? `The last build of the sketch is not compiled with debug symbols for '${fqbn}'. Compile the sketch with debug symbols before debugging.`
+        : 'The sketch must be compiled with debug symbols before debugging.',
+      compile
+    )
+    if (answer !== compile) {
+      return undefined
+    }
+    const execution = await this.tasks.compileWithDebugSymbols({
+      sketchPath,
+      fqbn,
+    })
+    await new Promise<void>((resolve) => {
+      const listener = vscode.tasks.onDidEndTask((event) => {
+        if (event.execution === execution) {
+          listener.dispose()
+          resolve()
+        }
+      })
+    })
+    return this.debugBuildPathOf(sketchPath, fqbn)
+  }
+
+  private debugBuildPathOf(sketchPath: string, fqbn: string) {
+    const origin = this.boardlabContext.getCompileSummaryOrigin(sketchPath)
+    return origin?.optimizeForDebug && origin.fqbn === fqbn
+      ? this.compileSummaryOf(sketchPath)?.buildPath
+      : undefined
+  }
+
+  private compileSummaryOf(sketchPath: string) {
+    return this.boardlabContext.openedSketches.find(
+      (candidate) => candidate.sketchPath === sketchPath
+    )?.compileSummary
+  }
+
+  private async ensureCortexDebugInstalled(): Promise<boolean> {
+    if (vscode.extensions.getExtension(cortexDebugExtensionId)) {
+      return true
+    }
+    const install = 'Install'
+    const answer = await vscode.window.showErrorMessage(
+      'Debugging requires the Cortex-Debug extension.',
+      install
+    )
+    if (answer === install) {
+      await vscode.commands.executeCommand(
+        'workbench.extensions.installExtension',
+        cortexDebugExtensionId
+      )
+    }
+    return false
+  }
+}
@@ -15,8 +15,12 @@ import {
   notifyMonitorToolbarAction,
   notifyPlotterLineEndingChanged,
   notifyPlotterEditorStatus,
+  notifyPlotterFrozen,
+  notifyPlotterRecording,
+  notifyPlotterSamples,
   notifyPlotterToolbarAction,
   requestMonitorEditorContent,
+  requestPlotterData,
   requestPlotterEditorContent,
   type LineEnding,
   type MonitorEditorContent,
@@ -25,6 +29,9 @@ import {
   type MonitorSelectionNotification,
   type MonitorTerminalSettings,
   type MonitorToolbarAction,
+  type MonitorViewMode,
+  type PlotterData,
+  type PlotterSamples,
   type PlotterToolbarAction,
 } from '@boardlab/protocol'
 
@@ -80,6 +87,11 @@ abstract class MonitorBaseDocument implements vscode.CustomDocument {
     return this.currentState
   }
 
+  /** From the `view` query of the URI. Defaults to `text`. */
+  get view(): MonitorViewMode {
+    return this.query.get('view') === 'hex' ? 'hex' : 'text'
+  }
+
   /**
    * Called when the editor webview is ready. Ensures the monitor state reflects
    * an active connection even before streaming starts.
@@ -145,7 +157,8 @@ export class MonitorDocument extends MonitorBaseDocument {
   }
 
   override get title(): string {
-    return getMonitorDisplayName(this.port)
+    const name = getMonitorDisplayName(this.port)
+    return this.view === 'hex' ? `${name} (Hex)` : name
   }
 
   override get typeLabel(): string {
@@ -259,6 +272,7 @@ abstract class MonitorBaseEditorProvider<
         port: document.port,
         title: document.title,
         state: document.state,
+        view: document.view,
       },
     })
     panel.iconPath = this.stateConfig.iconPath
@@ -475,6 +489,7 @@ abstract class MonitorBaseEditorProvider<
       set.delete(binding)
       if (!set.size) {
         this.documentBindings.delete(binding.document)
+        this.onDidDetachDocument(binding.document)
       }
     }
     if (this.activeDocument === binding.document) {
@@ -482,7 +497,10 @@ abstract class MonitorBaseEditorProvider<
     }
   }
 
-  private pickBinding(
+  /** Called when the last editor panel of the document is closed. */
+  protected onDidDetachDocument(_document: TDocument): void {}
+
+  protected pickBinding(
     document: TDocument
   ): EditorPanelBinding<TDocument> | undefined {
     const bindings = Array.from(this.documentBindings.get(document) ?? [])
@@ -711,6 +729,24 @@ export class PlotterEditors extends MonitorBaseEditorProvider<
     )
   }
 
+  private readonly onDidReceiveSamplesEmitter = new vscode.EventEmitter<{
+    document: PlotterDocument
+    samples: PlotterSamples
+  }>()
+
+  private readonly onDidCloseDocumentEmitter =
+    new vscode.EventEmitter<PlotterDocument>()
+
+  private readonly recordingDocuments = new Set<PlotterDocument>()
+
+  /** The panels whose plot the user has frozen. */
+  private readonly frozenPanels = new Set<vscode.WebviewPanel>()
+
+  /** The samples parsed by the editors of the documents being recorded. */
+  readonly onDidReceiveSamples = this.onDidReceiveSamplesEmitter.event
+
+  readonly onDidCloseDocument = this.onDidCloseDocumentEmitter.event
+
   override createDocument(
     uri: vscode.Uri,
     port: PortIdentifier,
@@ -718,4 +754,119 @@ export class PlotterEditors extends MonitorBaseEditorProvider<
   ): PlotterDocument {
     return new PlotterDocument(uri, port, query, this.resourceStore)
   }
+
+  override async resolveCustomEditor(
+    document: PlotterDocument,
+    panel: vscode.WebviewPanel,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    await super.resolveCustomEditor(document, panel, token)
+    this.forEachBinding(document, (binding) => {
+      if (binding.panel !== panel) {
+        return
+      }
+      binding.disposables.push(
+        this.messenger.onNotification(
+          notifyPlotterSamples,
+          (samples) => {
+            // All editors of the document parse the same output; record one.
+            let source: typeof binding | undefined
+            this.forEachBinding(document, (candidate) => {
+              source ??= candidate
+            })
+            if (source === binding) {
+              this.onDidReceiveSamplesEmitter.fire({ document, samples })
+            }
+          },
+          { sender: binding.participant }
+        ),
+        this.messenger.onNotification(
+          notifyPlotterFrozen,
+          ({ frozen }) => {
+            if (frozen) {
+              this.frozenPanels.add(panel)
+            } else {
+              this.frozenPanels.delete(panel)
+            }
+            this.updateFrozenContext(panel)
+          },
+          { sender: binding.participant }
+        ),
+        panel.onDidChangeViewState(() => this.updateFrozenContext(panel)),
+        panel.onDidDispose(() => this.frozenPanels.delete(panel))
+      )
+    })
+    this.updateFrozenContext(panel)
+    if (this.recordingDocuments.has(document)) {
+      this.pushRecording(document)
+    }
+  }
+
+  async requestPlotterData(
+    target: PlotterDocument
+  ): Promise<PlotterData | undefined> {
+    const binding = this.pickBinding(target)
+    if (!binding) {
+      return undefined
+    }
+    try {
+      return await this.messenger.sendRequest(
+        requestPlotterData,
+        binding.participant,
+        undefined
+      )
+    } catch (error) {
+      console.error('Failed to request plotter data', error)
+      return undefined
+    }
+  }
+
+  /** Makes the editors of the document send the parsed samples. */
+  setRecording(document: PlotterDocument, recording: boolean): void {
+    if (recording) {
+      this.recordingDocuments.add(document)
+    } else {
+      this.recordingDocuments.delete(document)
+    }
+    this.pushRecording(document)
+  }
+
+  override dispose(): void {
+    super.dispose()
+    this.recordingDocuments.clear()
+    this.frozenPanels.clear()
+    this.onDidReceiveSamplesEmitter.dispose()
+    this.onDidCloseDocumentEmitter.dispose()
+  }
+
+  protected override onDidDetachDocument(document: PlotterDocument): void {
+    this.onDidCloseDocumentEmitter.fire(document)
+  }
+
+  /** The freeze toolbar action shows the paused state of the active panel. */
+  private updateFrozenContext(panel: vscode.WebviewPanel): void {
+    if (!panel.active) {
+      return
+    }
+    vscode.commands.executeCommand(
+      'setContext',
+      'boardlab.plotter.frozen',
+      this.frozenPanels.has(panel)
+    )
+  }
+
+  private pushRecording(document: PlotterDocument): void {
+    const recording = this.recordingDocuments.has(document)
+    this.forEachBinding(document, (binding) => {
+      try {
+        this.messenger.sendNotification(
+          notifyPlotterRecording,
+          binding.participant,
+          { recording }
+        )
+      } catch (error) {
+        console.error('Failed to push plotter recording', error)
+      }
+    })
+  }
 }
@@ -0,0 +1,149 @@
+import { readFileSync } from 'node:fs'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+import * as vscode from 'vscode'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { profilesEditField } from '@boardlab/protocol'
+
+import { ProfilesEditorProvider } from './profilesEditor'
+
+vi.mock('@boardlab/protocol', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@boardlab/protocol')>()),
+  genericProfileKeys: [
+    {
+      key: 'build_dir',
+      title: 'Build directory',
+      description: 'The build directory of the profile.',
+      markdownDescription: 'The build directory of the profile.',
+    },
+  ],
+}))
+
+describe('ProfilesEditorProvider', () => {
+  let tempDir: string
+  let sketchYamlPath: string
+  let provider: ProfilesEditorProvider
+  let handlers: Map<string, (params: any) => Promise<any>>
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'boardlab-profiles-editor-'))
+    sketchYamlPath = path.join(tempDir, 'sketch.yaml')
+    await writeFile(
+      sketchYamlPath,
+      `profiles:
+  uno:
+    fqbn: arduino:avr:uno
+    libraries:
+      - Servo (1.0.0)
+`
+    )
+    vi.mocked(vscode.workspace.openTextDocument).mockImplementation((async (
+      uri: vscode.Uri
+    ) => ({
+      uri,
+      getText: () => readFileSync(uri.fsPath, 'utf8'),
+      positionAt: (offset: number) => new vscode.Position(0, offset),
+    })) as any)
+    vi.mocked(vscode.workspace.applyEdit).mockImplementation((async (
+      edit: any
+    ) => {
+      const [{ uri, newText }] = edit.entries
+      await writeFile(uri.fsPath, newText)
+      return true
+    }) as any)
+    vi.mocked(vscode.window.showErrorMessage).mockClear()
+
+    handlers = new Map()
+    provider = new ProfilesEditorProvider(
+      vscode.Uri.file(tempDir),
+      1,
+      {
+        onRequest: (type: { method: string }, handler: any) => {
+          handlers.set(type.method, handler)
+          return new vscode.Disposable(() => {})
+        },
+      } as any,
+      {
+        client: Promise.resolve({
+          arduino: {
+            resolveLibraryDependencies: async () => ({ dependencies: [] }),
+          },
+        }),
+        boardsListWatcher: {
+          onDidChangeDetectedPorts: () => new vscode.Disposable(() => {}),
+        },
+      } as any
+    )
+  })
+
+  afterEach(async () => {
+    provider.dispose()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  describe('addLibraryByCommand', () => {
+    it('adds the library with its version once', async () => {
+      const uri = vscode.Uri.file(sketchYamlPath).toString()
+
+      await provider.addLibraryByCommand({
+        uri,
+        profile: 'uno',
+        library: { library: 'ArduinoJson', version: '7.0.0' },
+      })
+      await provider.addLibraryByCommand({
+        uri,
+        profile: 'uno',
+        library: { library: 'Servo', version: '1.2.0' },
+      })
+
+      expect(await readFile(sketchYamlPath, 'utf8')).toBe(`profiles:
+  uno:
+    fqbn: arduino:avr:uno
+    libraries:
+      - Servo (1.0.0)
+      - ArduinoJson (7.0.0)
+`)
+      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled()
+    })
+
+    it('shows the errors', async () => {
+      await provider.addLibraryByCommand({
+        uri: vscode.Uri.file(sketchYamlPath).toString(),
+        profile: 'esp32',
+        library: { library: 'ArduinoJson', version: '7.0.0' },
+      })
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        "Failed to add the 'ArduinoJson' library to the 'esp32' profile: Profile \"esp32\" not found"
+      )
+    })
+  })
+
+  describe('profilesEditField', () => {
+    it('edits the schema keys without a dedicated UI', async () => {
+      const uri = vscode.Uri.file(sketchYamlPath).toString()
+      const editField = handlers.get(profilesEditField.method)!
+      vi.mocked(vscode.window.showInputBox).mockResolvedValueOnce(' build ')
+
+      const edited = await editField({ uri, profile: 'uno', key: 'build_dir' })
+
+      expect(edited.profiles[0].fields).toEqual({ build_dir: 'build' })
+      expect(await readFile(sketchYamlPath, 'utf8')).toContain(
+        '    build_dir: build\n'
+      )
+
+      const cleared = await editField({
+        uri,
+        profile: 'uno',
+        key: 'build_dir',
+        clear: true,
+      })
+
+      expect(cleared.profiles[0].fields).toEqual({})
+      expect(await readFile(sketchYamlPath, 'utf8')).not.toContain('build_dir')
+    })
+  })
+})
@@ -17,6 +17,7 @@ import { parse, parseDocument, stringify } from 'yaml'
 import {
   addLibrary,
   addPlatform,
+  genericProfileKeys,
   profilesAddPortConfig as addPortConfigRequest,
   createProfile,
   profilesCreateProfileInteractive as createProfileInteractiveRequest,
@@ -28,6 +29,7 @@ import {
   pickBoardForCreation,
   profilesPickBoard as pickBoardRequest,
   profilesApplyQuickFixById,
+  profilesEditField,
   profilesGetActiveProfile,
   profilesListDiagnostics,
   profilesListQuickFixes,
@@ -62,6 +64,7 @@ import {
   profilesSelectPort as selectPortRequest,
   selectProfile,
   profilesSelectProgrammer as selectProgrammerRequest,
+  sketchYamlSchema,
   updateProfile,
   type BoardConfigOptionDescriptor,
   type BoardDescriptor,
@@ -84,6 +87,7 @@ import {
   type ProfilesCreateProfileInteractiveParams,
   type ProfilesDocumentParams,
   type ProfilesDocumentState,
+  type ProfilesEditFieldParams,
   type ProfilesListDiagnosticsParams,
   type ProfilesListQuickFixesParams,
   type ProfilesPickBoardConfigOptionForCreationParams,
@@ -122,6 +126,11 @@ import {
 
 import type { BoardLabContextImpl } from '../boardlabContext'
 import { ensureBoardDetails, PlatformNotInstalledError } from '../boards'
+import {
+  confirmLibraryDependencies,
+  resolveLibraryDependencies,
+  type LibraryDependency,
+} from '../libraryDependencies'
 import { collectCliDiagnostics } from '../profile/cliDiagnostics'
 import {
   computeProfilesQuickFixPlans,
@@ -226,6 +235,26 @@ function combineLibraryNameVersion(name: string, version?: string): string {
   return version && version.trim().length ? `${name} (${version.trim()})` : name
 }
 
+/** Adds the dependencies missing from the libraries of the profile. */
+function addLibraryDependencies(
+  libraries: unknown[],
+  dependencies: readonly ProfileLibraryDescriptor[]
+): void {
+  for (const dependency of dependencies) {
+    const exists = libraries.some((entry) =>
+      typeof entry === 'string'
+        ? splitLibraryNameVersion(entry).name === dependency.library
+        : (entry as { library?: string } | undefined)?.library ===
+          dependency.library
+    )
+    if (!exists) {
+      libraries.push(
+        combineLibraryNameVersion(dependency.library, dependency.version)
+      )
+    }
+  }
+}
+
 function toProfileDescriptor(
   name: string,
   profile: MutableProfile | undefined
@@ -281,6 +310,13 @@ function toProfileDescriptor(
       }
     }
   }
+  const fields: Record<string, string> = {}
+  for (const { key } of genericProfileKeys) {
+    const value = profile?.[key]
+    if (typeof value === 'string') {
+      fields[key] = value
+    }
+  }
   const libraries: ProfileLibraryDescriptor[] = []
   if (profile && Array.isArray(profile.libraries)) {
     for (const item of profile.libraries as Array<unknown>) {
@@ -311,6 +347,7 @@ function toProfileDescriptor(
         ? profile.notes
         : undefined,
     portConfig,
+    fields,
     platforms,
     libraries,
   }
@@ -426,6 +463,10 @@ export class ProfilesEditorProvider
         ): Promise<PlatformNameInfo | undefined> =>
           this.handleResolvePlatformName(params)
       ),
+      messenger.onRequest(
+        profilesEditField,
+        async (params: ProfilesEditFieldParams) => this.handleEditField(params)
+      ),
       messenger.onRequest(
         profilesPickPlatformIndexUrl,
         async (params: ProfilesPickPlatformIndexUrlParams) =>
@@ -1468,6 +1509,19 @@ export class ProfilesEditorProvider
     }
   }
 
+  async addLibraryByCommand(params: ModifyLibraryParams): Promise<void> {
+    try {
+      await this.handleAddLibrary(params)
+    } catch (err) {
+      console.error('Profiles: addLibraryByCommand failed', err)
+      vscode.window.showErrorMessage(
+        `Failed to add the '${params.library.library}' library to the '${params.profile}' profile: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      )
+    }
+  }
+
   private async handleSelectProfile(
     params: SelectProfileParams
   ): Promise<ProfilesDocumentState> {
@@ -1483,6 +1537,10 @@ export class ProfilesEditorProvider
   private async handleAddLibrary(
     params: ModifyLibraryParams
   ): Promise<ProfilesDocumentState> {
+    const dependencies = await this.pickLibraryDependencies(params.library)
+    if (!dependencies) {
+      return this.currentDocumentState(params.uri)
+    }
     return this.updateDocument(params.uri, (_document, profiles) => {
       const container = profiles.profiles
       if (!container) {
@@ -1492,22 +1550,73 @@ export class ProfilesEditorProvider
       if (!profile) {
         throw new Error(`Profile "${params.profile}" not found`)
       }
-      const libraryId = params.library.library
+      const { library: libraryId, version } = params.library
       if (!libraryId) {
         throw new Error('Library id is required')
       }
       const libraries = (profile.libraries || (profile.libraries = [])) as any[]
       const exists = libraries.some((entry) =>
         typeof entry === 'string'
-          ? entry === libraryId
+          ? splitLibraryNameVersion(entry).name === libraryId
           : entry?.library === libraryId
       )
       if (!exists) {
-        libraries.push(libraryId)
+        libraries.push(combineLibraryNameVersion(libraryId, version))
       }
+      addLibraryDependencies(libraries, dependencies)
     })
   }
 
+  /**
+   * Resolves the dependencies of the library and asks whether to add them to
+   * the profile too. Resolves to `undefined` when the user cancels.
+   */
+  private async pickLibraryDependencies(
+    library: ProfileLibraryDescriptor
+  ): Promise<ProfileLibraryDescriptor[] | undefined> {
+    let dependencies: LibraryDependency[]
+    try {
+      const { arduino } = await this.boardlabContext.client
+      dependencies = await resolveLibraryDependencies(
+        arduino,
+        library.library,
+        library.version
+      )
+    } catch (err) {
+      console.warn('Failed to resolve the library dependencies', err)
+      return []
+    }
+    if (!dependencies.length) {
+      return []
+    }
+    const choice = await confirmLibraryDependencies(
+      library.library,
+      library.version,
+      dependencies,
+      'add'
+    )
+    if (!choice) {
+      return undefined
+    }
+    return choice === 'all'
+      ? dependencies.map(({ name, version }) => ({ library: name, version }))
+      : []
+  }
+
+  private async currentDocumentState(
+    uri: string
+  ): Promise<ProfilesDocumentState> {
+    const document = await this.ensureDocument(uri)
+    if (!document) {
+      return {
+        profiles: [],
+        selectedProfile: undefined,
+        hasDocument: false,
+      }
+    }
+    return this.computeDocumentState(document)
+  }
+
   private async handlePickLibrary(
     params: ProfilesPickLibraryParams
   ): Promise<ProfilesDocumentState> {
@@ -1630,6 +1739,10 @@ export class ProfilesEditorProvider
         library: selected,
         version: chosenVersion,
       }
+      const dependencies = await this.pickLibraryDependencies(library)
+      if (!dependencies) {
+        return this.currentDocumentState(params.uri)
+      }
       return this.updateDocument(params.uri, (_document, profiles) => {
         const container = profiles.profiles
         if (!container) {
@@ -1657,6 +1770,7 @@ export class ProfilesEditorProvider
         } else {
           libraries.push(combined)
         }
+        addLibraryDependencies(libraries, dependencies)
       })
     } finally {
       disposeAll(...toDispose)
@@ -2528,6 +2642,55 @@ export class ProfilesEditorProvider
     })
   }
 
+  private async handleEditField(
+    params: ProfilesEditFieldParams
+  ): Promise<ProfilesDocumentState> {
+    const field = genericProfileKeys.find(({ key }) => key === params.key)
+    if (!field) {
+      throw new Error(`Unknown profile field: ${params.key}`)
+    }
+    const document = await this.ensureDocument(params.uri)
+    if (!document) {
+      return { profiles: [], selectedProfile: undefined, hasDocument: false }
+    }
+    if (params.clear) {
+      return this.updateDocument(params.uri, (_doc, profiles) => {
+        const profile = this.getMutableProfileStrict(profiles, params.profile)
+        delete profile[field.key]
+      })
+    }
+
+    const profilesDoc = parseProfilesText(document.getText())
+    const current = this.getMutableProfileStrict(profilesDoc, params.profile)[
+      field.key
+    ]
+    const { pattern, patternErrorMessage } =
+      sketchYamlSchema.definitions.profile.properties?.[field.key] ?? {}
+    const picked = await vscode.window.showInputBox({
+      title: `${field.title} of ${params.profile}`,
+      prompt: field.description || undefined,
+      value: typeof current === 'string' ? current : '',
+      validateInput: (value) => {
+        const trimmed = value.trim()
+        if (!trimmed) return `${field.title} is required`
+        if (pattern && !new RegExp(pattern).test(trimmed)) {
+          return patternErrorMessage ?? `${field.title} is not valid`
+        }
+        return null
+      },
+    })
+    if (picked === undefined) {
+      // cancelled
+      return this.computeDocumentState(document)
+    }
+
+    const next = picked.trim()
+    return this.updateDocument(params.uri, (_doc, profiles) => {
+      const profile = this.getMutableProfileStrict(profiles, params.profile)
+      profile[field.key] = next
+    })
+  }
+
   private async handleRemovePlatform(
     params: ModifyPlatformParams
   ): Promise<ProfilesDocumentState> {
@@ -320,8 +320,9 @@ function parseQuery(uri: vscode.Uri): ExampleReadmeMeta | undefined {
         relPath: typeof q.relPath === 'string' ? q.relPath : undefined,
         source: typeof q.source === 'string' ? q.source : undefined,
       }
+      // the board examples are previewed like the built-in ones
       const builtin =
-        q.kind === 'builtin'
+        q.kind === 'builtin' && q.source !== 'board'
           ? true
           : typeof q.isBuiltin === 'boolean'
             ? Boolean(q.isBuiltin)
@@ -0,0 +1,145 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+import * as vscode from 'vscode'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { ExamplesIndex } from './examplesIndex'
+
+describe('ExamplesIndex', () => {
+  let tempDir: string | undefined
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true })
+      tempDir = undefined
+    }
+  })
+
+  it('lists the examples of the platform of the selected board', async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'boardlab-examples-'))
+    const platformPath = path.join(tempDir, 'esp32', 'hardware', 'esp32')
+    await createSketch(platformPath, 'examples', 'Blink')
+    await createSketch(
+      platformPath,
+      'libraries',
+      'WiFi',
+      'examples',
+      'WiFiScan'
+    )
+    await mkdir(path.join(platformPath, 'libraries', 'Wire'), {
+      recursive: true,
+    })
+    const libraryPath = path.join(tempDir, 'Arduino', 'libraries', 'Servo')
+    await createSketch(libraryPath, 'examples', 'Sweep')
+
+    const index = createIndex('esp32:esp32:esp32', platformPath, [
+      path.join(platformPath, 'libraries', 'WiFi'),
+      libraryPath,
+    ])
+    try {
+      await index.ready()
+
+      expect(
+        index.list().map(({ id, label, source, entries }) => ({
+          id,
+          label,
+          source,
+          sketches: entries.map(({ relPath }) => relPath),
+        }))
+      ).toEqual([
+        {
+          id: 'board:ESP32 Arduino',
+          label: 'ESP32 Arduino',
+          source: 'board',
+          sketches: ['Blink'],
+        },
+        {
+          id: 'library:Servo',
+          label: 'Servo',
+          source: 'library',
+          sketches: ['Sweep'],
+        },
+        {
+          id: 'board:WiFi',
+          label: 'WiFi',
+          source: 'board',
+          sketches: ['WiFiScan'],
+        },
+      ])
+      expect(index.resolveAbsolutePath('board:WiFi', 'WiFiScan')).toBe(
+        path.join(platformPath, 'libraries', 'WiFi', 'examples', 'WiFiScan')
+      )
+    } finally {
+      index.dispose()
+    }
+  })
+
+  it('reloads the board examples for another board', async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'boardlab-examples-'))
+    const platformPath = path.join(tempDir, 'esp32', 'hardware', 'esp32')
+    await createSketch(platformPath, 'examples', 'Blink')
+
+    const index = createIndex(undefined, platformPath, [])
+    try {
+      await index.ready()
+      expect(index.list()).toEqual([])
+
+      await index.ready('esp32:esp32:esp32')
+      expect(index.list().map(({ id }) => id)).toEqual(['board:ESP32 Arduino'])
+    } finally {
+      index.dispose()
+    }
+  })
+})
+
+async function createSketch(...segments: string[]): Promise<void> {
+  const sketchPath = path.join(...segments)
+  await mkdir(sketchPath, { recursive: true })
+  await writeFile(
+    path.join(sketchPath, `${path.basename(sketchPath)}.ino`),
+    'void setup() {}\nvoid loop() {}\n'
+  )
+}
+
+function createIndex(
+  fqbn: string | undefined,
+  platformPath: string,
+  libraryPaths: string[]
+): ExamplesIndex {
+  const event = () => new vscode.Disposable(() => {})
+  const arduino = {
+    boardDetails: async () => ({
+      fqbn: 'esp32:esp32:esp32',
+      name: 'ESP32 Dev Module',
+      buildProperties: [
+        'name=ESP32 Arduino',
+        `runtime.platform.path=${platformPath}`,
+      ],
+      programmers: [],
+      configOptions: [],
+      toolsDependencies: [],
+    }),
+    listLibraries: async () =>
+      libraryPaths.map((installDir) => ({
+        library: {
+          name: path.basename(installDir),
+          installDir,
+          location: installDir.startsWith(platformPath) ? 2 : 1,
+          examples: [path.join(installDir, 'examples', 'Sweep')],
+        },
+      })),
+  }
+  const context: any = {
+    client: Promise.resolve({ arduino }),
+    whenCurrentSketchReady: Promise.resolve(),
+    currentSketch: fqbn ? { board: { name: 'ESP32 Dev Module', fqbn } } : {},
+    extensionUri: vscode.Uri.file(path.join(platformPath, 'extension')),
+    onDidChangeCurrentSketch: event,
+    onDidChangeSketch: event,
+    librariesManager: { onDidInstall: event, onDidUninstall: event },
+    platformsManager: { onDidInstall: event, onDidUninstall: event },
+  }
+  return new ExamplesIndex(context)
+}
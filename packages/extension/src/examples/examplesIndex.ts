@@ -19,7 +19,7 @@ import type {
 } from '@boardlab/protocol'
 
 import type { BoardLabContext } from '../boardlabContext'
-import { isBoardDetails } from '../boards'
+import { ensureBoardDetails, isBoardDetails } from '../boards'
 import { disposeAll } from '../utils'
 
 export type ExampleId = string
@@ -49,6 +49,11 @@ type ExampleCache = Map<ExampleId, ExampleMeta>
 
 const EXAMPLES_DIR_RE = /^examples?$/i
 
+interface BoardPlatform {
+  readonly path: string
+  readonly label: string
+}
+
 interface BuiltinLibraryDefinition {
   readonly label: string
   readonly rootPath: string
@@ -91,8 +96,15 @@ export class ExamplesIndex implements ExampleLocator, vscode.Disposable {
     disposeAll(...this.disposables, this._onDidChange)
   }
 
-  async ready(): Promise<void> {
+  /**
+   * Resolves when the index is loaded. When the `fqbn` differs from the board
+   * the index was loaded for, the index is reloaded first.
+   */
+  async ready(fqbn?: string): Promise<void> {
     await this.ensureLoaded()
+    if (fqbn && this.updateFqbn(fqbn)) {
+      await this.refresh()
+    }
   }
 
   list(): ExampleMeta[] {
@@ -149,8 +161,16 @@ export class ExamplesIndex implements ExampleLocator, vscode.Disposable {
       const fqbn = this.lastFqbn
       const usedIds = new Set<string>()
       const builtinMetas = await this.buildBuiltinExamples(usedIds)
-      const libraryMetas = await this.buildLibraryExamples(fqbn, usedIds)
-      const metas = [...builtinMetas, ...libraryMetas]
+      const platform = await this.resolveBoardPlatform(fqbn)
+      const boardMetas = platform
+        ? await this.buildBoardExamples(platform, usedIds)
+        : []
+      const libraryMetas = await this.buildLibraryExamples(
+        fqbn,
+        usedIds,
+        platform?.path
+      )
+      const metas = [...builtinMetas, ...boardMetas, ...libraryMetas]
       this.cache.clear()
       for (const meta of metas) {
         this.cache.set(meta.id, meta)
@@ -244,9 +264,106 @@ export class ExamplesIndex implements ExampleLocator, vscode.Disposable {
     ]
   }
 
+  private async resolveBoardPlatform(
+    fqbn: string | undefined
+  ): Promise<BoardPlatform | undefined> {
+    if (!fqbn) {
+      return undefined
+    }
+    const { arduino } = await this.context.client
+    try {
+      const { buildProperties } = await ensureBoardDetails(fqbn, arduino)
+      const platformPath = buildProperties['runtime.platform.path']
+      if (!platformPath) {
+        return undefined
+      }
+      const [vendor, arch] = fqbn.split(':')
+      return {
+        path: platformPath,
+        label: buildProperties['name'] || `${vendor}:${arch}`,
+      }
+    } catch {
+      // the platform of the board is not installed
+      return undefined
+    }
+  }
+
+  /**
+   * The examples in the platform folder of the selected board: the sketches of
+   * the `examples` folder of the core, and the examples of each library in the
+   * `libraries` folder of the platform.
+   */
+  private async buildBoardExamples(
+    platform: BoardPlatform,
+    usedIds: Set<string>
+  ): Promise<ExampleMeta[]> {
+    const metas: ExampleMeta[] = []
+    const push = (label: string, rootPath: string, entries: ExampleEntry[]) => {
+      if (!entries.length) {
+        return
+      }
+      const id = uniqueId(`board:${label}`, usedIds)
+      usedIds.add(id)
+      metas.push({ id, label, source: 'board', rootPath, entries })
+    }
+
+    const coreExamplesPath = path.join(platform.path, 'examples')
+    push(
+      platform.label,
+      coreExamplesPath,
+      await this.collectExampleEntries(coreExamplesPath)
+    )
+
+    const librariesPath = path.join(platform.path, 'libraries')
+    let dirEntries: Dirent[] = []
+    try {
+      dirEntries = await fs.readdir(librariesPath, { withFileTypes: true })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to read platform libraries', librariesPath, error)
+      }
+    }
+    for (const entry of dirEntries) {
+      if (!entry.isDirectory()) {
+        continue
+      }
+      const libraryPath = path.join(librariesPath, entry.name)
+      push(
+        entry.name,
+        libraryPath,
+        await this.collectExampleEntries(path.join(libraryPath, 'examples'))
+      )
+    }
+
+    metas.sort((a, b) => a.label.localeCompare(b.label))
+    return metas
+  }
+
+  private async collectExampleEntries(
+    examplesPath: string
+  ): Promise<ExampleEntry[]> {
+    let tree: SketchbookTree
+    try {
+      tree = await sketchbookTree(examplesPath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to scan examples', examplesPath, error)
+      }
+      return []
+    }
+    if (typeof tree.root === 'string') {
+      return []
+    }
+    return this.collectBuiltinEntries(
+      examplesPath,
+      tree.root as SketchTreeFolder
+    )
+  }
+
   private async buildLibraryExamples(
     fqbn: string | undefined,
-    usedIds: Set<string>
+    usedIds: Set<string>,
+    boardPlatformPath: string | undefined
   ): Promise<ExampleMeta[]> {
     const client = await this.context.client
 
@@ -265,6 +382,10 @@ export class ExamplesIndex implements ExampleLocator, vscode.Disposable {
       if (!lib) continue
       if (!lib.examples || !lib.examples.length) continue
       if (!lib.installDir) continue
+      // listed with the examples of the board
+      if (boardPlatformPath && isInside(boardPlatformPath, lib.installDir)) {
+        continue
+      }
       const examples = await this.normalizeExamples(lib)
       if (!examples.length) continue
 
@@ -610,6 +731,11 @@ function toFsPath(value: string): string | undefined {
   }
 }
 
+function isInside(parentPath: string, childPath: string): boolean {
+  const relative = path.relative(parentPath, childPath)
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
 function uniqueId(base: string, used: Set<string>): string {
   if (!used.has(base)) {
     return base
@@ -69,7 +69,12 @@ export async function renderBuiltinSketchReadme(
     `${sketchName}.ino`
   )
 
-  const textBuf = await readOrUndefined(txtUri)
+  // the examples of the platforms describe the sketch in a README instead
+  const textBuf =
+    (await readOrUndefined(txtUri)) ??
+    (await readOrUndefined(
+      vscode.Uri.joinPath(context.sketchFolder, 'README.md')
+    ))
   const schematicBuf = await readOrUndefined(schematicUri)
   const layoutBuf = await readOrUndefined(layoutUri)
   const sketchBuf = await readOrUndefined(mainSketchUri)
@@ -99,7 +104,9 @@ export async function renderBuiltinSketchReadme(
   const mdParts: string[] = [
     `# ${context.title}`,
     '',
-    '> Arduino built-in example',
+    context.source === 'board'
+      ? '> Example of the board platform'
+      : '> Arduino built-in example',
   ]
 
   if (githubLine.trim().length) {
@@ -2,6 +2,7 @@ import { promises as fs } from 'node:fs'
 import os from 'node:os'
 import * as path from 'node:path'
 
+import { isAbortError } from 'abort-controller-x'
 import type { Mutable, PortIdentifier } from 'boards-list'
 import { createPortKey } from 'boards-list'
 import { FQBN, valid as isValidFQBN } from 'fqbn'
@@ -36,8 +37,12 @@ import {
   setPlatformsFilterContext as setPlatformsFilterContextReq,
 } from '@boardlab/protocol'
 
+import { forgetRememberedBoards } from './boardIdentification'
 import { BoardLabContextImpl, createBoardLabContext } from './boardlabContext'
 import { AddAdditionalPackageIndexUrlParams } from './cli/config'
+import { CompileErrorsProvider } from './compileErrors'
+import { pickCompileMatrixTargets } from './compileMatrixTask'
+import { BoardLabDebugConfigurationProvider } from './debug/debugConfigurationProvider'
 import { MonitorEditors, PlotterEditors } from './editors/monitorEditors'
 import { ProfilesEditorProvider } from './editors/profilesEditor'
 import {
@@ -51,21 +56,48 @@ import { ExamplesIndex } from './examples/examplesIndex'
 import { registerExampleCommands } from './examples/importCommands'
 import { showLibraryReadme } from './examples/readme'
 import { showBuiltinSketchReadmeFromFolderStrict } from './examples/showBuiltinSketchReadme'
+import { CompilationDatabases } from './intellisense/compilationDatabase'
+import { CppToolsConfigurationProvider } from './intellisense/cppToolsProvider'
+import { BacktraceDecoder } from './monitor/backtraceDecoder'
 import {
   logDetectedPorts,
   logMonitorBridgeMetrics,
 } from './monitor/bridgeMetrics'
 import { MonitorFileSystemProvider } from './monitor/monitorFs'
+import {
+  loadMonitorMacros,
+  runMonitorMacroOnPort,
+  type MonitorMacro,
+} from './monitor/monitorMacros'
 import { MonitorResourceStore } from './monitor/monitorResources'
 import { MonitorSelectionCoordinator } from './monitor/monitorSelections'
+import {
+  getMonitorRecordingOptions,
+  MonitorRecorder,
+  type MonitorRecordingOptions,
+} from './monitor/monitorRecorder'
 import { MonitorStatusBar } from './monitor/monitorStatusBar'
-import { formatMonitorUri, MONITOR_URI_SCHEME } from './monitor/monitorUri'
+import {
+  formatPlotterData,
+  PlotterRecorder,
+  slicePlotterData,
+  type PlotterExportFormat,
+} from './monitor/plotterRecorder'
+import {
+  formatMonitorUri,
+  MONITOR_URI_SCHEME,
+  parseMonitorUri,
+} from './monitor/monitorUri'
+import { PackageMirror } from './packageMirror'
 import { PlatformMissingStatusBar } from './platformMissingStatusBar'
 import { collectCliDiagnostics } from './profile/cliDiagnostics'
 import { ProfilesCodeActionProvider } from './profile/codeActions'
+import { ProfilesIntelliSenseProvider } from './profile/intellisense'
 import { readProfile, readProfiles, updateProfile } from './profile/profiles'
+import { buildLibraryDirEdit } from './profile/quickFixes'
 import { validateProfilesYAML } from './profile/validation'
 import { registerProfilesYamlValidation } from './profile/validationHost'
+import { BuildSizeView } from './sketch/buildSizeView'
 import { CurrentSketchView } from './sketch/currentSketchView'
 import {
   cloneSketch,
@@ -81,6 +113,7 @@ import { SketchbookView } from './sketch/sketchbookView'
 import { SketchFolderImpl } from './sketch/sketchFolder'
 import type { Resource as SketchResource } from './sketch/types'
 import { BoardLabTasks } from './tasks'
+import { BoardLabTestController } from './testing/testController'
 import {
   getTaskStatus,
   markTaskFinished,
@@ -88,6 +121,8 @@ import {
   tryStopTask,
   type TaskKind,
 } from './taskTracker'
+import { updateAll } from './updateAll'
+import { UploadUserFields } from './uploadUserFields'
 import {
   ExamplesViewProvider,
   LibrariesManagerViewProvider,
@@ -288,14 +323,50 @@ export function activate(context: vscode.ExtensionContext) {
     monitorsRegistry: boardlabContext.monitorsRegistry.constructor.name,
   })
 
-  const tasks = new BoardLabTasks(boardlabContext)
+  const uploadUserFields = new UploadUserFields(context.secrets)
+  const packageMirror = new PackageMirror(context, boardlabContext)
+  context.subscriptions.push(packageMirror)
+  const tasks = new BoardLabTasks(boardlabContext, uploadUserFields)
   console.log('Registered tasks provider')
+  context.subscriptions.push(new BoardLabTestController(boardlabContext, tasks))
+  const debugConfigurationProvider = new BoardLabDebugConfigurationProvider(
+    boardlabContext,
+    tasks
+  )
+  console.log('Registered debug configuration provider')
+  const compilationDatabases = new CompilationDatabases(
+    boardlabContext,
+    context.globalStorageUri
+  )
+  CppToolsConfigurationProvider.register(
+    context.extension.id,
+    boardlabContext,
+    compilationDatabases
+  ).then(
+    (provider) => {
+      if (provider) {
+        context.subscriptions.push(provider)
+        console.log('Registered C/C++ configuration provider')
+      }
+    },
+    (err) =>
+      console.warn('Failed to register the C/C++ configuration provider', err)
+  )
   const platformMissingStatusBar = new PlatformMissingStatusBar(boardlabContext)
   console.log('Registered platform status bar')
   const monitorStatusBar = new MonitorStatusBar(boardlabContext)
   console.log('Registered monitor status bar')
+  const monitorRecorder = new MonitorRecorder(boardlabContext)
+  console.log('Registered monitor recorder')
+  const backtraceDecoder = new BacktraceDecoder(boardlabContext)
+  console.log('Registered backtrace decoder')
   const currentSketchView = new CurrentSketchView(boardlabContext)
   console.log('Registered sketches view')
+  const buildSizeView = new BuildSizeView(
+    boardlabContext,
+    context.workspaceState
+  )
+  console.log('Registered build size view')
   const sketchbook = new SketchbookView(context, boardlabContext.sketchbooks)
   console.log('Registered sketchbook view')
   registerSketchbookReadonlyFs(context)
@@ -473,7 +544,20 @@ export function activate(context: vscode.ExtensionContext) {
     return true
   }
 
-  context.subscriptions.push(platformMissingStatusBar, monitorStatusBar)
+  context.subscriptions.push(
+    platformMissingStatusBar,
+    monitorStatusBar,
+    monitorRecorder,
+    backtraceDecoder,
+    debugConfigurationProvider,
+    compilationDatabases,
+    vscode.commands.registerCommand('boardlab.intellisense.refresh', () => {
+      const sketchPath = boardlabContext.currentSketch?.sketchPath
+      return sketchPath
+        ? compilationDatabases.generate(sketchPath, { withProfile: true })
+        : undefined
+    })
+  )
 
   context.subscriptions.push(
     vscode.tasks.onDidStartTask((event) => {
@@ -519,7 +603,9 @@ export function activate(context: vscode.ExtensionContext) {
     ),
     vscode.commands.registerCommand(
       'boardlab.compile',
-      async (params: { sketchPath?: string; fqbn?: string } = {}) => {
+      async (
+        params: { sketchPath?: string; fqbn?: string; profile?: string } = {}
+      ) => {
         const resolved = await resolveSketchTaskParams(
           boardlabContext,
           params,
@@ -532,12 +618,14 @@ export function activate(context: vscode.ExtensionContext) {
           return
         }
         const { sketchPath, fqbn } = resolved
-        await tasks.compile({ sketchPath, fqbn })
+        await tasks.compile({ sketchPath, fqbn, profile: params.profile })
       }
     ),
     vscode.commands.registerCommand(
       'boardlab.compileWithDebugSymbols',
-      async (params: { sketchPath?: string; fqbn?: string } = {}) => {
+      async (
+        params: { sketchPath?: string; fqbn?: string; profile?: string } = {}
+      ) => {
         const resolved = await resolveSketchTaskParams(
           boardlabContext,
           params,
@@ -550,7 +638,11 @@ export function activate(context: vscode.ExtensionContext) {
           return
         }
         const { sketchPath, fqbn } = resolved
-        await tasks.compileWithDebugSymbols({ sketchPath, fqbn })
+        await tasks.compileWithDebugSymbols({
+          sketchPath,
+          fqbn,
+          profile: params.profile,
+        })
       }
     ),
     vscode.commands.registerCommand(
@@ -674,7 +766,12 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand(
       'boardlab.upload',
       async (
-        params: { sketchPath?: string; fqbn?: string; port?: string } = {}
+        params: {
+          sketchPath?: string
+          fqbn?: string
+          port?: string
+          profile?: string
+        } = {}
       ) => {
         const resolved = await resolveSketchTaskParams(
           boardlabContext,
@@ -688,7 +785,7 @@ export function activate(context: vscode.ExtensionContext) {
           return
         }
         const { sketchPath, fqbn, port } = resolved
-        await tasks.upload({ sketchPath, fqbn, port })
+        await tasks.upload({ sketchPath, fqbn, port, profile: params.profile })
       }
     ),
     vscode.commands.registerCommand('boardlab.openMonitor', async () => {
@@ -696,7 +793,9 @@ export function activate(context: vscode.ExtensionContext) {
     }),
     vscode.commands.registerCommand(
       'boardlab.exportBinary',
-      async (params: { sketchPath?: string; fqbn?: string } = {}) => {
+      async (
+        params: { sketchPath?: string; fqbn?: string; profile?: string } = {}
+      ) => {
         const resolved = await resolveSketchTaskParams(
           boardlabContext,
           params,
@@ -708,7 +807,60 @@ export function activate(context: vscode.ExtensionContext) {
           return
         }
         const { sketchPath, fqbn } = resolved
-        await tasks.exportBinary({ sketchPath, fqbn })
+        await tasks.exportBinary({ sketchPath, fqbn, profile: params.profile })
+      }
+    ),
+    vscode.commands.registerCommand('boardlab.updateAll', () =>
+      updateAll(boardlabContext)
+    ),
+    vscode.commands.registerCommand('boardlab.packageMirror.create', () =>
+      packageMirror.create()
+    ),
+    vscode.commands.registerCommand('boardlab.packageMirror.use', async () => {
+      try {
+        await packageMirror.pickAndUse()
+      } catch (err) {
+        vscode.window.showErrorMessage(
+          `Failed to use the package mirror: ${err instanceof Error ? err.message : String(err)}`
+        )
+      }
+    }),
+    vscode.commands.registerCommand('boardlab.packageMirror.stopUsing', () =>
+      packageMirror.stopUsing()
+    ),
+    vscode.commands.registerCommand('boardlab.decodeBacktrace', () =>
+      backtraceDecoder.decodePastedTrace()
+    ),
+    vscode.commands.registerCommand('boardlab.forgetRememberedBoards', () =>
+      forgetRememberedBoards(boardlabContext.boardIdentifications)
+    ),
+    vscode.commands.registerCommand(
+      'boardlab.upload.forgetUserFields',
+      async () => {
+        const ports = await uploadUserFields.ports()
+        if (!ports.length) {
+          vscode.window.showInformationMessage(
+            'No upload user fields are remembered.'
+          )
+          return
+        }
+        const picked = await vscode.window.showQuickPick(
+          ports.map((port) => ({
+            label: port.address,
+            description: port.protocol,
+            port,
+          })),
+          {
+            canPickMany: true,
+            placeHolder: 'Select the ports to forget the upload user fields of',
+          }
+        )
+        if (!picked?.length) {
+          return
+        }
+        for (const { port } of picked) {
+          await uploadUserFields.forget(port)
+        }
       }
     ),
     vscode.commands.registerCommand(
@@ -840,6 +992,46 @@ export function activate(context: vscode.ExtensionContext) {
         })
       }
     ),
+    vscode.commands.registerCommand(
+      'boardlab.compileMatrix',
+      async (
+        params: {
+          sketchPath?: string
+          fqbns?: string[]
+          profiles?: string[] | '*'
+          parallel?: number
+        } = {}
+      ) => {
+        const resolved = await resolveSketchTaskParams(
+          boardlabContext,
+          params,
+          {}
+        )
+        if (!resolved) {
+          return
+        }
+        const { sketchPath } = resolved
+        let { fqbns, profiles } = params
+        if (!fqbns && !profiles) {
+          const fqbn =
+            boardlabContext.currentSketch?.sketchPath === sketchPath
+              ? boardlabContext.currentSketch.board?.fqbn
+              : undefined
+          const picked = await pickCompileMatrixTargets({ sketchPath, fqbn })
+          if (!picked) {
+            return
+          }
+          fqbns = picked.fqbns
+          profiles = picked.profiles
+        }
+        await tasks.compileMatrix({
+          sketchPath,
+          fqbns,
+          profiles,
+          parallel: params.parallel,
+        })
+      }
+    ),
     messenger.onRequest(
       requestShowWebviewMessage,
       async ({ level, message }) => {
@@ -1175,6 +1367,7 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     tasks,
     currentSketchView,
+    buildSizeView,
     sketchbook,
     vscode.commands.registerCommand(
       'boardlab.openArduinoCliConfig',
@@ -1279,7 +1472,7 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     messenger.onRequest(listExamplesRequest, async ({ fqbn }) => {
-      await examplesIndex.ready()
+      await examplesIndex.ready(fqbn)
       const metas = examplesIndex
         .list()
         .filter((meta) =>
@@ -1321,12 +1514,11 @@ export function activate(context: vscode.ExtensionContext) {
         await examplesIndex.ready()
 
         // TODO: this does not belong here
-        if (exampleId.startsWith('builtin:')) {
-          const meta = examplesIndex.get(exampleId)
-          if (!meta) {
-            return false
-          }
-          const sketchFolderPath = path.join(meta.rootPath, sketchRelPath)
+        const meta = examplesIndex.get(exampleId)
+        if (meta?.source === 'builtin' || meta?.source === 'board') {
+          const sketchFolderPath =
+            examplesIndex.resolveAbsolutePath(exampleId, sketchRelPath) ??
+            path.join(meta.rootPath, sketchRelPath)
           return showBuiltinSketchReadmeFromFolderStrict(
             vscode.Uri.file(sketchFolderPath),
             {
@@ -1454,6 +1646,7 @@ export function activate(context: vscode.ExtensionContext) {
     monitorSelectionCoordinator,
     dropMonitorClientSessions
   )
+  const plotterRecorder = new PlotterRecorder(plotterEditors)
   const profilesDiagnostics =
     vscode.languages.createDiagnosticCollection('boardlabProfiles')
   context.subscriptions.push(profilesDiagnostics)
@@ -1557,11 +1750,18 @@ export function activate(context: vscode.ExtensionContext) {
     selectionRequestDisposable
   )
 
+  const profilesSelector: vscode.DocumentSelector = {
+    scheme: 'file',
+    pattern: '**/sketch.yaml',
+  }
+  const profilesIntelliSense = new ProfilesIntelliSenseProvider(boardlabContext)
+  const compileErrors = new CompileErrorsProvider(boardlabContext)
   context.subscriptions.push(
     monitorResourceStore,
     monitorSelectionCoordinator,
     monitorEditors,
     plotterEditors,
+    plotterRecorder,
     profilesEditor,
     // Validate sketch.yaml in the plain text editor too
     registerProfilesYamlValidation(
@@ -1571,7 +1771,7 @@ export function activate(context: vscode.ExtensionContext) {
       boardlabContext
     ),
     vscode.languages.registerCodeActionsProvider(
-      { scheme: 'file', pattern: '**/sketch.yaml' },
+      profilesSelector,
       new ProfilesCodeActionProvider(
         boardlabContext.librariesManager,
         boardlabContext.platformsManager
@@ -1581,6 +1781,26 @@ export function activate(context: vscode.ExtensionContext) {
           ProfilesCodeActionProvider.providedCodeActionKinds,
       }
     ),
+    profilesIntelliSense,
+    vscode.languages.registerCompletionItemProvider(
+      profilesSelector,
+      profilesIntelliSense,
+      ...ProfilesIntelliSenseProvider.triggerCharacters
+    ),
+    vscode.languages.registerHoverProvider(
+      profilesSelector,
+      profilesIntelliSense
+    ),
+    vscode.languages.registerDefinitionProvider(
+      profilesSelector,
+      profilesIntelliSense
+    ),
+    compileErrors,
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file', pattern: '**/*.{ino,pde,c,cpp,cc,cxx,h,hh,hpp}' },
+      compileErrors,
+      { providedCodeActionKinds: CompileErrorsProvider.providedCodeActionKinds }
+    ),
     vscode.commands.registerCommand(
       'boardlab.profiles.selectPlatformVersionForProfile',
       async (arg: { uri: string; range: vscode.Range; platform: string }) => {
@@ -1713,6 +1933,28 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }
     ),
+    vscode.commands.registerCommand(
+      'boardlab.profiles.useLibraryFolder',
+      async (params?: { uri: string; range: vscode.Range; label: string }) => {
+        if (!params) return
+        const document = await vscode.workspace.openTextDocument(
+          vscode.Uri.parse(params.uri)
+        )
+        const [folderUri] =
+          (await vscode.window.showOpenDialog({
+            title: `Select the folder of library '${params.label}'`,
+            openLabel: 'Use in Profile',
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.Uri.joinPath(document.uri, '..'),
+          })) ?? []
+        if (!folderUri) return
+        await vscode.workspace.applyEdit(
+          buildLibraryDirEdit(document, params.range, folderUri.fsPath)
+        )
+      }
+    ),
     vscode.commands.registerCommand(
       'boardlab.profiles.selectLibraryVersionForProfile',
       async (arg: { uri: string; range: vscode.Range; library: string }) => {
@@ -1742,6 +1984,39 @@ export function activate(context: vscode.ExtensionContext) {
         await vscode.workspace.applyEdit(edit)
       }
     ),
+    vscode.commands.registerCommand(
+      'boardlab.profiles.addLibraryToProfile',
+      async (arg: {
+        sketchPath: string
+        library: string
+        version?: string
+      }) => {
+        const sketch = await resolveSketchForProfileCommand(arg)
+        if (!sketch) {
+          return
+        }
+        const profile =
+          (await boardlabContext.getValidatedActiveProfileForSketch(
+            sketch.sketchPath
+          )) ??
+          (
+            await pickProfileForSketch(sketch.sketchPath, {
+              allowCreate: false,
+              placeHolder: `Select a profile to add the '${arg.library}' library to`,
+            })
+          )?.name
+        if (!profile) {
+          return
+        }
+        await profilesEditor.addLibraryByCommand({
+          uri: vscode.Uri.file(
+            path.join(sketch.sketchPath, 'sketch.yaml')
+          ).toString(),
+          profile,
+          library: { library: arg.library, version: arg.version },
+        })
+      }
+    ),
     // Profiles editor: commands invoked from webview context menus
     vscode.commands.registerCommand(
       'boardlab.profiles.setDefault',
@@ -1800,6 +2075,114 @@ export function activate(context: vscode.ExtensionContext) {
       }
       await openMonitorOutput(active)
     }),
+    vscode.commands.registerCommand(
+      'boardlab.monitor.toggleHexView',
+      async () => {
+        const active = monitorEditors.getActiveDocument()
+        if (!active) {
+          vscode.window.showInformationMessage(
+            'Open a monitor editor to switch between the text and hex views.'
+          )
+          return
+        }
+        const { port, query } = parseMonitorUri(active.uri)
+        const nextQuery = new Map(query)
+        if (active.view === 'hex') {
+          nextQuery.delete('view')
+        } else {
+          nextQuery.set('view', 'hex')
+        }
+        const tabs = vscode.window.tabGroups.all
+          .flatMap((group) => group.tabs)
+          .filter(
+            (tab) =>
+              tab.input instanceof vscode.TabInputCustom &&
+              tab.input.uri.toString() === active.uri.toString()
+          )
+        await vscode.commands.executeCommand(
+          'vscode.openWith',
+          formatMonitorUri({ port, query: nextQuery }),
+          'boardlab.monitorEditor',
+          { preview: false, viewColumn: vscode.ViewColumn.Active }
+        )
+        await vscode.window.tabGroups.close(tabs)
+      }
+    ),
+    vscode.commands.registerCommand(
+      'boardlab.monitor.startRecording',
+      async (
+        params: {
+          port?: PortIdentifier
+          path?: string
+        } & Partial<MonitorRecordingOptions> = {}
+      ) => {
+        const { port: portParam, path: pathParam, ...overrides } = params
+        const port =
+          portParam ??
+          (await pickMonitorPort(
+            'Select the monitor to record',
+            'Open a monitor or select a port to record.'
+          ))
+        if (!port) {
+          return
+        }
+        const filePath = pathParam ?? (await pickMonitorRecordingPath(port))
+        if (!filePath) {
+          return
+        }
+        const recording = await monitorRecorder.start(
+          port,
+          filePath,
+          getMonitorRecordingOptions(overrides)
+        )
+        vscode.window.showInformationMessage(
+          `Recording ${port.address} to ${recording.filePath}`
+        )
+      }
+    ),
+    vscode.commands.registerCommand(
+      'boardlab.monitor.stopRecording',
+      async (params: { port?: PortIdentifier } = {}) => {
+        const port = params.port ?? (await pickActiveMonitorRecordingPort())
+        if (!port) {
+          return
+        }
+        const recording = await monitorRecorder.stop(port)
+        if (!recording) {
+          return
+        }
+        const open = 'Open Recording'
+        const picked = await vscode.window.showInformationMessage(
+          `Stopped recording ${port.address}.`,
+          open
+        )
+        if (picked === open) {
+          await vscode.window.showTextDocument(
+            vscode.Uri.file(recording.currentFilePath),
+            { preview: false }
+          )
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      'boardlab.monitor.runMacro',
+      async (params: { port?: PortIdentifier; name?: string } = {}) => {
+        const macro = await pickMonitorMacro(params.name)
+        if (!macro) {
+          return
+        }
+        const port =
+          params.port ??
+          (await pickMonitorPort(
+            `Select the monitor to run '${macro.name}' on`,
+            'Open a monitor or select a port to run the macro on.'
+          ))
+        if (!port) {
+          return
+        }
+        await runMonitorMacroWithProgress(macro, port)
+      }
+    ),
     vscode.commands.registerCommand('boardlab.monitor.clear', async () => {
       const active = monitorEditors.getActiveDocument()
       if (!active) {
@@ -1897,6 +2280,146 @@ export function activate(context: vscode.ExtensionContext) {
         await plotterEditors.sendToolbarAction('resetYScale', active)
       }
     ),
+    vscode.commands.registerCommand(
+      'boardlab.plotter.toggleFreeze',
+      async () => {
+        const active = plotterEditors.getActiveDocument()
+        if (!active) {
+          vscode.window.showInformationMessage(
+            'Open a plotter editor to freeze the plot.'
+          )
+          return
+        }
+        await plotterEditors.sendToolbarAction('toggleFreeze', active)
+      }
+    ),
+    vscode.commands.registerCommand('boardlab.plotter.resume', async () => {
+      const active = plotterEditors.getActiveDocument()
+      if (!active) {
+        return
+      }
+      await plotterEditors.sendToolbarAction('toggleFreeze', active)
+    }),
+    vscode.commands.registerCommand('boardlab.plotter.exportData', async () => {
+      const active = plotterEditors.getActiveDocument()
+      if (!active) {
+        vscode.window.showInformationMessage(
+          'Open a plotter editor to export the samples.'
+        )
+        return
+      }
+      const data = await plotterEditors.requestPlotterData(active)
+      if (!data?.x.length) {
+        vscode.window.showInformationMessage(
+          `The plotter of ${active.port.address} has no samples to export.`
+        )
+        return
+      }
+      let samples = data
+      const { range } = data
+      if (range) {
+        const visible = slicePlotterData(data, range)
+        if (visible.x.length && visible.x.length < data.x.length) {
+          const picked = await vscode.window.showQuickPick(
+            [
+              {
+                label: 'Visible Window',
+                description: `${visible.x.length} samples, x from ${visible.x[0]} to ${visible.x[visible.x.length - 1]}`,
+                data: visible,
+              },
+              {
+                label: 'All Samples',
+                description: `${data.x.length} samples`,
+                data,
+              },
+            ],
+            { placeHolder: 'Select the samples to export' }
+          )
+          if (!picked) {
+            return
+          }
+          samples = picked.data
+        }
+      }
+      const uri = await pickPlotterDataPath(active.port, 'export')
+      if (!uri) {
+        return
+      }
+      const format: PlotterExportFormat = uri.path
+        .toLowerCase()
+        .endsWith('.json')
+        ? 'json'
+        : 'csv'
+      await vscode.workspace.fs.writeFile(
+        uri,
+        new TextEncoder().encode(formatPlotterData(samples, format))
+      )
+      const open = 'Open File'
+      const picked = await vscode.window.showInformationMessage(
+        `Exported ${samples.x.length} samples to ${uri.fsPath}`,
+        open
+      )
+      if (picked === open) {
+        await vscode.window.showTextDocument(uri, { preview: false })
+      }
+    }),
+    vscode.commands.registerCommand(
+      'boardlab.plotter.startRecording',
+      async (params: { path?: string } = {}) => {
+        const active = plotterEditors.getActiveDocument()
+        if (!active) {
+          vscode.window.showInformationMessage(
+            'Open a plotter editor to record the samples.'
+          )
+          return
+        }
+        const filePath =
+          params.path ??
+          (await pickPlotterDataPath(active.port, 'record'))?.fsPath
+        if (!filePath) {
+          return
+        }
+        const recording = await plotterRecorder.start(active, filePath)
+        vscode.window.showInformationMessage(
+          `Recording the plotter of ${active.port.address} to ${recording.filePath}`
+        )
+      }
+    ),
+    vscode.commands.registerCommand(
+      'boardlab.plotter.stopRecording',
+      async () => {
+        const active = plotterEditors.getActiveDocument()
+        const document =
+          active && plotterRecorder.isRecording(active)
+            ? active
+            : plotterRecorder.activeDocuments[0]
+        if (!document) {
+          vscode.window.showInformationMessage('No plotter is being recorded.')
+          return
+        }
+        const recording = await plotterRecorder.stop(document)
+        if (!recording) {
+          return
+        }
+        if (!recording.hasSamples) {
+          vscode.window.showInformationMessage(
+            `Stopped recording the plotter of ${document.port.address}. No samples were received.`
+          )
+          return
+        }
+        const open = 'Open Recording'
+        const picked = await vscode.window.showInformationMessage(
+          `Stopped recording the plotter of ${document.port.address}.`,
+          open
+        )
+        if (picked === open) {
+          await vscode.window.showTextDocument(
+            vscode.Uri.file(recording.currentFilePath),
+            { preview: false }
+          )
+        }
+      }
+    ),
     vscode.commands.registerCommand(
       'boardlab.monitor.developer.logBridgeMetrics',
       () => logMonitorBridgeMetrics(boardlabContext)
@@ -1997,6 +2520,194 @@ export function activate(context: vscode.ExtensionContext) {
     await vscode.window.showTextDocument(outputDoc, { preview: false })
   }
 
+  async function pickMonitorPort(
+    placeHolder: string,
+    noPortMessage: string
+  ): Promise<PortIdentifier | undefined> {
+    const active = monitorEditors.getActiveDocument()
+    if (active) {
+      return active.port
+    }
+    const sketchPort = boardlabContext.currentSketch?.port
+    const running = boardlabContext.monitorManager.getRunningMonitors()
+    if (!running.length && sketchPort?.protocol && sketchPort.address) {
+      return { protocol: sketchPort.protocol, address: sketchPort.address }
+    }
+    if (running.length === 1) {
+      return running[0].port
+    }
+    if (!running.length) {
+      vscode.window.showInformationMessage(noPortMessage)
+      return undefined
+    }
+    const picked = await vscode.window.showQuickPick(
+      running.map(({ port, baudrate }) => ({
+        label: port.address,
+        description: [port.protocol, baudrate].filter(Boolean).join(' '),
+        port,
+      })),
+      { placeHolder }
+    )
+    return picked?.port
+  }
+
+  async function pickMonitorMacro(
+    name?: string
+  ): Promise<MonitorMacro | undefined> {
+    const { macros, errors } = await loadMonitorMacros()
+    if (errors.length) {
+      vscode.window.showWarningMessage(
+        `Skipped the invalid monitor macros. ${errors.join(' ')}`
+      )
+    }
+    if (name) {
+      const found = macros.find(({ macro }) => macro.name === name)
+      if (!found) {
+        vscode.window.showErrorMessage(`Monitor macro not found: ${name}`)
+      }
+      return found?.macro
+    }
+    if (!macros.length) {
+      const openSettings = 'Open Settings'
+      const picked = await vscode.window.showInformationMessage(
+        'No monitor macros are defined. Add them to the boardlab.monitor.macros setting or the .boardlab/macros.json workspace file.',
+        openSettings
+      )
+      if (picked === openSettings) {
+        await vscode.commands.executeCommand(
+          'workbench.action.openSettings',
+          'boardlab.monitor.macros'
+        )
+      }
+      return undefined
+    }
+    const picked = await vscode.window.showQuickPick(
+      macros.map(({ macro, source }) => ({
+        label: macro.name,
+        description: macro.description,
+        detail: source,
+        macro,
+      })),
+      { placeHolder: 'Select the macro to run', matchOnDescription: true }
+    )
+    return picked?.macro
+  }
+
+  async function runMonitorMacroWithProgress(
+    macro: MonitorMacro,
+    port: PortIdentifier
+  ): Promise<void> {
+    const lineEnding = vscode.workspace
+      .getConfiguration('boardlab.monitor')
+      .get<LineEnding>('lineEnding', 'crlf')
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Running '${macro.name}' on ${port.address}`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const controller = new AbortController()
+        const toDispose = token.onCancellationRequested(() =>
+          controller.abort()
+        )
+        try {
+          await runMonitorMacroOnPort(macro, port, boardlabContext, {
+            lineEnding,
+            signal: controller.signal,
+            onWillRunStep: (step, index) =>
+              progress.report({
+                message: [
+                  `${index + 1}/${macro.steps.length}`,
+                  step.send,
+                  step.waitFor !== undefined
+                    ? `(waiting for ${step.waitFor})`
+                    : undefined,
+                ]
+                  .filter(Boolean)
+                  .join(' '),
+              }),
+          })
+        } catch (error) {
+          if (isAbortError(error)) {
+            return
+          }
+          const message = error instanceof Error ? error.message : String(error)
+          vscode.window.showErrorMessage(
+            `Monitor macro '${macro.name}' failed: ${message}`
+          )
+        } finally {
+          toDispose.dispose()
+        }
+      }
+    )
+  }
+
+  async function pickActiveMonitorRecordingPort(): Promise<
+    PortIdentifier | undefined
+  > {
+    const recordings = monitorRecorder.activeRecordings
+    const active = monitorEditors.getActiveDocument()
+    if (active && monitorRecorder.isRecording(active.port)) {
+      return active.port
+    }
+    if (recordings.length <= 1) {
+      if (!recordings.length) {
+        vscode.window.showInformationMessage('No monitor is being recorded.')
+      }
+      return recordings[0]?.port
+    }
+    const picked = await vscode.window.showQuickPick(
+      recordings.map(({ port, filePath }) => ({
+        label: port.address,
+        description: filePath,
+        port,
+      })),
+      { placeHolder: 'Select the recording to stop' }
+    )
+    return picked?.port
+  }
+
+  async function pickMonitorRecordingPath(
+    port: PortIdentifier
+  ): Promise<string | undefined> {
+    const { mode } = getMonitorRecordingOptions()
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const fileName = `monitor-${port.address.replace(/[^\w.-]+/g, '_')}-${timestamp}.${mode === 'binary' ? 'bin' : 'log'}`
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri
+    const uri = await vscode.window.showSaveDialog({
+      title: `Record ${port.address}`,
+      saveLabel: 'Record',
+      defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+      filters:
+        mode === 'binary'
+          ? { Binary: ['bin'], 'All Files': ['*'] }
+          : { Log: ['log', 'txt'], 'All Files': ['*'] },
+    })
+    return uri?.fsPath
+  }
+
+  async function pickPlotterDataPath(
+    port: PortIdentifier,
+    purpose: 'export' | 'record'
+  ): Promise<vscode.Uri | undefined> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const fileName = `plotter-${port.address.replace(/[^\w.-]+/g, '_')}-${timestamp}.csv`
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri
+    return vscode.window.showSaveDialog({
+      title:
+        purpose === 'export'
+          ? `Export the plotter samples of ${port.address}`
+          : `Record the plotter samples of ${port.address}`,
+      saveLabel: purpose === 'export' ? 'Export' : 'Record',
+      defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+      filters:
+        purpose === 'export'
+          ? { CSV: ['csv'], JSON: ['json'] }
+          : { CSV: ['csv'], 'All Files': ['*'] },
+    })
+  }
+
   function trimBlankLines(text: string): string {
     const lines = text.split(/\r?\n/)
     let start = 0
@@ -0,0 +1,260 @@
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import debounce from 'lodash.debounce'
+import * as vscode from 'vscode'
+import type { SketchFolder } from 'vscode-arduino-api'
+import type { SourceFileConfiguration } from 'vscode-cpptools'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import {
+  commandArguments,
+  compileCommandsFilename,
+  expandResponseFiles,
+  parseCompileCommands,
+  toEditedSourceFiles,
+  toSourceFileConfiguration,
+} from './compileCommands'
+
+export type CompileCommandsLocation = 'none' | 'sketch' | '.vscode'
+
+export interface SketchCompilationDatabase {
+  readonly sketchPath: string
+  readonly buildPath: string
+  /** Keys are the `fsPath` of the source files. */
+  readonly configurations: ReadonlyMap<string, SourceFileConfiguration>
+}
+
+/**
+ * Keeps the `compile_commands.json` of the sketches in sync with the selected
+ * board and config options. The CLI creates the compilation database without a
+ * full build into a build folder of its own, so it does not collide with the
+ * compile of the user. A profile build installs the missing platforms and
+ * libraries of the profile, so the database of a sketch with an active profile
+ * is only updated after an explicit compile or refresh.
+ */
+export class CompilationDatabases implements vscode.Disposable {
+  private readonly _onDidUpdate: vscode.EventEmitter<SketchCompilationDatabase>
+  private readonly databases = new Map<string, SketchCompilationDatabase>()
+  private readonly pending = new Map<string, () => void>()
+  private readonly inflight = new Map<string, vscode.Pseudoterminal>()
+  private readonly toDispose: vscode.Disposable[]
+
+  constructor(
+    private readonly boardlabContext: BoardLabContextImpl,
+    private readonly storageUri: vscode.Uri
+  ) {
+    this._onDidUpdate = new vscode.EventEmitter()
+    this.toDispose = [
+      this._onDidUpdate,
+      boardlabContext.onDidChangeSketch(({ object, changedProperties }) => {
+        if (changedProperties.includes('compileSummary')) {
+          const buildPath = object.compileSummary?.buildPath
+          if (buildPath) {
+            this.load(object.sketchPath, buildPath)
+          }
+        }
+        if (
+          changedProperties.includes('board') ||
+          changedProperties.includes('configOptions')
+        ) {
+          this.schedule(object.sketchPath)
+        }
+      }),
+      boardlabContext.onDidChangeActiveProfile(({ uri }) => {
+        const sketchPath = path.dirname(vscode.Uri.parse(uri).fsPath)
+        this.schedule(sketchPath)
+      }),
+      boardlabContext.onDidChangeCurrentSketch((sketch) => {
+        if (sketch && !this.databases.has(sketch.sketchPath)) {
+          this.schedule(sketch.sketchPath)
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('boardlab.intellisense')) {
+          const sketch = boardlabContext.currentSketch
+          if (sketch) {
+            this.schedule(sketch.sketchPath)
+          }
+        }
+      }),
+      new vscode.Disposable(() => {
+        this.inflight.forEach((pty) => pty.close())
+        this.inflight.clear()
+      }),
+    ]
+    const current = boardlabContext.currentSketch
+    if (current) {
+      this.schedule(current.sketchPath)
+    }
+  }
+
+  get onDidUpdate(): vscode.Event<SketchCompilationDatabase> {
+    return this._onDidUpdate.event
+  }
+
+  get(sketchPath: string): SketchCompilationDatabase | undefined {
+    return this.databases.get(sketchPath)
+  }
+
+  /** The compilation database the source file belongs to. */
+  find(uri: vscode.Uri): SketchCompilationDatabase | undefined {
+    for (const database of this.databases.values()) {
+      if (database.configurations.has(uri.fsPath)) {
+        return database
+      }
+    }
+    return undefined
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  /**
+   * Regenerates the compilation database of the sketch. The active profile is
+   * only built when `withProfile` is `true`; otherwise, the sketch is skipped.
+   */
+  async generate(
+    sketchPath: string,
+    options: { withProfile?: boolean } = {}
+  ): Promise<void> {
+    if (!isEnabled()) {
+      return
+    }
+    const sketch = this.findSketch(sketchPath)
+    const profile =
+      await this.boardlabContext.getValidatedActiveProfileForSketch(sketchPath)
+    const fqbn = sketch?.board?.fqbn
+    if (profile ? !options.withProfile : !fqbn) {
+      return
+    }
+
+    const { arduino } = await this.boardlabContext.client
+    // A newer request supersedes the running one. Both would write to the same
+    // build folder, so the running one is canceled first.
+    this.inflight.get(sketchPath)?.close()
+    const { pty, result } = arduino.compile({
+      sketchPath,
+      fqbn,
+      profile,
+      buildPath: this.buildPath(sketchPath),
+      createCompilationDatabaseOnly: true,
+    })
+    this.inflight.set(sketchPath, pty)
+    try {
+      const builderResult = await result
+      if (this.inflight.get(sketchPath) !== pty || !builderResult?.buildPath) {
+        return
+      }
+      await this.load(sketchPath, builderResult.buildPath)
+    } catch (err) {
+      if (this.inflight.get(sketchPath) !== pty) {
+        return
+      }
+      console.warn(
+        `Failed to generate the compilation database for ${sketchPath}`,
+        err
+      )
+    } finally {
+      if (this.inflight.get(sketchPath) === pty) {
+        this.inflight.delete(sketchPath)
+      }
+      pty.close()
+    }
+  }
+
+  private buildPath(sketchPath: string): string {
+    const hash = createHash('md5')
+      .update(sketchPath)
+      .digest('hex')
+      .toUpperCase()
+    return path.join(this.storageUri.fsPath, 'compilation-databases', hash)
+  }
+
+  private schedule(sketchPath: string): void {
+    let run = this.pending.get(sketchPath)
+    if (!run) {
+      run = debounce(() => {
+        this.pending.delete(sketchPath)
+        this.generate(sketchPath)
+      }, 500)
+      this.pending.set(sketchPath, run)
+    }
+    run()
+  }
+
+  private async load(sketchPath: string, buildPath: string): Promise<void> {
+    if (!isEnabled()) {
+      return
+    }
+    const source = path.join(buildPath, compileCommandsFilename)
+    try {
+      const [raw, entries] = await Promise.all([
+        fs.readFile(source, 'utf8'),
+        fs.readdir(sketchPath),
+      ])
+      const inoFiles = entries.filter((entry) => entry.endsWith('.ino'))
+      const configurations = new Map<string, SourceFileConfiguration>()
+      const readFile = (filePath: string) => fs.readFile(filePath, 'utf8')
+      for (const command of parseCompileCommands(raw)) {
+        const args = await expandResponseFiles(
+          commandArguments(command),
+          command.directory,
+          readFile
+        )
+        const configuration = toSourceFileConfiguration(args, command)
+        const file = path.resolve(command.directory, command.file)
+        for (const editedFile of toEditedSourceFiles(file, {
+          buildPath,
+          sketchPath,
+          inoFiles,
+        })) {
+          configurations.set(vscode.Uri.file(editedFile).fsPath, configuration)
+        }
+      }
+      await copyCompileCommands(source, sketchPath)
+
+      const database = { sketchPath, buildPath, configurations }
+      this.databases.set(sketchPath, database)
+      this._onDidUpdate.fire(database)
+    } catch (err) {
+      console.warn(
+        `Failed to load the compilation database from ${source}`,
+        err
+      )
+    }
+  }
+
+  private findSketch(sketchPath: string): SketchFolder | undefined {
+    return this.boardlabContext.openedSketches.find(
+      (sketch) => sketch.sketchPath === sketchPath
+    )
+  }
+}
+
+function isEnabled(): boolean {
+  return (
+    vscode.workspace
+      .getConfiguration('boardlab.intellisense')
+      .get<boolean>('enabled') ?? true
+  )
+}
+
+async function copyCompileCommands(
+  source: string,
+  sketchPath: string
+): Promise<void> {
+  const location =
+    vscode.workspace
+      .getConfiguration('boardlab.intellisense')
+      .get<CompileCommandsLocation>('compileCommandsLocation') ?? '.vscode'
+  if (location === 'none') {
+    return
+  }
+  const targetDir =
+    location === 'sketch' ? sketchPath : path.join(sketchPath, '.vscode')
+  await fs.mkdir(targetDir, { recursive: true })
+  await fs.copyFile(source, path.join(targetDir, compileCommandsFilename))
+}
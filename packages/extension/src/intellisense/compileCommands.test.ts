@@ -0,0 +1,192 @@
+import path from 'node:path'
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  commandArguments,
+  expandResponseFiles,
+  parseCompileCommands,
+  splitCommandLine,
+  toEditedSourceFiles,
+  toSourceFileConfiguration,
+} from './compileCommands'
+
+const buildPath = path.resolve('/tmp/arduino/sketches/ABC')
+const sketchPath = path.resolve('/sketches/Blink')
+
+describe('compileCommands', () => {
+  describe('parseCompileCommands', () => {
+    it('should keep the valid entries', () => {
+      const entries = parseCompileCommands(
+        JSON.stringify([
+          { directory: '/a', file: 'a.cpp', arguments: ['g++', 'a.cpp'] },
+          { directory: '/b', file: 'b.cpp', command: 'g++ b.cpp' },
+          { directory: '/c', file: 'c.cpp' },
+          'invalid',
+        ])
+      )
+
+      expect(entries.map(({ file }) => file)).toEqual(['a.cpp', 'b.cpp'])
+    })
+
+    it('should reject non-array content', () => {
+      expect(() => parseCompileCommands('{}')).toThrow(/expected an array/)
+    })
+  })
+
+  describe('splitCommandLine', () => {
+    it('should split on whitespace and honor the quotes', () => {
+      expect(
+        splitCommandLine(
+          'g++ -DARDUINO=10607 "-I/path with space/src" \'-DNAME="x"\' -c  a.cpp'
+        )
+      ).toEqual([
+        'g++',
+        '-DARDUINO=10607',
+        '-I/path with space/src',
+        '-DNAME="x"',
+        '-c',
+        'a.cpp',
+      ])
+    })
+
+    it('should unescape double quotes', () => {
+      expect(splitCommandLine('"-DUSB_PRODUCT=\\"Uno\\""')).toEqual([
+        '-DUSB_PRODUCT="Uno"',
+      ])
+    })
+
+    it('should keep empty quoted arguments', () => {
+      expect(splitCommandLine('a "" b')).toEqual(['a', '', 'b'])
+    })
+  })
+
+  describe('expandResponseFiles', () => {
+    it('should inline the response files relative to the directory', async () => {
+      const files: Record<string, string> = {
+        [path.resolve('/build', 'flags.txt')]: '-DESP32 "-I/esp/include"',
+      }
+      const expanded = await expandResponseFiles(
+        ['g++', '@flags.txt', '@missing.txt', 'a.cpp'],
+        path.resolve('/build'),
+        async (filePath) => {
+          const content = files[filePath]
+          if (content === undefined) {
+            throw new Error('ENOENT')
+          }
+          return content
+        }
+      )
+
+      expect(expanded).toEqual([
+        'g++',
+        '-DESP32',
+        '-I/esp/include',
+        '@missing.txt',
+        'a.cpp',
+      ])
+    })
+  })
+
+  describe('toSourceFileConfiguration', () => {
+    it('should extract the includes, defines, and the standard', () => {
+      const entry = {
+        directory: buildPath,
+        file: path.join(buildPath, 'sketch', 'Blink.ino.cpp'),
+        command: [
+          '/tools/avr-g++',
+          '-c',
+          '-g',
+          '-std=gnu++11',
+          '-DF_CPU=16000000L',
+          '-D',
+          'ARDUINO=10607',
+          '-I/cores/arduino',
+          '-I',
+          '/variants/standard',
+          '-iprefix',
+          '/esp/',
+          '-iwithprefixbefore',
+          'include',
+          '-include',
+          'Arduino.h',
+          path.join(buildPath, 'sketch', 'Blink.ino.cpp'),
+          '-o',
+          path.join(buildPath, 'sketch', 'Blink.ino.cpp.o'),
+        ].join(' '),
+      }
+
+      const configuration = toSourceFileConfiguration(
+        commandArguments(entry),
+        entry
+      )
+
+      expect(configuration).toEqual({
+        compilerPath: '/tools/avr-g++',
+        compilerArgs: [
+          '-g',
+          '-std=gnu++11',
+          '-DF_CPU=16000000L',
+          '-D',
+          'ARDUINO=10607',
+          '-I/cores/arduino',
+          '-I',
+          '/variants/standard',
+          '-iprefix',
+          '/esp/',
+          '-iwithprefixbefore',
+          'include',
+          '-include',
+          'Arduino.h',
+        ],
+        includePath: [
+          path.resolve('/cores/arduino'),
+          path.resolve('/variants/standard'),
+          path.resolve('/esp/include'),
+        ],
+        defines: ['F_CPU=16000000L', 'ARDUINO=10607'],
+        standard: 'gnu++11',
+        forcedInclude: [path.resolve(buildPath, 'Arduino.h')],
+      })
+    })
+
+    it('should ignore unknown standards', () => {
+      const configuration = toSourceFileConfiguration(
+        ['gcc', '-std=gnu2x', 'a.c'],
+        { directory: '/', file: 'a.c' }
+      )
+
+      expect(configuration).not.toHaveProperty('standard')
+    })
+  })
+
+  describe('toEditedSourceFiles', () => {
+    const params = { buildPath, sketchPath, inoFiles: ['Blink.ino', 'Led.ino'] }
+
+    it('should map the merged sketch source to the ino files', () => {
+      expect(
+        toEditedSourceFiles(
+          path.join(buildPath, 'sketch', 'Blink.ino.cpp'),
+          params
+        )
+      ).toEqual([
+        path.join(sketchPath, 'Blink.ino'),
+        path.join(sketchPath, 'Led.ino'),
+      ])
+    })
+
+    it('should map the copied sketch sources to the sketch folder', () => {
+      expect(
+        toEditedSourceFiles(
+          path.join(buildPath, 'sketch', 'src', 'util.cpp'),
+          params
+        )
+      ).toEqual([path.join(sketchPath, 'src', 'util.cpp')])
+    })
+
+    it('should keep the library and core sources', () => {
+      const file = path.resolve('/libraries/Servo/src/Servo.cpp')
+      expect(toEditedSourceFiles(file, params)).toEqual([file])
+    })
+  })
+})
@@ -0,0 +1,218 @@
+import path from 'node:path'
+
+import type { SourceFileConfiguration } from 'vscode-cpptools'
+
+export const compileCommandsFilename = 'compile_commands.json'
+
+/** An entry of the `compile_commands.json` compilation database. */
+export interface CompileCommand {
+  directory: string
+  file: string
+  arguments?: string[]
+  command?: string
+  output?: string
+}
+
+type Standard = NonNullable<SourceFileConfiguration['standard']>
+
+const standards: readonly Standard[] = [
+  'c89',
+  'c99',
+  'c11',
+  'c17',
+  'c++98',
+  'c++03',
+  'c++11',
+  'c++14',
+  'c++17',
+  'c++20',
+  'c++23',
+  'c++26',
+  'gnu89',
+  'gnu99',
+  'gnu11',
+  'gnu17',
+  'gnu++98',
+  'gnu++03',
+  'gnu++11',
+  'gnu++14',
+  'gnu++17',
+  'gnu++20',
+  'gnu++23',
+  'gnu++26',
+]
+
+export function parseCompileCommands(raw: string): CompileCommand[] {
+  const parsed: unknown = JSON.parse(raw)
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Invalid ${compileCommandsFilename}: expected an array`)
+  }
+  return parsed.filter(
+    (entry): entry is CompileCommand =>
+      typeof entry === 'object' &&
+      entry !== null &&
+      typeof entry.directory === 'string' &&
+      typeof entry.file === 'string' &&
+      (Array.isArray(entry.arguments) || typeof entry.command === 'string')
+  )
+}
+
+/**
+ * Splits a shell-like command line into arguments. Supports single and double
+ * quotes and backslash escapes inside double quotes.
+ */
+export function splitCommandLine(commandLine: string): string[] {
+  const args: string[] = []
+  let current = ''
+  let hasCurrent = false
+  let quote: '"' | "'" | undefined
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i]
+    if (quote) {
+      if (char === quote) {
+        quote = undefined
+      } else if (
+        char === '\\' &&
+        quote === '"' &&
+        (commandLine[i + 1] === '"' || commandLine[i + 1] === '\\')
+      ) {
+        current += commandLine[++i]
+      } else {
+        current += char
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+      hasCurrent = true
+    } else if (/\s/.test(char)) {
+      if (hasCurrent) {
+        args.push(current)
+        current = ''
+        hasCurrent = false
+      }
+    } else {
+      current += char
+      hasCurrent = true
+    }
+  }
+  if (hasCurrent) {
+    args.push(current)
+  }
+  return args
+}
+
+export function commandArguments(entry: CompileCommand): string[] {
+  return entry.arguments ?? splitCommandLine(entry.command ?? '')
+}
+
+/**
+ * Inlines the content of the `@file` response files. ESP32 platforms pass the
+ * include paths and flags this way.
+ */
+export async function expandResponseFiles(
+  args: readonly string[],
+  directory: string,
+  readFile: (filePath: string) => Promise<string>
+): Promise<string[]> {
+  const expanded: string[] = []
+  for (const arg of args) {
+    if (!arg.startsWith('@') || arg.length === 1) {
+      expanded.push(arg)
+      continue
+    }
+    const filePath = path.resolve(directory, arg.substring(1))
+    try {
+      expanded.push(...splitCommandLine(await readFile(filePath)))
+    } catch {
+      expanded.push(arg)
+    }
+  }
+  return expanded
+}
+
+export function toSourceFileConfiguration(
+  args: readonly string[],
+  entry: Pick<CompileCommand, 'directory' | 'file'>
+): SourceFileConfiguration {
+  const [compilerPath, ...rest] = args
+  const includePath: string[] = []
+  const defines: string[] = []
+  const forcedInclude: string[] = []
+  const compilerArgs: string[] = []
+  let standard: Standard | undefined
+  let includePrefix = ''
+
+  const resolve = (p: string) => path.resolve(entry.directory, p)
+  const sourceFile = resolve(entry.file)
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]
+    const next = () => rest[++i] ?? ''
+    if (arg === '-o') {
+      i++
+      continue
+    }
+    if (arg === '-c' || arg === '-MMD' || resolve(arg) === sourceFile) {
+      continue
+    }
+    compilerArgs.push(arg)
+
+    if (arg === '-I' || arg === '-isystem' || arg === '-iquote') {
+      const value = next()
+      compilerArgs.push(value)
+      includePath.push(resolve(value))
+    } else if (arg.startsWith('-I')) {
+      includePath.push(resolve(arg.substring(2)))
+    } else if (arg === '-iprefix') {
+      includePrefix = next()
+      compilerArgs.push(includePrefix)
+    } else if (arg === '-iwithprefixbefore' || arg === '-iwithprefix') {
+      const value = next()
+      compilerArgs.push(value)
+      includePath.push(resolve(includePrefix + value))
+    } else if (arg === '-D') {
+      const value = next()
+      compilerArgs.push(value)
+      defines.push(value)
+    } else if (arg.startsWith('-D')) {
+      defines.push(arg.substring(2))
+    } else if (arg === '-include') {
+      const value = next()
+      compilerArgs.push(value)
+      forcedInclude.push(resolve(value))
+    } else if (arg.startsWith('-std=')) {
+      const value = arg.substring('-std='.length)
+      if ((standards as readonly string[]).includes(value)) {
+        standard = value as Standard
+      }
+    }
+  }
+
+  return {
+    includePath,
+    defines,
+    compilerPath,
+    compilerArgs,
+    ...(standard ? { standard } : {}),
+    ...(forcedInclude.length ? { forcedInclude } : {}),
+  }
+}
+
+/**
+ * Maps a file from the compilation database to the files the user edits. The
+ * CLI compiles the copy of the sketch from the `sketch` folder of the build
+ * path, and all `.ino` files are merged into the `<sketch>.ino.cpp` file.
+ */
+export function toEditedSourceFiles(
+  file: string,
+  params: { buildPath: string; sketchPath: string; inoFiles: readonly string[] }
+): string[] {
+  const { buildPath, sketchPath, inoFiles } = params
+  const relative = path.relative(path.join(buildPath, 'sketch'), file)
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return [file]
+  }
+  if (relative === `${path.basename(sketchPath)}.ino.cpp`) {
+    return inoFiles.map((inoFile) => path.join(sketchPath, inoFile))
+  }
+  return [path.join(sketchPath, relative)]
+}
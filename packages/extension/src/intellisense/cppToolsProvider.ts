@@ -0,0 +1,117 @@
+import * as vscode from 'vscode'
+import {
+  getCppToolsApi,
+  Version,
+  type CppToolsApi,
+  type CustomConfigurationProvider,
+  type SourceFileConfigurationItem,
+  type WorkspaceBrowseConfiguration,
+} from 'vscode-cpptools'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import type { CompilationDatabases } from './compilationDatabase'
+
+/**
+ * Provides the include paths, defines, and compiler of the sketches from the
+ * compilation database to the C/C++ extension (`ms-vscode.cpptools`).
+ */
+export class CppToolsConfigurationProvider
+  implements CustomConfigurationProvider
+{
+  readonly name = 'BoardLab'
+  private readonly toDispose: vscode.Disposable[] = []
+
+  private constructor(
+    readonly extensionId: string,
+    private readonly api: CppToolsApi,
+    private readonly boardlabContext: BoardLabContextImpl,
+    private readonly databases: CompilationDatabases
+  ) {
+    this.toDispose.push(
+      api,
+      databases.onDidUpdate(() => {
+        this.api.didChangeCustomConfiguration(this)
+        this.api.didChangeCustomBrowseConfiguration(this)
+      }),
+      boardlabContext.onDidChangeCurrentSketch(() =>
+        this.api.didChangeCustomBrowseConfiguration(this)
+      )
+    )
+  }
+
+  /** Resolves to `undefined` when the C/C++ extension is not installed. */
+  static async register(
+    extensionId: string,
+    boardlabContext: BoardLabContextImpl,
+    databases: CompilationDatabases
+  ): Promise<CppToolsConfigurationProvider | undefined> {
+    const api = await getCppToolsApi(Version.v6)
+    if (!api) {
+      return undefined
+    }
+    const provider = new CppToolsConfigurationProvider(
+      extensionId,
+      api,
+      boardlabContext,
+      databases
+    )
+    api.registerCustomConfigurationProvider(provider)
+    api.notifyReady(provider)
+    return provider
+  }
+
+  async canProvideConfiguration(uri: vscode.Uri): Promise<boolean> {
+    return !!this.databases.find(uri)
+  }
+
+  async provideConfigurations(
+    uris: vscode.Uri[]
+  ): Promise<SourceFileConfigurationItem[]> {
+    return uris.flatMap((uri) => {
+      const configuration = this.databases
+        .find(uri)
+        ?.configurations.get(uri.fsPath)
+      return configuration ? [{ uri, configuration }] : []
+    })
+  }
+
+  async canProvideBrowseConfiguration(): Promise<boolean> {
+    return !!this.currentDatabase()
+  }
+
+  async provideBrowseConfiguration(): Promise<WorkspaceBrowseConfiguration | null> {
+    const database = this.currentDatabase()
+    if (!database) {
+      return null
+    }
+    const browsePath = new Set<string>()
+    let compilerPath: string | undefined
+    let compilerArgs: string[] | undefined
+    for (const configuration of database.configurations.values()) {
+      configuration.includePath.forEach((includePath) =>
+        browsePath.add(includePath)
+      )
+      compilerPath ??= configuration.compilerPath
+      compilerArgs ??= configuration.compilerArgs
+    }
+    browsePath.add(database.sketchPath)
+    return { browsePath: Array.from(browsePath), compilerPath, compilerArgs }
+  }
+
+  async canProvideBrowseConfigurationsPerFolder(): Promise<boolean> {
+    return false
+  }
+
+  async provideFolderBrowseConfiguration(): Promise<WorkspaceBrowseConfiguration | null> {
+    return null
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  private currentDatabase() {
+    const sketchPath = this.boardlabContext.currentSketch?.sketchPath
+    return sketchPath ? this.databases.get(sketchPath) : undefined
+  }
+}
@@ -0,0 +1,119 @@
+import { ClientError, Status } from 'nice-grpc-common'
+import * as vscode from 'vscode'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  confirmLibraryDependencies,
+  formatLibraryDependency,
+  resolveLibraryDependencies,
+  toLibraryDependencies,
+} from './libraryDependencies'
+
+describe('libraryDependencies', () => {
+  const statuses = [
+    {
+      name: 'Adafruit BME280 Library',
+      versionRequired: '2.2.4',
+      versionInstalled: '',
+    },
+    {
+      name: 'Adafruit Unified Sensor',
+      versionRequired: '1.1.14',
+      versionInstalled: '',
+    },
+    {
+      name: 'Adafruit BusIO',
+      versionRequired: '1.16.1',
+      versionInstalled: '1.16.1',
+    },
+    {
+      name: 'Wire',
+      versionRequired: '2.0.0',
+      versionInstalled: '1.0.0',
+    },
+  ]
+
+  it('classifies the dependencies without the library itself', () => {
+    const dependencies = toLibraryDependencies(
+      'Adafruit BME280 Library',
+      statuses
+    )
+
+    expect(dependencies.map(({ name, state }) => [name, state])).toEqual([
+      ['Adafruit Unified Sensor', 'missing'],
+      ['Adafruit BusIO', 'installed'],
+      ['Wire', 'conflicting'],
+    ])
+    expect(dependencies.map(formatLibraryDependency)).toEqual([
+      '- Adafruit Unified Sensor 1.1.14 (not installed)',
+      '- Adafruit BusIO 1.16.1 (installed)',
+      '- Wire 2.0.0 (1.0.0 is installed and will be replaced)',
+    ])
+  })
+
+  it('resolves again allowing the updates when the installed libraries cannot be kept', async () => {
+    const resolve = vi
+      .fn()
+      .mockRejectedValueOnce(
+        new ClientError(
+          '/cc.arduino.cli.commands.v1.ArduinoCoreService/LibraryResolveDependencies',
+          Status.FAILED_PRECONDITION,
+          'No valid dependencies solution found'
+        )
+      )
+      .mockResolvedValueOnce({ dependencies: statuses })
+
+    const dependencies = await resolveLibraryDependencies(
+      { resolveLibraryDependencies: resolve },
+      'Adafruit BME280 Library',
+      '2.2.4',
+      { keepInstalled: true }
+    )
+
+    expect(dependencies).toHaveLength(3)
+    expect(resolve.mock.calls.map(([req]) => req)).toEqual([
+      {
+        name: 'Adafruit BME280 Library',
+        version: '2.2.4',
+        doNotUpdateInstalledLibraries: true,
+      },
+      {
+        name: 'Adafruit BME280 Library',
+        version: '2.2.4',
+        doNotUpdateInstalledLibraries: false,
+      },
+    ])
+  })
+
+  it('lists the dependencies without the install state when adding to a profile', async () => {
+    const showInformationMessage = vi.fn(async () => 'Add All')
+    Object.defineProperty(vscode, 'window', {
+      configurable: true,
+      writable: true,
+      value: { showInformationMessage },
+    })
+
+    const choice = await confirmLibraryDependencies(
+      'Adafruit BME280 Library',
+      '2.2.4',
+      toLibraryDependencies('Adafruit BME280 Library', statuses),
+      'add'
+    )
+
+    expect(choice).toBe('all')
+    expect(showInformationMessage).toHaveBeenCalledWith(
+      'Add Library to Profile',
+      {
+        modal: true,
+        detail: [
+          "The 'Adafruit BME280 Library' 2.2.4 library depends on 3 other libraries:",
+          '- Adafruit Unified Sensor 1.1.14',
+          '- Adafruit BusIO 1.16.1',
+          '- Wire 2.0.0',
+        ].join('\n'),
+      },
+      'Add All',
+      "Add 'Adafruit BME280 Library' Only"
+    )
+  })
+})
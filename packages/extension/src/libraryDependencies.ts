@@ -0,0 +1,133 @@
+import type { LibraryDependencyStatus } from 'ardunno-cli'
+import { ClientError, Status } from 'nice-grpc-common'
+import * as vscode from 'vscode'
+
+import type { Arduino } from './cli/arduino'
+
+/**
+ * - `missing`: not installed.
+ * - `installed`: the required version is installed.
+ * - `conflicting`: another version is installed and will be replaced.
+ */
+export type LibraryDependencyState = 'missing' | 'installed' | 'conflicting'
+
+export interface LibraryDependency {
+  readonly name: string
+  readonly version: string
+  readonly installedVersion?: string
+  readonly state: LibraryDependencyState
+}
+
+/**
+ * - `all`: the library and its dependencies.
+ * - `only`: the library without its dependencies.
+ */
+export type LibraryDependencyChoice = 'all' | 'only'
+
+/** The dependencies of the library from the resolved statuses, without itself. */
+export function toLibraryDependencies(
+  name: string,
+  statuses: readonly LibraryDependencyStatus[]
+): LibraryDependency[] {
+  return statuses
+    .filter((status) => status.name !== name)
+    .map(({ name, versionRequired, versionInstalled }) => ({
+      name,
+      version: versionRequired,
+      installedVersion: versionInstalled || undefined,
+      state: !versionInstalled
+        ? 'missing'
+        : versionInstalled === versionRequired
+          ? 'installed'
+          : 'conflicting',
+    }))
+}
+
+export function formatLibraryDependency(dependency: LibraryDependency): string {
+  const { name, version, installedVersion, state } = dependency
+  switch (state) {
+    case 'missing':
+      return `- ${name} ${version} (not installed)`
+    case 'installed':
+      return `- ${name} ${version} (installed)`
+    case 'conflicting':
+      return `- ${name} ${version} (${installedVersion} is installed and will be replaced)`
+  }
+}
+
+/**
+ * Resolves the transitive dependencies of the library. When `keepInstalled` is
+ * `true`, the installed libraries are kept at their current version if
+ * possible; if not, the dependencies are resolved again allowing the updates,
+ * and the replaced libraries are `conflicting`.
+ */
+export async function resolveLibraryDependencies(
+  arduino: Pick<Arduino, 'resolveLibraryDependencies'>,
+  name: string,
+  version: string | undefined,
+  options: { keepInstalled?: boolean; signal?: AbortSignal } = {}
+): Promise<LibraryDependency[]> {
+  const { keepInstalled = false, signal } = options
+  const resolve = (doNotUpdateInstalledLibraries: boolean) =>
+    arduino.resolveLibraryDependencies(
+      { name, version, doNotUpdateInstalledLibraries },
+      signal
+    )
+  let response
+  try {
+    response = await resolve(keepInstalled)
+  } catch (err) {
+    // For example, when updating ArduinoJson from 7.4.0 to 7.4.2
+    if (
+      !keepInstalled ||
+      !(err instanceof ClientError) ||
+      err.code !== Status.FAILED_PRECONDITION
+    ) {
+      throw err
+    }
+    response = await resolve(false)
+  }
+  return toLibraryDependencies(name, response.dependencies ?? [])
+}
+
+/**
+ * Lists the dependencies and asks whether to install (or add to the profile)
+ * the library with all of them or only the library. Resolves to `undefined`
+ * when the user cancels. The profiles install their own libraries, so when
+ * adding, the dependencies are listed without the global install state.
+ */
+export async function confirmLibraryDependencies(
+  label: string,
+  version: string | undefined,
+  dependencies: readonly LibraryDependency[],
+  action: 'install' | 'add'
+): Promise<LibraryDependencyChoice | undefined> {
+  const library = version ? `'${label}' ${version}` : `'${label}'`
+  const detail = [
+    dependencies.length === 1
+      ? `The ${library} library depends on another library:`
+      : `The ${library} library depends on ${dependencies.length} other libraries:`,
+    ...dependencies.map((dependency) =>
+      action === 'install'
+        ? formatLibraryDependency(dependency)
+        : `- ${dependency.name} ${dependency.version}`
+    ),
+  ]
+  const [title, all, only] =
+    action === 'install'
+      ? ['Install Library', 'Install All', `Install '${label}' Only`]
+      : ['Add Library to Profile', 'Add All', `Add '${label}' Only`]
+  const answer = await vscode.window.showInformationMessage(
+    title,
+    { modal: true, detail: detail.join('\n') },
+    all,
+    only
+  )
+  if (answer === all) {
+    return 'all'
+  }
+  if (answer === only) {
+    return 'only'
+  }
+  return undefined
+}
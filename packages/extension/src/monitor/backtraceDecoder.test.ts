@@ -0,0 +1,61 @@
+import * as vscode from 'vscode'
+import { describe, expect, it, vi } from 'vitest'
+
+import { BacktraceDecoder } from './backtraceDecoder'
+
+const PORT = { protocol: 'serial', address: '/dev/ttyUSB0' }
+
+describe('BacktraceDecoder', () => {
+  it('decodes the crashes of the monitor shown only in an editor', async () => {
+    const data = new vscode.EventEmitter<Uint8Array>()
+    const outputChannel = {
+      appendLine: vi.fn(),
+      show: vi.fn(),
+      dispose: vi.fn(),
+    }
+    vi.mocked(vscode.window.createOutputChannel).mockReturnValueOnce(
+      outputChannel as any
+    )
+    // No external client: the editor runs the monitor, the decoder attaches
+    const boardlabContext = {
+      monitorManager: {
+        getRunningMonitors: () => [{ port: PORT, baudrate: '115200' }],
+        onDidChangeRunningMonitors: () => new vscode.Disposable(() => {}),
+        onDidChangeMonitorState: () => new vscode.Disposable(() => {}),
+      },
+      createMonitorClient: vi.fn(async () => ({
+        port: PORT,
+        onDidReceiveData: data.event,
+        dispose: vi.fn(),
+      })),
+      openedSketches: [],
+      currentSketch: undefined,
+      selectSketch: vi.fn(),
+    }
+    const decoder = new BacktraceDecoder(boardlabContext as any)
+
+    await vi.waitFor(() =>
+      expect(boardlabContext.createMonitorClient).toHaveBeenCalledWith(PORT, {
+        autoStart: false,
+        baudrate: '115200',
+      })
+    )
+    await new Promise((resolve) => setImmediate(resolve))
+    data.fire(
+      new TextEncoder().encode(
+        'abort() was called at PC 0x400d3a1b on core 1\r\n\r\nBacktrace: 0x40083a49:0x3ffb1e80\r\n'
+      )
+    )
+
+    await vi.waitFor(() => expect(outputChannel.appendLine).toHaveBeenCalled())
+    expect(outputChannel.appendLine).toHaveBeenCalledOnce()
+    const [output] = outputChannel.appendLine.mock.calls[0]
+    expect(output).toContain(
+      '/dev/ttyUSB0: abort() was called at PC 0x400d3a1b on core 1'
+    )
+    expect(output).toContain(
+      'Compile the sketch of the port to decode the backtrace.'
+    )
+    decoder.dispose()
+  })
+})
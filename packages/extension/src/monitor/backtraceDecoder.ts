@@ -0,0 +1,249 @@
+import { execFile } from 'node:child_process'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { TextDecoder } from 'node:util'
+
+import {
+  createPortKey,
+  portIdentifierEquals,
+  type PortIdentifier,
+} from 'boards-list'
+import * as vscode from 'vscode'
+import type { SketchFolder } from 'vscode-arduino-api'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import {
+  addr2lineArgs,
+  CrashTraceParser,
+  formatDecodedFrames,
+  parseAddr2lineOutput,
+  resolveBacktraceToolchain,
+  toCrashTrace,
+  toSketchFrames,
+  type BacktraceToolchain,
+  type CrashTrace,
+} from './espBacktrace'
+import { RunningMonitorClients } from './runningMonitorClients'
+
+const addr2lineTimeout = 10_000
+
+interface CrashStream {
+  readonly decoder: TextDecoder
+  readonly parser: CrashTraceParser
+}
+
+/**
+ * Watches the monitor data of the ports for the ESP32 and ESP8266 crashes and
+ * writes their stack, decoded with the `addr2line` of the toolchain and the ELF
+ * of the last build of the sketch, to the `BoardLab Backtrace` output channel.
+ */
+export class BacktraceDecoder implements vscode.Disposable {
+  private readonly streams = new Map<string, CrashStream>()
+  private readonly outputChannel: vscode.OutputChannel
+  private readonly toDispose: vscode.Disposable[]
+  private enabled = isDecodeBacktracesEnabled()
+
+  constructor(
+    private readonly boardlabContext: Pick<
+      BoardLabContextImpl,
+      | 'monitorManager'
+      | 'createMonitorClient'
+      | 'openedSketches'
+      | 'currentSketch'
+      | 'selectSketch'
+    >
+  ) {
+    this.outputChannel = vscode.window.createOutputChannel('BoardLab Backtrace')
+    const { monitorManager } = boardlabContext
+    const runningMonitorClients = new RunningMonitorClients(boardlabContext)
+    this.toDispose = [
+      this.outputChannel,
+      runningMonitorClients,
+      runningMonitorClients.onDidReceiveData(({ port, data }) =>
+        this.handleData(port, data)
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('boardlab.monitor.decodeBacktraces')) {
+          this.enabled = isDecodeBacktracesEnabled()
+        }
+      }),
+      monitorManager.onDidChangeMonitorState(({ port, state }) => {
+        if (state !== 'running') {
+          this.endStream(port)
+        }
+      }),
+    ]
+  }
+
+  /**
+   * Decodes the selected text of the active editor, the clipboard, or the text
+   * the user pastes, with the last build of the current sketch.
+   */
+  async decodePastedTrace(): Promise<void> {
+    const text = await this.pastedTrace()
+    if (!text) {
+      return
+    }
+    const trace = toCrashTrace(text.split(/\r?\n/))
+    if (!trace.addresses.length) {
+      vscode.window.showErrorMessage(
+        'No ESP32 or ESP8266 backtrace addresses found in the text.'
+      )
+      return
+    }
+    const sketch =
+      this.boardlabContext.currentSketch ??
+      (await this.boardlabContext.selectSketch())
+    if (!sketch) {
+      return
+    }
+    if (!sketch.compileSummary) {
+      vscode.window.showErrorMessage(
+        `Compile ${path.basename(sketch.sketchPath)} to decode the backtrace with its ELF file.`
+      )
+      return
+    }
+    await this.decode(trace, sketch, 'pasted trace')
+  }
+
+  dispose(): void {
+    this.streams.clear()
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  private handleData(port: PortIdentifier, data: Uint8Array): void {
+    if (!this.enabled) {
+      return
+    }
+    const portKey = createPortKey(port)
+    let stream = this.streams.get(portKey)
+    if (!stream) {
+      stream = { decoder: new TextDecoder(), parser: new CrashTraceParser() }
+      this.streams.set(portKey, stream)
+    }
+    const text = stream.decoder.decode(data, { stream: true })
+    for (const trace of stream.parser.push(text)) {
+      this.decode(trace, this.sketchOf(port), port.address)
+    }
+  }
+
+  private endStream(port: PortIdentifier): void {
+    const portKey = createPortKey(port)
+    const stream = this.streams.get(portKey)
+    if (!stream) {
+      return
+    }
+    this.streams.delete(portKey)
+    for (const trace of stream.parser.flush()) {
+      this.decode(trace, this.sketchOf(port), port.address)
+    }
+  }
+
+  /** The compiled sketch of the port, or the compiled current sketch. */
+  private sketchOf(port: PortIdentifier): SketchFolder | undefined {
+    const sketch = this.boardlabContext.openedSketches.find(
+      (candidate) =>
+        candidate.compileSummary &&
+        candidate.port &&
+        portIdentifierEquals(candidate.port, port)
+    )
+    if (sketch) {
+      return sketch
+    }
+    const currentSketch = this.boardlabContext.currentSketch
+    return currentSketch?.compileSummary ? currentSketch : undefined
+  }
+
+  private async decode(
+    trace: CrashTrace,
+    sketch: SketchFolder | undefined,
+    origin: string
+  ): Promise<void> {
+    const lines = [
+      `[${new Date().toLocaleTimeString()}] ${origin}: ${trace.reason ?? 'Backtrace'}`,
+    ]
+    try {
+      lines.push(...(await this.decodeLines(trace, sketch)))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      lines.push(`Failed to decode the backtrace: ${message}`)
+    }
+    this.outputChannel.appendLine(`${lines.join('\n')}\n`)
+    this.outputChannel.show(true)
+  }
+
+  private async decodeLines(
+    trace: CrashTrace,
+    sketch: SketchFolder | undefined
+  ): Promise<string[]> {
+    const summary = sketch?.compileSummary
+    if (!sketch || !summary) {
+      return [
+        'Compile the sketch of the port to decode the backtrace.',
+        ...trace.lines,
+      ]
+    }
+    const toolchain = resolveBacktraceToolchain(summary)
+    if (!toolchain) {
+      return [
+        `The build of ${sketch.sketchPath} has no toolchain with addr2line.`,
+        ...trace.lines,
+      ]
+    }
+    try {
+      await fs.access(toolchain.elfPath)
+    } catch {
+      return [
+        `The ELF file of the last build is missing: ${toolchain.elfPath}. Compile the sketch.`,
+        ...trace.lines,
+      ]
+    }
+    const output = await runAddr2line(
+      toolchain,
+      trace.addresses.map(({ address }) => address)
+    )
+    const frames = toSketchFrames(
+      parseAddr2lineOutput(output, trace.addresses),
+      summary.buildPath,
+      sketch.sketchPath
+    )
+    return [`ELF: ${toolchain.elfPath}`, ...formatDecodedFrames(frames)]
+  }
+
+  private async pastedTrace(): Promise<string | undefined> {
+    const editor = vscode.window.activeTextEditor
+    if (editor && !editor.selection.isEmpty) {
+      return editor.document.getText(editor.selection)
+    }
+    const clipboard = await vscode.env.clipboard.readText()
+    if (toCrashTrace(clipboard.split(/\r?\n/)).addresses.length) {
+      return clipboard
+    }
+    return vscode.window.showInputBox({
+      title: 'Decode Backtrace',
+      prompt: 'Paste the backtrace or the crash dump of the board',
+      placeHolder: 'Backtrace: 0x400d1234:0x3ffb1230 0x400d5678:0x3ffb1250',
+      ignoreFocusOut: true,
+    })
+  }
+}
+
+function isDecodeBacktracesEnabled(): boolean {
+  return vscode.workspace
+    .getConfiguration('boardlab.monitor')
+    .get<boolean>('decodeBacktraces', true)
+}
+
+function runAddr2line(
+  toolchain: BacktraceToolchain,
+  addresses: readonly string[]
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      toolchain.addr2line,
+      addr2lineArgs(toolchain.elfPath, addresses),
+      { timeout: addr2lineTimeout, maxBuffer: 4 * 1024 * 1024 },
+      (error, stdout) => (error ? reject(error) : resolve(stdout))
+    )
+  })
+}
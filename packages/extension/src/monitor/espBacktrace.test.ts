@@ -0,0 +1,214 @@
+import path from 'node:path'
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  CrashTraceParser,
+  formatDecodedFrames,
+  parseAddr2lineOutput,
+  resolveBacktraceToolchain,
+  toSketchFrames,
+  type CrashTrace,
+} from './espBacktrace'
+
+const esp32Panic = [
+  "Guru Meditation Error: Core  1 panic'ed (LoadProhibited). Exception was unhandled.",
+  '',
+  'Core  1 register dump:',
+  'PC      : 0x400d1f2e  PS      : 0x00060b30  A0      : 0x800d2f58  A1      : 0x3ffb1f70  ',
+  'EXCVADDR: 0x00000000  LBEG    : 0x4000c46c  LEND    : 0x4000c477  LCOUNT  : 0x00000000  ',
+  '',
+  'Backtrace: 0x400d1f2b:0x3ffb1f70 0x400d2f55:0x3ffb1f90 0x4008a0de:0x3ffb1fb0',
+  '',
+  'ELF file SHA256: 0000000000000000',
+  '',
+  'Rebooting...',
+]
+
+const esp8266Exception = [
+  '--------------- CUT HERE FOR EXCEPTION DECODER ---------------',
+  '',
+  'Exception (28):',
+  'epc1=0x4020104d epc2=0x00000000 epc3=0x00000000 excvaddr=0x00000000 depc=0x00000000',
+  '',
+  '>>>stack>>>',
+  '',
+  'ctx: cont',
+  'sp: 3ffffe50 end: 3fffffc0 offset: 0190',
+  '3fffffe0:  3fffdad0 00000000 3ffee538 40201068  ',
+  '3ffffff0:  feefeffe feefeffe 3ffee590 40201d38  ',
+  '<<<stack<<<',
+  '',
+  '--------------- CUT HERE FOR EXCEPTION DECODER ---------------',
+]
+
+function parse(output: string): CrashTrace[] {
+  const parser = new CrashTraceParser()
+  return [...parser.push(output), ...parser.flush()]
+}
+
+describe('espBacktrace', () => {
+  it('finds the addresses of the ESP32 panic', () => {
+    const [trace, ...rest] = parse(
+      ['booting...', ...esp32Panic, 'ets Jun  8 2016 00:22:57', ''].join('\r\n')
+    )
+
+    expect(rest).toEqual([])
+    expect(trace.reason).toBe(
+      "Guru Meditation Error: Core 1 panic'ed (LoadProhibited). Exception was unhandled."
+    )
+    expect(trace.addresses).toEqual([
+      { address: '0x400d1f2e', source: 'PC' },
+      { address: '0x400d1f2b', source: 'Backtrace' },
+      { address: '0x400d2f55', source: 'Backtrace' },
+      { address: '0x4008a0de', source: 'Backtrace' },
+    ])
+    expect(trace.lines[0]).toBe(esp32Panic[0])
+    expect(trace.lines.at(-1)).toBe(esp32Panic[6])
+  })
+
+  it('finds the code addresses of the ESP8266 stack dump', () => {
+    const [trace] = parse(`${esp8266Exception.join('\n')}\n`)
+
+    expect(trace.reason).toBe('Exception (28): LoadProhibited')
+    expect(trace.addresses).toEqual([
+      { address: '0x4020104d', source: 'epc1' },
+      { address: '0x40201068', source: 'stack' },
+      { address: '0x40201d38', source: 'stack' },
+    ])
+  })
+
+  it('finds the backtrace of the abort split across the chunks', () => {
+    const parser = new CrashTraceParser()
+
+    expect(
+      parser.push('abort() was called at PC 0x400d3a1b on core 1\n\nBackt')
+    ).toEqual([])
+    const [trace] = parser.push('race: 0x40083a49:0x3ffb1e80 |<-CORRUPTED\n')
+
+    expect(trace.addresses).toEqual([
+      { address: '0x400d3a1b', source: 'PC' },
+      { address: '0x40083a49', source: 'Backtrace' },
+    ])
+    expect(parser.push('ELF file SHA256: 0000\n')).toEqual([])
+  })
+
+  it('keeps the tail of the output without line breaks', () => {
+    const parser = new CrashTraceParser()
+
+    for (let i = 0; i < 256; i++) {
+      expect(parser.push('\0\xff'.repeat(512))).toEqual([])
+    }
+    expect(parser['buffer']).toHaveLength(4 * 1024)
+
+    const [trace] = parser.push(
+      '\nBacktrace: 0x400d1f2b:0x3ffb1f70 0x400d2f55:0x3ffb1f90\n'
+    )
+    expect(trace.addresses).toEqual([
+      { address: '0x400d1f2b', source: 'Backtrace' },
+      { address: '0x400d2f55', source: 'Backtrace' },
+    ])
+  })
+
+  it('resolves the addr2line of the toolchain and the ELF of the build', () => {
+    expect(
+      resolveBacktraceToolchain(
+        {
+          buildPath: '/tmp/arduino/sketches/ABC',
+          buildProperties: {
+            'build.project_name': 'crash.ino',
+            'compiler.path': '/home/me/.arduino15/tools/esp-x32/2405/bin/',
+            'compiler.c.cmd': 'xtensa-esp32-elf-gcc',
+          },
+        },
+        'linux'
+      )
+    ).toEqual({
+      addr2line:
+        '/home/me/.arduino15/tools/esp-x32/2405/bin/xtensa-esp32-elf-addr2line',
+      elfPath: '/tmp/arduino/sketches/ABC/crash.ino.elf',
+    })
+    expect(
+      resolveBacktraceToolchain(
+        {
+          buildPath: 'C:\\Temp\\sketches\\ABC',
+          buildProperties: {
+            'build.project_name': 'crash.ino',
+            'compiler.path': 'C:\\esp8266\\tools\\xtensa-lx106-elf\\bin\\',
+            'compiler.c.cmd': 'xtensa-lx106-elf-gcc',
+          },
+        },
+        'win32'
+      )
+    ).toEqual({
+      addr2line:
+        'C:\\esp8266\\tools\\xtensa-lx106-elf\\bin\\xtensa-lx106-elf-addr2line.exe',
+      elfPath: 'C:\\Temp\\sketches\\ABC\\crash.ino.elf',
+    })
+    expect(
+      resolveBacktraceToolchain({ buildPath: '/tmp', buildProperties: {} })
+    ).toBeUndefined()
+  })
+
+  it('parses and formats the addr2line output with the sketch files', () => {
+    const buildPath = path.join(path.sep, 'tmp', 'sketches', 'ABC')
+    const sketchPath = path.join(path.sep, 'home', 'me', 'crash')
+    const frames = toSketchFrames(
+      parseAddr2lineOutput(
+        [
+          `0x400d1f2e: loop() at ${sketchPath}${path.sep}crash.ino:12`,
+          `0x400d1f2b: read(int) at ${buildPath}${path.sep}sketch${path.sep}src${path.sep}sensor.h:4 (discriminator 2)`,
+          ` (inlined by) loop() at ${sketchPath}${path.sep}crash.ino:11`,
+          '0x4008a0de: ?? ??:0',
+          '',
+        ].join('\n'),
+        [
+          { address: '0x400d1f2e', source: 'PC' },
+          { address: '0x400d1f2b', source: 'Backtrace' },
+          { address: '0x4008a0de', source: 'Backtrace' },
+        ]
+      ),
+      buildPath,
+      sketchPath
+    )
+
+    expect(frames).toEqual([
+      {
+        address: '0x400d1f2e',
+        source: 'PC',
+        function: 'loop()',
+        file: path.join(sketchPath, 'crash.ino'),
+        line: 12,
+        inlined: false,
+      },
+      {
+        address: '0x400d1f2b',
+        source: 'Backtrace',
+        function: 'read(int)',
+        file: path.join(sketchPath, 'src', 'sensor.h'),
+        line: 4,
+        inlined: false,
+      },
+      {
+        address: '0x400d1f2b',
+        source: 'Backtrace',
+        function: 'loop()',
+        file: path.join(sketchPath, 'crash.ino'),
+        line: 11,
+        inlined: true,
+      },
+      {
+        address: '0x4008a0de',
+        source: 'Backtrace',
+        function: undefined,
+        file: undefined,
+        line: undefined,
+        inlined: false,
+      },
+    ])
+    expect(formatDecodedFrames(frames.slice(2))).toEqual([
+      `                       inlined by loop() at ${path.join(sketchPath, 'crash.ino')}:11`,
+      'Backtrace  0x4008a0de: ??',
+    ])
+  })
+})
@@ -0,0 +1,347 @@
+import path from 'node:path'
+
+import type { CompileSummary } from 'vscode-arduino-api'
+
+export interface CrashAddress {
+  /** For example, `0x400d1234`. */
+  readonly address: string
+  /** The register or the part of the dump, such as `PC` or `Backtrace`. */
+  readonly source: string
+}
+
+/** A panic, exception, or abort printed by an ESP32 or ESP8266 board. */
+export interface CrashTrace {
+  /** The crash lines as printed by the board. */
+  readonly lines: readonly string[]
+  /** For example, `Guru Meditation Error: Core 1 panic'ed (LoadProhibited)`. */
+  readonly reason?: string
+  readonly addresses: readonly CrashAddress[]
+}
+
+export interface DecodedFrame {
+  readonly address: string
+  readonly source: string
+  /** `undefined` if the address is not in the ELF, such as the ROM code. */
+  readonly function?: string
+  readonly file?: string
+  /** 1-based */
+  readonly line?: number
+  /** The frames of the inlined functions follow the frame of the address. */
+  readonly inlined: boolean
+}
+
+export interface BacktraceToolchain {
+  readonly addr2line: string
+  readonly elfPath: string
+}
+
+const crashStart = [
+  /Guru Meditation Error/,
+  /^abort\(\) was called/,
+  /^assert failed:/,
+  /^\*\*\*ERROR\*\*\* A stack overflow/,
+  /^Exception \(\d+\):/,
+  /^Panic\s/,
+  /^Soft WDT reset/,
+  /^Backtrace:/,
+]
+const esp8266CutHere = /CUT HERE FOR EXCEPTION DECODER/
+const crashEnd = [/^ELF file SHA256/, /^Rebooting\.\.\./, /^<<<stack<<</]
+const maxCrashLines = 200
+/** The text after the last line break kept when the output has no newline. */
+const maxPendingLength = 4 * 1024
+
+const registerAddress =
+  /\b(PC|MEPC|RA|epc1|epc2|epc3)\s*[:=]?\s*(0x[0-9a-f]{8})\b/gi
+const backtraceAddress = /\b(0x[0-9a-f]{8}):0x[0-9a-f]{8}\b/gi
+const stackStart = /^>>>stack>>>/
+const stackLine = /^[0-9a-f]{8}:\s+((?:[0-9a-f]{8}\s*)+)$/i
+
+const esp8266Exceptions: Readonly<Record<number, string>> = {
+  0: 'IllegalInstruction',
+  2: 'InstructionFetchError',
+  3: 'LoadStoreError',
+  6: 'IntegerDivideByZero',
+  9: 'LoadStoreAlignment',
+  28: 'LoadProhibited',
+  29: 'StoreProhibited',
+}
+
+/**
+ * Finds the crashes in the monitor output line by line. A crash starts with a
+ * panic, exception, or abort line and ends with the Xtensa `Backtrace:` line,
+ * the end of the ESP8266 stack dump, or the reboot.
+ */
+export class CrashTraceParser {
+  private buffer = ''
+  private lines: string[] | undefined
+  private cutHere = false
+
+  /** Feeds the raw output of the board, which can split the lines. */
+  push(chunk: string): CrashTrace[] {
+    this.buffer += chunk
+    const lines = this.buffer.split(/\r?\n/)
+    this.buffer = (lines.pop() ?? '').slice(-maxPendingLength)
+    return lines.flatMap((line) => this.pushLine(line))
+  }
+
+  /** Ends the pending crash, for example, when the monitor stops. */
+  flush(): CrashTrace[] {
+    const traces = this.buffer ? this.pushLine(this.buffer) : []
+    this.buffer = ''
+    return [...traces, ...this.end()]
+  }
+
+  private pushLine(line: string): CrashTrace[] {
+    if (esp8266CutHere.test(line)) {
+      this.cutHere = !this.cutHere
+      if (!this.cutHere) {
+        return this.end(line)
+      }
+      return [...this.end(), ...this.begin(line)]
+    }
+    if (!this.lines) {
+      if (crashStart.some((pattern) => pattern.test(line))) {
+        this.begin(line)
+        if (!this.cutHere && /^Backtrace:/.test(line)) {
+          return this.end()
+        }
+      }
+      return []
+    }
+    if (
+      !this.cutHere &&
+      (/^Backtrace:/.test(line) ||
+        crashEnd.some((pattern) => pattern.test(line)))
+    ) {
+      return this.end(line)
+    }
+    this.lines.push(line)
+    if (this.lines.length >= maxCrashLines) {
+      return this.end()
+    }
+    return []
+  }
+
+  private begin(line: string): CrashTrace[] {
+    this.lines = [line]
+    return []
+  }
+
+  private end(line?: string): CrashTrace[] {
+    const lines = this.lines
+    this.lines = undefined
+    if (!lines) {
+      return []
+    }
+    if (line !== undefined) {
+      lines.push(line)
+    }
+    const trace = toCrashTrace(lines)
+    return trace.addresses.length ? [trace] : []
+  }
+}
+
+/**
+ * The addresses of the code in the crash lines: the `PC`, `MEPC`, `RA`, and
+ * `epcN` registers, the Xtensa `Backtrace:` PCs, and the code addresses of the
+ * ESP8266 stack dump.
+ */
+export function toCrashTrace(lines: readonly string[]): CrashTrace {
+  const addresses: CrashAddress[] = []
+  let reason: string | undefined
+  let inStack = false
+  for (const line of lines) {
+    reason ??= crashReasonOf(line)
+    if (stackStart.test(line)) {
+      inStack = true
+      continue
+    }
+    if (/^<<<stack<<</.test(line)) {
+      inStack = false
+      continue
+    }
+    if (inStack) {
+      const words = stackLine.exec(line.trim())?.[1].trim().split(/\s+/) ?? []
+      addresses.push(
+        ...words
+          .map((word) => `0x${word.toLowerCase()}`)
+          .filter(isCodeAddress)
+          .map((address) => ({ address, source: 'stack' }))
+      )
+      continue
+    }
+    for (const [, register, address] of line.matchAll(registerAddress)) {
+      if (isCodeAddress(address)) {
+        addresses.push({ address: address.toLowerCase(), source: register })
+      }
+    }
+    for (const [, address] of line.matchAll(backtraceAddress)) {
+      if (isCodeAddress(address)) {
+        addresses.push({
+          address: address.toLowerCase(),
+          source: 'Backtrace',
+        })
+      }
+    }
+  }
+  return { lines, reason, addresses }
+}
+
+function crashReasonOf(line: string): string | undefined {
+  const exception = /^Exception \((\d+)\):/.exec(line)
+  if (exception) {
+    const name = esp8266Exceptions[Number(exception[1])]
+    return name ? `Exception (${exception[1]}): ${name}` : exception[0]
+  }
+  if (
+    /Guru Meditation Error|^abort\(\) was called|^assert failed:|^\*\*\*ERROR\*\*\*|^Panic\s|^Soft WDT reset/.test(
+      line
+    )
+  ) {
+    return line.trim().replace(/\s+/g, ' ')
+  }
+  return undefined
+}
+
+/** The instruction and flash addresses of the ESP32 and ESP8266 chips. */
+function isCodeAddress(address: string): boolean {
+  const value = Number.parseInt(address, 16)
+  return value >= 0x40000000 && value < 0x50000000
+}
+
+/**
+ * The `addr2line` of the toolchain and the ELF of the build. For example,
+ * `xtensa-esp32-elf-addr2line` next to the `xtensa-esp32-elf-gcc` of the
+ * `compiler.path`. `undefined` if the build properties have no toolchain.
+ */
+export function resolveBacktraceToolchain(
+  summary: Pick<CompileSummary, 'buildPath' | 'buildProperties'>,
+  platform: NodeJS.Platform = process.platform
+): BacktraceToolchain | undefined {
+  const { buildPath, buildProperties } = summary
+  const projectName = buildProperties['build.project_name']
+  const compilerPath = buildProperties['compiler.path']
+  const compilerCommand =
+    buildProperties['compiler.c.cmd'] ?? buildProperties['compiler.cpp.cmd']
+  if (!projectName || !compilerPath || !compilerCommand) {
+    return undefined
+  }
+  const command = compilerCommand.replace(
+    /(?:gcc|g\+\+)(\.exe)?$/,
+    'addr2line$1'
+  )
+  if (!command.endsWith('addr2line') && !command.endsWith('addr2line.exe')) {
+    return undefined
+  }
+  const executable =
+    platform === 'win32' && !command.endsWith('.exe')
+      ? `${command}.exe`
+      : command
+  const pathApi = platform === 'win32' ? path.win32 : path.posix
+  return {
+    addr2line: pathApi.join(compilerPath, executable),
+    elfPath: pathApi.join(buildPath, `${projectName}.elf`),
+  }
+}
+
+export function addr2lineArgs(
+  elfPath: string,
+  addresses: readonly string[]
+): string[] {
+  return ['-pfiaC', '-e', elfPath, ...addresses]
+}
+
+const addr2lineFrame =
+  /^(?:(?<address>0x[0-9a-f]+):\s+|\s*\(inlined by\)\s+)(?<function>.+?)(?:\s+at\s+(?<location>.+))?$/i
+
+/**
+ * Parses the `addr2line -pfiaC` output. Each address starts a frame, the
+ * `(inlined by)` lines follow it.
+ */
+export function parseAddr2lineOutput(
+  output: string,
+  addresses: readonly CrashAddress[]
+): DecodedFrame[] {
+  const frames: DecodedFrame[] = []
+  let index = -1
+  for (const line of output.split(/\r?\n/)) {
+    const match = addr2lineFrame.exec(line)
+    if (!match?.groups) {
+      continue
+    }
+    const { address, function: fn, location } = match.groups
+    if (address) {
+      index++
+    }
+    const crashAddress = addresses[index]
+    if (!crashAddress) {
+      continue
+    }
+    const { file, line: lineNumber } = parseLocation(location)
+    frames.push({
+      address: crashAddress.address,
+      source: crashAddress.source,
+      function: /^\?\?(\s|$)/.test(fn) ? undefined : fn,
+      file,
+      line: lineNumber,
+      inlined: !address,
+    })
+  }
+  return frames
+}
+
+function parseLocation(location: string | undefined): {
+  file?: string
+  line?: number
+} {
+  const match = location && /^(?<file>.+):(?<line>\d+|\?)/.exec(location)
+  if (!match || !match.groups || match.groups.file === '??') {
+    return {}
+  }
+  const line = Number(match.groups.line)
+  return {
+    file: match.groups.file,
+    line: Number.isInteger(line) && line > 0 ? line : undefined,
+  }
+}
+
+/**
+ * One line per frame, with the `file:line` locations the output channel links
+ * to the sources.
+ */
+export function formatDecodedFrames(frames: readonly DecodedFrame[]): string[] {
+  const width = Math.max(0, ...frames.map(({ source }) => source.length))
+  return frames.map((frame) => {
+    const location = frame.file
+      ? ` at ${frame.file}${frame.line ? `:${frame.line}` : ''}`
+      : ''
+    const name = frame.function ?? '??'
+    return frame.inlined
+      ? `${' '.repeat(width + 14)}inlined by ${name}${location}`
+      : `${frame.source.padEnd(width)}  ${frame.address}: ${name}${location}`
+  })
+}
+
+/**
+ * Maps the files of the build copy of the sketch, such as the `src` files, to
+ * the files of the sketch. The `.ino` files are already mapped by the `#line`
+ * directives of the preprocessed sketch.
+ */
+export function toSketchFrames(
+  frames: readonly DecodedFrame[],
+  buildPath: string,
+  sketchPath: string
+): DecodedFrame[] {
+  const sketchCopy = path.join(buildPath, 'sketch')
+  return frames.map((frame) => {
+    if (!frame.file) {
+      return frame
+    }
+    const relative = path.relative(sketchCopy, frame.file)
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return frame
+    }
+    return { ...frame, file: path.join(sketchPath, relative) }
+  })
+}
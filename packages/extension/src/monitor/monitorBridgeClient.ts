@@ -216,7 +216,12 @@ export class MonitorBridgeClient implements vscode.Disposable {
     params: RequestSendMonitorMessageParams
   ): Promise<void> {
     const connection = await this.ensureConnection()
-    await connection.sendRequest(RequestSendMonitorMessage.method, params)
+    const { port, message } = params
+    await connection.sendRequest(RequestSendMonitorMessage.method, {
+      port,
+      // JSON serializes a Buffer as `{ type: 'Buffer', data }`, which the bridge restores
+      message: typeof message === 'string' ? message : Buffer.from(message),
+    })
   }
 
   async pauseMonitor(
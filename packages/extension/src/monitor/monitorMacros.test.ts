@@ -0,0 +1,192 @@
+import { isAbortError } from 'abort-controller-x'
+import { describe, expect, it, vi } from 'vitest'
+import * as vscode from 'vscode'
+
+import type { MonitorMessage } from '@boardlab/protocol'
+
+import {
+  encodeMacroText,
+  parseMonitorMacros,
+  runMonitorMacro,
+  runMonitorMacroOnPort,
+  type MonitorMacroTarget,
+} from './monitorMacros'
+
+const decoder = new TextDecoder()
+const encoder = new TextEncoder()
+
+function createTarget(respond?: (sent: string) => string | undefined): {
+  target: MonitorMacroTarget
+  sent: string[]
+} {
+  const emitter = new vscode.EventEmitter<Uint8Array>()
+  const sent: string[] = []
+  const target: MonitorMacroTarget = {
+    onDidReceiveData: emitter.event,
+    send: async (message: MonitorMessage) => {
+      const text =
+        typeof message === 'string' ? message : decoder.decode(message)
+      sent.push(text)
+      const response = respond?.(text)
+      if (response !== undefined) {
+        // Answer in two chunks to exercise the buffering.
+        const middle = Math.floor(response.length / 2)
+        emitter.fire(encoder.encode(response.slice(0, middle)))
+        emitter.fire(encoder.encode(response.slice(middle)))
+      }
+    },
+  }
+  return { target, sent }
+}
+
+describe('monitorMacros', () => {
+  describe('encodeMacroText', () => {
+    it('encodes the escape sequences', () => {
+      expect([...encodeMacroText('AT\\r\\n')]).toEqual([0x41, 0x54, 0x0d, 0x0a])
+      expect([...encodeMacroText('\\x1a\\xFF°\\\\')]).toEqual([
+        0x1a, 0xff, 0xc2, 0xb0, 0x5c,
+      ])
+      expect([...encodeMacroText('a\\')]).toEqual([0x61, 0x5c])
+    })
+
+    it('rejects the invalid escape sequences', () => {
+      expect(() => encodeMacroText('\\q')).toThrow(
+        "Invalid escape sequence: '\\q'"
+      )
+      expect(() => encodeMacroText('\\x4')).toThrow(
+        "Invalid escape sequence: '\\x4'"
+      )
+    })
+  })
+
+  describe('parseMonitorMacros', () => {
+    it('skips the invalid macros', () => {
+      const { macros, errors } = parseMonitorMacros([
+        { name: 'Modem setup', steps: ['AT', { send: 'ATE0', waitFor: 'OK' }] },
+        { name: 'No steps', steps: [] },
+        { name: 'Bad pattern', steps: [{ waitFor: '(' }] },
+        { name: 'Bad ending', lineEnding: 'nl', steps: ['AT'] },
+        { steps: ['AT'] },
+      ])
+
+      expect(macros.map(({ name }) => name)).toEqual(['Modem setup'])
+      expect(errors).toHaveLength(4)
+      expect(errors[0]).toBe("Macro 'No steps': missing steps.")
+      expect(errors[3]).toBe('Macro 4: missing name.')
+    })
+
+    it('rejects a non-array value', () => {
+      expect(parseMonitorMacros({ name: 'AT' }).errors).toEqual([
+        'Expected an array of macros.',
+      ])
+      expect(parseMonitorMacros(undefined)).toEqual({ macros: [], errors: [] })
+    })
+  })
+
+  describe('runMonitorMacro', () => {
+    it('sends the steps with the line ending and waits for the responses', async () => {
+      const { target, sent } = createTarget((text) =>
+        text.startsWith('AT+CPIN?') ? '+CPIN: READY\r\nOK\r\n' : undefined
+      )
+      const steps: number[] = []
+
+      await runMonitorMacro(
+        {
+          name: 'Modem setup',
+          steps: [
+            'AT',
+            { delay: 1 },
+            { send: 'AT+CPIN?', waitFor: 'READY[\\s\\S]*OK' },
+          ],
+        },
+        target,
+        { lineEnding: 'crlf', onWillRunStep: (_, index) => steps.push(index) }
+      )
+
+      expect(sent).toEqual(['AT\r\n', 'AT+CPIN?\r\n'])
+      expect(steps).toEqual([0, 1, 2])
+    })
+
+    it('prefers the line ending of the macro', async () => {
+      const { target, sent } = createTarget()
+
+      await runMonitorMacro(
+        { name: 'Raw', lineEnding: 'none', steps: ['\\x1a'] },
+        target,
+        { lineEnding: 'crlf' }
+      )
+
+      expect(sent).toEqual(['\x1a'])
+    })
+
+    it('fails when the response does not arrive in time', async () => {
+      const { target, sent } = createTarget(() => 'ERROR\r\n')
+
+      await expect(
+        runMonitorMacro(
+          {
+            name: 'Timeout',
+            steps: [{ send: 'AT', waitFor: '^OK', timeout: 10 }, 'ATI'],
+          },
+          target
+        )
+      ).rejects.toThrow("Timed out after 10 ms waiting for '^OK'.")
+      expect(sent).toEqual(['AT'])
+    })
+
+    it('stops when aborted', async () => {
+      const { target, sent } = createTarget()
+      const controller = new AbortController()
+
+      const run = runMonitorMacro(
+        { name: 'Slow', steps: [{ send: 'AT', delay: 1_000 }, 'ATI'] },
+        target,
+        { signal: controller.signal }
+      )
+      setTimeout(() => controller.abort(), 5)
+
+      const error = await run.catch((err) => err)
+      expect(isAbortError(error)).toBe(true)
+      expect(sent).toEqual(['AT'])
+    })
+  })
+
+  describe('runMonitorMacroOnPort', () => {
+    it('reads the responses through a client of the port', async () => {
+      const port = { protocol: 'serial', address: '/dev/mock0' }
+      // The monitor runs for an editor: only the registered clients get the data
+      const clients = new Set<vscode.EventEmitter<Uint8Array>>()
+      const dispose = vi.fn()
+      const boardlabContext = {
+        createMonitorClient: vi.fn(async () => {
+          const emitter = new vscode.EventEmitter<Uint8Array>()
+          clients.add(emitter)
+          return {
+            onDidReceiveData: emitter.event,
+            send: async () => {
+              for (const client of clients) {
+                client.fire(encoder.encode('OK\r\n'))
+              }
+            },
+            dispose: () => {
+              clients.delete(emitter)
+              dispose()
+            },
+          } as any
+        }),
+      }
+
+      await runMonitorMacroOnPort(
+        { name: 'Ping', steps: [{ send: 'AT', waitFor: '^OK', timeout: 100 }] },
+        port,
+        boardlabContext
+      )
+
+      expect(boardlabContext.createMonitorClient).toHaveBeenCalledWith(port, {
+        autoStart: false,
+      })
+      expect(dispose).toHaveBeenCalledOnce()
+      expect(clients.size).toBe(0)
+    })
+  })
+})
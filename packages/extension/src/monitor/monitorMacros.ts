@@ -0,0 +1,357 @@
+import { delay, execute, throwIfAborted } from 'abort-controller-x'
+import type { PortIdentifier } from 'boards-list'
+import * as vscode from 'vscode'
+
+import type { LineEnding, MonitorMessage } from '@boardlab/protocol'
+
+import type { BoardLabContext } from '../boardlabContext'
+
+export interface MonitorMacroStep {
+  /**
+   * The text to send. Supports the `\r`, `\n`, `\t`, `\0`, `\\`, and `\xNN`
+   * escape sequences. The line ending of the macro is appended.
+   */
+  readonly send?: string
+  /**
+   * A regular expression matched against the monitor output received after the
+   * text was sent. The macro waits until it matches.
+   */
+  readonly waitFor?: string
+  /** In milliseconds. Defaults to `defaultMacroWaitTimeout`. */
+  readonly timeout?: number
+  /** The milliseconds to wait after the step. */
+  readonly delay?: number
+}
+
+export interface MonitorMacro {
+  readonly name: string
+  readonly description?: string
+  /** Defaults to the `boardlab.monitor.lineEnding` setting. */
+  readonly lineEnding?: LineEnding
+  /** A string step is a shorthand of `{ "send": "..." }`. */
+  readonly steps: readonly (MonitorMacroStep | string)[]
+}
+
+/** Where a macro was defined. */
+export interface MonitorMacroSource {
+  readonly macro: MonitorMacro
+  /** The settings or the path of the workspace `macros.json` file. */
+  readonly source: string
+}
+
+export interface MonitorMacroTarget {
+  send(message: MonitorMessage): Promise<void>
+  readonly onDidReceiveData: vscode.Event<Uint8Array>
+}
+
+export interface RunMonitorMacroOptions {
+  readonly lineEnding?: LineEnding
+  readonly signal?: AbortSignal
+  /** Called before each step with the zero-based step index. */
+  readonly onWillRunStep?: (step: MonitorMacroStep, index: number) => void
+}
+
+export const defaultMacroWaitTimeout = 5_000
+
+/** Relative to the workspace folder root. */
+export const monitorMacrosFile = '.boardlab/macros.json'
+
+/** The output kept for matching the `waitFor` patterns. */
+const maxWaitBufferLength = 64 * 1024
+
+const lineEndings: Record<LineEnding, string> = {
+  none: '',
+  lf: '\n',
+  cr: '\r',
+  crlf: '\r\n',
+}
+
+const lineEndingValues = Object.keys(lineEndings)
+
+const encoder = new TextEncoder()
+
+/**
+ * Encodes the text of a `send` step. The `\xNN` escapes become raw bytes, the
+ * rest of the text is UTF-8 encoded.
+ */
+export function encodeMacroText(text: string): Uint8Array {
+  const bytes: number[] = []
+  let literal = ''
+  const flush = () => {
+    bytes.push(...encoder.encode(literal))
+    literal = ''
+  }
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char !== '\\' || i === text.length - 1) {
+      literal += char
+      continue
+    }
+    const next = text[++i]
+    switch (next) {
+      case 'r':
+        literal += '\r'
+        break
+      case 'n':
+        literal += '\n'
+        break
+      case 't':
+        literal += '\t'
+        break
+      case '0':
+        literal += '\0'
+        break
+      case '\\':
+        literal += '\\'
+        break
+      case 'x': {
+        const digits = text.slice(i + 1, i + 3)
+        if (!/^[0-9a-f]{2}$/i.test(digits)) {
+          throw new Error(`Invalid escape sequence: '\\x${digits}'`)
+        }
+        flush()
+        bytes.push(parseInt(digits, 16))
+        i += 2
+        break
+      }
+      default:
+        throw new Error(`Invalid escape sequence: '\\${next}'`)
+    }
+  }
+  flush()
+  return Uint8Array.from(bytes)
+}
+
+/**
+ * Validates the macros of the `boardlab.monitor.macros` setting or a
+ * `macros.json` file. The invalid macros are skipped and reported in `errors`.
+ */
+export function parseMonitorMacros(value: unknown): {
+  macros: MonitorMacro[]
+  errors: string[]
+} {
+  const macros: MonitorMacro[] = []
+  const errors: string[] = []
+  if (value === undefined || value === null) {
+    return { macros, errors }
+  }
+  if (!Array.isArray(value)) {
+    errors.push('Expected an array of macros.')
+    return { macros, errors }
+  }
+  value.forEach((candidate, index) => {
+    const error = validateMacro(candidate)
+    if (error) {
+      const name =
+        typeof candidate?.name === 'string' ? `'${candidate.name}'` : index
+      errors.push(`Macro ${name}: ${error}`)
+      return
+    }
+    macros.push(candidate)
+  })
+  return { macros, errors }
+}
+
+function validateMacro(candidate: any): string | undefined {
+  if (!candidate || typeof candidate !== 'object') {
+    return 'expected an object.'
+  }
+  if (typeof candidate.name !== 'string' || !candidate.name.trim()) {
+    return 'missing name.'
+  }
+  if (
+    candidate.lineEnding !== undefined &&
+    !lineEndingValues.includes(candidate.lineEnding)
+  ) {
+    return `invalid line ending '${candidate.lineEnding}'.`
+  }
+  if (!Array.isArray(candidate.steps) || !candidate.steps.length) {
+    return 'missing steps.'
+  }
+  for (const [index, step] of candidate.steps.entries()) {
+    const error = validateStep(step)
+    if (error) {
+      return `step ${index + 1}: ${error}`
+    }
+  }
+  return undefined
+}
+
+function validateStep(step: any): string | undefined {
+  if (typeof step === 'string') {
+    step = { send: step }
+  }
+  if (!step || typeof step !== 'object') {
+    return 'expected a string or an object.'
+  }
+  const { send, waitFor, timeout, delay } = step
+  if (send === undefined && waitFor === undefined && delay === undefined) {
+    return 'expected send, waitFor, or delay.'
+  }
+  if (send !== undefined) {
+    if (typeof send !== 'string') {
+      return 'send must be a string.'
+    }
+    try {
+      encodeMacroText(send)
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+  }
+  if (waitFor !== undefined) {
+    if (typeof waitFor !== 'string') {
+      return 'waitFor must be a string.'
+    }
+    try {
+      RegExp(waitFor)
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+  }
+  for (const [key, ms] of Object.entries({ timeout, delay })) {
+    if (ms !== undefined && (typeof ms !== 'number' || ms < 0)) {
+      return `${key} must be a non-negative number.`
+    }
+  }
+  return undefined
+}
+
+/**
+ * Loads the macros of the `boardlab.monitor.macros` setting and the
+ * `.boardlab/macros.json` files of the workspace folders. A workspace file
+ * macro overrides the setting macro with the same name.
+ */
+export async function loadMonitorMacros(): Promise<{
+  macros: MonitorMacroSource[]
+  errors: string[]
+}> {
+  const byName = new Map<string, MonitorMacroSource>()
+  const errors: string[] = []
+  const add = (value: unknown, source: string) => {
+    const parsed = parseMonitorMacros(value)
+    for (const macro of parsed.macros) {
+      byName.set(macro.name, { macro, source })
+    }
+    errors.push(...parsed.errors.map((error) => `${source}: ${error}`))
+  }
+
+  add(
+    vscode.workspace.getConfiguration('boardlab.monitor').get('macros'),
+    'Settings'
+  )
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = vscode.Uri.joinPath(folder.uri, monitorMacrosFile)
+    let raw: Uint8Array
+    try {
+      raw = await vscode.workspace.fs.readFile(uri)
+    } catch {
+      continue
+    }
+    try {
+      add(JSON.parse(new TextDecoder().decode(raw)), uri.fsPath)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      errors.push(`${uri.fsPath}: ${message}`)
+    }
+  }
+  return { macros: Array.from(byName.values()), errors }
+}
+
+/**
+ * Runs the steps of the macro in order. Rejects when a `waitFor` pattern does
+ * not match in time, and with an `AbortError` when the `signal` is aborted.
+ */
+export async function runMonitorMacro(
+  macro: MonitorMacro,
+  target: MonitorMacroTarget,
+  options: RunMonitorMacroOptions = {}
+): Promise<void> {
+  const { signal = new AbortController().signal, onWillRunStep } = options
+  const lineEnding = encoder.encode(
+    lineEndings[macro.lineEnding ?? options.lineEnding ?? 'none']
+  )
+  for (const [index, rawStep] of macro.steps.entries()) {
+    throwIfAborted(signal)
+    const step: MonitorMacroStep =
+      typeof rawStep === 'string' ? { send: rawStep } : rawStep
+    onWillRunStep?.(step, index)
+
+    // Listen before sending to not miss a fast response.
+    const response =
+      step.waitFor !== undefined
+        ? waitForOutput(
+            signal,
+            target.onDidReceiveData,
+            new RegExp(step.waitFor),
+            step.timeout ?? defaultMacroWaitTimeout
+          )
+        : undefined
+    // Avoid an unhandled rejection while the message is being sent.
+    response?.catch(() => {})
+    if (step.send !== undefined) {
+      const text = encodeMacroText(step.send)
+      const message = new Uint8Array(text.length + lineEnding.length)
+      message.set(text)
+      message.set(lineEnding, text.length)
+      await target.send(message)
+    }
+    await response
+    if (step.delay) {
+      await delay(signal, step.delay)
+    }
+  }
+}
+
+/**
+ * Runs the macro through a new monitor client of the port. The client does not
+ * start the monitor, and it receives the responses of the `waitFor` steps also
+ * when the monitor runs only for an editor. Disposed when the macro ends.
+ */
+export async function runMonitorMacroOnPort(
+  macro: MonitorMacro,
+  port: PortIdentifier,
+  boardlabContext: Pick<BoardLabContext, 'createMonitorClient'>,
+  options: RunMonitorMacroOptions = {}
+): Promise<void> {
+  const client = await boardlabContext.createMonitorClient(port, {
+    autoStart: false,
+  })
+  try {
+    await runMonitorMacro(macro, client, options)
+  } finally {
+    client.dispose()
+  }
+}
+
+function waitForOutput(
+  signal: AbortSignal,
+  onDidReceiveData: vscode.Event<Uint8Array>,
+  pattern: RegExp,
+  timeout: number
+): Promise<void> {
+  return execute<void>(signal, (resolve, reject) => {
+    const decoder = new TextDecoder()
+    let output = ''
+    const timer = setTimeout(
+      () =>
+        reject(
+          new Error(
+            `Timed out after ${timeout} ms waiting for '${pattern.source}'.`
+          )
+        ),
+      timeout
+    )
+    const listener = onDidReceiveData((data) => {
+      output = (output + decoder.decode(data, { stream: true })).slice(
+        -maxWaitBufferLength
+      )
+      if (pattern.test(output)) {
+        resolve()
+      }
+    })
+    return () => {
+      clearTimeout(timer)
+      listener.dispose()
+    }
+  })
+}
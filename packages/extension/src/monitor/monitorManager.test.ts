@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest'
 import {
   decideBridgeOwnerReuse,
   shouldBypassTakeoverPolicyForStartupWait,
+  toMonitorMessage,
 } from './monitorManager'
 
 describe('decideBridgeOwnerReuse', () => {
@@ -66,3 +67,27 @@ describe('shouldBypassTakeoverPolicyForStartupWait', () => {
     expect(shouldBypassTakeoverPolicyForStartupWait(undefined)).toBe(false)
   })
 })
+
+describe('toMonitorMessage', () => {
+  it('keeps text and bytes', () => {
+    const bytes = Uint8Array.from([0xaa, 0x55])
+    expect(toMonitorMessage('hello')).toBe('hello')
+    expect(toMonitorMessage(bytes)).toBe(bytes)
+  })
+
+  it('restores serialized bytes', () => {
+    const expected = Uint8Array.from([0xaa, 0x55, 0x01])
+    expect(toMonitorMessage([0xaa, 0x55, 0x01])).toEqual(expected)
+    expect(
+      toMonitorMessage(JSON.parse(JSON.stringify(Buffer.from(expected))))
+    ).toEqual(expected)
+    expect(toMonitorMessage(JSON.parse(JSON.stringify(expected)))).toEqual(
+      expected
+    )
+  })
+
+  it('rejects unsupported messages', () => {
+    expect(() => toMonitorMessage(42)).toThrow()
+    expect(() => toMonitorMessage({ foo: 'bar' })).toThrow()
+  })
+})
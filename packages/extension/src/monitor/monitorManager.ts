@@ -48,6 +48,7 @@ import {
   type DisconnectMonitorClientParams,
   type HostConnectClientResult,
   type MonitorBridgeInfo,
+  type MonitorMessage,
   type MonitorBridgeLogEntry,
   type MonitorClientAttachParams,
   type MonitorClientDetachParams,
@@ -171,6 +172,34 @@ export function shouldBypassTakeoverPolicyForStartupWait(
   )
 }
 
+/**
+ * Restores the bytes of a monitor message after serialization. Typed arrays
+ * arrive from the webviews as-is, as plain arrays, as serialized Node.js
+ * `Buffer`s, or as index-keyed objects after a `JSON.stringify`.
+ */
+export function toMonitorMessage(message: unknown): MonitorMessage {
+  if (typeof message === 'string' || message instanceof Uint8Array) {
+    return message
+  }
+  if (message instanceof ArrayBuffer) {
+    return new Uint8Array(message)
+  }
+  if (Array.isArray(message)) {
+    return Uint8Array.from(message)
+  }
+  if (typeof message === 'object' && message !== null) {
+    const { type, data } = message as { type?: unknown; data?: unknown }
+    if (type === 'Buffer' && Array.isArray(data)) {
+      return Uint8Array.from(data)
+    }
+    const values = Object.values(message)
+    if (values.every((value) => typeof value === 'number')) {
+      return Uint8Array.from(values as number[])
+    }
+  }
+  throw new Error(`Unsupported monitor message: ${String(message)}`)
+}
+
 export class BridgeInUseError extends Error {
   constructor(
     readonly port: number,
@@ -1833,6 +1862,8 @@ export class MonitorManager implements vscode.Disposable {
   private readonly onDidReceiveMonitorDataEmitter = new vscode.EventEmitter<{
     port: PortIdentifier
     data: Uint8Array
+    /** The external client whose stream received the data. */
+    clientId: string
   }>()
 
   private readonly onDidChangeRunningMonitorsEmitter = new vscode.EventEmitter<
@@ -2272,13 +2303,9 @@ export class MonitorManager implements vscode.Disposable {
 
   async sendMonitorMessage(
     port: PortIdentifier,
-    message: string | Uint8Array
+    message: MonitorMessage
   ): Promise<void> {
-    const text =
-      typeof message === 'string'
-        ? message
-        : Buffer.from(message).toString('utf8')
-    await this.bridgeClient.sendMonitorMessage({ port, message: text })
+    await this.bridgeClient.sendMonitorMessage({ port, message })
   }
 
   getBaudrateOptions(
@@ -2683,6 +2710,7 @@ export class MonitorManager implements vscode.Disposable {
             this.onDidReceiveMonitorDataEmitter.fire({
               port: currentPort,
               data: value,
+              clientId,
             })
           }
         } finally {
@@ -2841,7 +2869,10 @@ export class MonitorManager implements vscode.Disposable {
   private async handleSendMonitorMessage(
     params: RequestSendMonitorMessageParams
   ): Promise<void> {
-    await this.bridgeClient.sendMonitorMessage(params)
+    await this.bridgeClient.sendMonitorMessage({
+      port: params.port,
+      message: toMonitorMessage(params.message),
+    })
   }
 
   private ensureBridgeEventForwarders(): void {
@@ -0,0 +1,179 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  LineTimestamper,
+  MonitorRecording,
+  rotatedFilePath,
+  type MonitorRecordingOptions,
+} from './monitorRecorder'
+
+const PORT = { protocol: 'serial', address: '/dev/mock0' }
+const encoder = new TextEncoder()
+
+describe('monitorRecorder', () => {
+  describe('rotatedFilePath', () => {
+    it('adds the index before the extension', () => {
+      expect(rotatedFilePath('/logs/soak.log', 0)).toBe('/logs/soak.log')
+      expect(rotatedFilePath('/logs/soak.log', 2)).toBe(
+        path.join('/logs', 'soak.2.log')
+      )
+      expect(rotatedFilePath('/logs/soak', 1)).toBe(
+        path.join('/logs', 'soak.1')
+      )
+    })
+  })
+
+  describe('LineTimestamper', () => {
+    it('stamps the lines once across chunks', () => {
+      let now = 0
+      const timestamper = new LineTimestamper(() => new Date(now++ * 1000))
+
+      expect(timestamper.stamp('hello ')).toBe(
+        '[1970-01-01T00:00:00.000Z] hello '
+      )
+      expect(timestamper.stamp('world\r\nfoo\nbar')).toBe(
+        'world\r\n[1970-01-01T00:00:01.000Z] foo\n[1970-01-01T00:00:02.000Z] bar'
+      )
+      expect(timestamper.stamp('\n')).toBe('\n')
+    })
+  })
+
+  describe('MonitorRecording', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'monitor-recording-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    const options = (
+      overrides: Partial<MonitorRecordingOptions> = {}
+    ): MonitorRecordingOptions => ({
+      mode: 'text',
+      timestamps: false,
+      maxFileSize: 0,
+      rotationInterval: 0,
+      ...overrides,
+    })
+
+    it('decodes split multi-byte characters and writes the markers', async () => {
+      const filePath = path.join(tempDir, 'out.log')
+      const recording = new MonitorRecording(PORT, filePath, options())
+      const bytes = encoder.encode('temp: 21°C')
+      recording.write(bytes.subarray(0, 9))
+      recording.write(bytes.subarray(9))
+      recording.mark('monitor suspended')
+      recording.write(encoder.encode('booted\n'))
+      await recording.close()
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe(
+        'temp: 21°C\n--- monitor suspended ---\nbooted\n'
+      )
+    })
+
+    it('writes the raw bytes in binary mode', async () => {
+      const filePath = path.join(tempDir, 'out.bin')
+      const recording = new MonitorRecording(
+        PORT,
+        filePath,
+        options({ mode: 'binary', timestamps: true })
+      )
+      recording.write(Uint8Array.from([0x00, 0xff, 0x0a]))
+      recording.mark('monitor suspended')
+      await recording.close()
+
+      expect([...(await fs.readFile(filePath))]).toEqual([0x00, 0xff, 0x0a])
+    })
+
+    it('rotates the file by size', async () => {
+      const filePath = path.join(tempDir, 'soak.log')
+      const recording = new MonitorRecording(
+        PORT,
+        filePath,
+        options({ maxFileSize: 8 })
+      )
+      recording.write(encoder.encode('line 1\n'))
+      recording.write(encoder.encode('line 2\n'))
+      recording.write(encoder.encode('line 3\n'))
+      await recording.close()
+
+      expect(recording.currentFilePath).toBe(path.join(tempDir, 'soak.2.log'))
+      expect(await fs.readFile(filePath, 'utf8')).toBe('line 1\n')
+      expect(await fs.readFile(path.join(tempDir, 'soak.1.log'), 'utf8')).toBe(
+        'line 2\n'
+      )
+    })
+
+    it('rotates the file by time', async () => {
+      let now = 0
+      const filePath = path.join(tempDir, 'soak.log')
+      const recording = new MonitorRecording(
+        PORT,
+        filePath,
+        options({ rotationInterval: 1000 }),
+        undefined,
+        () => now
+      )
+      recording.write(encoder.encode('a\n'))
+      now = 500
+      recording.write(encoder.encode('b\n'))
+      now = 1000
+      recording.write(encoder.encode('c\n'))
+      await recording.close()
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe('a\nb\n')
+      expect(await fs.readFile(path.join(tempDir, 'soak.1.log'), 'utf8')).toBe(
+        'c\n'
+      )
+    })
+
+    it('rotates over the files of an earlier recording', async () => {
+      const filePath = path.join(tempDir, 'soak.log')
+      await fs.writeFile(filePath, 'old\n')
+      await fs.writeFile(path.join(tempDir, 'soak.1.log'), 'old 1\n')
+      await fs.writeFile(path.join(tempDir, 'soak.2.log'), 'old 2\n')
+      const recording = new MonitorRecording(
+        PORT,
+        filePath,
+        options({ maxFileSize: 8 })
+      )
+      recording.write(encoder.encode('line 1\n'))
+      recording.write(encoder.encode('line 2\n'))
+      await recording.close()
+
+      expect(recording.currentFilePath).toBe(path.join(tempDir, 'soak.3.log'))
+      expect(await fs.readFile(filePath, 'utf8')).toBe('line 1\n')
+      expect(await fs.readFile(path.join(tempDir, 'soak.1.log'), 'utf8')).toBe(
+        'old 1\n'
+      )
+      expect(await fs.readFile(path.join(tempDir, 'soak.2.log'), 'utf8')).toBe(
+        'old 2\n'
+      )
+      expect(await fs.readFile(path.join(tempDir, 'soak.3.log'), 'utf8')).toBe(
+        'line 2\n'
+      )
+    })
+
+    it('reports the write errors', async () => {
+      const errors: unknown[] = []
+      const recording = new MonitorRecording(
+        PORT,
+        path.join(tempDir, 'missing', 'out.log'),
+        options(),
+        (error) => errors.push(error)
+      )
+      recording.write(encoder.encode('data\n'))
+      recording.write(encoder.encode('data\n'))
+      await recording.close()
+
+      expect(errors).toHaveLength(1)
+    })
+  })
+})
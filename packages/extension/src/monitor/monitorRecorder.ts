@@ -0,0 +1,381 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { createPortKey, type PortIdentifier } from 'boards-list'
+import * as vscode from 'vscode'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import type { MonitorRuntimeState } from './monitorManager'
+import { RunningMonitorClients } from './runningMonitorClients'
+
+export type MonitorRecordingMode = 'text' | 'binary'
+
+export interface MonitorRecordingOptions {
+  readonly mode: MonitorRecordingMode
+  /** Prefixes each line with the host time. Ignored in `binary` mode. */
+  readonly timestamps: boolean
+  /** In bytes. `0` disables the size-based rotation. */
+  readonly maxFileSize: number
+  /** In milliseconds. `0` disables the time-based rotation. */
+  readonly rotationInterval: number
+}
+
+/** Reads the `boardlab.monitor.recording` settings. */
+export function getMonitorRecordingOptions(
+  overrides: Partial<MonitorRecordingOptions> = {}
+): MonitorRecordingOptions {
+  const config = vscode.workspace.getConfiguration('boardlab.monitor.recording')
+  const maxFileSizeMB = config.get<number>('maxFileSize') ?? 0
+  const rotationIntervalMinutes = config.get<number>('rotationInterval') ?? 0
+  return {
+    mode: config.get<MonitorRecordingMode>('mode') ?? 'text',
+    timestamps: config.get<boolean>('timestamps') ?? true,
+    maxFileSize: Math.max(0, maxFileSizeMB) * 1024 * 1024,
+    rotationInterval: Math.max(0, rotationIntervalMinutes) * 60 * 1000,
+    ...overrides,
+  }
+}
+
+/**
+ * The path of the `index`th file of a rotated recording. The first file keeps
+ * the original path, the following ones get a numeric suffix before the
+ * extension: `soak.log`, `soak.1.log`, `soak.2.log`, ...
+ */
+export function rotatedFilePath(filePath: string, index: number): string {
+  if (index <= 0) {
+    return filePath
+  }
+  const ext = path.extname(filePath)
+  return path.join(
+    path.dirname(filePath),
+    `${path.basename(filePath, ext)}.${index}${ext}`
+  )
+}
+
+/** Prefixes the lines of the streamed text with the host time. */
+export class LineTimestamper {
+  private atLineStart = true
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  /**
+   * Lines split across chunks get a single timestamp when their first chunk
+   * arrives.
+   */
+  stamp(text: string): string {
+    let result = ''
+    for (const part of text.split(/(?<=\n)/)) {
+      if (!part) {
+        continue
+      }
+      if (this.atLineStart) {
+        result += `[${this.now().toISOString()}] `
+      }
+      result += part
+      this.atLineStart = part.endsWith('\n')
+    }
+    return result
+  }
+}
+
+/**
+ * Writes the monitor data of one port to a (possibly rotated) file. The
+ * rotation skips the numbered files left by earlier recordings.
+ */
+export class MonitorRecording {
+  private readonly decoder = new TextDecoder()
+  private readonly timestamper: LineTimestamper | undefined
+  private stream: fs.WriteStream | undefined
+  private fileIndex = 0
+  private fileSize = 0
+  private fileOpenedAt = 0
+  private queue: Promise<void> = Promise.resolve()
+  private failed = false
+  private lineComplete = true
+
+  constructor(
+    readonly port: PortIdentifier,
+    readonly filePath: string,
+    readonly options: MonitorRecordingOptions,
+    private readonly onDidFail: (error: unknown) => void = () => {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.timestamper =
+      options.mode === 'text' && options.timestamps
+        ? new LineTimestamper(() => new Date(this.now()))
+        : undefined
+  }
+
+  /** The path of the file the recording currently writes to. */
+  get currentFilePath(): string {
+    return rotatedFilePath(this.filePath, this.fileIndex)
+  }
+
+  write(data: Uint8Array): void {
+    if (this.options.mode === 'binary') {
+      this.enqueue(Buffer.from(data))
+      return
+    }
+    this.writeText(this.decoder.decode(data, { stream: true }))
+  }
+
+  /**
+   * Writes a marker line, such as the suspension of the monitor for an upload.
+   * Ignored in `binary` mode to keep the device output intact.
+   */
+  mark(message: string): void {
+    if (this.options.mode === 'binary') {
+      return
+    }
+    if (!this.lineComplete) {
+      this.writeText('\n')
+    }
+    this.writeText(`--- ${message} ---\n`)
+  }
+
+  async close(): Promise<void> {
+    if (this.options.mode === 'text') {
+      this.writeText(this.decoder.decode())
+    }
+    this.queue = this.queue.then(() => this.closeStream())
+    await this.queue
+  }
+
+  private writeText(text: string): void {
+    if (!text) {
+      return
+    }
+    this.lineComplete = text.endsWith('\n')
+    this.enqueue(Buffer.from(this.timestamper?.stamp(text) ?? text))
+  }
+
+  private enqueue(chunk: Buffer): void {
+    const receivedAt = this.now()
+    this.queue = this.queue
+      .then(() => this.writeChunk(chunk, receivedAt))
+      .catch((error) => {
+        if (!this.failed) {
+          this.failed = true
+          this.onDidFail(error)
+        }
+      })
+  }
+
+  private async writeChunk(chunk: Buffer, receivedAt: number): Promise<void> {
+    if (this.failed) {
+      return
+    }
+    if (!this.stream) {
+      await this.openStream(receivedAt)
+    } else if (this.shouldRotate(chunk.length, receivedAt)) {
+      await this.closeStream()
+      do {
+        this.fileIndex += 1
+      } while (fs.existsSync(this.currentFilePath))
+      await this.openStream(receivedAt)
+    }
+    const stream = this.stream
+    if (!stream) {
+      return
+    }
+    this.fileSize += chunk.length
+    if (!stream.write(chunk)) {
+      await new Promise<void>((resolve, reject) => {
+        stream.once('drain', resolve)
+        stream.once('error', reject)
+      })
+    }
+  }
+
+  private shouldRotate(size: number, receivedAt: number): boolean {
+    const { maxFileSize, rotationInterval } = this.options
+    if (
+      maxFileSize > 0 &&
+      this.fileSize > 0 &&
+      this.fileSize + size > maxFileSize
+    ) {
+      return true
+    }
+    return (
+      rotationInterval > 0 && receivedAt - this.fileOpenedAt >= rotationInterval
+    )
+  }
+
+  private async openStream(openedAt: number): Promise<void> {
+    // Only the file the user picked may be overwritten
+    const stream = fs.createWriteStream(this.currentFilePath, {
+      flags: this.fileIndex ? 'wx' : 'w',
+    })
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve())
+      stream.once('error', reject)
+    })
+    stream.on('error', (error) => {
+      if (!this.failed) {
+        this.failed = true
+        this.onDidFail(error)
+      }
+    })
+    this.stream = stream
+    this.fileSize = 0
+    this.fileOpenedAt = openedAt
+  }
+
+  private async closeStream(): Promise<void> {
+    const stream = this.stream
+    this.stream = undefined
+    if (stream && !stream.destroyed) {
+      await new Promise<void>((resolve) => stream.end(() => resolve()))
+    }
+  }
+}
+
+/**
+ * Records the monitor data of the ports to files. The recordings are keyed by
+ * port and outlive the monitor suspensions during uploads: the data stops while
+ * the monitor is suspended, and the recording continues when it resumes.
+ */
+export class MonitorRecorder implements vscode.Disposable {
+  private readonly recordings = new Map<string, MonitorRecording>()
+  private readonly states = new Map<string, MonitorRuntimeState>()
+  private readonly statusBarItem: vscode.StatusBarItem
+  private readonly disposables: vscode.Disposable[]
+
+  constructor(
+    private readonly boardlabContext: Pick<
+      BoardLabContextImpl,
+      'monitorManager' | 'createMonitorClient'
+    >
+  ) {
+    const runningMonitorClients = new RunningMonitorClients(boardlabContext)
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      'boardlab.monitorRecording',
+      vscode.StatusBarAlignment.Left,
+      100.4
+    )
+    this.statusBarItem.command = 'boardlab.monitor.stopRecording'
+    this.disposables = [
+      this.statusBarItem,
+      runningMonitorClients,
+      runningMonitorClients.onDidReceiveData(({ port, data }) =>
+        this.recordings.get(createPortKey(port))?.write(data)
+      ),
+      boardlabContext.monitorManager.onDidChangeMonitorState(
+        ({ port, state }) => this.handleStateChange(port, state)
+      ),
+    ]
+  }
+
+  isRecording(port: PortIdentifier): boolean {
+    return this.recordings.has(createPortKey(port))
+  }
+
+  get activeRecordings(): readonly MonitorRecording[] {
+    return Array.from(this.recordings.values())
+  }
+
+  /** Starts recording the port. A running recording of the port is stopped. */
+  async start(
+    port: PortIdentifier,
+    filePath: string,
+    options: MonitorRecordingOptions
+  ): Promise<MonitorRecording> {
+    await this.stop(port)
+    const portKey = createPortKey(port)
+    const recording = new MonitorRecording(port, filePath, options, (error) => {
+      if (this.recordings.get(portKey) !== recording) {
+        return
+      }
+      this.stop(port)
+      const message = error instanceof Error ? error.message : String(error)
+      vscode.window.showErrorMessage(
+        `Stopped recording ${port.address}: ${message}`
+      )
+    })
+    this.recordings.set(portKey, recording)
+    this.states.set(
+      portKey,
+      this.boardlabContext.monitorManager.getMonitorState(port)
+    )
+    recording.mark(
+      `recording ${port.protocol} ${port.address} started at ${new Date().toISOString()}`
+    )
+    await this.refresh()
+    return recording
+  }
+
+  /** Resolves to the stopped recording, if any. */
+  async stop(port: PortIdentifier): Promise<MonitorRecording | undefined> {
+    const portKey = createPortKey(port)
+    const recording = this.recordings.get(portKey)
+    if (!recording) {
+      return undefined
+    }
+    this.recordings.delete(portKey)
+    this.states.delete(portKey)
+    recording.mark(`recording stopped at ${new Date().toISOString()}`)
+    await recording.close()
+    await this.refresh()
+    return recording
+  }
+
+  dispose(): void {
+    for (const recording of this.recordings.values()) {
+      recording.close().catch((error) => {
+        console.error('Failed to close monitor recording', error)
+      })
+    }
+    this.recordings.clear()
+    this.states.clear()
+    vscode.Disposable.from(...this.disposables).dispose()
+  }
+
+  private handleStateChange(
+    port: PortIdentifier,
+    state: MonitorRuntimeState
+  ): void {
+    const portKey = createPortKey(port)
+    const recording = this.recordings.get(portKey)
+    if (!recording) {
+      return
+    }
+    const previous = this.states.get(portKey)
+    this.states.set(portKey, state)
+    if (state === previous) {
+      return
+    }
+    if (state === 'suspended') {
+      recording.mark('monitor suspended')
+    } else if (state === 'running' && previous === 'suspended') {
+      recording.mark('monitor resumed')
+    } else if (state === 'disconnected') {
+      recording.mark('monitor disconnected')
+    } else if (state === 'running' && previous === 'disconnected') {
+      recording.mark('monitor reconnected')
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const recordings = this.activeRecordings
+    await vscode.commands.executeCommand(
+      'setContext',
+      'boardlab.monitor.recording',
+      recordings.length > 0
+    )
+    if (!recordings.length) {
+      this.statusBarItem.hide()
+      return
+    }
+    this.statusBarItem.text =
+      recordings.length === 1
+        ? `$(record) Recording ${recordings[0].port.address}`
+        : `$(record) Recording ${recordings.length} ports`
+    this.statusBarItem.tooltip = [
+      ...recordings.map(
+        ({ port, filePath }) => `${port.address} → ${filePath}`
+      ),
+      'Click to stop recording.',
+    ].join('\n')
+    this.statusBarItem.show()
+  }
+}
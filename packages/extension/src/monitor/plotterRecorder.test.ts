@@ -0,0 +1,169 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { PlotterData } from '@boardlab/protocol'
+
+import {
+  csvField,
+  formatPlotterCsv,
+  formatPlotterJson,
+  PlotterRecording,
+  slicePlotterData,
+} from './plotterRecorder'
+
+const PORT = { protocol: 'serial', address: '/dev/mock0' }
+
+const data: PlotterData = {
+  series: ['temp', 'hum, %'],
+  x: [0, 1, 2, 3],
+  ys: [
+    [21.5, 21.6, null, 21.8],
+    [40, 41, 42],
+  ],
+}
+
+describe('plotterRecorder', () => {
+  describe('csvField', () => {
+    it('quotes the fields with separators and quotes', () => {
+      expect(csvField(1.5)).toBe('1.5')
+      expect(csvField(null)).toBe('')
+      expect(csvField('a,b')).toBe('"a,b"')
+      expect(csvField('say "hi"')).toBe('"say ""hi"""')
+    })
+  })
+
+  describe('formatPlotterCsv', () => {
+    it('formats a row per sample', () => {
+      expect(formatPlotterCsv(data)).toBe(
+        [
+          'x,temp,"hum, %"',
+          '0,21.5,40',
+          '1,21.6,41',
+          '2,,42',
+          '3,21.8,',
+          '',
+        ].join('\n')
+      )
+    })
+  })
+
+  describe('formatPlotterJson', () => {
+    it('formats the samples as records', () => {
+      expect(JSON.parse(formatPlotterJson(data))).toEqual({
+        series: ['temp', 'hum, %'],
+        samples: [
+          { x: 0, temp: 21.5, 'hum, %': 40 },
+          { x: 1, temp: 21.6, 'hum, %': 41 },
+          { x: 2, temp: null, 'hum, %': 42 },
+          { x: 3, temp: 21.8, 'hum, %': null },
+        ],
+      })
+    })
+  })
+
+  describe('slicePlotterData', () => {
+    it('keeps the samples of the visible window', () => {
+      expect(slicePlotterData(data, { min: 0.5, max: 3 })).toEqual({
+        series: ['temp', 'hum, %'],
+        x: [1, 2, 3],
+        ys: [
+          [21.6, null, 21.8],
+          [41, 42, null],
+        ],
+      })
+    })
+  })
+
+  describe('PlotterRecording', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plotter-recording-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('writes the samples with the host time', async () => {
+      const filePath = path.join(tempDir, 'capture.csv')
+      const recording = new PlotterRecording(PORT, filePath)
+
+      expect(recording.hasSamples).toBe(false)
+      recording.write({
+        timestamp: 0,
+        series: ['a', 'b'],
+        x: [0, 1],
+        ys: [
+          [1, 2],
+          [3, null],
+        ],
+      })
+      recording.write({
+        timestamp: 1_000,
+        series: ['a', 'b'],
+        x: [2],
+        ys: [[5], [6]],
+      })
+      await recording.close()
+
+      expect(recording.hasSamples).toBe(true)
+      expect(await fs.readFile(filePath, 'utf8')).toBe(
+        [
+          'timestamp,x,a,b',
+          '1970-01-01T00:00:00.000Z,0,1,3',
+          '1970-01-01T00:00:00.000Z,1,2,',
+          '1970-01-01T00:00:01.000Z,2,5,6',
+          '',
+        ].join('\n')
+      )
+    })
+
+    it('continues in the next file when a new series appears', async () => {
+      const filePath = path.join(tempDir, 'capture.csv')
+      const recording = new PlotterRecording(PORT, filePath)
+
+      recording.write({ timestamp: 0, series: ['a'], x: [0], ys: [[1]] })
+      recording.write({
+        timestamp: 0,
+        series: ['a', 'b'],
+        x: [1],
+        ys: [[2], [3]],
+      })
+      await recording.close()
+
+      expect(recording.currentFilePath).toBe(
+        path.join(tempDir, 'capture.1.csv')
+      )
+      expect(await fs.readFile(filePath, 'utf8')).toBe(
+        'timestamp,x,a\n1970-01-01T00:00:00.000Z,0,1\n'
+      )
+      expect(
+        await fs.readFile(path.join(tempDir, 'capture.1.csv'), 'utf8')
+      ).toBe('timestamp,x,a,b\n1970-01-01T00:00:00.000Z,1,2,3\n')
+    })
+
+    it('does not overwrite the existing files when continuing', async () => {
+      const filePath = path.join(tempDir, 'capture.csv')
+      await fs.writeFile(path.join(tempDir, 'capture.1.csv'), 'previous\n')
+      const recording = new PlotterRecording(PORT, filePath)
+
+      recording.write({ timestamp: 0, series: ['a'], x: [0], ys: [[1]] })
+      recording.write({ timestamp: 0, series: ['b'], x: [1], ys: [[2]] })
+      await recording.close()
+
+      expect(recording.currentFilePath).toBe(
+        path.join(tempDir, 'capture.2.csv')
+      )
+      expect(
+        await fs.readFile(path.join(tempDir, 'capture.1.csv'), 'utf8')
+      ).toBe('previous\n')
+      expect(
+        await fs.readFile(path.join(tempDir, 'capture.2.csv'), 'utf8')
+      ).toBe('timestamp,x,b\n1970-01-01T00:00:00.000Z,1,2\n')
+    })
+  })
+})
@@ -0,0 +1,291 @@
+import fs from 'node:fs'
+
+import type { PortIdentifier } from 'boards-list'
+import * as vscode from 'vscode'
+
+import type { PlotterData, PlotterSamples } from '@boardlab/protocol'
+
+import { rotatedFilePath } from './monitorRecorder'
+
+export type PlotterExportFormat = 'csv' | 'json'
+
+/**
+ * The samples of the plotter data within the `range` of the x-axis, including
+ * the bounds.
+ */
+export function slicePlotterData(
+  data: PlotterData,
+  range: { readonly min: number; readonly max: number }
+): PlotterData {
+  const indexes = data.x.flatMap((x, index) =>
+    x >= range.min && x <= range.max ? [index] : []
+  )
+  return {
+    series: data.series,
+    x: indexes.map((index) => data.x[index]),
+    ys: data.ys.map((column) => indexes.map((index) => column[index] ?? null)),
+  }
+}
+
+/** Quotes the field if it contains a comma, a quote, or a line break. */
+export function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRow(values: readonly (string | number | null | undefined)[]) {
+  return `${values.map(csvField).join(',')}\n`
+}
+
+/** One row per sample with the `x` and the series columns. */
+export function formatPlotterCsv(data: PlotterData): string {
+  let csv = csvRow(['x', ...data.series])
+  data.x.forEach((x, index) => {
+    csv += csvRow([x, ...data.series.map((_, s) => data.ys[s]?.[index])])
+  })
+  return csv
+}
+
+/**
+ * The series labels and the samples as records, for example, `{ "x": 0, "temp":
+ * 21.5 }`. A missing value is `null`.
+ */
+export function formatPlotterJson(data: PlotterData): string {
+  const samples = data.x.map((x, index) => {
+    const sample: Record<string, number | null> = { x }
+    data.series.forEach((label, s) => {
+      sample[label] = data.ys[s]?.[index] ?? null
+    })
+    return sample
+  })
+  return `${JSON.stringify({ series: data.series, samples }, undefined, 2)}\n`
+}
+
+export function formatPlotterData(
+  data: PlotterData,
+  format: PlotterExportFormat
+): string {
+  return format === 'json' ? formatPlotterJson(data) : formatPlotterCsv(data)
+}
+
+/**
+ * Writes the parsed plotter samples to a CSV file with the host time of each
+ * sample. The header has the series known when the file was opened; when a new
+ * series appears, the recording continues in the next file that does not exist
+ * yet: `capture.csv`, `capture.1.csv`, ...
+ */
+export class PlotterRecording {
+  private stream: fs.WriteStream | undefined
+  private series: readonly string[] | undefined
+  private fileIndex = 0
+  private failed = false
+  private rotated: Promise<void> = Promise.resolve()
+
+  constructor(
+    readonly port: PortIdentifier,
+    readonly filePath: string,
+    private readonly onDidFail: (error: unknown) => void = () => {}
+  ) {}
+
+  /** The path of the file the recording currently writes to. */
+  get currentFilePath(): string {
+    return rotatedFilePath(this.filePath, this.fileIndex)
+  }
+
+  /** The file is created when the first samples arrive. */
+  get hasSamples(): boolean {
+    return this.series !== undefined
+  }
+
+  write(samples: PlotterSamples): void {
+    if (this.failed || !samples.x.length) {
+      return
+    }
+    if (!this.stream || !this.hasSeries(samples.series)) {
+      if (this.stream) {
+        const previous = this.stream
+        this.rotated = this.rotated.then(() => endStream(previous))
+        do {
+          this.fileIndex += 1
+        } while (fs.existsSync(this.currentFilePath))
+      }
+      this.open(samples.series)
+    }
+    const timestamp = new Date(samples.timestamp).toISOString()
+    const series = this.series ?? []
+    let rows = ''
+    samples.x.forEach((x, index) => {
+      rows += csvRow([
+        timestamp,
+        x,
+        ...series.map((label) => {
+          const s = samples.series.indexOf(label)
+          return s < 0 ? undefined : samples.ys[s]?.[index]
+        }),
+      ])
+    })
+    this.stream?.write(rows)
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream
+    this.stream = undefined
+    if (stream) {
+      await endStream(stream)
+    }
+    await this.rotated
+  }
+
+  private hasSeries(series: readonly string[]): boolean {
+    return series.every((label) => this.series?.includes(label))
+  }
+
+  private open(series: readonly string[]): void {
+    // The user picked the first file; the next ones must not overwrite a file
+    const stream = fs.createWriteStream(this.currentFilePath, {
+      flags: this.fileIndex ? 'wx' : 'w',
+    })
+    stream.on('error', (error) => {
+      if (!this.failed) {
+        this.failed = true
+        this.onDidFail(error)
+      }
+    })
+    stream.write(csvRow(['timestamp', 'x', ...series]))
+    this.stream = stream
+    this.series = series
+  }
+}
+
+function endStream(stream: fs.WriteStream): Promise<void> {
+  if (stream.destroyed) {
+    return Promise.resolve()
+  }
+  return new Promise((resolve) => stream.end(() => resolve()))
+}
+
+export interface PlotterRecordingTarget<TDocument> {
+  readonly onDidReceiveSamples: vscode.Event<{
+    document: TDocument
+    samples: PlotterSamples
+  }>
+  readonly onDidCloseDocument: vscode.Event<TDocument>
+  setRecording(document: TDocument, recording: boolean): void
+}
+
+/**
+ * Records the samples parsed by the plotter editors to CSV files. The
+ * recordings are keyed by the plotter document and stop when its editors are
+ * closed.
+ */
+export class PlotterRecorder<
+  TDocument extends { readonly port: PortIdentifier },
+> implements vscode.Disposable
+{
+  private readonly recordings = new Map<TDocument, PlotterRecording>()
+  private readonly statusBarItem: vscode.StatusBarItem
+  private readonly disposables: vscode.Disposable[]
+
+  constructor(private readonly target: PlotterRecordingTarget<TDocument>) {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      'boardlab.plotterRecording',
+      vscode.StatusBarAlignment.Left,
+      100.3
+    )
+    this.statusBarItem.command = 'boardlab.plotter.stopRecording'
+    this.disposables = [
+      this.statusBarItem,
+      target.onDidReceiveSamples(({ document, samples }) =>
+        this.recordings.get(document)?.write(samples)
+      ),
+      target.onDidCloseDocument((document) => this.stop(document)),
+    ]
+  }
+
+  isRecording(document: TDocument): boolean {
+    return this.recordings.has(document)
+  }
+
+  get activeRecordings(): readonly PlotterRecording[] {
+    return Array.from(this.recordings.values())
+  }
+
+  get activeDocuments(): readonly TDocument[] {
+    return Array.from(this.recordings.keys())
+  }
+
+  /**
+   * Starts recording the plotter document. A running recording of the document
+   * is stopped.
+   */
+  async start(
+    document: TDocument,
+    filePath: string
+  ): Promise<PlotterRecording> {
+    await this.stop(document)
+    const recording = new PlotterRecording(document.port, filePath, (error) => {
+      if (this.recordings.get(document) !== recording) {
+        return
+      }
+      this.stop(document)
+      const message = error instanceof Error ? error.message : String(error)
+      vscode.window.showErrorMessage(
+        `Stopped recording the plotter of ${document.port.address}: ${message}`
+      )
+    })
+    this.recordings.set(document, recording)
+    this.target.setRecording(document, true)
+    await this.refresh()
+    return recording
+  }
+
+  /** Resolves to the stopped recording, if any. */
+  async stop(document: TDocument): Promise<PlotterRecording | undefined> {
+    const recording = this.recordings.get(document)
+    if (!recording) {
+      return undefined
+    }
+    this.recordings.delete(document)
+    this.target.setRecording(document, false)
+    await recording.close()
+    await this.refresh()
+    return recording
+  }
+
+  dispose(): void {
+    for (const recording of this.recordings.values()) {
+      recording.close().catch((error) => {
+        console.error('Failed to close plotter recording', error)
+      })
+    }
+    this.recordings.clear()
+    vscode.Disposable.from(...this.disposables).dispose()
+  }
+
+  private async refresh(): Promise<void> {
+    const recordings = this.activeRecordings
+    await vscode.commands.executeCommand(
+      'setContext',
+      'boardlab.plotter.recording',
+      recordings.length > 0
+    )
+    if (!recordings.length) {
+      this.statusBarItem.hide()
+      return
+    }
+    this.statusBarItem.text =
+      recordings.length === 1
+        ? `$(record) Recording ${recordings[0].port.address} (Plotter)`
+        : `$(record) Recording ${recordings.length} plotters`
+    this.statusBarItem.tooltip = [
+      ...recordings.map(
+        ({ port, filePath }) => `${port.address} → ${filePath}`
+      ),
+      'Click to stop recording.',
+    ].join('\n')
+    this.statusBarItem.show()
+  }
+}
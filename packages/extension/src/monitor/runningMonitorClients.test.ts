@@ -0,0 +1,63 @@
+import * as vscode from 'vscode'
+import { describe, expect, it, vi } from 'vitest'
+
+import { RunningMonitorClients } from './runningMonitorClients'
+
+const PORT = { protocol: 'serial', address: '/dev/mock0' }
+
+function createProvider() {
+  const onDidChangeRunningMonitors = new vscode.EventEmitter<
+    ReadonlyArray<{ port: typeof PORT; baudrate?: string }>
+  >()
+  const clients: {
+    onDidReceiveData: vscode.EventEmitter<Uint8Array>
+    dispose: ReturnType<typeof vi.fn>
+  }[] = []
+  const provider = {
+    monitorManager: {
+      getRunningMonitors: () => [],
+      onDidChangeRunningMonitors: onDidChangeRunningMonitors.event,
+    },
+    createMonitorClient: vi.fn(async (port: typeof PORT) => {
+      const client = {
+        onDidReceiveData: new vscode.EventEmitter<Uint8Array>(),
+        dispose: vi.fn(),
+      }
+      clients.push(client)
+      return {
+        port,
+        onDidReceiveData: client.onDidReceiveData.event,
+        dispose: client.dispose,
+      } as any
+    }),
+  }
+  return { provider, clients, onDidChangeRunningMonitors }
+}
+
+describe('RunningMonitorClients', () => {
+  it('attaches one client to the monitor opened by an editor', async () => {
+    const { provider, clients, onDidChangeRunningMonitors } = createProvider()
+    const runningMonitorClients = new RunningMonitorClients(provider)
+    const received: string[] = []
+    runningMonitorClients.onDidReceiveData(({ port, data }) =>
+      received.push(`${port.address}: ${new TextDecoder().decode(data)}`)
+    )
+
+    // No external client is registered: only the editor runs the monitor
+    onDidChangeRunningMonitors.fire([{ port: PORT, baudrate: '115200' }])
+    onDidChangeRunningMonitors.fire([{ port: PORT, baudrate: '115200' }])
+    await vi.waitFor(() => expect(clients).toHaveLength(1))
+    clients[0].onDidReceiveData.fire(new TextEncoder().encode('boot'))
+
+    expect(provider.createMonitorClient).toHaveBeenCalledOnce()
+    expect(provider.createMonitorClient).toHaveBeenCalledWith(PORT, {
+      autoStart: false,
+      baudrate: '115200',
+    })
+    expect(received).toEqual(['/dev/mock0: boot'])
+
+    onDidChangeRunningMonitors.fire([])
+    await vi.waitFor(() => expect(clients[0].dispose).toHaveBeenCalled())
+    runningMonitorClients.dispose()
+  })
+})
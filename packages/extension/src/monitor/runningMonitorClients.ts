@@ -0,0 +1,91 @@
+import { createPortKey, type PortIdentifier } from 'boards-list'
+import * as vscode from 'vscode'
+
+import type { MonitorClient } from '../boardlabContext'
+import type { MonitorManager } from './monitorManager'
+
+export interface MonitorClientProvider {
+  readonly monitorManager: Pick<
+    MonitorManager,
+    'getRunningMonitors' | 'onDidChangeRunningMonitors'
+  >
+  createMonitorClient(
+    port: PortIdentifier,
+    options?: { autoStart?: boolean; baudrate?: string }
+  ): Promise<MonitorClient>
+}
+
+export interface MonitorDataEvent {
+  readonly port: PortIdentifier
+  readonly data: Uint8Array
+}
+
+/**
+ * Attaches a client to each running monitor, whether it runs for an editor or
+ * for an external client. The clients do not start the monitors or keep them
+ * running, and each reads its own stream, so the data of a port arrives once.
+ */
+export class RunningMonitorClients implements vscode.Disposable {
+  private readonly clients = new Map<
+    string,
+    Promise<MonitorClient | undefined>
+  >()
+
+  private readonly onDidReceiveDataEmitter =
+    new vscode.EventEmitter<MonitorDataEvent>()
+
+  private readonly toDispose: vscode.Disposable[]
+
+  readonly onDidReceiveData = this.onDidReceiveDataEmitter.event
+
+  constructor(private readonly provider: MonitorClientProvider) {
+    const { monitorManager } = provider
+    this.toDispose = [
+      this.onDidReceiveDataEmitter,
+      monitorManager.onDidChangeRunningMonitors((monitors) =>
+        this.update(monitors)
+      ),
+    ]
+    this.update(monitorManager.getRunningMonitors())
+  }
+
+  dispose(): void {
+    for (const client of this.clients.values()) {
+      client.then((resolved) => resolved?.dispose())
+    }
+    this.clients.clear()
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  private update(
+    monitors: ReadonlyArray<{ port: PortIdentifier; baudrate?: string }>
+  ): void {
+    const running = new Map(
+      monitors.map((monitor) => [createPortKey(monitor.port), monitor])
+    )
+    for (const [portKey, client] of this.clients) {
+      if (!running.has(portKey)) {
+        this.clients.delete(portKey)
+        client.then((resolved) => resolved?.dispose())
+      }
+    }
+    for (const [portKey, { port, baudrate }] of running) {
+      if (this.clients.has(portKey)) {
+        continue
+      }
+      const client = this.provider
+        .createMonitorClient(port, { autoStart: false, baudrate })
+        .then((resolved) => {
+          resolved.onDidReceiveData((data) =>
+            this.onDidReceiveDataEmitter.fire({ port, data })
+          )
+          return resolved
+        })
+        .catch((error) => {
+          console.error('Failed to attach to the running monitor', error)
+          return undefined
+        })
+      this.clients.set(portKey, client)
+    }
+  }
+}
@@ -0,0 +1,348 @@
+import { createHash } from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  createMirrorSnapshot,
+  matchesHost,
+  mergeLibraryIndex,
+  MIRROR_PACKAGE_INDEX,
+  PackageMirrorServer,
+  resolveMirrorUrls,
+  restoreLibraryIndex,
+  stageMirrorArchives,
+  type IndexLibraryRelease,
+  type PackageIndex,
+} from './packageMirror'
+
+const archive = (url: string) => ({
+  url,
+  archiveFileName: url.split('/').pop() ?? url,
+  checksum: 'SHA-256:00',
+  size: '1',
+})
+
+const packageIndex: PackageIndex = {
+  packages: [
+    {
+      name: 'arduino',
+      maintainer: 'Arduino',
+      platforms: ['1.8.5', '1.8.6'].map((version) => ({
+        ...archive(`https://downloads.arduino.cc/avr-${version}.tar.bz2`),
+        name: 'Arduino AVR Boards',
+        architecture: 'avr',
+        version,
+        toolsDependencies: [
+          { packager: 'arduino', name: 'avr-gcc', version: '7.3.0' },
+        ],
+        discoveryDependencies: [
+          { packager: 'builtin', name: 'serial-discovery' },
+        ],
+      })),
+      tools: [
+        {
+          name: 'avr-gcc',
+          version: '7.3.0',
+          systems: [
+            {
+              ...archive('https://downloads.arduino.cc/avr-gcc-linux.tar.bz2'),
+              host: 'x86_64-linux-gnu',
+            },
+            {
+              ...archive('https://downloads.arduino.cc/avr-gcc-win.zip'),
+              host: 'i686-mingw32',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'builtin',
+      platforms: [],
+      tools: ['1.4.0', '1.4.1'].map((version) => ({
+        name: 'serial-discovery',
+        version,
+        systems: [
+          {
+            ...archive(
+              `https://downloads.arduino.cc/serial-discovery-${version}.tar.gz`
+            ),
+            host: 'x86_64-linux-gnu',
+          },
+        ],
+      })),
+    },
+  ],
+}
+
+const release = (
+  name: string,
+  version: string,
+  dependencies?: IndexLibraryRelease['dependencies']
+): IndexLibraryRelease => ({
+  ...archive(`https://downloads.arduino.cc/libraries/${name}-${version}.zip`),
+  name,
+  version,
+  dependencies,
+})
+
+describe('packageMirror', () => {
+  describe('createMirrorSnapshot', () => {
+    it('selects the platforms with their tools for the hosts', () => {
+      const snapshot = createMirrorSnapshot([packageIndex], undefined, {
+        platforms: [
+          { id: 'arduino:avr', version: '1.8.5' },
+          { id: 'esp32:esp32' },
+        ],
+        libraries: [],
+        hosts: ['x86_64-linux-gnu'],
+      })
+
+      expect(snapshot.downloads.map(({ path }) => path)).toEqual([
+        'packages/avr-1.8.5.tar.bz2',
+        'packages/avr-gcc-linux.tar.bz2',
+        'packages/serial-discovery-1.4.1.tar.gz',
+      ])
+      expect(snapshot.missing).toEqual(['esp32:esp32'])
+      const [arduino, builtin] = snapshot.packageIndex.packages
+      expect(arduino.maintainer).toBe('Arduino')
+      expect(
+        arduino.platforms.map(({ version, url }) => [version, url])
+      ).toEqual([['1.8.5', 'packages/avr-1.8.5.tar.bz2']])
+      expect(arduino.tools[0].systems.map(({ host }) => host)).toEqual([
+        'x86_64-linux-gnu',
+      ])
+      expect(builtin.tools.map(({ version }) => version)).toEqual(['1.4.1'])
+    })
+
+    it('selects the libraries with their dependencies', () => {
+      const snapshot = createMirrorSnapshot(
+        [],
+        {
+          libraries: [
+            release('Adafruit BME280 Library', '2.2.4', [
+              { name: 'Adafruit Unified Sensor' },
+              { name: 'Adafruit BusIO', version: '1.16.0' },
+            ]),
+            release('Adafruit Unified Sensor', '1.1.13'),
+            release('Adafruit Unified Sensor', '1.1.14'),
+            release('Adafruit BusIO', '1.16.0'),
+            release('Adafruit BusIO', '1.16.1'),
+          ],
+        },
+        { platforms: [], libraries: [{ name: 'Adafruit BME280 Library' }] }
+      )
+
+      expect(
+        snapshot.libraryIndex.libraries.map(({ name, version, url }) => [
+          name,
+          version,
+          url,
+        ])
+      ).toEqual([
+        [
+          'Adafruit BME280 Library',
+          '2.2.4',
+          'libraries/Adafruit BME280 Library-2.2.4.zip',
+        ],
+        [
+          'Adafruit Unified Sensor',
+          '1.1.14',
+          'libraries/Adafruit Unified Sensor-1.1.14.zip',
+        ],
+        ['Adafruit BusIO', '1.16.0', 'libraries/Adafruit BusIO-1.16.0.zip'],
+      ])
+    })
+  })
+
+  it('resolves the archive URLs against the base URL', () => {
+    const { libraryIndex } = createMirrorSnapshot(
+      [],
+      { libraries: [release('Servo', '1.2.2')] },
+      { platforms: [], libraries: [{ name: 'Servo' }] }
+    )
+
+    expect(
+      resolveMirrorUrls(libraryIndex, 'file:///media/mirror/').libraries[0].url
+    ).toBe('file:///media/mirror/libraries/Servo-1.2.2.zip')
+    expect(
+      resolveMirrorUrls(libraryIndex, 'http://127.0.0.1:8080/').libraries[0].url
+    ).toBe('http://127.0.0.1:8080/libraries/Servo-1.2.2.zip')
+  })
+
+  it('merges the mirrored releases into the library index', () => {
+    const merged = mergeLibraryIndex(
+      { libraries: [release('Servo', '1.2.1'), release('Servo', '1.2.2')] },
+      {
+        libraries: [
+          { ...release('Servo', '1.2.2'), url: 'http://127.0.0.1/servo.zip' },
+          release('Stepper', '1.1.3'),
+        ],
+      }
+    )
+
+    expect(
+      merged.libraries.map(({ name, version, url }) => [name, version, url])
+    ).toEqual([
+      ['Servo', '1.2.1', release('Servo', '1.2.1').url],
+      ['Servo', '1.2.2', 'http://127.0.0.1/servo.zip'],
+      ['Stepper', '1.1.3', release('Stepper', '1.1.3').url],
+    ])
+  })
+
+  it('restores the releases the mirror replaced in the library index', () => {
+    const original = {
+      libraries: [release('Servo', '1.2.1'), release('Servo', '1.2.2')],
+    }
+    const merged = mergeLibraryIndex(
+      original,
+      resolveMirrorUrls(
+        {
+          libraries: [
+            { ...release('Servo', '1.2.2'), url: 'libraries/Servo-1.2.2.zip' },
+            { ...release('Stepper', '1.1.3'), url: 'libraries/Stepper.zip' },
+          ],
+        },
+        'http://127.0.0.1:8080/'
+      )
+    )
+
+    expect(
+      restoreLibraryIndex(merged, 'http://127.0.0.1:8080/', original)
+    ).toEqual(original)
+    // The index the CLI downloaded while the mirror was in use stays
+    const updated = { libraries: [release('Servo', '1.2.3')] }
+    expect(
+      restoreLibraryIndex(updated, 'http://127.0.0.1:8080/', original)
+    ).toEqual(updated)
+  })
+
+  it('matches the tool hosts of this machine', () => {
+    expect(matchesHost('x86_64-linux-gnu', 'linux', 'x64')).toBe(true)
+    expect(matchesHost('aarch64-linux-gnu', 'linux', 'x64')).toBe(false)
+    expect(matchesHost('i686-mingw32', 'win32', 'x64')).toBe(true)
+    expect(matchesHost('x86_64-apple-darwin', 'darwin', 'arm64')).toBe(true)
+    expect(matchesHost('arm-linux-gnueabihf', 'linux', 'arm64')).toBe(false)
+  })
+
+  describe('mirror folder', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'package-mirror-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('serves the archives and the index with the server URLs', async () => {
+      const content = Buffer.from('archive')
+      const { packageIndex: mirrored } = createMirrorSnapshot(
+        [packageIndex],
+        undefined,
+        {
+          platforms: [{ id: 'arduino:avr', version: '1.8.6' }],
+          libraries: [],
+          hosts: [],
+        }
+      )
+      await fs.mkdir(path.join(tempDir, 'packages'))
+      await fs.writeFile(
+        path.join(tempDir, 'packages', 'avr-1.8.6.tar.bz2'),
+        content
+      )
+      await fs.writeFile(
+        path.join(tempDir, MIRROR_PACKAGE_INDEX),
+        JSON.stringify(mirrored)
+      )
+      const server = new PackageMirrorServer(tempDir)
+      try {
+        const port = await server.listen()
+        const baseUrl = `http://127.0.0.1:${port}/`
+
+        const response = await fetch(`${baseUrl}${MIRROR_PACKAGE_INDEX}`)
+        const index = (await response.json()) as PackageIndex
+        const [{ url }] = index.packages[0].platforms
+        expect(url).toBe(`${baseUrl}packages/avr-1.8.6.tar.bz2`)
+        const download = await fetch(url)
+        expect(Buffer.from(await download.arrayBuffer())).toEqual(content)
+        expect((await fetch(`${baseUrl}..%2F..%2Fetc%2Fpasswd`)).status).toBe(
+          403
+        )
+      } finally {
+        server.dispose()
+      }
+    })
+
+    it('stages the archives in the downloads directory of the CLI', async () => {
+      const mirrorFolder = path.join(tempDir, 'mirror')
+      const downloadsDir = path.join(tempDir, 'staging')
+      await fs.mkdir(path.join(mirrorFolder, 'libraries'), { recursive: true })
+      await fs.writeFile(
+        path.join(mirrorFolder, 'libraries', 'Servo-1.2.2.zip'),
+        'zip'
+      )
+      const { libraryIndex } = createMirrorSnapshot(
+        [],
+        { libraries: [release('Servo', '1.2.2')] },
+        { platforms: [], libraries: [{ name: 'Servo' }] }
+      )
+
+      await stageMirrorArchives(mirrorFolder, downloadsDir, {
+        packageIndex: undefined,
+        libraryIndex,
+      })
+
+      const staged = await fs.readFile(
+        path.join(downloadsDir, 'libraries', 'Servo-1.2.2.zip')
+      )
+      expect(createHash('sha256').update(staged).digest('hex')).toBe(
+        createHash('sha256').update('zip').digest('hex')
+      )
+    })
+
+    it('reports the archives missing from a partial mirror', async () => {
+      const mirrorFolder = path.join(tempDir, 'mirror')
+      const downloadsDir = path.join(tempDir, 'staging')
+      await fs.mkdir(path.join(mirrorFolder, 'packages'), { recursive: true })
+      await fs.writeFile(
+        path.join(mirrorFolder, 'packages', 'avr-1.8.6.tar.bz2'),
+        'tar'
+      )
+      const { packageIndex: mirrored } = createMirrorSnapshot(
+        [packageIndex],
+        undefined,
+        {
+          platforms: [{ id: 'arduino:avr', version: '1.8.6' }],
+          libraries: [],
+        }
+      )
+
+      const missing = await stageMirrorArchives(mirrorFolder, downloadsDir, {
+        packageIndex: mirrored,
+        libraryIndex: undefined,
+      })
+
+      expect(missing).toEqual([
+        {
+          entry: 'arduino:avr-gcc@7.3.0',
+          archives: ['avr-gcc-linux.tar.bz2', 'avr-gcc-win.zip'],
+        },
+        {
+          entry: 'builtin:serial-discovery@1.4.1',
+          archives: ['serial-discovery-1.4.1.tar.gz'],
+        },
+      ])
+      await expect(
+        fs.readFile(
+          path.join(downloadsDir, 'packages', 'avr-1.8.6.tar.bz2'),
+          'utf8'
+        )
+      ).resolves.toBe('tar')
+    })
+  })
+})
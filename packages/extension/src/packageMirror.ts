@@ -0,0 +1,1150 @@
+import { createHash } from 'node:crypto'
+import { createReadStream, createWriteStream, promises as fs } from 'node:fs'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { pathToFileURL } from 'node:url'
+
+import { isAbortError } from 'abort-controller-x'
+import { compareLoose } from 'semver'
+import * as vscode from 'vscode'
+
+import type { BoardLabContext } from './boardlabContext'
+import { readProfilePins } from './updateAll'
+import { mementoKey } from './utils'
+
+/** The platform package index of the mirror, also the name of its URL. */
+export const MIRROR_PACKAGE_INDEX = 'package_boardlab_mirror_index.json'
+export const MIRROR_LIBRARY_INDEX = 'library_index.json'
+
+const MIRROR_STATE_KEY = mementoKey('packageMirror')
+
+/**
+ * - `http`: a local HTTP server serves the mirror folder.
+ * - `file`: the platform index is read from a `file://` URL and the archives are
+ *   copied to the downloads directory of the CLI. The CLI downloads the
+ *   archives over HTTP only, but it does not download an archive when its
+ *   staged copy passes the checksum.
+ */
+export type PackageMirrorMode = 'http' | 'file'
+
+/** A downloadable archive of a platform, tool, or library release. */
+export interface IndexArchive {
+  url: string
+  archiveFileName: string
+  checksum: string
+  size: number | string
+}
+
+export interface IndexToolDependency {
+  packager: string
+  name: string
+  version: string
+}
+
+/** The discovery and monitor dependencies use the latest tool version. */
+export type IndexLatestToolDependency = Omit<IndexToolDependency, 'version'>
+
+export interface IndexPlatform extends IndexArchive {
+  name: string
+  architecture: string
+  version: string
+  toolsDependencies?: IndexToolDependency[]
+  discoveryDependencies?: IndexLatestToolDependency[]
+  monitorDependencies?: IndexLatestToolDependency[]
+  [key: string]: unknown
+}
+
+export interface IndexToolSystem extends IndexArchive {
+  host: string
+}
+
+export interface IndexTool {
+  name: string
+  version: string
+  systems: IndexToolSystem[]
+}
+
+export interface IndexPackage {
+  name: string
+  platforms: IndexPlatform[]
+  tools: IndexTool[]
+  [key: string]: unknown
+}
+
+export interface PackageIndex {
+  packages: IndexPackage[]
+}
+
+export interface IndexLibraryRelease extends IndexArchive {
+  name: string
+  version: string
+  dependencies?: { name: string; version?: string }[]
+  [key: string]: unknown
+}
+
+export interface LibraryIndex {
+  libraries: IndexLibraryRelease[]
+}
+
+/** The platforms and libraries to mirror. The latest release when no version. */
+export interface MirrorSelection {
+  readonly platforms: readonly { id: string; version?: string }[]
+  readonly libraries: readonly { name: string; version?: string }[]
+  /**
+   * The hosts of the tools to mirror, such as `x86_64-linux-gnu`. All hosts
+   * when `undefined`.
+   */
+  readonly hosts?: readonly string[]
+}
+
+export interface MirrorDownload {
+  readonly url: string
+  /** Relative to the mirror folder. */
+  readonly path: string
+  readonly checksum: string
+  readonly size: number
+}
+
+export interface MirrorSnapshot {
+  /** The archive URLs are relative to the mirror folder. */
+  readonly packageIndex: PackageIndex
+  /** The archive URLs are relative to the mirror folder. */
+  readonly libraryIndex: LibraryIndex
+  readonly downloads: readonly MirrorDownload[]
+  /** The selected platforms, tools, and libraries not found in the indexes. */
+  readonly missing: readonly string[]
+}
+
+interface MirrorState {
+  readonly folder: string
+  readonly mode: PackageMirrorMode
+  /** The platform index URL added to the CLI configuration. */
+  readonly url: string
+  readonly port?: number
+  /** The base of the archive URLs merged into the library index of the CLI. */
+  readonly baseUrl?: string
+}
+
+/**
+ * The archives are under `packages/` and `libraries/`, the same layout as the
+ * downloads directory of the CLI.
+ */
+function mirrorPath(kind: 'packages' | 'libraries', archive: IndexArchive) {
+  return `${kind}/${archive.archiveFileName}`
+}
+
+function latest<T extends { version: string }>(
+  candidates: readonly T[]
+): T | undefined {
+  return candidates
+    .slice()
+    .sort((left, right) => compareLoose(right.version, left.version))[0]
+}
+
+/**
+ * Selects the platforms with their tools and the libraries with their
+ * dependencies from the indexes of the CLI. The archive URLs of the result are
+ * relative to the mirror folder.
+ */
+export function createMirrorSnapshot(
+  packageIndexes: readonly PackageIndex[],
+  libraryIndex: LibraryIndex | undefined,
+  selection: MirrorSelection
+): MirrorSnapshot {
+  const downloads = new Map<string, MirrorDownload>()
+  const missing: string[] = []
+  const packages = new Map<string, IndexPackage>()
+  const allPackages = packageIndexes.flatMap((index) => index.packages ?? [])
+
+  const relocate = <T extends IndexArchive>(
+    kind: 'packages' | 'libraries',
+    archive: T
+  ): T => {
+    const relativePath = mirrorPath(kind, archive)
+    downloads.set(relativePath, {
+      url: archive.url,
+      path: relativePath,
+      checksum: archive.checksum,
+      size: Number(archive.size),
+    })
+    return { ...archive, url: relativePath }
+  }
+  const packageOf = (name: string) => {
+    let mirrored = packages.get(name)
+    if (!mirrored) {
+      const { platforms, tools, ...metadata } =
+        allPackages.find((candidate) => candidate.name === name) ??
+        ({ name } as IndexPackage)
+      mirrored = { ...metadata, name, platforms: [], tools: [] }
+      packages.set(name, mirrored)
+    }
+    return mirrored
+  }
+  const addTool = ({ packager, name, version }: IndexToolDependency) => {
+    const tools = allPackages
+      .filter((candidate) => candidate.name === packager)
+      .flatMap((candidate) => candidate.tools ?? [])
+      .filter((tool) => tool.name === name)
+    const tool = version
+      ? tools.find((candidate) => candidate.version === version)
+      : latest(tools)
+    if (!tool) {
+      missing.push(`${packager}:${name}${version ? `@${version}` : ''}`)
+      return
+    }
+    const mirrored = packageOf(packager)
+    if (
+      mirrored.tools.some(
+        (candidate) =>
+          candidate.name === tool.name && candidate.version === tool.version
+      )
+    ) {
+      return
+    }
+    mirrored.tools.push({
+      ...tool,
+      systems: tool.systems
+        .filter(
+          ({ host }) => !selection.hosts || selection.hosts.includes(host)
+        )
+        .map((system) => relocate('packages', system)),
+    })
+  }
+
+  for (const { id, version } of selection.platforms) {
+    const [packager, architecture] = id.split(':')
+    const platforms = allPackages
+      .filter((candidate) => candidate.name === packager)
+      .flatMap((candidate) => candidate.platforms ?? [])
+      .filter((platform) => platform.architecture === architecture)
+    const platform = version
+      ? platforms.find((candidate) => candidate.version === version)
+      : latest(platforms)
+    if (!platform) {
+      missing.push(`${id}${version ? `@${version}` : ''}`)
+      continue
+    }
+    const mirrored = packageOf(packager)
+    if (
+      mirrored.platforms.some(
+        (candidate) =>
+          candidate.architecture === architecture &&
+          candidate.version === platform.version
+      )
+    ) {
+      continue
+    }
+    mirrored.platforms.push(relocate('packages', platform))
+    for (const dependency of platform.toolsDependencies ?? []) {
+      addTool(dependency)
+    }
+    for (const dependency of [
+      ...(platform.discoveryDependencies ?? []),
+      ...(platform.monitorDependencies ?? []),
+    ]) {
+      addTool({ ...dependency, version: '' })
+    }
+  }
+
+  const libraries: IndexLibraryRelease[] = []
+  const queue = selection.libraries.slice()
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    const { name, version } = next
+    if (libraries.some((library) => library.name === name)) {
+      continue
+    }
+    const releases = (libraryIndex?.libraries ?? []).filter(
+      (library) => library.name === name
+    )
+    const release = version
+      ? releases.find((candidate) => candidate.version === version)
+      : latest(releases)
+    if (!release) {
+      missing.push(`${name}${version ? `@${version}` : ''}`)
+      continue
+    }
+    libraries.push(relocate('libraries', release))
+    queue.push(...(release.dependencies ?? []))
+  }
+
+  return {
+    packageIndex: { packages: [...packages.values()] },
+    libraryIndex: { libraries },
+    downloads: [...downloads.values()],
+    missing,
+  }
+}
+
+/** The hosts of the tool archives of the index, such as `x86_64-linux-gnu`. */
+export function toolHosts(index: PackageIndex): string[] {
+  const hosts = new Set<string>()
+  for (const { tools } of index.packages) {
+    for (const { systems } of tools) {
+      systems.forEach(({ host }) => hosts.add(host))
+    }
+  }
+  return [...hosts].sort()
+}
+
+/** Whether the tool archives of the `host` run on this machine. */
+export function matchesHost(
+  host: string,
+  platform: NodeJS.Platform = process.platform,
+  arch: string = process.arch
+): boolean {
+  const os: Partial<Record<NodeJS.Platform, RegExp>> = {
+    linux: /linux/,
+    win32: /mingw|windows|cygwin/,
+    darwin: /darwin|apple/,
+  }
+  const cpu: Record<string, RegExp> = {
+    // Windows runs the 32-bit and macOS runs the Intel tools too
+    x64: platform === 'win32' ? /x86_64|amd64|i[3-6]86/ : /x86_64|amd64/,
+    arm64: platform === 'darwin' ? /arm64|aarch64|x86_64/ : /arm64|aarch64/,
+    arm: /arm(?!64)/,
+    ia32: /i[3-6]86/,
+  }
+  return !!os[platform]?.test(host) && !!cpu[arch]?.test(host)
+}
+
+/** Resolves the relative archive URLs of the mirror indexes against `baseUrl`. */
+export function resolveMirrorUrls<T extends PackageIndex | LibraryIndex>(
+  index: T,
+  baseUrl: string
+): T {
+  const resolve = <A extends IndexArchive>(archive: A): A => ({
+    ...archive,
+    url: new URL(archive.url, baseUrl).toString(),
+  })
+  if ('packages' in index) {
+    return {
+      ...index,
+      packages: index.packages.map((pkg) => ({
+        ...pkg,
+        platforms: pkg.platforms.map(resolve),
+        tools: pkg.tools.map((tool) => ({
+          ...tool,
+          systems: tool.systems.map(resolve),
+        })),
+      })),
+    }
+  }
+  return { ...index, libraries: index.libraries.map(resolve) }
+}
+
+/**
+ * Adds the library releases of the mirror to the library index of the CLI. The
+ * CLI has no setting for the library index URL.
+ */
+export function mergeLibraryIndex(
+  target: LibraryIndex | undefined,
+  mirrored: LibraryIndex
+): LibraryIndex {
+  const replacements = new Map(
+    mirrored.libraries.map((library) => [releaseKey(library), library])
+  )
+  const libraries = (target?.libraries ?? []).map((library) => {
+    const replacement = replacements.get(releaseKey(library))
+    replacements.delete(releaseKey(library))
+    return replacement ?? library
+  })
+  return { ...target, libraries: [...libraries, ...replacements.values()] }
+}
+
+/**
+ * Reverts {@link mergeLibraryIndex}: drops the releases served from `baseUrl`
+ * and puts back the releases of the `original` index they replaced. The
+ * releases of an index the CLI downloaded since the merge are kept.
+ */
+export function restoreLibraryIndex(
+  target: LibraryIndex,
+  baseUrl: string,
+  original: LibraryIndex | undefined
+): LibraryIndex {
+  const originals = new Map(
+    (original?.libraries ?? []).map((library) => [releaseKey(library), library])
+  )
+  const libraries = target.libraries.flatMap((library) => {
+    if (!library.url.startsWith(baseUrl)) {
+      return [library]
+    }
+    const replaced = originals.get(releaseKey(library))
+    return replaced ? [replaced] : []
+  })
+  return { ...target, libraries }
+}
+
+function releaseKey({ name, version }: IndexLibraryRelease): string {
+  return `${name}@${version}`
+}
+
+const hashAlgorithms: Record<string, string> = {
+  'SHA-256': 'sha256',
+  'SHA-1': 'sha1',
+  MD5: 'md5',
+}
+
+/** Whether the file matches the `ALGORITHM:hex` checksum of the index. */
+export async function verifyChecksum(
+  filePath: string,
+  checksum: string
+): Promise<boolean> {
+  const [algorithm, expected] = checksum.split(':')
+  const hashAlgorithm = hashAlgorithms[algorithm]
+  if (!hashAlgorithm || !expected) {
+    throw new Error(`Unsupported checksum: ${checksum}`)
+  }
+  const hash = createHash(hashAlgorithm)
+  await pipeline(createReadStream(filePath), hash)
+  return hash.digest('hex') === expected.toLowerCase()
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+    throw err
+  }
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`)
+}
+
+/** The platform and library indexes downloaded by the CLI to its data directory. */
+export async function readCliIndexes(dataDirPath: string): Promise<{
+  packageIndexes: PackageIndex[]
+  libraryIndex: LibraryIndex | undefined
+}> {
+  const packageIndexes: PackageIndex[] = []
+  for (const fileName of (await fs.readdir(dataDirPath)).sort()) {
+    if (/^package_.*index\.json$/.test(fileName)) {
+      const index = await readJson<PackageIndex>(
+        path.join(dataDirPath, fileName)
+      )
+      if (index?.packages) {
+        packageIndexes.push(index)
+      }
+    }
+  }
+  const libraryIndex = await readJson<LibraryIndex>(
+    path.join(dataDirPath, 'library_index.json')
+  )
+  return { packageIndexes, libraryIndex }
+}
+
+/**
+ * Downloads the archives of the snapshot and writes its indexes to the mirror
+ * folder. The archives already in the folder are kept if their checksum
+ * matches, so a mirror can be extended.
+ */
+export async function writeMirrorSnapshot(
+  folder: string,
+  snapshot: MirrorSnapshot,
+  options: {
+    signal?: AbortSignal
+    onWillDownload?: (download: MirrorDownload, index: number) => void
+  } = {}
+): Promise<void> {
+  const { signal, onWillDownload } = options
+  for (const [index, download] of snapshot.downloads.entries()) {
+    signal?.throwIfAborted()
+    onWillDownload?.(download, index)
+    const target = path.join(folder, download.path)
+    if (
+      (await exists(target)) &&
+      (await verifyChecksum(target, download.checksum))
+    ) {
+      continue
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    const response = await fetch(download.url, { signal })
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Failed to download ${download.url}: ${response.status} ${response.statusText}`
+      )
+    }
+    const partial = `${target}.part`
+    await pipeline(
+      Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]),
+      createWriteStream(partial)
+    )
+    if (!(await verifyChecksum(partial, download.checksum))) {
+      await fs.rm(partial, { force: true })
+      throw new Error(`Checksum mismatch for ${download.url}`)
+    }
+    await fs.rename(partial, target)
+  }
+
+  const previous = await readMirrorIndexes(folder)
+  await writeJson(path.join(folder, MIRROR_PACKAGE_INDEX), {
+    packages: mergePackages(
+      previous.packageIndex?.packages ?? [],
+      snapshot.packageIndex.packages
+    ),
+  })
+  await writeJson(
+    path.join(folder, MIRROR_LIBRARY_INDEX),
+    mergeLibraryIndex(previous.libraryIndex, snapshot.libraryIndex)
+  )
+}
+
+function mergePackages(
+  target: readonly IndexPackage[],
+  source: readonly IndexPackage[]
+): IndexPackage[] {
+  const packages = new Map(target.map((pkg) => [pkg.name, { ...pkg }]))
+  for (const pkg of source) {
+    const existing = packages.get(pkg.name)
+    if (!existing) {
+      packages.set(pkg.name, pkg)
+      continue
+    }
+    existing.platforms = [
+      ...existing.platforms.filter(
+        (platform) =>
+          !pkg.platforms.some(
+            (candidate) =>
+              candidate.architecture === platform.architecture &&
+              candidate.version === platform.version
+          )
+      ),
+      ...pkg.platforms,
+    ]
+    existing.tools = [
+      ...existing.tools.filter(
+        (tool) =>
+          !pkg.tools.some(
+            (candidate) =>
+              candidate.name === tool.name && candidate.version === tool.version
+          )
+      ),
+      ...pkg.tools,
+    ]
+  }
+  return [...packages.values()]
+}
+
+async function readMirrorIndexes(folder: string): Promise<{
+  packageIndex: PackageIndex | undefined
+  libraryIndex: LibraryIndex | undefined
+}> {
+  const [packageIndex, libraryIndex] = await Promise.all([
+    readJson<PackageIndex>(path.join(folder, MIRROR_PACKAGE_INDEX)),
+    readJson<LibraryIndex>(path.join(folder, MIRROR_LIBRARY_INDEX)),
+  ])
+  return { packageIndex, libraryIndex }
+}
+
+export interface MirrorMissingArchives {
+  /** The platform, tool, or library, such as `arduino:avr@1.8.6`. */
+  readonly entry: string
+  /** The file names of the archives not found in the mirror folder. */
+  readonly archives: readonly string[]
+}
+
+/**
+ * Copies the archives of the mirror to the downloads directory of the CLI,
+ * where the CLI looks for them before downloading. The archives not in the
+ * mirror folder are skipped and reported per platform, tool, and library.
+ */
+export async function stageMirrorArchives(
+  folder: string,
+  downloadsDirPath: string,
+  indexes: {
+    packageIndex: PackageIndex | undefined
+    libraryIndex: LibraryIndex | undefined
+  }
+): Promise<MirrorMissingArchives[]> {
+  const entries = [
+    ...(indexes.packageIndex?.packages ?? []).flatMap((pkg) => [
+      ...pkg.platforms.map((platform) => ({
+        entry: `${pkg.name}:${platform.architecture}@${platform.version}`,
+        archives: [platform],
+      })),
+      ...pkg.tools.map((tool) => ({
+        entry: `${pkg.name}:${tool.name}@${tool.version}`,
+        archives: tool.systems,
+      })),
+    ]),
+    ...(indexes.libraryIndex?.libraries ?? []).map((library) => ({
+      entry: `${library.name}@${library.version}`,
+      archives: [library],
+    })),
+  ]
+  const missing: MirrorMissingArchives[] = []
+  for (const { entry, archives } of entries) {
+    const missingArchives: string[] = []
+    for (const { url, archiveFileName } of archives) {
+      const target = path.join(downloadsDirPath, url)
+      if (await exists(target)) {
+        continue
+      }
+      const source = path.join(folder, url)
+      if (!(await exists(source))) {
+        missingArchives.push(archiveFileName)
+        continue
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.copyFile(source, target)
+    }
+    if (missingArchives.length) {
+      missing.push({ entry, archives: missingArchives })
+    }
+  }
+  return missing
+}
+
+/**
+ * Serves the mirror folder on the loopback interface. The indexes are served
+ * with their archive URLs resolved against the address of the server.
+ */
+export class PackageMirrorServer implements vscode.Disposable {
+  private readonly server = http.createServer((req, res) =>
+    this.handle(req, res).catch((err) => {
+      console.error('Package mirror request failed', req.url, err)
+      if (!res.headersSent) {
+        res.writeHead(500)
+      }
+      res.end()
+    })
+  )
+
+  constructor(private readonly folder: string) {}
+
+  /** Listens on the `port`, or any free port if `0` or in use. */
+  async listen(port = 0): Promise<number> {
+    const listen = (candidate: number) =>
+      new Promise<number>((resolve, reject) => {
+        this.server.once('error', reject)
+        this.server.listen(candidate, '127.0.0.1', () => {
+          this.server.off('error', reject)
+          resolve((this.server.address() as AddressInfo).port)
+        })
+      })
+    try {
+      return await listen(port)
+    } catch (err) {
+      if (!port || (err as NodeJS.ErrnoException).code !== 'EADDRINUSE') {
+        throw err
+      }
+      return listen(0)
+    }
+  }
+
+  get baseUrl(): string {
+    const { port } = this.server.address() as AddressInfo
+    return `http://127.0.0.1:${port}/`
+  }
+
+  dispose(): void {
+    this.server.close()
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405).end()
+      return
+    }
+    const { pathname } = new URL(req.url ?? '/', this.baseUrl)
+    const relativePath = path.normalize(decodeURIComponent(pathname).slice(1))
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      res.writeHead(403).end()
+      return
+    }
+    const filePath = path.join(this.folder, relativePath)
+    if (
+      relativePath === MIRROR_PACKAGE_INDEX ||
+      relativePath === MIRROR_LIBRARY_INDEX
+    ) {
+      const index = await readJson<PackageIndex | LibraryIndex>(filePath)
+      if (!index) {
+        res.writeHead(404).end()
+        return
+      }
+      const body = JSON.stringify(resolveMirrorUrls(index, this.baseUrl))
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+      })
+      res.end(req.method === 'HEAD' ? undefined : body)
+      return
+    }
+    let stat
+    try {
+      stat = await fs.stat(filePath)
+    } catch {
+      stat = undefined
+    }
+    if (!stat?.isFile()) {
+      res.writeHead(404).end()
+      return
+    }
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': stat.size,
+    })
+    if (req.method === 'HEAD') {
+      res.end()
+      return
+    }
+    await pipeline(createReadStream(filePath), res)
+  }
+}
+
+/**
+ * Snapshots the platforms and libraries into a mirror folder, and points the
+ * CLI at a mirror folder on the machines without internet access.
+ */
+export class PackageMirror implements vscode.Disposable {
+  private server: PackageMirrorServer | undefined
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly boardlabContext: Pick<
+      BoardLabContext,
+      | 'cliContext'
+      | 'client'
+      | 'platformsManager'
+      | 'librariesManager'
+      | 'openedSketches'
+    >
+  ) {
+    const state = this.state
+    if (state?.mode === 'http') {
+      // The local server must run for the CLI to install from the mirror
+      this.use(state.folder, state.mode).catch((err) =>
+        console.error('Failed to restore the package mirror', err)
+      )
+    }
+  }
+
+  dispose(): void {
+    this.server?.dispose()
+    this.server = undefined
+  }
+
+  get state(): MirrorState | undefined {
+    return this.context.globalState.get<MirrorState>(MIRROR_STATE_KEY)
+  }
+
+  /**
+   * Lets the user select the platforms and libraries, the tool hosts, and the
+   * mirror folder, then downloads them to the folder.
+   */
+  async create(): Promise<void> {
+    const { cliConfig } = this.boardlabContext.cliContext
+    await cliConfig.ready()
+    const dataDirPath = cliConfig.data?.dataDirPath
+    if (!dataDirPath) {
+      vscode.window.showErrorMessage(
+        'The Arduino CLI data directory is not available.'
+      )
+      return
+    }
+    const candidates = await this.pickCandidates()
+    if (!candidates?.length) {
+      return
+    }
+    const selection: MirrorSelection = {
+      platforms: candidates.flatMap(({ kind, id, version }) =>
+        kind === 'platform' ? [{ id, version }] : []
+      ),
+      libraries: candidates.flatMap(({ kind, id, version }) =>
+        kind === 'library' ? [{ name: id, version }] : []
+      ),
+    }
+    const { packageIndexes, libraryIndex } = await readCliIndexes(dataDirPath)
+    const hosts = await this.pickHosts(
+      toolHosts(
+        createMirrorSnapshot(packageIndexes, libraryIndex, selection)
+          .packageIndex
+      )
+    )
+    if (!hosts) {
+      return
+    }
+    const snapshot = createMirrorSnapshot(packageIndexes, libraryIndex, {
+      ...selection,
+      hosts,
+    })
+    const [folderUri] =
+      (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        title: 'Select the package mirror folder',
+        openLabel: 'Create Mirror',
+        defaultUri: this.state ? vscode.Uri.file(this.state.folder) : undefined,
+      })) ?? []
+    if (!folderUri) {
+      return
+    }
+    const folder = folderUri.fsPath
+
+    const created = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Creating package mirror',
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const controller = new AbortController()
+        const toDispose = token.onCancellationRequested(() =>
+          controller.abort()
+        )
+        const { downloads } = snapshot
+        try {
+          await writeMirrorSnapshot(folder, snapshot, {
+            signal: controller.signal,
+            onWillDownload: (download, index) =>
+              progress.report({
+                increment: index ? 100 / downloads.length : 0,
+                message: `${path.basename(download.path)} (${index + 1}/${downloads.length})`,
+              }),
+          })
+          return true
+        } catch (err) {
+          if (isAbortError(err)) {
+            return false
+          }
+          throw err
+        } finally {
+          toDispose.dispose()
+        }
+      }
+    )
+    if (!created) {
+      return
+    }
+    const platformCount = snapshot.packageIndex.packages.reduce(
+      (count, { platforms }) => count + platforms.length,
+      0
+    )
+    const summary = `Mirrored ${platformCount} platforms and ${snapshot.libraryIndex.libraries.length} libraries with ${snapshot.downloads.length} archives to ${folder}.`
+    if (snapshot.missing.length) {
+      vscode.window.showWarningMessage(summary, {
+        detail: `Not found in the indexes: ${snapshot.missing.join(', ')}`,
+      })
+    } else {
+      vscode.window.showInformationMessage(summary)
+    }
+  }
+
+  /** Asks for the mirror folder and the mode, then points the CLI at it. */
+  async pickAndUse(): Promise<void> {
+    const [folderUri] =
+      (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        title: 'Select the package mirror folder',
+        openLabel: 'Use Mirror',
+        defaultUri: this.state ? vscode.Uri.file(this.state.folder) : undefined,
+      })) ?? []
+    if (!folderUri) {
+      return
+    }
+    const mode = await vscode.window.showQuickPick(
+      [
+        {
+          label: 'Local HTTP Server',
+          detail:
+            'Serve the mirror folder on 127.0.0.1 while the window is open',
+          mode: 'http' as const,
+        },
+        {
+          label: 'File URLs',
+          detail:
+            'Read the platform index from the folder and copy the archives to the downloads directory of the CLI',
+          mode: 'file' as const,
+        },
+      ],
+      { title: 'Use Package Mirror' }
+    )
+    if (!mode) {
+      return
+    }
+    const missing = await this.use(folderUri.fsPath, mode.mode)
+    const message = `The Arduino CLI installs from the package mirror at ${folderUri.fsPath}.`
+    if (missing.length) {
+      vscode.window.showWarningMessage(message, {
+        detail: `Missing from the mirror folder:\n${missing
+          .map(({ entry, archives }) => `${entry}: ${archives.join(', ')}`)
+          .join('\n')}`,
+      })
+    } else {
+      vscode.window.showInformationMessage(message)
+    }
+  }
+
+  /**
+   * Resolves to the archives missing from the mirror folder when the archives
+   * are staged for the file URLs.
+   */
+  async use(
+    folder: string,
+    mode: PackageMirrorMode
+  ): Promise<MirrorMissingArchives[]> {
+    const { packageIndex, libraryIndex } = await readMirrorIndexes(folder)
+    if (!packageIndex && !libraryIndex) {
+      throw new Error(`No package mirror found in ${folder}`)
+    }
+    const { cliConfig } = this.boardlabContext.cliContext
+    await cliConfig.ready()
+    const dataDirPath = cliConfig.data?.dataDirPath
+    if (!dataDirPath) {
+      throw new Error('The Arduino CLI data directory is not available.')
+    }
+
+    this.server?.dispose()
+    this.server = undefined
+    let baseUrl: string
+    let url: string
+    let port: number | undefined
+    let missing: MirrorMissingArchives[] = []
+    if (mode === 'http') {
+      this.server = new PackageMirrorServer(folder)
+      port = await this.server.listen(this.state?.port)
+      baseUrl = this.server.baseUrl
+      url = new URL(MIRROR_PACKAGE_INDEX, baseUrl).toString()
+    } else {
+      baseUrl = `${pathToFileURL(folder).toString()}/`
+      const downloadsDirPath = await cliConfig.downloadsDirPath()
+      if (!downloadsDirPath) {
+        throw new Error('The Arduino CLI downloads directory is not available.')
+      }
+      missing = await stageMirrorArchives(folder, downloadsDirPath, {
+        packageIndex,
+        libraryIndex,
+      })
+      // The mirror folder can be read-only
+      const indexPath = path.join(
+        this.context.globalStorageUri.fsPath,
+        'package-mirror',
+        MIRROR_PACKAGE_INDEX
+      )
+      await writeJson(
+        indexPath,
+        resolveMirrorUrls(packageIndex ?? { packages: [] }, baseUrl)
+      )
+      url = pathToFileURL(indexPath).toString()
+    }
+
+    const previous = this.state
+    let libraryIndexChanged = false
+    if (previous?.baseUrl && previous.baseUrl !== baseUrl) {
+      libraryIndexChanged = await this.restoreCliLibraryIndex(
+        dataDirPath,
+        previous.baseUrl
+      )
+    }
+    if (libraryIndex?.libraries.length) {
+      const cliLibraryIndexPath = path.join(dataDirPath, 'library_index.json')
+      const cliLibraryIndex = await readJson<LibraryIndex>(cliLibraryIndexPath)
+      // The releases the mirror replaces are put back when it is no longer used
+      if (cliLibraryIndex && !(await exists(this.originalLibraryIndexPath))) {
+        await writeJson(this.originalLibraryIndexPath, cliLibraryIndex)
+      }
+      await writeJson(
+        cliLibraryIndexPath,
+        mergeLibraryIndex(
+          cliLibraryIndex,
+          resolveMirrorUrls(libraryIndex, baseUrl)
+        )
+      )
+      libraryIndexChanged = true
+    }
+    if (libraryIndexChanged) {
+      await this.reloadLibraryIndex()
+    }
+
+    if (previous && previous.url !== url) {
+      await cliConfig.removeAdditionalPackageIndexUrl({ url: previous.url })
+    }
+    await cliConfig.addAdditionalPackageIndexUrl({ url })
+    await this.context.globalState.update(MIRROR_STATE_KEY, {
+      folder,
+      mode,
+      url,
+      port,
+      baseUrl,
+    } satisfies MirrorState)
+    return missing
+  }
+
+  /**
+   * Stops the server and removes the mirror from the CLI configuration and its
+   * releases from the library index of the CLI.
+   */
+  async stopUsing(): Promise<void> {
+    const state = this.state
+    this.server?.dispose()
+    this.server = undefined
+    if (!state) {
+      vscode.window.showInformationMessage('No package mirror is in use.')
+      return
+    }
+    const { cliConfig } = this.boardlabContext.cliContext
+    await cliConfig.removeAdditionalPackageIndexUrl({ url: state.url })
+    if (state.baseUrl) {
+      await cliConfig.ready()
+      const dataDirPath = cliConfig.data?.dataDirPath
+      if (
+        dataDirPath &&
+        (await this.restoreCliLibraryIndex(dataDirPath, state.baseUrl))
+      ) {
+        await this.reloadLibraryIndex()
+      }
+    }
+    await this.context.globalState.update(MIRROR_STATE_KEY, undefined)
+  }
+
+  /** The library index of the CLI before the first mirror was merged into it. */
+  private get originalLibraryIndexPath(): string {
+    return path.join(
+      this.context.globalStorageUri.fsPath,
+      'package-mirror',
+      'library_index.original.json'
+    )
+  }
+
+  /**
+   * Restores the library index of the CLI from the releases of the mirror at
+   * `baseUrl`. Resolves to `false` when the CLI has no library index.
+   */
+  private async restoreCliLibraryIndex(
+    dataDirPath: string,
+    baseUrl: string
+  ): Promise<boolean> {
+    const cliLibraryIndexPath = path.join(dataDirPath, 'library_index.json')
+    const cliLibraryIndex = await readJson<LibraryIndex>(cliLibraryIndexPath)
+    const original = await readJson<LibraryIndex>(this.originalLibraryIndexPath)
+    await fs.rm(this.originalLibraryIndexPath, { force: true })
+    if (!cliLibraryIndex) {
+      return false
+    }
+    await writeJson(
+      cliLibraryIndexPath,
+      restoreLibraryIndex(cliLibraryIndex, baseUrl, original)
+    )
+    return true
+  }
+
+  private async reloadLibraryIndex(): Promise<void> {
+    const { arduino } = await this.boardlabContext.client
+    await arduino.init()
+    this.boardlabContext.librariesManager.notifyIndexUpdated()
+  }
+
+  private async pickCandidates(): Promise<
+    { kind: 'platform' | 'library'; id: string; version: string }[] | undefined
+  > {
+    const { platformsManager, librariesManager, openedSketches } =
+      this.boardlabContext
+    const candidates = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Collecting the platforms and libraries...',
+      },
+      async () => {
+        const [platforms, libraries, pins] = await Promise.all([
+          platformsManager.installed(),
+          librariesManager.installed(),
+          readProfilePins(openedSketches.map(({ sketchPath }) => sketchPath)),
+        ])
+        const items = new Map<
+          string,
+          vscode.QuickPickItem & {
+            candidate: {
+              kind: 'platform' | 'library'
+              id: string
+              version: string
+            }
+          }
+        >()
+        for (const { kind, id, version, sketchPath, profile } of pins) {
+          const key = `${kind}:${id}@${version}`
+          const description = `'${profile}' profile of ${path.basename(sketchPath)}`
+          const item = items.get(key)
+          if (item) {
+            item.description = `${item.description}, ${description}`
+            continue
+          }
+          items.set(key, {
+            label: `${kind === 'platform' ? '$(circuit-board)' : '$(library)'} ${id} ${version}`,
+            description,
+            picked: true,
+            candidate: { kind, id, version },
+          })
+        }
+        for (const [kind, resources] of [
+          ['platform', platforms],
+          ['library', libraries],
+        ] as const) {
+          for (const { id, name, installedVersion } of resources) {
+            const version = installedVersion ?? ''
+            const key = `${kind}:${id}@${version}`
+            if (!items.has(key)) {
+              items.set(key, {
+                label: `${kind === 'platform' ? '$(circuit-board)' : '$(library)'} ${name} ${version}`,
+                description: 'installed',
+                candidate: { kind, id, version },
+              })
+            }
+          }
+        }
+        return [...items.values()]
+      }
+    )
+    if (!candidates.length) {
+      vscode.window.showInformationMessage(
+        'No sketch profiles or installed platforms and libraries to mirror.'
+      )
+      return undefined
+    }
+    const picked = await vscode.window.showQuickPick(candidates, {
+      title: 'Create Package Mirror',
+      placeHolder: 'Select the platforms and libraries to mirror',
+      canPickMany: true,
+      matchOnDescription: true,
+    })
+    return picked?.map(({ candidate }) => candidate)
+  }
+
+  private async pickHosts(
+    hosts: readonly string[]
+  ): Promise<string[] | undefined> {
+    if (!hosts.length) {
+      return []
+    }
+    const picked = await vscode.window.showQuickPick(
+      hosts.map((host) => ({ label: host, picked: matchesHost(host) })),
+      {
+        title: 'Create Package Mirror',
+        placeHolder: 'Select the hosts of the build machines',
+        canPickMany: true,
+      }
+    )
+    return picked?.length ? picked.map(({ label }) => label) : undefined
+  }
+}
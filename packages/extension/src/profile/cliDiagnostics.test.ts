@@ -518,6 +518,7 @@ describe('profile CLI validation rules', () => {
       expect(diagnostics).toHaveLength(1)
       expect(diagnostics[0]?.message).toBe("Library 'MissingLib' not found")
       expect(diagnostics[0]?.severity).toBe(vscode.DiagnosticSeverity.Error)
+      expect(diagnostics[0]?.code).toBe('libraryNotFound')
     })
   })
 
@@ -447,6 +447,8 @@ async function validateProfileLibraries(
               vscode.DiagnosticSeverity.Error
             )
             diag.source = 'boardlab'
+            // Quick fix: use a local library folder
+            diag.code = 'libraryNotFound'
             diags.push(diag)
           } else {
             const versions = match.availableVersions
@@ -1,7 +1,10 @@
+import path from 'node:path'
+
 import * as vscode from 'vscode'
 import { describe, expect, it } from 'vitest'
 
 import { ProfilesCodeActionProvider } from './codeActions'
+import { buildLibraryDirEdit } from './quickFixes'
 
 describe('ProfilesCodeActionProvider', () => {
   it('returns a single quick fix for missingPlatform diagnostics', async () => {
@@ -70,6 +73,56 @@ describe('ProfilesCodeActionProvider', () => {
       "Select a version for library 'DemoLib'",
     ])
   })
+
+  it('offers a local folder for libraries not in the index', async () => {
+    const provider = new ProfilesCodeActionProvider(
+      createLibrariesManager(),
+      createPlatformsManager()
+    )
+    const range = new vscode.Range(0, 0, 0, 1)
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      "Library 'MyLib' not found",
+      vscode.DiagnosticSeverity.Error
+    )
+    diagnostic.code = 'libraryNotFound'
+
+    const actions = await provider.provideCodeActions(createDocument(), range, {
+      diagnostics: [diagnostic],
+      only: undefined,
+      triggerKind: 1,
+    } as unknown as vscode.CodeActionContext)
+
+    expect(
+      actions.map((action) => (action as vscode.CodeAction).command)
+    ).toEqual([
+      {
+        title: "Use a local folder of library 'MyLib' in profile...",
+        command: 'boardlab.profiles.useLibraryFolder',
+        arguments: [
+          { uri: createDocument().uri.toString(), range, label: 'MyLib' },
+        ],
+      },
+    ])
+  })
+
+  it('replaces the library with the dir entry of the folder', () => {
+    const newText = (folderPath: string) => {
+      const edit = buildLibraryDirEdit(
+        createDocument(),
+        new vscode.Range(3, 8, 3, 21),
+        folderPath
+      ) as unknown as { entries: { newText: string }[] }
+      return edit.entries.map((entry) => entry.newText)
+    }
+
+    expect(newText(path.join('/workspace', 'libraries', 'MyLib'))).toEqual([
+      'dir: ./libraries/MyLib',
+    ])
+    expect(newText(path.join('/shared', 'MyLib'))).toEqual([
+      'dir: ../shared/MyLib',
+    ])
+  })
 })
 
 function createDocument(): vscode.TextDocument {
@@ -8,6 +8,7 @@ const MISSING_PLATFORM_CODE = 'missingPlatform'
 const MISSING_PLATFORM_VERSION_CODE = 'missingPlatformVersion'
 const MISSING_PLATFORM_INDEX_CODE = 'missingPlatformIndexUrl'
 const MISSING_LIBRARY_CODE = 'missingLibrary'
+const LIBRARY_NOT_FOUND_CODE = 'libraryNotFound'
 const INVALID_PLATFORM_VERSION_CODE = 'invalidPlatformVersion'
 const INVALID_LIBRARY_VERSION_CODE = 'invalidLibraryVersion'
 const INVALID_LIBRARY_DIRECTIVE_CODE = 'invalidLibraryDirective'
@@ -182,6 +183,20 @@ export async function computeProfilesQuickFixPlans(
     return plans
   }
 
+  if (code === LIBRARY_NOT_FOUND_CODE) {
+    const match = diagnostic.message.match(/Library '(.+?)' not found/)
+    if (!match) return plans
+    const label = match[1]
+    // A global install from ZIP or git does not satisfy the profile
+    plans.push({
+      kind: 'command',
+      title: `Use a local folder of library '${label}' in profile...`,
+      command: 'boardlab.profiles.useLibraryFolder',
+      args: [{ uri: document.uri.toString(), range: diagnostic.range, label }],
+    })
+    return plans
+  }
+
   if (code === INVALID_PLATFORM_VERSION_CODE) {
     const match = diagnostic.message.match(
       /Platform '(.+?)' has no release '(.+?)'/
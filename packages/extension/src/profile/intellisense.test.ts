@@ -0,0 +1,273 @@
+import * as vscode from 'vscode'
+import { describe, expect, it } from 'vitest'
+
+import { ProfilesIntelliSenseProvider } from './intellisense'
+
+const token = {
+  isCancellationRequested: false,
+  onCancellationRequested: () => ({ dispose: () => {} }),
+} as unknown as vscode.CancellationToken
+
+describe('ProfilesIntelliSenseProvider', () => {
+  it('suggests the missing keys of the profile', async () => {
+    const items = await complete('profiles:\n  uno:\n    fqbn: x\n    |')
+
+    expect(labels(items)).toEqual([
+      'notes',
+      'programmer',
+      'port',
+      'port_config',
+      'protocol',
+      'platforms',
+      'libraries',
+    ])
+    const [, programmer, , , , platforms] = items as vscode.CompletionItem[]
+    expect((programmer.insertText as vscode.SnippetString).value).toBe(
+      'programmer: $0'
+    )
+    expect(programmer.command?.command).toBe('editor.action.triggerSuggest')
+    expect((platforms.insertText as vscode.SnippetString).value).toBe(
+      'platforms:\n  - platform: $0'
+    )
+  })
+
+  it('suggests the FQBNs and the config options of the board', async () => {
+    const boards = await complete('default_fqbn: ard|')
+
+    expect(labels(boards)).toEqual(['arduino:avr:uno', 'esp32:esp32:esp32'])
+    expect((boards as vscode.CompletionItem[])[0].range).toEqual(
+      new vscode.Range(0, 14, 0, 17)
+    )
+
+    const options = await complete(
+      'profiles:\n  esp:\n    fqbn: esp32:esp32:esp32:PSRAM=enabled,|'
+    )
+
+    expect(labels(options)).toEqual(['FlashMode=qio', 'FlashMode=dio'])
+    expect(
+      (options as vscode.CompletionItem[]).map(({ label }) => label)[0]
+    ).toEqual({ label: 'FlashMode=qio', description: 'QIO (default)' })
+    expect((options as vscode.CompletionItem[])[0].range).toEqual(
+      new vscode.Range(2, 42, 2, 42)
+    )
+  })
+
+  it('suggests the platforms and the versions of the platform', async () => {
+    const yaml = 'profiles:\n  esp:\n    platforms:\n      - platform: |'
+    const platforms = (await complete(yaml)) as vscode.CompletionItem[]
+
+    expect(labels(platforms)).toEqual(['arduino:avr', 'esp32:esp32'])
+    expect(platforms.map(({ insertText }) => insertText)).toEqual([
+      'arduino:avr (1.8.6)',
+      'esp32:esp32 (3.0.0)',
+    ])
+
+    const versions = (await complete(
+      yaml.replace('|', 'esp32:esp32 (|)')
+    )) as vscode.CompletionItem[]
+
+    expect(versions.map(({ label }) => label)).toEqual([
+      { label: '3.1.0', description: 'latest' },
+      { label: '3.0.0', description: 'installed' },
+    ])
+    expect(versions[0].insertText).toBe('3.1.0)')
+    expect(versions[0].range).toEqual(new vscode.Range(3, 31, 3, 32))
+  })
+
+  it('searches the libraries and suggests the detected ports', async () => {
+    const libraries = await complete(
+      'profiles:\n  esp:\n    libraries:\n      - Json|'
+    )
+
+    expect(libraries).toBeInstanceOf(vscode.CompletionList)
+    expect(
+      (libraries as vscode.CompletionList).items.map(
+        ({ insertText }) => insertText
+      )
+    ).toEqual(['ArduinoJson (7.0.0)'])
+
+    const ports = await complete('profiles:\n  esp:\n    port: |')
+
+    expect(ports).toMatchObject([
+      {
+        label: { label: '/dev/ttyUSB0', description: 'ESP32 Dev Module' },
+        detail: 'Serial Port (USB)',
+      },
+    ])
+  })
+
+  it('shows the details of the board, the platform, and the library', async () => {
+    const provider = createProvider()
+    const yaml = [
+      'profiles:',
+      '  esp:',
+      '    fqbn: esp32:esp32:esp32:FlashMode=dio',
+      '    platforms:',
+      '      - platform: esp32:esp32 (3.0.0)',
+      '    libraries:',
+      '      - ArduinoJson (7.0.0)',
+    ].join('\n')
+    const hoverAt = async (line: number, character: number) => {
+      const hover = await provider.provideHover(
+        createDocument(yaml),
+        new vscode.Position(line, character)
+      )
+      return (hover?.contents[0] as vscode.MarkdownString | undefined)?.value
+    }
+
+    expect(await hoverAt(2, 12)).toBe(
+      [
+        '**ESP32 Dev Module** (`esp32:esp32:esp32:FlashMode=dio`)',
+        'Platform: esp32 (`esp32:esp32` 3.0.0)',
+        '- Flash Mode: DIO\n- PSRAM: Disabled',
+      ].join('\n\n')
+    )
+    expect(await hoverAt(4, 20)).toBe(
+      [
+        '**esp32** (`esp32:esp32`)',
+        'by Espressif Systems',
+        'Installed: 3.0.0 · Latest: 3.1.0',
+        'Boards included in this package: ESP32 Dev Module',
+      ].join('\n\n')
+    )
+    expect(await hoverAt(6, 10)).toBe(
+      [
+        '**ArduinoJson**',
+        'by Benoit Blanchon',
+        'Not installed · Latest: 7.0.0',
+        'A simple and efficient JSON library',
+      ].join('\n\n')
+    )
+    expect(await hoverAt(3, 6)).toBe(
+      'The platforms of the profile with their versions: the platform of the board and the platforms it references.'
+    )
+  })
+
+  it('goes to the default profile', async () => {
+    const location = await createProvider().provideDefinition(
+      createDocument('profiles:\n  esp:\n    fqbn: x\ndefault_profile: esp'),
+      new vscode.Position(3, 18)
+    )
+
+    expect(location?.range).toEqual(new vscode.Range(1, 2, 1, 5))
+  })
+})
+
+async function complete(yaml: string) {
+  const lines = yaml.split('\n')
+  const line = lines.findIndex((text) => text.includes('|'))
+  const character = lines[line].indexOf('|')
+  return createProvider().provideCompletionItems(
+    createDocument(yaml.replace('|', '')),
+    new vscode.Position(line, character),
+    token
+  )
+}
+
+function labels(
+  items: vscode.CompletionItem[] | vscode.CompletionList | undefined
+): string[] {
+  const list = Array.isArray(items) ? items : (items?.items ?? [])
+  return list.map(({ label }) =>
+    typeof label === 'string' ? label : label.label
+  )
+}
+
+function createDocument(text: string): vscode.TextDocument {
+  return {
+    uri: vscode.Uri.file('/workspace/sketch.yaml'),
+    getText: () => text,
+    positionAt: (offset: number) => {
+      const before = text.slice(0, offset).split('\n')
+      return new vscode.Position(before.length - 1, before.at(-1)!.length)
+    },
+  } as unknown as vscode.TextDocument
+}
+
+function createProvider(): ProfilesIntelliSenseProvider {
+  const esp32 = {
+    id: 'esp32:esp32',
+    name: 'esp32',
+    author: 'Espressif Systems',
+    summary: 'Boards included in this package: ESP32 Dev Module',
+    availableVersions: ['3.1.0', '3.0.0'],
+    installedVersion: '3.0.0',
+  }
+  const avr = {
+    id: 'arduino:avr',
+    name: 'Arduino AVR Boards',
+    author: 'Arduino',
+    summary: '',
+    availableVersions: ['1.8.6'],
+  }
+  const arduinoJson = {
+    name: 'ArduinoJson',
+    author: 'Benoit Blanchon',
+    summary: 'A simple and efficient JSON library',
+    availableVersions: ['7.0.0'],
+  }
+  const boardlabContext: any = {
+    client: Promise.resolve({
+      arduino: {
+        searchBoard: async () => [
+          { name: 'Arduino Uno', fqbn: 'arduino:avr:uno', isHidden: false },
+          { name: 'Hidden', fqbn: 'arduino:avr:hidden', isHidden: true },
+          { name: 'Arduino Nano ESP32', fqbn: '', isHidden: false },
+          { name: 'ESP32 Dev Module', fqbn: 'esp32:esp32:esp32' },
+        ],
+      },
+    }),
+    getBoardDetails: async (fqbn: string) => {
+      if (!fqbn.startsWith('esp32:esp32:esp32')) {
+        throw new Error('Platform not installed')
+      }
+      return {
+        name: 'ESP32 Dev Module',
+        fqbn: 'esp32:esp32:esp32',
+        buildProperties: {},
+        programmers: [],
+        configOptions: [
+          {
+            option: 'FlashMode',
+            optionLabel: 'Flash Mode',
+            values: [
+              { value: 'qio', valueLabel: 'QIO', selected: true },
+              { value: 'dio', valueLabel: 'DIO', selected: false },
+            ],
+          },
+          {
+            option: 'PSRAM',
+            optionLabel: 'PSRAM',
+            values: [
+              { value: 'disabled', valueLabel: 'Disabled', selected: true },
+              { value: 'enabled', valueLabel: 'Enabled', selected: false },
+            ],
+          },
+        ],
+      }
+    },
+    platformsManager: {
+      onDidUpdate: () => ({ dispose: () => {} }),
+      find: async () => [avr, esp32],
+    },
+    librariesManager: {
+      find: async (query: string) =>
+        arduinoJson.name.includes(query) ? [arduinoJson] : [],
+      installed: async () => [],
+      lookupLibraryQuick: async () => undefined,
+    },
+    boardsListWatcher: {
+      detectedPorts: {
+        'serial|/dev/ttyUSB0': {
+          port: {
+            address: '/dev/ttyUSB0',
+            protocol: 'serial',
+            protocolLabel: 'Serial Port (USB)',
+          },
+          boards: [{ name: 'ESP32 Dev Module', fqbn: 'esp32:esp32:esp32' }],
+        },
+      },
+    },
+  }
+  return new ProfilesIntelliSenseProvider(boardlabContext)
+}
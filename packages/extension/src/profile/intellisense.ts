@@ -0,0 +1,783 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import type { BoardListItem } from 'ardunno-cli'
+import { FQBN } from 'fqbn'
+import * as vscode from 'vscode'
+import type { BoardDetails as ApiBoardDetails } from 'vscode-arduino-api'
+
+import {
+  sketchYamlSchemaKeys,
+  type Platform as ApiPlatform,
+  type Library as ProtocolLibrary,
+  type SketchYamlSchemaKey,
+} from '@boardlab/protocol'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import { findPairByPath, parseProfilesDocument } from './validation'
+import { profilesYamlContextAt, type ProfilesYamlContext } from './yamlContext'
+
+const maxLibraryItems = 100
+
+interface ProfilesKey {
+  readonly description: string
+  /** The snippet of the pair. Defaults to `key: `. */
+  readonly snippet?: string
+  /** `true` if the value has completions. */
+  readonly values?: boolean
+}
+
+const keySnippets: Readonly<Record<string, string>> = {
+  profiles: 'profiles:\n  $1:\n    fqbn: $0',
+  port_config: 'port_config:\n  baudrate: $0',
+  platforms: 'platforms:\n  - platform: $0',
+  libraries: 'libraries:\n  - $0',
+}
+
+type ProfilesValue =
+  | 'fqbn'
+  | 'programmer'
+  | 'port'
+  | 'protocol'
+  | 'profile'
+  | 'platform'
+  | 'library'
+
+const rootValues: Readonly<Record<string, ProfilesValue>> = {
+  default_profile: 'profile',
+  default_fqbn: 'fqbn',
+  default_port: 'port',
+  default_protocol: 'protocol',
+  default_programmer: 'programmer',
+}
+
+const profileValues: Readonly<Record<string, ProfilesValue>> = {
+  fqbn: 'fqbn',
+  programmer: 'programmer',
+  port: 'port',
+  protocol: 'protocol',
+}
+
+const rootKeys = toProfilesKeys(sketchYamlSchemaKeys.root, rootValues)
+const profileKeys = toProfilesKeys(sketchYamlSchemaKeys.profile, profileValues)
+const platformKeys = toProfilesKeys(sketchYamlSchemaKeys.platform, {
+  platform: 'platform',
+})
+
+const triggerSuggest: vscode.Command = {
+  command: 'editor.action.triggerSuggest',
+  title: 'Trigger Suggest',
+}
+
+/**
+ * Completions, hovers, and definitions for the keys, FQBNs, config options,
+ * platforms, libraries, and ports of the `sketch.yaml` text editor.
+ */
+export class ProfilesIntelliSenseProvider
+  implements
+    vscode.CompletionItemProvider,
+    vscode.HoverProvider,
+    vscode.DefinitionProvider,
+    vscode.Disposable
+{
+  static readonly triggerCharacters = [':', ' ', '(', ',', '=']
+
+  private boards: Promise<BoardListItem[]> | undefined
+  private platforms: Promise<ApiPlatform[]> | undefined
+  private readonly toDispose: vscode.Disposable[]
+
+  constructor(private readonly boardlabContext: BoardLabContextImpl) {
+    this.toDispose = [
+      boardlabContext.platformsManager.onDidUpdate(() => {
+        this.boards = undefined
+        this.platforms = undefined
+      }),
+    ]
+  }
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionItem[] | vscode.CompletionList | undefined> {
+    const lines = document.getText().split(/\r?\n/)
+    const context = profilesYamlContextAt(
+      lines,
+      position.line,
+      position.character
+    )
+    if (!context) {
+      return undefined
+    }
+    const prefix = context.text.slice(
+      0,
+      Math.max(0, position.character - context.start)
+    )
+    const range = new vscode.Range(
+      position.line,
+      Math.min(context.start, position.character),
+      position.line,
+      Math.max(context.end, position.character)
+    )
+
+    const keys = keysOf(context)
+    if (keys) {
+      const hasColon = /^\s*:/.test(
+        (lines[position.line] ?? '').slice(context.end)
+      )
+      return keyItems(keys, context, range, hasColon)
+    }
+    switch (valueOf(context)) {
+      case 'fqbn':
+        return this.fqbnItems(prefix, context, position, range)
+      case 'programmer':
+        return this.programmerItems(context, range)
+      case 'port':
+        return this.portItems(range)
+      case 'protocol':
+        return this.protocolItems(range)
+      case 'profile':
+        return profileNames(document.getText()).map((name) => {
+          const item = new vscode.CompletionItem(
+            name,
+            vscode.CompletionItemKind.Reference
+          )
+          item.range = range
+          return item
+        })
+      case 'platform':
+        return this.platformItems(prefix, context, position, range)
+      case 'library':
+        return this.libraryItems(prefix, context, position, range, token)
+      default:
+        return undefined
+    }
+  }
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const context = profilesYamlContextAt(
+      document.getText().split(/\r?\n/),
+      position.line,
+      position.character
+    )
+    if (
+      !context ||
+      !context.text ||
+      position.character < context.start ||
+      position.character > context.end
+    ) {
+      return undefined
+    }
+    const markdown = await this.hoverMarkdown(context)
+    if (!markdown) {
+      return undefined
+    }
+    return new vscode.Hover(
+      new vscode.MarkdownString(markdown),
+      new vscode.Range(position.line, context.start, position.line, context.end)
+    )
+  }
+
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Location | undefined> {
+    const context = profilesYamlContextAt(
+      document.getText().split(/\r?\n/),
+      position.line,
+      position.character
+    )
+    if (!context || !context.text || context.kind !== 'value') {
+      return undefined
+    }
+    switch (valueOf(context)) {
+      case 'profile': {
+        const pair = findPairByPath(parseProfilesDocument(document.getText()), [
+          'profiles',
+          context.text,
+        ])
+        const keyRange: [number, number] | undefined = pair?.key?.range
+        if (!keyRange) {
+          return undefined
+        }
+        return new vscode.Location(
+          document.uri,
+          new vscode.Range(
+            document.positionAt(keyRange[0]),
+            document.positionAt(keyRange[1])
+          )
+        )
+      }
+      case 'fqbn':
+        return this.boardDefinition(context.text)
+      case 'platform':
+        return this.platformDefinition(withoutVersion(context.text))
+      case 'library': {
+        const library = await this.findLibrary(withoutVersion(context.text))
+        return library?.installPath
+          ? fileLocation(path.join(library.installPath, 'library.properties'))
+          : undefined
+      }
+      default:
+        return undefined
+    }
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  private async fqbnItems(
+    prefix: string,
+    context: ProfilesYamlContext,
+    position: vscode.Position,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    const configOptions = /^([^:\s]+:[^:\s]+:[^:\s]+):(.*)$/.exec(prefix)
+    if (configOptions) {
+      const [, fqbn, options] = configOptions
+      const start =
+        context.start + fqbn.length + 1 + options.lastIndexOf(',') + 1
+      return this.configOptionItems(
+        fqbn,
+        options,
+        new vscode.Range(
+          position.line,
+          start,
+          position.line,
+          position.character
+        )
+      )
+    }
+    const boards = await this.listBoards()
+    return boards.map((board) => {
+      const item = new vscode.CompletionItem(
+        { label: board.fqbn, description: board.name },
+        vscode.CompletionItemKind.Value
+      )
+      item.detail = board.platform?.release?.name
+      item.range = range
+      return item
+    })
+  }
+
+  private async configOptionItems(
+    fqbn: string,
+    options: string,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    const details = await this.boardDetails(fqbn)
+    if (!details) {
+      return []
+    }
+    const selected = new Set(
+      options
+        .split(',')
+        .slice(0, -1)
+        .map((option) => option.split('=')[0])
+    )
+    const items: vscode.CompletionItem[] = []
+    for (const { option, optionLabel, values } of details.configOptions) {
+      if (selected.has(option)) {
+        continue
+      }
+      for (const value of values) {
+        const item = new vscode.CompletionItem(
+          {
+            label: `${option}=${value.value}`,
+            description: value.selected
+              ? `${value.valueLabel} (default)`
+              : value.valueLabel,
+          },
+          vscode.CompletionItemKind.EnumMember
+        )
+        item.detail = optionLabel
+        item.sortText = String(items.length).padStart(5, '0')
+        item.range = range
+        items.push(item)
+      }
+    }
+    return items
+  }
+
+  private async programmerItems(
+    context: ProfilesYamlContext,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    const fqbn = context.siblings.get(
+      context.path.length ? 'fqbn' : 'default_fqbn'
+    )
+    const details = fqbn ? await this.boardDetails(fqbn) : undefined
+    return (details?.programmers ?? []).map(({ id, name }) => {
+      const item = new vscode.CompletionItem(
+        {
+          label: id,
+          description:
+            id === details?.defaultProgrammerId ? `${name} (default)` : name,
+        },
+        vscode.CompletionItemKind.Value
+      )
+      item.range = range
+      return item
+    })
+  }
+
+  private portItems(range: vscode.Range): vscode.CompletionItem[] {
+    const { detectedPorts } = this.boardlabContext.boardsListWatcher
+    return Object.values(detectedPorts).map(({ port, boards }) => {
+      const item = new vscode.CompletionItem(
+        {
+          label: port.address,
+          description: boards?.map(({ name }) => name).join(', '),
+        },
+        vscode.CompletionItemKind.Value
+      )
+      item.detail = port.protocolLabel || port.protocol
+      item.range = range
+      return item
+    })
+  }
+
+  private protocolItems(range: vscode.Range): vscode.CompletionItem[] {
+    const { detectedPorts } = this.boardlabContext.boardsListWatcher
+    const protocols = new Set([
+      'serial',
+      'network',
+      ...Object.values(detectedPorts).map(({ port }) => port.protocol),
+    ])
+    return Array.from(protocols, (protocol) => {
+      const item = new vscode.CompletionItem(
+        protocol,
+        vscode.CompletionItemKind.Value
+      )
+      item.range = range
+      return item
+    })
+  }
+
+  private async platformItems(
+    prefix: string,
+    context: ProfilesYamlContext,
+    position: vscode.Position,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    const platforms = await this.listPlatforms()
+    const version = /^(\S+)\s*\((.*)$/.exec(prefix)
+    if (version) {
+      const platform = platforms.find(({ id }) => id === version[1])
+      return versionItems(
+        platform?.availableVersions ?? [],
+        platform?.installedVersion,
+        versionRange(prefix, context, position)
+      )
+    }
+    return platforms.map((platform) => {
+      const item = new vscode.CompletionItem(
+        { label: platform.id, description: platform.name },
+        vscode.CompletionItemKind.Module
+      )
+      item.insertText = withVersion(platform.id, platform)
+      item.detail = platform.installedVersion
+        ? `Installed: ${platform.installedVersion}`
+        : `Latest: ${platform.availableVersions[0]}`
+      item.range = range
+      return item
+    })
+  }
+
+  private async libraryItems(
+    prefix: string,
+    context: ProfilesYamlContext,
+    position: vscode.Position,
+    range: vscode.Range,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionItem[] | vscode.CompletionList> {
+    const { librariesManager } = this.boardlabContext
+    const version = /^(.+?)\s*\((.*)$/.exec(prefix)
+    if (version) {
+      const library = await librariesManager.lookupLibraryQuick(version[1])
+      return versionItems(
+        library?.availableVersions ?? [],
+        library?.installedVersion,
+        versionRange(prefix, context, position)
+      )
+    }
+    const abortController = new AbortController()
+    const toDispose = token.onCancellationRequested(() =>
+      abortController.abort()
+    )
+    try {
+      const libraries = prefix.trim()
+        ? await librariesManager.find(prefix.trim(), abortController.signal)
+        : await librariesManager.installed(abortController.signal)
+      const items = libraries.slice(0, maxLibraryItems).map((library) => {
+        const item = new vscode.CompletionItem(
+          { label: library.name, description: library.author },
+          vscode.CompletionItemKind.Module
+        )
+        item.insertText = withVersion(library.name, library)
+        item.detail = library.installedVersion
+          ? `Installed: ${library.installedVersion}`
+          : `Latest: ${library.availableVersions[0]}`
+        item.documentation = library.summary
+        item.range = range
+        return item
+      })
+      // the search depends on the typed name
+      return new vscode.CompletionList(items, true)
+    } finally {
+      toDispose.dispose()
+    }
+  }
+
+  private async hoverMarkdown(
+    context: ProfilesYamlContext
+  ): Promise<string | undefined> {
+    const keys = keysOf(context)
+    if (keys) {
+      return keys[context.text]?.description
+    }
+    switch (valueOf(context)) {
+      case 'fqbn':
+        return this.boardHover(context.text)
+      case 'platform':
+        return this.platformHover(withoutVersion(context.text))
+      case 'library':
+        return this.libraryHover(withoutVersion(context.text))
+      default:
+        return undefined
+    }
+  }
+
+  private async boardHover(fqbn: string): Promise<string> {
+    let parsed: FQBN
+    try {
+      parsed = new FQBN(fqbn)
+    } catch {
+      return `\`${fqbn}\` is not a valid FQBN.`
+    }
+    const platformId = `${parsed.vendor}:${parsed.arch}`
+    const platform = (await this.listPlatforms()).find(
+      ({ id }) => id === platformId
+    )
+    const details = await this.boardDetails(fqbn)
+    if (!details) {
+      return platform?.installedVersion
+        ? `The ${platform.name} (\`${platformId}\`) platform has no \`${parsed.boardId}\` board.`
+        : `The \`${platformId}\` platform of the board is not installed.`
+    }
+    const options = details.configOptions.map((option) => {
+      const value =
+        option.values.find(
+          ({ value }) => value === parsed.options?.[option.option]
+        ) ?? option.values.find(({ selected }) => selected)
+      return `- ${option.optionLabel}: ${value?.valueLabel ?? value?.value ?? ''}`
+    })
+    return [
+      `**${details.name}** (\`${parsed.toString()}\`)`,
+      platform
+        ? `Platform: ${platform.name} (\`${platformId}\` ${platform.installedVersion ?? ''})`
+        : undefined,
+      options.length ? options.join('\n') : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+  }
+
+  private async platformHover(platformId: string): Promise<string> {
+    const platform = (await this.listPlatforms()).find(
+      ({ id }) => id === platformId
+    )
+    if (!platform) {
+      return `The \`${platformId}\` platform is not in the package indexes.`
+    }
+    return resourceMarkdown(platform.name, platform.id, platform)
+  }
+
+  private async libraryHover(name: string): Promise<string> {
+    const library = await this.findLibrary(name)
+    if (!library) {
+      return `The \`${name}\` library is not in the library index.`
+    }
+    return resourceMarkdown(library.name, undefined, library)
+  }
+
+  private async boardDefinition(
+    fqbn: string
+  ): Promise<vscode.Location | undefined> {
+    const details = await this.boardDetails(fqbn)
+    const platformPath = details?.buildProperties['runtime.platform.path']
+    if (!platformPath) {
+      return undefined
+    }
+    const boardsTxt = path.join(platformPath, 'boards.txt')
+    const boardId = new FQBN(fqbn).boardId
+    try {
+      const lines = (await fs.readFile(boardsTxt, 'utf8')).split(/\r?\n/)
+      const line = lines.findIndex((text) =>
+        text.startsWith(`${boardId}.name=`)
+      )
+      return fileLocation(boardsTxt, Math.max(line, 0))
+    } catch {
+      return fileLocation(boardsTxt)
+    }
+  }
+
+  private async platformDefinition(
+    platformId: string
+  ): Promise<vscode.Location | undefined> {
+    const board = (await this.listBoards()).find(({ fqbn }) =>
+      fqbn.startsWith(`${platformId}:`)
+    )
+    const details = board ? await this.boardDetails(board.fqbn) : undefined
+    const platformPath = details?.buildProperties['runtime.platform.path']
+    return platformPath
+      ? fileLocation(path.join(platformPath, 'platform.txt'))
+      : undefined
+  }
+
+  private listBoards(): Promise<BoardListItem[]> {
+    if (!this.boards) {
+      const boards = (async () => {
+        const { arduino } = await this.boardlabContext.client
+        const items = await arduino.searchBoard({ searchArgs: '' })
+        const fqbns = new Set<string>()
+        return items.filter(({ fqbn, isHidden }) => {
+          if (!fqbn || isHidden || fqbns.has(fqbn)) {
+            return false
+          }
+          fqbns.add(fqbn)
+          return true
+        })
+      })()
+      this.boards = boards
+      boards.catch(() => {
+        if (this.boards === boards) {
+          this.boards = undefined
+        }
+      })
+    }
+    return this.boards
+  }
+
+  private listPlatforms(): Promise<ApiPlatform[]> {
+    if (!this.platforms) {
+      const platforms = this.boardlabContext.platformsManager.find('')
+      this.platforms = platforms
+      platforms.catch(() => {
+        if (this.platforms === platforms) {
+          this.platforms = undefined
+        }
+      })
+    }
+    return this.platforms
+  }
+
+  private async findLibrary(
+    name: string
+  ): Promise<ProtocolLibrary | undefined> {
+    const libraries = await this.boardlabContext.librariesManager.find(name)
+    return libraries.find((library) => library.name === name)
+  }
+
+  private async boardDetails(
+    fqbn: string
+  ): Promise<ApiBoardDetails | undefined> {
+    try {
+      return await this.boardlabContext.getBoardDetails(fqbn)
+    } catch {
+      return undefined
+    }
+  }
+}
+
+/** The documented keys of the schema with their completion snippets. */
+function toProfilesKeys(
+  keys: Readonly<Record<string, SketchYamlSchemaKey>>,
+  values: Readonly<Record<string, ProfilesValue>>
+): Readonly<Record<string, ProfilesKey>> {
+  return Object.fromEntries(
+    Object.entries(keys).map(([key, { markdownDescription }]) => [
+      key,
+      {
+        description: markdownDescription,
+        snippet: keySnippets[key],
+        values: key in values,
+      },
+    ])
+  )
+}
+
+function keysOf(
+  context: ProfilesYamlContext
+): Readonly<Record<string, ProfilesKey>> | undefined {
+  const { path, kind, key, item } = context
+  const scalarItem = kind === 'value' && key === undefined && item
+  if (kind !== 'key' && !scalarItem) {
+    return undefined
+  }
+  if (!path.length && !scalarItem) {
+    return rootKeys
+  }
+  if (path.length === 2 && path[0] === 'profiles' && !scalarItem) {
+    return profileKeys
+  }
+  if (
+    path.length === 3 &&
+    path[0] === 'profiles' &&
+    path[2] === 'platforms' &&
+    item
+  ) {
+    return platformKeys
+  }
+  return undefined
+}
+
+function valueOf(context: ProfilesYamlContext): ProfilesValue | undefined {
+  const { path, kind, key, item } = context
+  if (kind !== 'value') {
+    return undefined
+  }
+  if (!path.length) {
+    return key ? rootValues[key] : undefined
+  }
+  if (path[0] !== 'profiles') {
+    return undefined
+  }
+  if (path.length === 2) {
+    return key ? profileValues[key] : undefined
+  }
+  if (path.length === 3 && item) {
+    if (path[2] === 'platforms' && key === 'platform') {
+      return 'platform'
+    }
+    if (path[2] === 'libraries' && key === undefined) {
+      return 'library'
+    }
+  }
+  return undefined
+}
+
+function keyItems(
+  keys: Readonly<Record<string, ProfilesKey>>,
+  context: ProfilesYamlContext,
+  range: vscode.Range,
+  hasColon: boolean
+): vscode.CompletionItem[] {
+  return Object.entries(keys)
+    .filter(([key]) => !context.siblings.has(key))
+    .map(([key, { description, snippet, values }]) => {
+      const item = new vscode.CompletionItem(
+        key,
+        vscode.CompletionItemKind.Property
+      )
+      item.documentation = new vscode.MarkdownString(description)
+      item.range = range
+      if (!hasColon) {
+        item.insertText = new vscode.SnippetString(snippet ?? `${key}: $0`)
+        if (!snippet && values) {
+          item.command = triggerSuggest
+        }
+      }
+      return item
+    })
+}
+
+function versionItems(
+  versions: readonly string[],
+  installedVersion: string | undefined,
+  range: vscode.Range
+): vscode.CompletionItem[] {
+  return versions.map((version, index) => {
+    const item = new vscode.CompletionItem(
+      {
+        label: version,
+        description:
+          version === installedVersion
+            ? 'installed'
+            : index === 0
+              ? 'latest'
+              : undefined,
+      },
+      vscode.CompletionItemKind.Constant
+    )
+    item.insertText = `${version})`
+    // the versions are in descending order
+    item.sortText = String(index).padStart(5, '0')
+    item.range = range
+    return item
+  })
+}
+
+/** From the `(` of the version to the end of the value. */
+function versionRange(
+  prefix: string,
+  context: ProfilesYamlContext,
+  position: vscode.Position
+): vscode.Range {
+  return new vscode.Range(
+    position.line,
+    context.start + prefix.indexOf('(') + 1,
+    position.line,
+    Math.max(context.end, position.character)
+  )
+}
+
+function withVersion(
+  id: string,
+  resource: Pick<ApiPlatform, 'installedVersion' | 'availableVersions'>
+): string {
+  const version = resource.installedVersion || resource.availableVersions[0]
+  return version ? `${id} (${version})` : id
+}
+
+function resourceMarkdown(
+  name: string,
+  id: string | undefined,
+  resource: Pick<
+    ApiPlatform,
+    'author' | 'summary' | 'website' | 'installedVersion' | 'availableVersions'
+  >
+): string {
+  const [latestVersion] = resource.availableVersions
+  return [
+    id ? `**${name}** (\`${id}\`)` : `**${name}**`,
+    resource.author ? `by ${resource.author}` : undefined,
+    [
+      resource.installedVersion
+        ? `Installed: ${resource.installedVersion}`
+        : 'Not installed',
+      latestVersion ? `Latest: ${latestVersion}` : undefined,
+    ]
+      .filter(Boolean)
+      .join(' · '),
+    resource.summary,
+    resource.website ? `[${resource.website}](${resource.website})` : undefined,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/** The platform ID or the library name of `name (version)`. */
+function withoutVersion(value: string): string {
+  return value.replace(/\s*\(.*$/, '').trim()
+}
+
+function profileNames(text: string): string[] {
+  const pair = findPairByPath(parseProfilesDocument(text), ['profiles'])
+  const items: any[] = pair?.value?.items ?? []
+  return items
+    .map((item) => item?.key?.value)
+    .filter((name) => name !== undefined && name !== null)
+    .map(String)
+}
+
+function fileLocation(filePath: string, line = 0): vscode.Location {
+  return new vscode.Location(
+    vscode.Uri.file(filePath),
+    new vscode.Range(line, 0, line, 0)
+  )
+}
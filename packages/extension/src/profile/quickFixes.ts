@@ -1,3 +1,5 @@
+import path from 'node:path'
+
 import * as vscode from 'vscode'
 
 import {
@@ -69,3 +71,23 @@ export async function buildClearPlatformVersionsEdit(
 
   return changed ? edit : undefined
 }
+
+/**
+ * Replaces the library entry of the profile with a `dir:` entry of the library
+ * folder. The path is relative to the sketch folder when possible.
+ */
+export function buildLibraryDirEdit(
+  doc: vscode.TextDocument,
+  range: vscode.Range,
+  folderPath: string
+): vscode.WorkspaceEdit {
+  const relative = path.relative(path.dirname(doc.uri.fsPath), folderPath)
+  const dir = path.isAbsolute(relative)
+    ? folderPath
+    : relative.startsWith('..')
+      ? relative
+      : `./${relative}`
+  const edit = new vscode.WorkspaceEdit()
+  edit.replace(doc.uri, range, `dir: ${dir.split(path.sep).join('/')}`)
+  return edit
+}
@@ -44,6 +44,107 @@ describe('profile AST validation rules', () => {
       expect(parserIssues[0]?.source).toBe('boardlab')
     })
   })
+
+  describe('rule: sketch.yaml schema', () => {
+    it('accepts the profiles of the sketch project file', () => {
+      const text = `profiles:
+  esp32:
+    notes: ESP32 with PSRAM
+    fqbn: esp32:esp32:esp32:PSRAM=enabled
+    programmer: esptool
+    port: /dev/ttyUSB0
+    port_config:
+      baudrate: 115200
+    protocol: serial
+    platforms:
+      - platform: esp32:esp32 (3.0.0)
+        platform_index_url: https://espressif.github.io/arduino-esp32/package_esp32_index.json
+    libraries:
+      - ArduinoJson (7.0.0)
+      - dir: ../libraries/MyLib
+default_profile: esp32
+default_port: /dev/ttyUSB0
+`
+      const doc = createTextDocument(text)
+
+      expect(validateProfilesYAML(text, doc)).toEqual([])
+    })
+
+    it('reports the unknown keys as information', () => {
+      const text = `profiles:
+  demo:
+    fqbn: arduino:avr:uno
+    board: uno
+`
+      const doc = createTextDocument(text)
+
+      const diagnostics = validateProfilesYAML(text, doc)
+
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({
+        message: "Unknown key 'board'",
+        severity: vscode.DiagnosticSeverity.Information,
+        code: 'boardlab.profiles.schema',
+        range: new vscode.Range(3, 4, 3, 9),
+      })
+    })
+
+    it('reports the invalid values and the missing keys', () => {
+      const text = `profiles:
+  demo:
+    fqbn: uno
+    port_config: 115200
+    platforms:
+      - platform_index_url: example.com/index.json
+    libraries:
+default_profile: [demo]
+`
+      const doc = createTextDocument(text)
+
+      const diagnostics = validateProfilesYAML(text, doc)
+
+      expect(
+        diagnostics.map(({ message, severity, range }) => ({
+          message,
+          severity,
+          line: range.start.line,
+        }))
+      ).toEqual([
+        {
+          message:
+            'The FQBN must be vendor:arch:board with the optional config options. For example, esp32:esp32:esp32:PSRAM=enabled.',
+          severity: vscode.DiagnosticSeverity.Error,
+          line: 2,
+        },
+        {
+          message: "'port_config' must be a mapping",
+          severity: vscode.DiagnosticSeverity.Error,
+          line: 3,
+        },
+        {
+          message: "The items of 'platforms' must have the 'platform' key",
+          severity: vscode.DiagnosticSeverity.Error,
+          line: 5,
+        },
+        {
+          message:
+            'The platform index URL must be an absolute URL, such as https://example.com/package_index.json.',
+          severity: vscode.DiagnosticSeverity.Error,
+          line: 5,
+        },
+        {
+          message: "'libraries' must be a list",
+          severity: vscode.DiagnosticSeverity.Error,
+          line: 6,
+        },
+        {
+          message: "'default_profile' must be a string",
+          severity: vscode.DiagnosticSeverity.Error,
+          line: 7,
+        },
+      ])
+    })
+  })
 })
 
 function createTextDocument(
@@ -1,3 +1,4 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv'
 import * as vscode from 'vscode'
 import {
   isMap as isYamlMap,
@@ -6,6 +7,8 @@ import {
   parseDocument,
 } from 'yaml'
 
+import { sketchYamlSchema, sketchYamlSchemaKeys } from '@boardlab/protocol'
+
 export interface ProfilesValidationOptions {
   filePath?: string
 }
@@ -52,6 +55,9 @@ export function validateProfilesYAML(
     }
     const activeRules = rules && rules.length ? rules : defaultProfilesRules
     runProfilesRules(ast as any, ctx, activeRules, report)
+    if (!ast.errors.length) {
+      validateProfilesSchema(ast, report)
+    }
     diagnostics.push(...collected)
   } catch (err) {
     console.warn('AST validation failed', err)
@@ -292,6 +298,150 @@ function platformsVersionConsistencyVisitor(
   }
 }
 
+const schemaDiagnosticCode = 'boardlab.profiles.schema'
+
+let schemaValidator: ValidateFunction | undefined
+
+function validateProfilesSchema(document: any, report: Reporter): void {
+  schemaValidator ??= new Ajv({
+    allErrors: true,
+    strict: false, // `markdownDescription` and `patternErrorMessage` are for the editors
+    verbose: true,
+  }).compile(sketchYamlSchema)
+  const data = document.toJS()
+  if (data === undefined || data === null) {
+    return
+  }
+  reportUnknownKeys(document, data, report)
+  if (schemaValidator(data)) {
+    return
+  }
+  for (const error of schemaValidator.errors ?? []) {
+    const path = error.instancePath
+      .split('/')
+      .slice(1)
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    if (error.keyword === 'additionalProperties') {
+      const key = String(error.params.additionalProperty)
+      report(
+        `Unknown key '${key}'`,
+        schemaTarget(document, [...path, key]),
+        vscode.DiagnosticSeverity.Warning,
+        { preferKey: true, code: schemaDiagnosticCode }
+      )
+      continue
+    }
+    const target = schemaTarget(document, path)
+    // the empty values have no range, the key marks them
+    const value = isYamlPairLike(target) ? target.value : target
+    const hasRange = !!value?.range && value.range[0] < value.range[1]
+    report(
+      schemaErrorMessage(error, path),
+      (hasRange ? value : target) ?? document.contents,
+      vscode.DiagnosticSeverity.Error,
+      { preferKey: !hasRange, code: schemaDiagnosticCode }
+    )
+  }
+}
+
+/**
+ * The schema allows any key in the root and the profiles because a newer CLI
+ * can read keys this schema does not document yet. The keys unknown to the
+ * schema are only information, for the typos.
+ */
+function reportUnknownKeys(document: any, data: unknown, report: Reporter) {
+  const reportKeys = (
+    object: unknown,
+    known: Readonly<Record<string, unknown>>,
+    path: readonly string[]
+  ) => {
+    if (!object || typeof object !== 'object' || Array.isArray(object)) {
+      return
+    }
+    for (const key of Object.keys(object)) {
+      if (!(key in known)) {
+        report(
+          `Unknown key '${key}'`,
+          schemaTarget(document, [...path, key]),
+          vscode.DiagnosticSeverity.Information,
+          { preferKey: true, code: schemaDiagnosticCode }
+        )
+      }
+    }
+  }
+  reportKeys(data, sketchYamlSchemaKeys.root, [])
+  const profiles = (data as { profiles?: unknown }).profiles
+  if (profiles && typeof profiles === 'object' && !Array.isArray(profiles)) {
+    for (const [name, profile] of Object.entries(profiles)) {
+      reportKeys(profile, sketchYamlSchemaKeys.profile, ['profiles', name])
+    }
+  }
+}
+
+function schemaErrorMessage(
+  error: ErrorObject,
+  path: readonly string[]
+): string {
+  const last = path.at(-1)
+  const isItem = last !== undefined && /^\d+$/.test(last)
+  const name = isItem ? path.at(-2) : last
+  const subject = !name
+    ? 'The document'
+    : isItem
+      ? `The items of '${name}'`
+      : `'${name}'`
+  switch (error.keyword) {
+    case 'type': {
+      const types = String(error.params.type)
+        .split(',')
+        .map((type) => schemaTypeLabels[type] ?? type)
+      return `${subject} must be ${types.join(' or ')}`
+    }
+    case 'required':
+      return `${subject} must have the '${error.params.missingProperty}' key`
+    case 'pattern':
+      return (
+        error.parentSchema?.patternErrorMessage ??
+        `${subject} must match the pattern ${error.params.pattern}`
+      )
+    default:
+      return `${subject} ${error.message ?? 'is invalid'}`
+  }
+}
+
+const schemaTypeLabels: Readonly<Record<string, string>> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'a boolean',
+  object: 'a mapping',
+  array: 'a list',
+}
+
+/**
+ * The pair of the last key, or the item of the last index, of the JSON pointer
+ * segments.
+ */
+function schemaTarget(document: any, path: readonly string[]): any {
+  let node: any = document?.contents
+  let target: any
+  for (const segment of path) {
+    if (isYamlMap(node)) {
+      target = (node.items ?? []).find(
+        (p: any) =>
+          isYamlScalar(p?.key) && String(p.key.value ?? '') === segment
+      )
+      node = target?.value
+    } else if (isYamlSeq(node)) {
+      target = (node.items ?? [])[Number(segment)]
+      node = target
+    } else {
+      return undefined
+    }
+    if (!target) return undefined
+  }
+  return target
+}
+
 export function nodeRange(
   doc: vscode.TextDocument,
   node: any
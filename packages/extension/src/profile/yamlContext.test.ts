@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+
+import { profilesYamlContextAt } from './yamlContext'
+
+/** The `|` marks the cursor. */
+function contextAt(yaml: string) {
+  const lines = yaml.split('\n')
+  const line = lines.findIndex((text) => text.includes('|'))
+  const character = lines[line].indexOf('|')
+  lines[line] = lines[line].replace('|', '')
+  return profilesYamlContextAt(lines, line, character)
+}
+
+describe('profilesYamlContextAt', () => {
+  it('resolves the keys of the root and the profiles', () => {
+    expect(contextAt('default_fqbn: x\nde|\nprofiles:\n  uno: {}')).toEqual({
+      path: [],
+      kind: 'key',
+      key: undefined,
+      item: false,
+      text: 'de',
+      start: 0,
+      end: 2,
+      siblings: new Map([
+        ['default_fqbn', 'x'],
+        ['profiles', ''],
+      ]),
+    })
+    expect(
+      contextAt(
+        [
+          'profiles:',
+          '  uno:',
+          '    fqbn: arduino:avr:uno',
+          '    |',
+          '    platforms:',
+          '      - platform: arduino:avr',
+          '    port: COM3',
+          '  nano:',
+          '    fqbn: arduino:avr:nano',
+        ].join('\n')
+      )
+    ).toMatchObject({
+      path: ['profiles', 'uno'],
+      kind: 'key',
+      text: '',
+      start: 4,
+      siblings: new Map([
+        ['fqbn', 'arduino:avr:uno'],
+        ['platforms', ''],
+        ['port', 'COM3'],
+      ]),
+    })
+  })
+
+  it('resolves the values of the pairs and the sequence items', () => {
+    const yaml = [
+      'profiles:',
+      '  esp32:',
+      '    fqbn: "esp32:esp32:esp32:PSRAM=en|abled"  # the board',
+      '    platforms:',
+      '      - platform: esp32:esp32 (3.0.0)',
+      '        platform_index_url: https://example.com/index.json',
+      '    libraries:',
+      '      - ArduinoJson (7.0.0)',
+    ]
+
+    expect(contextAt(yaml.join('\n'))).toMatchObject({
+      path: ['profiles', 'esp32'],
+      kind: 'value',
+      key: 'fqbn',
+      item: false,
+      text: 'esp32:esp32:esp32:PSRAM=enabled',
+      start: 11,
+      end: 42,
+    })
+    expect(
+      contextAt(
+        yaml
+          .join('\n')
+          .replace('(3.0.0)', '(3.|0.0)')
+          .replace('en|abled', 'enabled')
+      )
+    ).toMatchObject({
+      path: ['profiles', 'esp32', 'platforms'],
+      kind: 'value',
+      key: 'platform',
+      item: true,
+      text: 'esp32:esp32 (3.0.0)',
+      siblings: new Map([
+        ['platform_index_url', 'https://example.com/index.json'],
+      ]),
+    })
+    expect(
+      contextAt(
+        yaml
+          .join('\n')
+          .replace('        platform_', '        |platform_')
+          .replace('en|abled', 'enabled')
+      )
+    ).toMatchObject({
+      path: ['profiles', 'esp32', 'platforms'],
+      kind: 'key',
+      item: true,
+      text: 'platform_index_url',
+      siblings: new Map([['platform', 'esp32:esp32 (3.0.0)']]),
+    })
+    expect(
+      contextAt(
+        yaml
+          .join('\n')
+          .replace('ArduinoJson', 'Arduino|Json')
+          .replace('en|abled', 'enabled')
+      )
+    ).toMatchObject({
+      path: ['profiles', 'esp32', 'libraries'],
+      kind: 'value',
+      key: undefined,
+      item: true,
+      text: 'ArduinoJson (7.0.0)',
+      start: 8,
+    })
+  })
+
+  it('resolves the items of the compact sequences and the new items', () => {
+    expect(
+      contextAt(
+        [
+          'profiles:',
+          '  uno:',
+          '    platforms:',
+          '    - platform: arduino:avr',
+          '    - |',
+        ].join('\n')
+      )
+    ).toMatchObject({
+      path: ['profiles', 'uno', 'platforms'],
+      kind: 'value',
+      key: undefined,
+      item: true,
+      text: '',
+      start: 6,
+    })
+  })
+
+  it('ignores the comments', () => {
+    expect(contextAt('profiles: # the |profiles')).toBeUndefined()
+  })
+})
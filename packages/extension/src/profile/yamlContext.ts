@@ -0,0 +1,207 @@
+/**
+ * The key or value under the cursor in a sketch project file (`sketch.yaml`).
+ * It is resolved from the indentation of the lines, so it works while the
+ * document is incomplete and does not parse.
+ */
+export interface ProfilesYamlContext {
+  /**
+   * The keys of the mappings containing the cursor. For example, `['profiles',
+   * 'uno', 'platforms']`.
+   */
+  readonly path: readonly string[]
+  /**
+   * `'key'` on the key of a pair, `'value'` on the value of a pair or on a
+   * scalar sequence item, such as a library.
+   */
+  readonly kind: 'key' | 'value'
+  /** The key of the pair of the value. `undefined` for the scalar items. */
+  readonly key?: string
+  /** `true` if the cursor is in a sequence item, such as a platform. */
+  readonly item: boolean
+  /** The key or the value without the quotes and the trailing comment. */
+  readonly text: string
+  /** Zero-based character of the start of `text` on the line. */
+  readonly start: number
+  /** Zero-based character of the end of `text` on the line. */
+  readonly end: number
+  /** The keys and values of the other pairs of the mapping of the cursor. */
+  readonly siblings: ReadonlyMap<string, string>
+}
+
+interface YamlLine {
+  readonly indent: number
+  readonly dash: boolean
+  /** The column of the key or the scalar, after the sequence dash. */
+  readonly column: number
+  readonly key?: string
+  readonly value: string
+  readonly valueStart: number
+  /** Zero-based character of the `#`, if the line has a comment. */
+  readonly commentStart?: number
+}
+
+const yamlLine =
+  /^(?<indent> *)(?<dash>-(?: +|$))?(?:(?<key>[^\s#'"-][^:#]*?) *:(?= |$))?(?<rest>.*)$/
+
+/**
+ * The context of the `character` on the `line`. `undefined` if the cursor is in
+ * a comment.
+ */
+export function profilesYamlContextAt(
+  lines: readonly string[],
+  line: number,
+  character: number
+): ProfilesYamlContext | undefined {
+  const lineText = lines[line] ?? ''
+  const current = parseYamlLine(lineText) ?? blankYamlLine(lineText)
+  if (current.commentStart !== undefined && character > current.commentStart) {
+    return undefined
+  }
+
+  const onKey =
+    current.key !== undefined
+      ? character <= current.column + current.key.length
+      : !current.dash
+  const kind = onKey ? 'key' : 'value'
+  let text = onKey ? (current.key ?? current.value) : current.value
+  let start = onKey
+    ? current.column
+    : current.key !== undefined || current.value
+      ? current.valueStart
+      : character
+  const quote = !onKey && /^['"]/.exec(text)?.[0]
+  if (quote) {
+    start++
+    text = text.slice(1)
+    if (text.endsWith(quote)) {
+      text = text.slice(0, -1)
+    }
+  }
+
+  const path: string[] = []
+  const siblings = new Map<string, string>()
+  let column = current.column
+  // The indentation of the dash of the sequence item of the current mapping
+  let itemIndent = current.dash ? current.indent : undefined
+  let contextItemIndent = itemIndent
+  let collecting = !current.dash
+  for (let index = line - 1; index >= 0; index--) {
+    const parsed = parseYamlLine(lines[index])
+    if (!parsed) {
+      continue
+    }
+    if (itemIndent === undefined && parsed.dash && parsed.column === column) {
+      // the first pair of the sequence item
+      if (collecting && !path.length && parsed.key !== undefined) {
+        siblings.set(parsed.key, parsed.value)
+      }
+      if (!path.length) {
+        contextItemIndent = parsed.indent
+      }
+      itemIndent = parsed.indent
+      collecting = false
+      continue
+    }
+    const isParent =
+      parsed.key !== undefined &&
+      !parsed.value &&
+      (itemIndent !== undefined
+        ? parsed.column <= itemIndent &&
+          !(parsed.dash && parsed.indent === itemIndent)
+        : parsed.column < column)
+    if (isParent && parsed.key !== undefined) {
+      path.unshift(parsed.key)
+      column = parsed.column
+      itemIndent = parsed.dash ? parsed.indent : undefined
+      collecting = false
+      if (!column && itemIndent === undefined) {
+        break
+      }
+      continue
+    }
+    if (
+      collecting &&
+      !parsed.dash &&
+      parsed.column === current.column &&
+      parsed.key !== undefined
+    ) {
+      siblings.set(parsed.key, parsed.value)
+    }
+  }
+
+  for (let index = line + 1; index < lines.length; index++) {
+    const parsed = parseYamlLine(lines[index])
+    if (!parsed) {
+      continue
+    }
+    if (parsed.column < current.column) {
+      break
+    }
+    if (parsed.dash) {
+      if (
+        contextItemIndent !== undefined &&
+        parsed.indent <= contextItemIndent
+      ) {
+        break
+      }
+      continue
+    }
+    if (parsed.column === current.column && parsed.key !== undefined) {
+      siblings.set(parsed.key, parsed.value)
+    }
+  }
+  if (current.key !== undefined) {
+    siblings.delete(current.key)
+  }
+
+  return {
+    path,
+    kind,
+    key: onKey ? undefined : current.key,
+    item: contextItemIndent !== undefined,
+    text,
+    start,
+    end: start + text.length,
+    siblings,
+  }
+}
+
+function parseYamlLine(text: string): YamlLine | undefined {
+  if (!text.trim() || text.trimStart().startsWith('#')) {
+    return undefined
+  }
+  const groups = yamlLine.exec(text.replace(/\t/g, ' '))?.groups
+  if (!groups) {
+    return undefined
+  }
+  const indent = groups.indent.length
+  const dash = groups.dash !== undefined
+  const column = indent + (groups.dash?.length ?? 0)
+  const restStart = text.length - groups.rest.length
+  const comment = /(?:^|\s)#/.exec(groups.rest)
+  const commentStart = comment
+    ? restStart + comment.index + comment[0].indexOf('#')
+    : undefined
+  const rest = comment ? groups.rest.slice(0, comment.index) : groups.rest
+  const value = rest.trim()
+  return {
+    indent,
+    dash,
+    column,
+    key: groups.key?.trim(),
+    value,
+    valueStart: restStart + (rest.length - rest.trimStart().length),
+    commentStart,
+  }
+}
+
+function blankYamlLine(text: string): YamlLine {
+  const indent = text.length - text.trimStart().length
+  return {
+    indent,
+    dash: false,
+    column: indent,
+    value: '',
+    valueStart: indent,
+  }
+}
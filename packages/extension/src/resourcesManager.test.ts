@@ -0,0 +1,108 @@
+import * as vscode from 'vscode'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  installWithOverwrite,
+  isAlreadyInstalledError,
+  parseGitLibraryUrl,
+} from './resourcesManager'
+
+describe('resourcesManager', () => {
+  describe('parseGitLibraryUrl', () => {
+    it('derives the library name and the ref', () => {
+      expect(
+        parseGitLibraryUrl('https://github.com/owner/MyLib.git#v1.0.0')
+      ).toEqual({ name: 'MyLib', ref: 'v1.0.0' })
+      expect(parseGitLibraryUrl(' https://github.com/owner/MyLib/ ')).toEqual({
+        name: 'MyLib',
+      })
+      expect(parseGitLibraryUrl('git@github.com:owner/MyLib.git')).toEqual({
+        name: 'MyLib',
+      })
+      expect(parseGitLibraryUrl('file:///home/user/MyLib#main')).toEqual({
+        name: 'MyLib',
+        ref: 'main',
+      })
+    })
+
+    it('rejects the text that is not a git URL', () => {
+      expect(parseGitLibraryUrl('MyLib')).toBeUndefined()
+      expect(parseGitLibraryUrl('/home/user/MyLib')).toBeUndefined()
+      expect(parseGitLibraryUrl('https://')).toBeUndefined()
+    })
+  })
+
+  describe('isAlreadyInstalledError', () => {
+    it('matches the CLI error of the installed library', () => {
+      expect(
+        isAlreadyInstalledError(new Error('Library MyLib is already installed'))
+      ).toBe(true)
+      expect(isAlreadyInstalledError('ALREADY INSTALLED')).toBe(true)
+      expect(isAlreadyInstalledError(new Error('Library not found'))).toBe(
+        false
+      )
+    })
+  })
+
+  describe('installWithOverwrite', () => {
+    const alreadyInstalled = new Error('Library MyLib is already installed')
+
+    beforeEach(() => {
+      Object.defineProperty(vscode, 'window', {
+        configurable: true,
+        writable: true,
+        value: { showWarningMessage: vi.fn() },
+      })
+    })
+
+    afterEach(() => {
+      // @ts-ignore
+      delete vscode.window
+    })
+
+    it('overwrites the installed library when confirmed', async () => {
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce(
+        'Overwrite' as any
+      )
+      const install = vi
+        .fn<(overwrite: boolean) => Promise<void>>()
+        .mockRejectedValueOnce(alreadyInstalled)
+        .mockResolvedValueOnce()
+
+      await installWithOverwrite('MyLib', install)
+
+      expect(install.mock.calls).toEqual([[false], [true]])
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'Install Library',
+        expect.objectContaining({ modal: true }),
+        'Overwrite'
+      )
+    })
+
+    it('keeps the installed library when canceled', async () => {
+      vi.mocked(vscode.window.showWarningMessage).mockResolvedValueOnce(
+        undefined
+      )
+      const install = vi.fn(async (overwrite: boolean) => {
+        if (!overwrite) {
+          throw alreadyInstalled
+        }
+      })
+
+      await installWithOverwrite('MyLib', install)
+
+      expect(install.mock.calls).toEqual([[false]])
+    })
+
+    it('rethrows the other errors without asking', async () => {
+      const install = vi.fn(async () => {
+        throw new Error('Invalid archive')
+      })
+
+      await expect(installWithOverwrite('MyLib', install)).rejects.toThrow(
+        'Invalid archive'
+      )
+      expect(vscode.window.showWarningMessage).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -1,12 +1,15 @@
+import path from 'node:path'
+
 import type {
+  GitLibraryInstallResponse,
   Library,
-  LibraryDependencyStatus,
   LibraryInstallResponse,
   LibraryUninstallResponse,
   PlatformInstallResponse,
   PlatformUninstallResponse,
+  ZipLibraryInstallResponse,
 } from 'ardunno-cli'
-import { ClientError, Status } from 'nice-grpc-common'
+import { ClientError } from 'nice-grpc-common'
 import defer from 'p-defer'
 import { compareLoose } from 'semver'
 import * as vscode from 'vscode'
@@ -56,6 +59,10 @@ import {
 
 import type { BoardLabContext } from './boardlabContext'
 import type { Arduino } from './cli/arduino'
+import {
+  confirmLibraryDependencies,
+  resolveLibraryDependencies,
+} from './libraryDependencies'
 import { disposeAll } from './utils'
 
 interface ResourceManagerToolbarParam {
@@ -192,13 +199,22 @@ abstract class ResourcesManager<
     if (!shouldProceed) {
       return
     }
+    return this.runInstall(params, (arduino, signal) =>
+      this.doInstall(params, arduino, signal)
+    )
+  }
+
+  protected async runInstall(
+    params: InstallResourceParams,
+    task: (
+      arduino: Arduino,
+      signal: AbortSignal
+    ) => AsyncIterable<InstallResponse>
+  ): Promise<void> {
     const arduino = await this.arduino()
     this.fireWillInstall(params)
     try {
-      await modifyInstallation(
-        (signal) => this.doInstall(params, arduino, signal),
-        params.name
-      )
+      await modifyInstallation((signal) => task(arduino, signal), params.name)
       this.fireDidInstall(params)
     } catch (reason) {
       this.fireDidErrorInstall(params, reason)
@@ -206,6 +222,59 @@ abstract class ResourcesManager<
     }
   }
 
+  /**
+   * Installs the version without the confirmation and the progress notification
+   * of `install`, for example, when updating all resources. The caller reports
+   * the progress.
+   */
+  async update(
+    params: InstallResourceParams,
+    options: { signal?: AbortSignal; onProgress?: (message: string) => void }
+  ): Promise<void> {
+    const { signal = new AbortController().signal, onProgress } = options
+    const arduino = await this.arduino()
+    this.fireWillInstall(params)
+    try {
+      for await (const resp of this.doInstall(params, arduino, signal)) {
+        if (resp.message?.$case === 'taskProgress') {
+          const { name, message } = resp.message.taskProgress
+          if (name || message) {
+            onProgress?.(name || message)
+          }
+        }
+      }
+      this.fireDidInstall(params)
+    } catch (reason) {
+      this.fireDidErrorInstall(params, reason)
+      throw reason
+    }
+  }
+
+  /** The installed resources with a newer version available. */
+  async updatable(signal?: AbortSignal): Promise<T[]> {
+    const arduino = await this.arduino()
+    const updatable: SearchFilterParams = { type: 'Updatable' }
+    const filter = updatable as F
+    return this.doSearch({ query: '', filter }, arduino, signal)
+  }
+
+  /** The installed resources. */
+  async installed(signal?: AbortSignal): Promise<T[]> {
+    const resources = await this.find('', signal)
+    return resources.filter(installedResource)
+  }
+
+  /**
+   * The installed and indexed resources matching the query. Unlike `search`, it
+   * does not show the progress in the webview.
+   */
+  async find(query: string, signal?: AbortSignal): Promise<T[]> {
+    const arduino = await this.arduino()
+    const all: SearchFilterParams = { type: 'All' }
+    const filter = all as F
+    return this.doSearch({ query, filter }, arduino, signal)
+  }
+
   protected async confirmUninstall(
     _params: UninstallResourceParams
   ): Promise<boolean> {
@@ -335,7 +404,12 @@ abstract class ResourcesManager<
   }
 }
 
-export class LibrariesManager extends ResourcesManager {
+interface LibraryInstallParams extends InstallResourceParams {
+  /** Installs the library without its dependencies. */
+  readonly noDeps?: boolean
+}
+
+export class LibrariesManager extends ResourcesManager<ProtocolLibrary> {
   private _installedVersions: Map<string, string> | undefined
   constructor(
     boardlabContext: BoardLabContext,
@@ -398,7 +472,17 @@ export class LibrariesManager extends ResourcesManager {
         'boardlab.updateLibrary',
         (_resource, version) => version ?? _resource.availableVersions[0]
       ),
-      registerUninstallCommand('boardlab.uninstallLibrary')
+      registerUninstallCommand('boardlab.uninstallLibrary'),
+      vscode.commands.registerCommand(
+        'boardlab.installLibraryFromZip',
+        (params: { path?: string } | undefined) =>
+          this.installFromZip(params?.path)
+      ),
+      vscode.commands.registerCommand(
+        'boardlab.installLibraryFromGit',
+        (params: { url?: string } | undefined) =>
+          this.installFromGit(params?.url)
+      )
     )
     if (messenger) {
       this.toDispose.push(
@@ -447,6 +531,78 @@ export class LibrariesManager extends ResourcesManager {
     )
   }
 
+  /**
+   * Installs a library from a ZIP archive. Prompts for the archive when the
+   * path is missing.
+   */
+  async installFromZip(archivePath?: string): Promise<void> {
+    if (!archivePath) {
+      const uris = await vscode.window.showOpenDialog({
+        title: 'Install Library from ZIP',
+        openLabel: 'Install',
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: { 'ZIP Archives': ['zip'] },
+      })
+      archivePath = uris?.[0]?.fsPath
+    }
+    if (!archivePath) {
+      return
+    }
+    const zipPath = archivePath
+    const name = path.basename(zipPath, path.extname(zipPath))
+    return this.installFromSource(
+      { id: name, name, version: '' },
+      (arduino, signal, overwrite) =>
+        arduino.installLibraryFromZip({ path: zipPath, overwrite }, signal)
+    )
+  }
+
+  /**
+   * Installs a library from a git repository. Prompts for the URL when it's
+   * missing.
+   */
+  async installFromGit(url?: string): Promise<void> {
+    if (!url) {
+      url = await vscode.window.showInputBox({
+        title: 'Install Library from Git',
+        prompt:
+          'Enter the URL of the git repository. Append #<ref> to install a tag, branch, or commit.',
+        placeHolder: 'https://github.com/owner/library.git#v1.0.0',
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          parseGitLibraryUrl(value) ? undefined : 'Enter a valid git URL',
+      })
+    }
+    const gitUrl = url?.trim()
+    const parsed = gitUrl ? parseGitLibraryUrl(gitUrl) : undefined
+    if (!gitUrl || !parsed) {
+      return
+    }
+    const { name, ref } = parsed
+    return this.installFromSource(
+      { id: name, name, version: ref ?? '' },
+      (arduino, signal, overwrite) =>
+        arduino.installLibraryFromGit({ url: gitUrl, overwrite }, signal)
+    )
+  }
+
+  private async installFromSource(
+    params: InstallResourceParams,
+    task: (
+      arduino: Arduino,
+      signal: AbortSignal,
+      overwrite: boolean
+    ) => AsyncIterable<InstallResponse>
+  ): Promise<void> {
+    return installWithOverwrite(params.name, (overwrite) =>
+      this.runInstall(params, (arduino, signal) =>
+        task(arduino, signal, overwrite)
+      )
+    )
+  }
+
   override doNotifyIndexUpdated(): void {
     if (this.webviewType) {
       this.messenger?.sendNotification(didUpdateLibrariesIndex, {
@@ -462,8 +618,7 @@ export class LibrariesManager extends ResourcesManager {
     signal: AbortSignal
   ): AsyncIterable<InstallResponse> {
     const { id, version } = params
-    // TODO: define extended type of InstallResourceParams for libs
-    const noDeps = 'noDeps' in params && params.noDeps === true
+    const noDeps = (params as LibraryInstallParams).noDeps === true
     return arduino.installLibrary({ name: id, version, noDeps }, signal)
   }
 
@@ -620,30 +775,14 @@ export class LibrariesManager extends ResourcesManager {
   ): Promise<InstallResourceParams | undefined> {
     const label = params.name || params.id
     const arduino = await this.arduino()
-    const response = await arduino
-      .resolveLibraryDependencies({
-        name: params.id,
-        version: params.version,
-        doNotUpdateInstalledLibraries: true,
-      })
-      .catch((err) => {
-        if (err instanceof ClientError) {
-          // With doNotUpdateInstalledLibraries: true for example when updating ArduinoJson from 7.4.0 to 7.4.2
-          if (err.code === Status.FAILED_PRECONDITION) {
-            return { dependencies: [] as LibraryDependencyStatus[] }
-          }
-        }
-        throw err
-      })
-    const dependencies = (response.dependencies ?? []).filter(
-      (dep) => dep.name !== params.id
-    )
-
-    const missingDependencies = dependencies.filter(
-      (dep) => !dep.versionInstalled
+    const dependencies = await resolveLibraryDependencies(
+      arduino,
+      params.id,
+      params.version,
+      { keepInstalled: true }
     )
-
-    if (!missingDependencies.length) {
+    // Nothing to install besides the library
+    if (dependencies.every(({ state }) => state === 'installed')) {
       const answer = await vscode.window.showInformationMessage(
         'Install Library',
         {
@@ -655,48 +794,20 @@ export class LibrariesManager extends ResourcesManager {
       return answer === 'Install' ? params : undefined
     }
 
-    const detailsLines: string[] = []
-    if (missingDependencies.length === 1) {
-      const dep = missingDependencies[0]
-      detailsLines.push(
-        `The library '${label}:${params.version}' needs another dependency currently not installed:`
-      )
-      detailsLines.push(`- ${dep.name} (${dep.versionRequired})`)
-      detailsLines.push('', 'Would you like to install the missing dependency?')
-    } else if (missingDependencies.length > 1) {
-      detailsLines.push(
-        `The library '${label}:${params.version}' needs some other dependencies currently not installed:`
-      )
-      for (const dep of missingDependencies) {
-        detailsLines.push(`- ${dep.name} (${dep.versionRequired})`)
-      }
-      detailsLines.push(
-        '',
-        'Would you like to install all the missing dependencies?'
-      )
-    }
-
-    const detail = detailsLines.join('\n')
-
-    const answer = await vscode.window.showInformationMessage(
-      'Install Library',
-      {
-        modal: true,
-        detail,
-      },
-      'Install All',
-      `Install ${params.name} only`
+    const choice = await confirmLibraryDependencies(
+      label,
+      params.version,
+      dependencies,
+      'install'
     )
-
-    if (!answer) {
+    if (!choice) {
       return undefined
     }
-
-    if (answer === 'Install All') {
+    if (choice === 'all') {
       return params
     }
-
-    return Object.assign(params, { noDep: true }) // It's a hack
+    const onlyLibrary: LibraryInstallParams = { ...params, noDeps: true }
+    return onlyLibrary
   }
 
   protected override async confirmUninstall(
@@ -1141,7 +1252,11 @@ function sortComponents<T extends Resource = Resource>(
     })
 }
 
-type InstallResponse = LibraryInstallResponse | PlatformInstallResponse
+type InstallResponse =
+  | LibraryInstallResponse
+  | ZipLibraryInstallResponse
+  | GitLibraryInstallResponse
+  | PlatformInstallResponse
 type UninstallResponse = LibraryUninstallResponse | PlatformUninstallResponse
 
 async function modifyInstallation<
@@ -1252,6 +1367,71 @@ async function modifyInstallation<
   }
 }
 
+/**
+ * Derives the library name from the repository name and extracts the optional
+ * `#ref`. Resolves to `undefined` if `url` does not look like a git URL.
+ */
+export function parseGitLibraryUrl(
+  url: string
+): { name: string; ref?: string } | undefined {
+  const trimmed = url.trim()
+  if (
+    !/^(https?:\/\/|ssh:\/\/|git:\/\/|file:\/\/|[\w.-]+@[\w.-]+:)/.test(trimmed)
+  ) {
+    return undefined
+  }
+  const [location, ref] = trimmed.split('#', 2)
+  const name = location
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+    .split(/[/:]/)
+    .pop()
+  if (!name) {
+    return undefined
+  }
+  return ref ? { name, ref } : { name }
+}
+
+/**
+ * The CLI rejects the ZIP and git installs when the library is already
+ * installed. Asks the user to overwrite it and retries.
+ */
+export async function installWithOverwrite(
+  name: string,
+  install: (overwrite: boolean) => Promise<void>
+): Promise<void> {
+  try {
+    await install(false)
+  } catch (err) {
+    if (!isAlreadyInstalledError(err)) {
+      throw err
+    }
+    const overwrite = 'Overwrite'
+    const answer = await vscode.window.showWarningMessage(
+      'Install Library',
+      {
+        modal: true,
+        detail: `The '${name}' library is already installed. Do you want to overwrite it?`,
+      },
+      overwrite
+    )
+    if (answer !== overwrite) {
+      return
+    }
+    await install(true)
+  }
+}
+
+export function isAlreadyInstalledError(err: unknown): boolean {
+  const message =
+    err instanceof ClientError
+      ? err.details
+      : err instanceof Error
+        ? err.message
+        : String(err)
+  return /already installed/i.test(message)
+}
+
 export const installedResource = <T extends Resource>({
   installedVersion,
 }: T): boolean => {
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type * as vscode from 'vscode'
+
+import {
+  BuildSizeHistory,
+  formatDelta,
+  formatSectionSize,
+  sectionDelta,
+  sectionsCrossingThreshold,
+  type BuildSizeRecord,
+} from './buildSize'
+
+function createMemento(): vscode.Memento {
+  const values = new Map<string, unknown>()
+  return {
+    keys: () => Array.from(values.keys()),
+    get: <T>(key: string, defaultValue?: T) =>
+      (values.has(key) ? values.get(key) : defaultValue) as T,
+    update: async (key: string, value: unknown) => {
+      values.set(key, value)
+    },
+  }
+}
+
+function build(
+  fqbn: string,
+  timestamp: number,
+  text: number,
+  data = 9
+): BuildSizeRecord {
+  return {
+    fqbn,
+    timestamp,
+    sections: [
+      { name: 'text', size: text, maxSize: 32256 },
+      { name: 'data', size: data, maxSize: 2048 },
+    ],
+  }
+}
+
+describe('buildSize', () => {
+  describe('BuildSizeHistory', () => {
+    it('keeps the recent builds per sketch and FQBN', async () => {
+      const history = new BuildSizeHistory(createMemento(), 2)
+      await history.add(build('arduino:avr:uno', 1, 100), '/Blink')
+      await history.add(build('arduino:avr:uno', 2, 200), '/Blink')
+      await history.add(build('arduino:avr:uno', 3, 300), '/Blink')
+      await history.add(build('arduino:avr:nano', 4, 400), '/Blink')
+
+      expect(
+        history
+          .get('/Blink', 'arduino:avr:uno')
+          .map(({ timestamp }) => timestamp)
+      ).toEqual([2, 3])
+      expect(history.get('/Other', 'arduino:avr:uno')).toEqual([])
+    })
+
+    it('finds the latest build of the same board', async () => {
+      const history = new BuildSizeHistory(createMemento())
+      await history.add(build('arduino:avr:nano:cpu=atmega328', 1, 100), '/B')
+      await history.add(build('arduino:avr:uno', 2, 200), '/B')
+
+      expect(history.latest('/B')?.fqbn).toBe('arduino:avr:uno')
+      expect(
+        history.latest('/B', 'arduino:avr:nano:cpu=atmega328old')?.fqbn
+      ).toBe('arduino:avr:nano:cpu=atmega328')
+      expect(history.latest('/B', 'esp32:esp32:esp32')).toBeUndefined()
+    })
+
+    it('clears the history of the sketch', async () => {
+      const history = new BuildSizeHistory(createMemento())
+      await history.add(build('arduino:avr:uno', 1, 100), '/A')
+      await history.add(build('arduino:avr:uno', 1, 100), '/B')
+      await history.clear('/A')
+
+      expect(history.latest('/A')).toBeUndefined()
+      expect(history.latest('/B')).toBeDefined()
+    })
+  })
+
+  it('computes the change since the previous build', () => {
+    const previous = build('arduino:avr:uno', 1, 900)
+    const current = build('arduino:avr:uno', 2, 924)
+
+    expect(sectionDelta('text', current, previous)).toBe(24)
+    expect(sectionDelta('text', current, undefined)).toBeUndefined()
+    expect(formatDelta(24)).toBe('+24 B')
+    expect(formatDelta(-8)).toBe('-8 B')
+    expect(formatDelta(0)).toBe('')
+  })
+
+  it('formats the used and the max size', () => {
+    expect(formatSectionSize({ name: 'text', size: 924, maxSize: 32256 })).toBe(
+      '924 / 32256 B (3%)'
+    )
+    expect(formatSectionSize({ name: 'bss', size: 12, maxSize: 0 })).toBe(
+      '12 B'
+    )
+  })
+
+  describe('sectionsCrossingThreshold', () => {
+    it('reports the sections that crossed the threshold', () => {
+      const previous = build('arduino:avr:uno', 1, 28000)
+      const current = build('arduino:avr:uno', 2, 30000, 1900)
+
+      expect(
+        sectionsCrossingThreshold(current, previous, 90).map(({ name }) => name)
+      ).toEqual(['text', 'data'])
+      expect(sectionsCrossingThreshold(current, current, 90)).toEqual([])
+      expect(sectionsCrossingThreshold(current, previous, 0)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import type { ExecutableSectionSize } from 'ardunno-cli/api'
+import { FQBN, valid as isValidFQBN } from 'fqbn'
+import type * as vscode from 'vscode'
+
+export interface BuildSizeRecord {
+  readonly fqbn: string
+  /** Milliseconds since the epoch. */
+  readonly timestamp: number
+  readonly sections: readonly ExecutableSectionSize[]
+}
+
+/** Sketch path to FQBN to the builds, the most recent last. */
+type BuildSizeHistoryData = Record<string, Record<string, BuildSizeRecord[]>>
+
+const buildSizeHistoryKey = 'boardlab.buildSizeHistory'
+
+/** Keeps the section sizes of the recent builds per sketch and FQBN. */
+export class BuildSizeHistory {
+  constructor(
+    private readonly memento: vscode.Memento,
+    private readonly limit = 20
+  ) {}
+
+  /** The builds of the sketch for the FQBN, the most recent last. */
+  get(sketchPath: string, fqbn: string): readonly BuildSizeRecord[] {
+    return this.data()[sketchPath]?.[fqbn] ?? []
+  }
+
+  /**
+   * The most recent build of the sketch. When `fqbn` is present, only the
+   * builds of the same board are considered, regardless of the config options.
+   */
+  latest(sketchPath: string, fqbn?: string): BuildSizeRecord | undefined {
+    const board = fqbn ? boardOf(fqbn) : undefined
+    let latest: BuildSizeRecord | undefined
+    for (const [recordFqbn, records] of Object.entries(
+      this.data()[sketchPath] ?? {}
+    )) {
+      if (board && boardOf(recordFqbn) !== board) {
+        continue
+      }
+      const candidate = records[records.length - 1]
+      if (candidate && (!latest || candidate.timestamp > latest.timestamp)) {
+        latest = candidate
+      }
+    }
+    return latest
+  }
+
+  async add(record: BuildSizeRecord, sketchPath: string): Promise<void> {
+    const data = this.data()
+    const records = [...(data[sketchPath]?.[record.fqbn] ?? []), record]
+    await this.memento.update(buildSizeHistoryKey, {
+      ...data,
+      [sketchPath]: {
+        ...data[sketchPath],
+        [record.fqbn]: records.slice(-this.limit),
+      },
+    })
+  }
+
+  async clear(sketchPath: string): Promise<void> {
+    const { [sketchPath]: _, ...data } = this.data()
+    await this.memento.update(buildSizeHistoryKey, data)
+  }
+
+  private data(): BuildSizeHistoryData {
+    return this.memento.get<BuildSizeHistoryData>(buildSizeHistoryKey) ?? {}
+  }
+}
+
+function boardOf(fqbn: string): string {
+  return isValidFQBN(fqbn) ? new FQBN(fqbn).sanitize().toString() : fqbn
+}
+
+/** Flash is the `text` section, RAM is the `data` section. */
+export function sectionLabel(name: string): string {
+  switch (name) {
+    case 'text':
+      return 'Flash'
+    case 'data':
+      return 'RAM'
+    default:
+      return name
+  }
+}
+
+/** Resolves to `undefined` when the section has no maximum size. */
+export function sectionUsage(
+  section: Pick<ExecutableSectionSize, 'size' | 'maxSize'>
+): number | undefined {
+  return section.maxSize > 0
+    ? (section.size / section.maxSize) * 100
+    : undefined
+}
+
+/** The size change of the section since the previous build in bytes. */
+export function sectionDelta(
+  name: string,
+  current: BuildSizeRecord,
+  previous: BuildSizeRecord | undefined
+): number | undefined {
+  const before = previous?.sections.find((section) => section.name === name)
+  const after = current.sections.find((section) => section.name === name)
+  return before && after ? after.size - before.size : undefined
+}
+
+export function formatSectionSize(section: ExecutableSectionSize): string {
+  const usage = sectionUsage(section)
+  return usage === undefined
+    ? `${section.size} B`
+    : `${section.size} / ${section.maxSize} B (${Math.round(usage)}%)`
+}
+
+export function formatDelta(delta: number | undefined): string {
+  if (!delta) {
+    return ''
+  }
+  return delta > 0 ? `+${delta} B` : `${delta} B`
+}
+
+/**
+ * The sections that reached the `threshold` percent of their maximum size with
+ * the current build but not with the previous one. A `threshold` of `0`
+ * disables the check.
+ */
+export function sectionsCrossingThreshold(
+  current: BuildSizeRecord,
+  previous: BuildSizeRecord | undefined,
+  threshold: number
+): ExecutableSectionSize[] {
+  if (threshold <= 0) {
+    return []
+  }
+  const exceeds = (section: ExecutableSectionSize | undefined) => {
+    const usage = section ? sectionUsage(section) : undefined
+    return usage !== undefined && usage >= threshold
+  }
+  return current.sections.filter(
+    (section) =>
+      exceeds(section) &&
+      !exceeds(previous?.sections.find(({ name }) => name === section.name))
+  )
+}
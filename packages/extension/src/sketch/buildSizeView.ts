@@ -0,0 +1,267 @@
+import path from 'node:path'
+
+import type { ExecutableSectionSize } from 'ardunno-cli/api'
+import vscode from 'vscode'
+import type { SketchFolder } from 'vscode-arduino-api'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import {
+  BuildSizeHistory,
+  formatDelta,
+  formatSectionSize,
+  sectionDelta,
+  sectionLabel,
+  sectionsCrossingThreshold,
+  sectionUsage,
+  type BuildSizeRecord,
+} from './buildSize'
+
+/**
+ * Shows the section sizes of the last build of the current sketch, the change
+ * since the previous build, and the recent builds for the same FQBN. The builds
+ * with debug symbols are not recorded.
+ */
+export class BuildSizeView implements vscode.Disposable {
+  private readonly history: BuildSizeHistory
+  private readonly treeDataProvider: BuildSizeViewDataProvider
+  private readonly treeView: vscode.TreeView<vscode.TreeItem>
+  private readonly toDispose: vscode.Disposable[]
+  /** The FQBN of the last build per sketch in this session. */
+  private readonly lastBuildFqbns = new Map<string, string>()
+
+  constructor(
+    private readonly boardlabContext: BoardLabContextImpl,
+    memento: vscode.Memento
+  ) {
+    this.history = new BuildSizeHistory(memento)
+    this.treeDataProvider = new BuildSizeViewDataProvider(() =>
+      this.currentBuild()
+    )
+    this.treeView = vscode.window.createTreeView('boardlab.buildSize', {
+      treeDataProvider: this.treeDataProvider,
+    })
+    this.toDispose = [
+      this.treeView,
+      this.treeDataProvider,
+      boardlabContext.onDidChangeSketch(({ object, changedProperties }) => {
+        if (changedProperties.includes('compileSummary')) {
+          this.record(object)
+        } else if (
+          changedProperties.includes('board') &&
+          object.sketchPath === boardlabContext.currentSketch?.sketchPath
+        ) {
+          this.refresh()
+        }
+      }),
+      boardlabContext.onDidChangeCurrentSketch(() => this.refresh()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('boardlab.buildSize')) {
+          this.refresh()
+        }
+      }),
+      vscode.commands.registerCommand(
+        'boardlab.buildSize.clearHistory',
+        async () => {
+          const sketchPath = boardlabContext.currentSketch?.sketchPath
+          if (sketchPath) {
+            await this.history.clear(sketchPath)
+            this.refresh()
+          }
+        }
+      ),
+    ]
+    this.refresh()
+  }
+
+  dispose(): void {
+    vscode.Disposable.from(...this.toDispose).dispose()
+  }
+
+  private async record(sketch: SketchFolder): Promise<void> {
+    const summary = sketch.compileSummary
+    const fqbn = summary?.buildProperties['build.fqbn'] ?? sketch.board?.fqbn
+    if (!summary?.executableSectionsSize.length || !fqbn) {
+      return
+    }
+    const { sketchPath } = sketch
+    // The debug builds are not optimized for size and would skew the history
+    if (
+      this.boardlabContext.getCompileSummaryOrigin(sketchPath)?.optimizeForDebug
+    ) {
+      return
+    }
+    const builds = this.history.get(sketchPath, fqbn)
+    const previous = builds[builds.length - 1]
+    const current: BuildSizeRecord = {
+      fqbn,
+      timestamp: Date.now(),
+      sections: summary.executableSectionsSize,
+    }
+    await this.history.add(current, sketchPath)
+    this.lastBuildFqbns.set(sketchPath, fqbn)
+    if (sketchPath === this.boardlabContext.currentSketch?.sketchPath) {
+      this.refresh()
+    }
+
+    const crossed = sectionsCrossingThreshold(
+      current,
+      previous,
+      warningThreshold()
+    )
+    if (crossed.length) {
+      const usages = crossed
+        .map(
+          (section) =>
+            `${sectionLabel(section.name)} ${Math.round(sectionUsage(section) ?? 0)}%`
+        )
+        .join(', ')
+      vscode.window.showWarningMessage(
+        `${path.basename(sketchPath)} is running out of memory on ${fqbn}: ${usages}.`
+      )
+    }
+  }
+
+  private currentBuild():
+    | { current: BuildSizeRecord; builds: readonly BuildSizeRecord[] }
+    | undefined {
+    const sketch = this.boardlabContext.currentSketch
+    if (!sketch) {
+      return undefined
+    }
+    const { sketchPath } = sketch
+    const lastBuildFqbn = this.lastBuildFqbns.get(sketchPath)
+    const current = lastBuildFqbn
+      ? this.history.latest(sketchPath, lastBuildFqbn)
+      : (this.history.latest(sketchPath, sketch.board?.fqbn) ??
+        this.history.latest(sketchPath))
+    if (!current) {
+      return undefined
+    }
+    return { current, builds: this.history.get(sketchPath, current.fqbn) }
+  }
+
+  private refresh(): void {
+    const build = this.currentBuild()
+    this.treeView.description = build?.current.fqbn ?? ''
+    this.treeView.message = build
+      ? undefined
+      : 'Compile the current sketch to see the size of its sections.'
+    this.treeDataProvider.refresh()
+  }
+}
+
+function warningThreshold(): number {
+  return (
+    vscode.workspace
+      .getConfiguration('boardlab.buildSize')
+      .get<number>('warningThreshold') ?? 90
+  )
+}
+
+class BuildSizeViewDataProvider
+  implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable
+{
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+
+  constructor(
+    private readonly currentBuild: () =>
+      | { current: BuildSizeRecord; builds: readonly BuildSizeRecord[] }
+      | undefined
+  ) {}
+
+  get onDidChangeTreeData(): vscode.Event<void> {
+    return this._onDidChange.event
+  }
+
+  refresh(): void {
+    this._onDidChange.fire()
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+    if (element instanceof HistoryTreeItem) {
+      return element.builds
+        .slice()
+        .reverse()
+        .map((build) => new BuildTreeItem(build))
+    }
+    if (element) {
+      return []
+    }
+    const build = this.currentBuild()
+    if (!build) {
+      return []
+    }
+    const { current, builds } = build
+    const previous = builds[builds.length - 2]
+    const items: vscode.TreeItem[] = current.sections.map(
+      (section) =>
+        new SectionTreeItem(
+          section,
+          sectionDelta(section.name, current, previous),
+          warningThreshold()
+        )
+    )
+    if (builds.length > 1) {
+      items.push(new HistoryTreeItem(builds))
+    }
+    return items
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose()
+  }
+}
+
+class SectionTreeItem extends vscode.TreeItem {
+  constructor(
+    section: ExecutableSectionSize,
+    delta: number | undefined,
+    threshold: number
+  ) {
+    super(sectionLabel(section.name))
+    const usage = sectionUsage(section)
+    const exceeds = threshold > 0 && usage !== undefined && usage >= threshold
+    const change = formatDelta(delta)
+    this.description = [formatSectionSize(section), change]
+      .filter(Boolean)
+      .join(' • ')
+    this.iconPath = exceeds
+      ? new vscode.ThemeIcon(
+          'warning',
+          new vscode.ThemeColor('list.warningForeground')
+        )
+      : new vscode.ThemeIcon('dashboard')
+    this.tooltip = new vscode.MarkdownString(
+      [
+        `**${sectionLabel(section.name)}** (\`${section.name}\`)`,
+        `Used: ${section.size} bytes`,
+        section.maxSize ? `Maximum: ${section.maxSize} bytes` : undefined,
+        change ? `Change since the previous build: ${change}` : undefined,
+        exceeds ? `Usage is above ${threshold}%` : undefined,
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+    )
+  }
+}
+
+class HistoryTreeItem extends vscode.TreeItem {
+  constructor(readonly builds: readonly BuildSizeRecord[]) {
+    super('History', vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = `${builds.length} builds`
+    this.iconPath = new vscode.ThemeIcon('history')
+  }
+}
+
+class BuildTreeItem extends vscode.TreeItem {
+  constructor(build: BuildSizeRecord) {
+    super(new Date(build.timestamp).toLocaleString())
+    this.description = build.sections
+      .map((section) => `${sectionLabel(section.name)} ${section.size} B`)
+      .join(' • ')
+  }
+}
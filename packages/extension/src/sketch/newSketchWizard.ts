@@ -1,11 +1,28 @@
 import { promises as fs } from 'node:fs'
+import * as os from 'node:os'
 import * as path from 'node:path'
 
+import { isBoardIdentifier } from 'boards-list'
 import * as vscode from 'vscode'
 
 import type { BoardLabContextImpl } from '../boardlabContext'
 import { copySketchFolder, renameMainSketchFile } from './sketchImport'
 import { defaultSketchFolderName, validateSketchFolderName } from './sketchName'
+import {
+  automaticTemplateValues,
+  builtinSketchTemplates,
+  createSketchTemplateProfile,
+  findSketchTemplates,
+  readSketchTemplateFiles,
+  renderSketchTemplate,
+  sketchTemplateVariables,
+  workspaceSketchTemplatesFolder,
+  writeSketchTemplateFiles,
+  type SketchTemplate,
+  type SketchTemplateFile,
+  type SketchTemplateSource,
+  type SketchTemplateVariable,
+} from './sketchTemplates'
 import type { Resource as SketchResource, Sketch } from './types'
 import {
   isFolder as isSketchbookFolder,
@@ -15,6 +32,8 @@ import {
 export interface NewSketchParams {
   destinationFolder?: string
   sketchName?: string
+  /** The ID of the sketch template, for example, `builtin:blank`. */
+  template?: string
 }
 
 export interface AddSketchFolderArgs {
@@ -33,6 +52,11 @@ export async function openNewSketchWizard(
   boardlabContext: BoardLabContextImpl,
   params: NewSketchParams = {}
 ): Promise<void> {
+  const template = await resolveSketchTemplate(params.template)
+  if (!template) {
+    return
+  }
+
   const destinationFolder = await resolveSketchDestination(
     boardlabContext,
     params.destinationFolder
@@ -47,7 +71,7 @@ export async function openNewSketchWizard(
     return
   }
 
-  await createSketch(boardlabContext, destinationFolder, sketchName)
+  await createSketch(boardlabContext, destinationFolder, sketchName, template)
 }
 
 export async function openSketch(
@@ -148,6 +172,172 @@ export async function cloneSketch(
   )
 }
 
+const templateSourceLabels: Record<SketchTemplateSource, string> = {
+  workspace: 'Workspace',
+  user: 'User',
+  builtin: 'Built-in',
+}
+
+async function resolveSketchTemplate(
+  templateId?: string
+): Promise<SketchTemplate | undefined> {
+  const templates = await loadSketchTemplates()
+  if (templateId) {
+    const template = templates.find(({ id }) => id === templateId)
+    if (!template) {
+      vscode.window.showErrorMessage(`Sketch template not found: ${templateId}`)
+    }
+    return template
+  }
+
+  const items: Array<vscode.QuickPickItem & { template?: SketchTemplate }> = []
+  let source: SketchTemplateSource | undefined
+  for (const template of templates) {
+    if (template.source !== source) {
+      source = template.source
+      items.push({
+        label: templateSourceLabels[source],
+        kind: vscode.QuickPickItemKind.Separator,
+      })
+    }
+    items.push({
+      label: template.name,
+      description: template.description,
+      detail: template.folderPath,
+      template,
+    })
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Create Sketch',
+    placeHolder: 'Select a sketch template',
+    matchOnDescription: true,
+  })
+  return picked?.template
+}
+
+async function loadSketchTemplates(): Promise<SketchTemplate[]> {
+  const config = vscode.workspace.getConfiguration('boardlab.sketch')
+  const userFolder = config.get<string>('templatesFolder')
+  const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).filter(
+    (folder) => folder.uri.scheme === 'file'
+  )
+  const found = await Promise.all([
+    ...workspaceFolders.map((folder) =>
+      findSketchTemplates(
+        path.join(
+          folder.uri.fsPath,
+          ...workspaceSketchTemplatesFolder.split('/')
+        ),
+        'workspace'
+      )
+    ),
+    userFolder && path.isAbsolute(userFolder)
+      ? findSketchTemplates(userFolder, 'user')
+      : [],
+  ]).catch((error) => {
+    console.warn('Failed to load the sketch templates', error)
+    return []
+  })
+  const templates = [
+    ...found.flat(),
+    ...builtinSketchTemplates(await resolveSketchBlueprintContent()),
+  ]
+  // The first template wins in a multi-root workspace
+  return templates.filter(
+    (template, index) =>
+      templates.findIndex(({ id }) => id === template.id) === index
+  )
+}
+
+async function resolveTemplateValues(
+  boardlabContext: BoardLabContextImpl,
+  template: SketchTemplate,
+  files: readonly SketchTemplateFile[],
+  sketchName: string
+): Promise<Record<string, string> | undefined> {
+  const values: Record<string, string> = automaticTemplateValues(sketchName)
+  for (const variable of sketchTemplateVariables(template, files)) {
+    const value =
+      variable.name === 'fqbn'
+        ? await promptTemplateBoard(boardlabContext)
+        : await promptTemplateVariable(template, variable)
+    if (value === undefined) {
+      return undefined
+    }
+    values[variable.name] = value
+  }
+  return values
+}
+
+async function promptTemplateBoard(
+  boardlabContext: BoardLabContextImpl
+): Promise<string | undefined> {
+  const currentSketch = boardlabContext.currentSketch
+  const picked = await boardlabContext.pickBoardForConfig({
+    selectedBoard: currentSketch?.board,
+    selectedPort: currentSketch?.port,
+  })
+  if (!picked) {
+    return undefined
+  }
+  const board = isBoardIdentifier(picked) ? picked : picked.board
+  if (!board.fqbn) {
+    vscode.window.showErrorMessage(
+      `Install the platform of ${board.name} to create a sketch for it.`
+    )
+    return undefined
+  }
+  return board.fqbn
+}
+
+async function promptTemplateVariable(
+  template: SketchTemplate,
+  variable: SketchTemplateVariable
+): Promise<string | undefined> {
+  let value = variable.default
+  if (variable.name === 'author' && value === undefined) {
+    try {
+      value = os.userInfo().username
+    } catch {}
+  }
+  return vscode.window.showInputBox({
+    title: `Create Sketch: ${template.name}`,
+    prompt: variable.description ?? variable.name,
+    placeHolder: variable.name,
+    value,
+    ignoreFocusOut: true,
+    validateInput: (input) =>
+      variable.name === 'baudRate' && !/^\d+$/.test(input.trim())
+        ? 'The baud rate must be a positive integer'
+        : undefined,
+  })
+}
+
+async function runTemplatePostCreateActions(
+  boardlabContext: BoardLabContextImpl,
+  template: SketchTemplate,
+  sketchPath: string,
+  fqbn: string | undefined
+): Promise<void> {
+  if (!fqbn) {
+    return
+  }
+  for (const action of template.postCreate) {
+    try {
+      if (action === 'createProfile') {
+        await createSketchTemplateProfile(sketchPath, fqbn)
+      } else if (action === 'selectBoard') {
+        await boardlabContext.presetSketchBoard(sketchPath, fqbn)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      vscode.window.showWarningMessage(
+        `Sketch created, but the ${action} action of the template failed: ${message}`
+      )
+    }
+  }
+}
+
 async function resolveSketchDestination(
   boardlabContext: BoardLabContextImpl,
   destinationFolder?: string
@@ -331,7 +521,8 @@ async function promptSketchFolderName({
 async function createSketch(
   boardlabContext: BoardLabContextImpl,
   destinationFolder: string,
-  sketchName: string
+  sketchName: string,
+  template: SketchTemplate
 ): Promise<void> {
   const validation = validateSketchFolderName(sketchName)
   if (validation) {
@@ -339,6 +530,33 @@ async function createSketch(
     return
   }
 
+  let templateFiles: SketchTemplateFile[]
+  try {
+    templateFiles = await readSketchTemplateFiles(template)
+  } catch (error) {
+    console.warn(`Failed to read the sketch template ${template.id}`, error)
+    vscode.window.showErrorMessage(
+      `Failed to read the sketch template "${template.name}".`
+    )
+    return
+  }
+  const values = await resolveTemplateValues(
+    boardlabContext,
+    template,
+    templateFiles,
+    sketchName
+  )
+  if (!values) {
+    return
+  }
+  const files = renderSketchTemplate(templateFiles, { ...values, sketchName })
+  if (!files.some((file) => file.path === `${sketchName}.ino`)) {
+    vscode.window.showErrorMessage(
+      `The sketch template "${template.name}" has no main sketch file.`
+    )
+    return
+  }
+
   const baseFolder = path.resolve(destinationFolder)
   const targetFolder = path.join(baseFolder, sketchName)
   const inoPath = path.join(targetFolder, `${sketchName}.ino`)
@@ -373,17 +591,27 @@ async function createSketch(
     return
   }
 
-  const content = await resolveSketchBlueprintContent()
   try {
-    await fs.writeFile(inoPath, content, { flag: 'wx' })
+    await writeSketchTemplateFiles(files, targetFolder)
   } catch (error: any) {
     if (error?.code === 'EEXIST') {
-      vscode.window.showErrorMessage(`Sketch file already exists: ${inoPath}`)
+      vscode.window.showErrorMessage(
+        `Sketch file already exists: ${error.path}`
+      )
     } else {
-      vscode.window.showErrorMessage(`Failed to create sketch file: ${inoPath}`)
+      console.warn('Failed to create sketch files', error)
+      vscode.window.showErrorMessage(
+        `Failed to create sketch files in ${targetFolder}.`
+      )
     }
     return
   }
+  await runTemplatePostCreateActions(
+    boardlabContext,
+    template,
+    targetFolder,
+    values.fqbn
+  )
 
   const inWorkspace = isPathInWorkspace(targetFolder)
   const refreshPromise = boardlabContext.sketchbooks.refresh({
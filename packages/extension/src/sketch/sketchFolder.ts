@@ -299,7 +299,7 @@ function sketchScopedMementoKeys(sketchPath: string): string {
   return mementoKey('sketchFolder', scope)
 }
 
-function sketchProfileMementoKey(sketchPath: string): string {
+export function sketchProfileMementoKey(sketchPath: string): string {
   const scope = vscode.Uri.file(sketchPath).toString()
   return mementoKey('sketchProfile', scope)
 }
@@ -0,0 +1,208 @@
+import { promises as fs } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import { parse } from 'yaml'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  automaticTemplateValues,
+  builtinSketchTemplates,
+  createSketchTemplateProfile,
+  findSketchTemplates,
+  readSketchTemplateFiles,
+  renderSketchTemplate,
+  sketchTemplateVariables,
+  writeSketchTemplateFiles,
+  type SketchTemplateFile,
+} from './sketchTemplates'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function textFile(filePath: string, content: string): SketchTemplateFile {
+  return { path: filePath, content: encoder.encode(content) }
+}
+
+function texts(files: readonly SketchTemplateFile[]): Record<string, string> {
+  return Object.fromEntries(
+    files.map((file) => [file.path, decoder.decode(file.content)])
+  )
+}
+
+describe('sketchTemplates', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'boardlab-templates-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const write = async (content: string | Uint8Array, ...segments: string[]) => {
+    const filePath = path.join(tempDir, ...segments)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, content)
+  }
+
+  it('finds the templates of the subfolders with their manifests', async () => {
+    await write(
+      JSON.stringify({
+        name: 'Sensor Node',
+        description: 'A LoRa sensor node',
+        variables: [
+          { name: 'nodeId', description: 'The ID of the node', default: '1' },
+          { name: 'invalid name' },
+        ],
+        postCreate: ['selectBoard', 'unknown'],
+      }),
+      'sensor-node',
+      'template.json'
+    )
+    await write('void setup() {}\n', 'sensor-node', 'node.ino')
+    await write('void setup() {}\n', 'gateway', '{{sketchName}}.ino')
+    await write('{', 'broken', 'template.json')
+    await write('', 'README.md')
+
+    const templates = await findSketchTemplates(tempDir, 'user')
+
+    expect(templates).toEqual([
+      {
+        id: 'user:gateway',
+        name: 'gateway',
+        description: undefined,
+        source: 'user',
+        folderPath: path.join(tempDir, 'gateway'),
+        variables: [],
+        postCreate: [],
+      },
+      {
+        id: 'user:sensor-node',
+        name: 'Sensor Node',
+        description: 'A LoRa sensor node',
+        source: 'user',
+        folderPath: path.join(tempDir, 'sensor-node'),
+        variables: [
+          { name: 'nodeId', description: 'The ID of the node', default: '1' },
+        ],
+        postCreate: ['selectBoard'],
+      },
+    ])
+    expect(
+      await findSketchTemplates(path.join(tempDir, 'missing'), 'workspace')
+    ).toEqual([])
+  })
+
+  it('reads the files of the template without the manifest', async () => {
+    await write('{}', 'node', 'template.json')
+    await write('#include "src/radio.h"\n', 'node', '{{sketchName}}.ino')
+    await write('#pragma once\n', 'node', 'src', 'radio.h')
+    await write('{}\n', 'node', '.vscode', 'settings.json')
+
+    const [template] = await findSketchTemplates(tempDir, 'workspace')
+    const files = await readSketchTemplateFiles(template)
+
+    expect(texts(files)).toEqual({
+      '.vscode/settings.json': '{}\n',
+      'src/radio.h': '#pragma once\n',
+      '{{sketchName}}.ino': '#include "src/radio.h"\n',
+    })
+  })
+
+  it('lists the variables the wizard prompts for', () => {
+    const [, serial, profile] = builtinSketchTemplates('')
+    const node = {
+      ...serial,
+      variables: [{ name: 'nodeId', default: '1' }, { name: 'baudRate' }],
+    }
+
+    expect(
+      sketchTemplateVariables(node, [
+        textFile('{{sketchName}}.ino', '// {{year}} {{author}} {{nodeId}}'),
+        textFile('sketch.yaml', 'fqbn: {{ fqbn }}\n'),
+      ])
+    ).toEqual([
+      { name: 'nodeId', default: '1' },
+      {
+        name: 'baudRate',
+        description: 'The baud rate of the serial port',
+        default: '9600',
+      },
+      { name: 'author', description: 'The author of the sketch' },
+      { name: 'fqbn', description: 'The FQBN of the board' },
+    ])
+    expect(
+      sketchTemplateVariables(profile, [textFile('{{sketchName}}.ino', '')])
+    ).toEqual([{ name: 'fqbn', description: 'The FQBN of the board' }])
+  })
+
+  it('renders the paths and the text files and keeps the binary files', () => {
+    const binary = new Uint8Array([0, 1, 2, 123, 123])
+    const rendered = renderSketchTemplate(
+      [
+        textFile('main.ino', 'Serial.begin({{baudRate}}); // {{unknown}}'),
+        textFile('src/{{sketchName}}_config.h', '#define NODE {{nodeId}}\n'),
+        { path: 'data/logo.bin', content: binary },
+      ],
+      {
+        ...automaticTemplateValues('node', new Date(2026, 0, 5)),
+        baudRate: '115200',
+        nodeId: '7',
+      }
+    )
+
+    expect(rendered.map(({ path }) => path)).toEqual([
+      'node.ino',
+      'src/node_config.h',
+      'data/logo.bin',
+    ])
+    expect(decoder.decode(rendered[0].content)).toBe(
+      'Serial.begin(115200); // {{unknown}}'
+    )
+    expect(decoder.decode(rendered[1].content)).toBe('#define NODE 7\n')
+    expect(rendered[2].content).toBe(binary)
+    expect(automaticTemplateValues('node', new Date(2026, 0, 5))).toEqual({
+      sketchName: 'node',
+      date: '2026-01-05',
+      year: '2026',
+    })
+  })
+
+  it('writes the files and creates the profile of the board', async () => {
+    const sketchPath = path.join(tempDir, 'node')
+    await writeSketchTemplateFiles(
+      [textFile('node.ino', ''), textFile('src/radio.h', '')],
+      sketchPath
+    )
+
+    await expect(
+      fs.stat(path.join(sketchPath, 'src', 'radio.h'))
+    ).resolves.toBeDefined()
+    await expect(
+      writeSketchTemplateFiles([textFile('../outside.h', '')], sketchPath)
+    ).rejects.toThrow('outside of the sketch')
+    await expect(
+      writeSketchTemplateFiles([textFile('node.ino', '')], sketchPath)
+    ).rejects.toMatchObject({ code: 'EEXIST' })
+
+    expect(
+      await createSketchTemplateProfile(sketchPath, 'esp32:esp32:esp32')
+    ).toBe(true)
+    expect(
+      parse(await fs.readFile(path.join(sketchPath, 'sketch.yaml'), 'utf8'))
+    ).toEqual({
+      profiles: {
+        default: {
+          fqbn: 'esp32:esp32:esp32',
+          platforms: [{ platform: 'esp32:esp32' }],
+        },
+      },
+      default_profile: 'default',
+    })
+    expect(
+      await createSketchTemplateProfile(sketchPath, 'arduino:avr:uno')
+    ).toBe(false)
+  })
+})
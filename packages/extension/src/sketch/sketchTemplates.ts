@@ -0,0 +1,464 @@
+import { promises as fs, type Dirent } from 'node:fs'
+import * as path from 'node:path'
+
+import { FQBN } from 'fqbn'
+
+import { writeProfiles } from '../profile/profiles'
+
+/** The optional manifest of a template folder. */
+export const sketchTemplateManifest = 'template.json'
+/** The templates folder of the workspace folders. */
+export const workspaceSketchTemplatesFolder = '.boardlab/templates'
+
+export type SketchTemplateSource = 'workspace' | 'user' | 'builtin'
+
+/**
+ * - `selectBoard`: selects the `fqbn` board for the new sketch.
+ * - `createProfile`: creates a `sketch.yaml` with a profile for the `fqbn` board
+ *   if the template has none.
+ */
+export type SketchTemplateAction = 'selectBoard' | 'createProfile'
+
+export interface SketchTemplateVariable {
+  readonly name: string
+  readonly description?: string
+  readonly default?: string
+}
+
+export interface SketchTemplate {
+  /** For example, `workspace:sensor-node` or `builtin:blank`. */
+  readonly id: string
+  readonly name: string
+  readonly description?: string
+  readonly source: SketchTemplateSource
+  /** The folder of the template. `undefined` for the built-in templates. */
+  readonly folderPath?: string
+  /** The file contents by the relative POSIX path of the built-in templates. */
+  readonly files?: Readonly<Record<string, string>>
+  readonly variables: readonly SketchTemplateVariable[]
+  readonly postCreate: readonly SketchTemplateAction[]
+}
+
+export interface SketchTemplateFile {
+  /** The relative POSIX path in the sketch folder. */
+  readonly path: string
+  readonly content: Uint8Array
+}
+
+export type SketchTemplateValues = Readonly<Record<string, string>>
+
+/**
+ * The wizard prompts for these variables with a dedicated input when a template
+ * uses them.
+ */
+export const wellKnownTemplateVariables: Readonly<
+  Record<string, SketchTemplateVariable>
+> = {
+  author: { name: 'author', description: 'The author of the sketch' },
+  fqbn: { name: 'fqbn', description: 'The FQBN of the board' },
+  baudRate: {
+    name: 'baudRate',
+    description: 'The baud rate of the serial port',
+    default: '9600',
+  },
+}
+
+const automaticVariableNames = ['sketchName', 'date', 'year'] as const
+const templateActions: readonly SketchTemplateAction[] = [
+  'selectBoard',
+  'createProfile',
+]
+const ignoredTemplateEntries = new Set([
+  sketchTemplateManifest,
+  '.git',
+  '.DS_Store',
+])
+const variablePattern = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+/** The variables of every template, for example, `{{sketchName}}`. */
+export function automaticTemplateValues(
+  sketchName: string,
+  now: Date = new Date()
+): Record<(typeof automaticVariableNames)[number], string> {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return {
+    sketchName,
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    year: String(now.getFullYear()),
+  }
+}
+
+export function builtinSketchTemplates(
+  inoContent: string
+): readonly SketchTemplate[] {
+  return [
+    {
+      id: 'builtin:blank',
+      name: 'Blank Sketch',
+      description: 'The setup and loop functions',
+      source: 'builtin',
+      files: { '{{sketchName}}.ino': inoContent },
+      variables: [],
+      postCreate: [],
+    },
+    {
+      id: 'builtin:serial',
+      name: 'Serial Sketch',
+      description: 'Prints to the serial port at the selected baud rate',
+      source: 'builtin',
+      files: {
+        '{{sketchName}}.ino': [
+          '/*',
+          ' * {{sketchName}}',
+          ' *',
+          ' * Created {{date}} by {{author}}',
+          ' */',
+          '',
+          'void setup() {',
+          '  Serial.begin({{baudRate}});',
+          '  while (!Serial) {',
+          '    ; // wait for the serial port to connect',
+          '  }',
+          '  Serial.println("{{sketchName}} started");',
+          '}',
+          '',
+          'void loop() {',
+          '  // put your main code here, to run repeatedly:',
+          '',
+          '}',
+          '',
+        ].join('\n'),
+      },
+      variables: [],
+      postCreate: [],
+    },
+    {
+      id: 'builtin:profile',
+      name: 'Sketch with Profile',
+      description:
+        'The code in the src folder and a sketch.yaml profile for the board',
+      source: 'builtin',
+      files: {
+        '{{sketchName}}.ino': [
+          '#include "src/app.h"',
+          '',
+          'void setup() {',
+          '  app::setup();',
+          '}',
+          '',
+          'void loop() {',
+          '  app::loop();',
+          '}',
+          '',
+        ].join('\n'),
+        'src/app.h': [
+          '#pragma once',
+          '',
+          'namespace app {',
+          '',
+          'void setup();',
+          'void loop();',
+          '',
+          '} // namespace app',
+          '',
+        ].join('\n'),
+        'src/app.cpp': [
+          '#include "app.h"',
+          '',
+          '#include <Arduino.h>',
+          '',
+          'namespace app {',
+          '',
+          'void setup() {',
+          '  // put your setup code here, to run once:',
+          '}',
+          '',
+          'void loop() {',
+          '  // put your main code here, to run repeatedly:',
+          '}',
+          '',
+          '} // namespace app',
+          '',
+        ].join('\n'),
+      },
+      variables: [],
+      postCreate: ['createProfile', 'selectBoard'],
+    },
+  ]
+}
+
+/**
+ * The templates in the subfolders of `parentFolder`. A template folder may have
+ * a `template.json` manifest with the `name`, `description`, `variables`, and
+ * `postCreate` of the template. Resolves to an empty array if the folder does
+ * not exist.
+ */
+export async function findSketchTemplates(
+  parentFolder: string,
+  source: Exclude<SketchTemplateSource, 'builtin'>
+): Promise<SketchTemplate[]> {
+  let entries: Dirent[]
+  try {
+    entries = await fs.readdir(parentFolder, { withFileTypes: true })
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') {
+      return []
+    }
+    throw error
+  }
+  const templates: SketchTemplate[] = []
+  for (const entry of entries) {
+    if (!entry.isDirectory() || ignoredTemplateEntries.has(entry.name)) {
+      continue
+    }
+    const folderPath = path.join(parentFolder, entry.name)
+    const manifest = await readSketchTemplateManifest(folderPath)
+    if (!manifest) {
+      continue
+    }
+    templates.push({
+      id: `${source}:${entry.name}`,
+      name: manifest.name ?? entry.name,
+      description: manifest.description,
+      source,
+      folderPath,
+      variables: manifest.variables,
+      postCreate: manifest.postCreate,
+    })
+  }
+  return templates.sort((left, right) => left.name.localeCompare(right.name))
+}
+
+interface SketchTemplateManifest {
+  readonly name?: string
+  readonly description?: string
+  readonly variables: readonly SketchTemplateVariable[]
+  readonly postCreate: readonly SketchTemplateAction[]
+}
+
+async function readSketchTemplateManifest(
+  folderPath: string
+): Promise<SketchTemplateManifest | undefined> {
+  const manifestPath = path.join(folderPath, sketchTemplateManifest)
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(manifestPath, 'utf8'))
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return { variables: [], postCreate: [] }
+    }
+    console.warn(`Failed to read the sketch template ${manifestPath}`, error)
+    return undefined
+  }
+  if (typeof raw !== 'object' || raw === null) {
+    console.warn(`Invalid sketch template ${manifestPath}`)
+    return undefined
+  }
+  const { name, description, variables, postCreate } = raw as Record<
+    string,
+    unknown
+  >
+  return {
+    name: typeof name === 'string' && name.trim() ? name : undefined,
+    description: typeof description === 'string' ? description : undefined,
+    variables: Array.isArray(variables)
+      ? variables.filter(isSketchTemplateVariable)
+      : [],
+    postCreate: Array.isArray(postCreate)
+      ? postCreate.filter((action): action is SketchTemplateAction =>
+          templateActions.includes(action)
+        )
+      : [],
+  }
+}
+
+function isSketchTemplateVariable(arg: unknown): arg is SketchTemplateVariable {
+  if (typeof arg !== 'object' || arg === null) {
+    return false
+  }
+  const variable = arg as Record<string, unknown>
+  return (
+    typeof variable.name === 'string' &&
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(variable.name) &&
+    (variable.description === undefined ||
+      typeof variable.description === 'string') &&
+    (variable.default === undefined || typeof variable.default === 'string')
+  )
+}
+
+export async function readSketchTemplateFiles(
+  template: SketchTemplate
+): Promise<SketchTemplateFile[]> {
+  if (!template.folderPath) {
+    const encoder = new TextEncoder()
+    return Object.entries(template.files ?? {}).map(([filePath, content]) => ({
+      path: filePath,
+      content: encoder.encode(content),
+    }))
+  }
+  const files: SketchTemplateFile[] = []
+  const visit = async (folderPath: string, relativePath: string) => {
+    const entries = await fs.readdir(folderPath, { withFileTypes: true })
+    for (const entry of entries) {
+      if (ignoredTemplateEntries.has(entry.name)) {
+        continue
+      }
+      const entryPath = path.join(folderPath, entry.name)
+      const entryRelativePath = relativePath
+        ? `${relativePath}/${entry.name}`
+        : entry.name
+      if (entry.isDirectory()) {
+        await visit(entryPath, entryRelativePath)
+      } else if (entry.isFile()) {
+        files.push({
+          path: entryRelativePath,
+          content: await fs.readFile(entryPath),
+        })
+      }
+    }
+  }
+  await visit(template.folderPath, '')
+  return files.sort((left, right) => left.path.localeCompare(right.path))
+}
+
+/**
+ * The variables the wizard prompts for: the declared ones, then the ones used
+ * by the files. The `fqbn` is required by the post-create actions.
+ */
+export function sketchTemplateVariables(
+  template: SketchTemplate,
+  files: readonly SketchTemplateFile[]
+): SketchTemplateVariable[] {
+  const result = new Map<string, SketchTemplateVariable>()
+  const add = (name: string) => {
+    if (
+      !result.has(name) &&
+      !(automaticVariableNames as readonly string[]).includes(name)
+    ) {
+      result.set(name, wellKnownTemplateVariables[name] ?? { name })
+    }
+  }
+  for (const variable of template.variables) {
+    if (
+      !(automaticVariableNames as readonly string[]).includes(variable.name)
+    ) {
+      result.set(variable.name, {
+        ...wellKnownTemplateVariables[variable.name],
+        ...variable,
+      })
+    }
+  }
+  for (const file of files) {
+    referencedVariables(file.path).forEach(add)
+    const text = decodeText(file.content)
+    if (text !== undefined) {
+      referencedVariables(text).forEach(add)
+    }
+  }
+  if (template.postCreate.length) {
+    add('fqbn')
+  }
+  return Array.from(result.values())
+}
+
+function referencedVariables(text: string): string[] {
+  return Array.from(text.matchAll(variablePattern), ([, name]) => name)
+}
+
+/** Replaces the `{{name}}` variables. Unknown variables are kept. */
+export function substituteTemplateVariables(
+  text: string,
+  values: SketchTemplateValues
+): string {
+  return text.replace(variablePattern, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  )
+}
+
+/**
+ * Substitutes the variables in the paths and the text files. If the template
+ * has no `{{sketchName}}.ino`, its only `.ino` file in the root becomes the
+ * main sketch file. Binary files are copied as is.
+ */
+export function renderSketchTemplate(
+  files: readonly SketchTemplateFile[],
+  values: SketchTemplateValues & { readonly sketchName: string }
+): SketchTemplateFile[] {
+  const encoder = new TextEncoder()
+  const rendered = files.map((file) => {
+    const text = decodeText(file.content)
+    return {
+      path: substituteTemplateVariables(file.path, values),
+      content:
+        text === undefined
+          ? file.content
+          : encoder.encode(substituteTemplateVariables(text, values)),
+    }
+  })
+  const mainFile = `${values.sketchName}.ino`
+  const rootSketchFiles = rendered.filter(
+    (file) => !file.path.includes('/') && file.path.endsWith('.ino')
+  )
+  if (
+    rootSketchFiles.length === 1 &&
+    !rendered.some((file) => file.path === mainFile)
+  ) {
+    return rendered.map((file) =>
+      file === rootSketchFiles[0] ? { ...file, path: mainFile } : file
+    )
+  }
+  return rendered
+}
+
+/** Writes the rendered files. Fails if a file already exists. */
+export async function writeSketchTemplateFiles(
+  files: readonly SketchTemplateFile[],
+  targetFolder: string
+): Promise<void> {
+  for (const file of files) {
+    const filePath = path.join(targetFolder, ...file.path.split('/'))
+    const relative = path.relative(targetFolder, filePath)
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Template file is outside of the sketch: ${file.path}`)
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, file.content, { flag: 'wx' })
+  }
+}
+
+/**
+ * Creates a `sketch.yaml` with a default profile for the board unless the
+ * template created one. Resolves to `false` if the file exists.
+ */
+export async function createSketchTemplateProfile(
+  sketchPath: string,
+  fqbn: string
+): Promise<boolean> {
+  try {
+    await fs.stat(path.join(sketchPath, 'sketch.yaml'))
+    return false
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error
+    }
+  }
+  const { vendor, arch } = new FQBN(fqbn)
+  await writeProfiles(sketchPath, {
+    profiles: {
+      default: { fqbn, platforms: [{ platform: `${vendor}:${arch}` }] },
+    },
+    default_profile: 'default',
+  })
+  return true
+}
+
+function decodeText(content: Uint8Array): string | undefined {
+  if (content.subarray(0, 8000).includes(0)) {
+    return undefined
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content)
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,97 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  buildTaskLabel,
+  resolveTaskFqbn,
+  resolveTaskProfile,
+} from './taskProfile'
+
+describe('taskProfile', () => {
+  const compile = {
+    command: 'compile',
+    sketchPath: '/sketches/blink',
+    fqbn: 'arduino:avr:uno',
+  }
+  const upload = {
+    command: 'upload',
+    sketchPath: '/sketches/blink',
+    fqbn: 'arduino:avr:uno',
+    port: 'arduino+serial:///dev/ttyACM0',
+  }
+
+  it('passes the profile of the compile and upload tasks through', async () => {
+    const boardlabContext = {
+      getValidatedActiveProfileForSketch: vi.fn(async () => 'esp32'),
+    }
+
+    for (const definition of [compile, upload]) {
+      expect(
+        await resolveTaskProfile(
+          { ...definition, profile: 'uno' },
+          boardlabContext
+        )
+      ).toBe('uno')
+      expect(
+        await resolveTaskProfile(
+          { ...definition, profile: '' },
+          boardlabContext
+        )
+      ).toBeUndefined()
+    }
+    expect(
+      boardlabContext.getValidatedActiveProfileForSketch
+    ).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the validated active profile of the sketch', async () => {
+    const boardlabContext = {
+      // the active profile is no longer in the sketch.yaml
+      getValidatedActiveProfileForSketch: vi.fn(async () => undefined),
+    }
+
+    const compileProfile = await resolveTaskProfile(compile, boardlabContext)
+    const uploadProfile = await resolveTaskProfile(upload, boardlabContext)
+
+    expect(compileProfile).toBeUndefined()
+    expect(uploadProfile).toBeUndefined()
+    expect(buildTaskLabel(compile, compileProfile)).toBe(
+      'compile arduino:avr:uno'
+    )
+    expect(buildTaskLabel(upload, uploadProfile, upload.port)).toBe(
+      'upload arduino+serial:///dev/ttyACM0'
+    )
+    expect(
+      boardlabContext.getValidatedActiveProfileForSketch
+    ).toHaveBeenCalledWith('/sketches/blink')
+  })
+
+  it('labels the task with the resolved profile', () => {
+    expect(buildTaskLabel(compile, 'uno')).toBe('compile arduino:avr:uno (uno)')
+  })
+
+  it('resolves the FQBN of the profile the task builds against', async () => {
+    const sketchPath = await fs.mkdtemp(path.join(os.tmpdir(), 'task-fqbn-'))
+    try {
+      await fs.writeFile(
+        path.join(sketchPath, 'sketch.yaml'),
+        'profiles:\n  esp32:\n    fqbn: esp32:esp32:esp32\n  empty: {}\n'
+      )
+      const definition = { ...upload, sketchPath }
+
+      expect(await resolveTaskFqbn(definition, 'esp32')).toBe(
+        'esp32:esp32:esp32'
+      )
+      expect(await resolveTaskFqbn(definition, 'empty')).toBeUndefined()
+      expect(await resolveTaskFqbn(definition, 'missing')).toBeUndefined()
+      expect(await resolveTaskFqbn(definition, undefined)).toBe(
+        'arduino:avr:uno'
+      )
+    } finally {
+      await fs.rm(sketchPath, { recursive: true, force: true })
+    }
+  })
+})
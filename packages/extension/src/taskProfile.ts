@@ -0,0 +1,59 @@
+import type { BoardLabContextImpl } from './boardlabContext'
+import { readProfile } from './profile/profiles'
+
+export interface ProfileTaskDefinition {
+  readonly command: string
+  readonly sketchPath: string
+  readonly fqbn?: string
+  readonly profile?: string
+}
+
+/**
+ * Resolves the sketch profile of a build task. When the task definition does
+ * not name a profile, the active profile of the sketch is used if the
+ * `sketch.yaml` still has it. An empty string opts out of the active profile.
+ */
+export async function resolveTaskProfile(
+  definition: ProfileTaskDefinition,
+  boardlabContext: Pick<
+    BoardLabContextImpl,
+    'getValidatedActiveProfileForSketch'
+  >
+): Promise<string | undefined> {
+  if (typeof definition.profile === 'string') {
+    return definition.profile || undefined
+  }
+  return boardlabContext.getValidatedActiveProfileForSketch(
+    definition.sketchPath
+  )
+}
+
+/**
+ * Resolves the FQBN the task builds for. With a sketch profile, the CLI uses
+ * the `fqbn` of the profile instead of the FQBN of the task definition.
+ */
+export async function resolveTaskFqbn(
+  definition: ProfileTaskDefinition,
+  profile: string | undefined
+): Promise<string | undefined> {
+  if (!profile) {
+    return definition.fqbn
+  }
+  return readProfile(definition.sketchPath, profile).then(
+    ({ fqbn }) => fqbn,
+    () => undefined
+  )
+}
+
+/**
+ * The task label is the command and the target (FQBN or port), and the resolved
+ * sketch profile in parentheses when the task builds against one.
+ */
+export function buildTaskLabel(
+  definition: ProfileTaskDefinition,
+  profile: string | undefined,
+  target: string | undefined = definition.fqbn
+): string {
+  const label = `${definition.command} ${target}`
+  return profile ? `${label} (${profile})` : label
+}
@@ -3,11 +3,17 @@ import path, { dirname } from 'node:path'
 import { basename } from 'node:path/posix'
 
 import type { CompileRequest } from 'ardunno-cli/api'
-import { BoardIdentifier, Port, createPortKey } from 'boards-list'
+import {
+  BoardIdentifier,
+  Port,
+  createPortKey,
+  type PortIdentifier,
+} from 'boards-list'
 import { ClientError, Status } from 'nice-grpc-common'
 import * as vscode from 'vscode'
 import { SketchFolder } from 'vscode-arduino-api'
 
+import { identifyBoards } from './boardIdentification'
 import { BoardLabContextImpl } from './boardlabContext'
 import {
   Arduino,
@@ -23,6 +29,12 @@ import {
   isPlatformNotInstalledError,
   platformIdFromFqbn,
 } from './platformUtils'
+import {
+  compileMatrixCommand,
+  createCompileMatrixTask,
+  isCompileMatrixTaskDefinition,
+  type CompileMatrixTaskDefinition,
+} from './compileMatrixTask'
 import { portProtocolIcon, resolvePort } from './ports'
 import {
   createValidateSketchProfileTask,
@@ -43,7 +55,23 @@ import {
 } from './taskHooks'
 import { type TaskKind, taskKindLiterals, type TaskStatus } from './taskTracker'
 import { onDidChangeTaskStates, tryStopTask } from './taskTracker'
+import {
+  buildTaskLabel,
+  resolveTaskFqbn,
+  resolveTaskProfile,
+} from './taskProfile'
 import { presentTaskStatus } from './taskUiState'
+import {
+  createTestHostTask,
+  isTestHostTaskDefinition,
+  testHostCommand,
+  type TestHostTaskDefinition,
+} from './testing/hostTestTask'
+import {
+  isAuthenticationFailure,
+  UploadUserFields,
+  type UserFieldValues,
+} from './uploadUserFields'
 import { disposeAll } from './utils'
 
 export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
@@ -57,13 +85,17 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
   private resolvedSketch: Sketch | undefined
   private resolvedBoard: BoardIdentifier | undefined
   private resolvedPort: Port | undefined
+  private resolvedProfile: { sketchPath: string; profile?: string } | undefined
   private readonly hooks: TaskHooksManager
 
   private compileTaskProgress:
-    | (CompileProgressUpdate & { sketchPath: string })
+    | (CompileProgressUpdate & { sketchPath: string; profile?: string })
     | undefined
 
-  constructor(private readonly boardlabContext: BoardLabContextImpl) {
+  constructor(
+    private readonly boardlabContext: BoardLabContextImpl,
+    private readonly uploadUserFields: UploadUserFields
+  ) {
     this._disposables = []
     this.hooks = new TaskHooksManager({
       boardlabTaskType,
@@ -127,13 +159,13 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     let task: vscode.Task | undefined
     if (isCompileTaskDefinition(definition)) {
       // TODO: use non-API groups to reuse terminal? (task.presentationOptions as any) = { ...presentationOptions, group: 'foo' };
-      task = this.compileTask(definition)
+      task = await this.compileTask(definition)
     } else if (isUploadTaskDefinition(definition)) {
-      task = this.uploadTask(definition)
+      task = await this.uploadTask(definition)
     } else if (isUploadUsingProgrammerTaskDefinition(definition)) {
       task = this.uploadUsingProgrammerTask(definition)
     } else if (isExportBinaryTaskDefinition(definition)) {
-      task = this.exportBinariesTask(definition)
+      task = await this.exportBinariesTask(definition)
     }
     if (task) {
       vscode.tasks.executeTask(task)
@@ -154,13 +186,15 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
   async compile(params: {
     sketchPath: string
     fqbn: string
+    profile?: string
   }): Promise<vscode.TaskExecution> {
     return vscode.tasks.executeTask(
-      this.compileTask({
+      await this.compileTask({
         type: boardlabTaskType,
         command: 'compile',
         sketchPath: params.sketchPath,
         fqbn: params.fqbn,
+        profile: params.profile,
       })
     )
   }
@@ -169,14 +203,16 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     sketchPath: string
     fqbn: string
     port: PortQName
+    profile?: string
   }): Promise<vscode.TaskExecution> {
     return vscode.tasks.executeTask(
-      this.uploadTask({
+      await this.uploadTask({
         type: boardlabTaskType,
         command: 'upload',
         sketchPath: params.sketchPath,
         fqbn: params.fqbn,
         port: params.port,
+        profile: params.profile,
       })
     )
   }
@@ -184,13 +220,15 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
   async exportBinary(params: {
     sketchPath: string
     fqbn: string
+    profile?: string
   }): Promise<vscode.TaskExecution> {
     return vscode.tasks.executeTask(
-      this.exportBinariesTask({
+      await this.exportBinariesTask({
         type: boardlabTaskType,
         command: 'export-binary',
         sketchPath: params.sketchPath,
         fqbn: params.fqbn,
+        profile: params.profile,
       })
     )
   }
@@ -198,13 +236,15 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
   async compileWithDebugSymbols(params: {
     sketchPath: string
     fqbn: string
+    profile?: string
   }): Promise<vscode.TaskExecution> {
     return vscode.tasks.executeTask(
-      this.compileWithDebugSymbolsTask({
+      await this.compileWithDebugSymbolsTask({
         type: boardlabTaskType,
         command: 'compile-with-debug-symbols',
         sketchPath: params.sketchPath,
         fqbn: params.fqbn,
+        profile: params.profile,
       })
     )
   }
@@ -275,6 +315,21 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     )
   }
 
+  async compileMatrix(params: {
+    sketchPath: string
+    fqbns?: string[]
+    profiles?: CompileMatrixTaskDefinition['profiles']
+    parallel?: number
+  }): Promise<vscode.TaskExecution> {
+    return vscode.tasks.executeTask(
+      this.compileMatrixTask({
+        type: boardlabTaskType,
+        command: compileMatrixCommand,
+        ...params,
+      })
+    )
+  }
+
   async validateSketchProfile(params: {
     sketchPath: string
   }): Promise<vscode.TaskExecution> {
@@ -287,7 +342,20 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     )
   }
 
-  resolveTask(task: vscode.Task): vscode.Task | undefined {
+  async testHost(params: {
+    sketchPath: string
+    testRunId?: string
+  }): Promise<vscode.TaskExecution> {
+    return vscode.tasks.executeTask(
+      this.testHostTask({
+        type: boardlabTaskType,
+        command: testHostCommand,
+        ...params,
+      })
+    )
+  }
+
+  async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
     if (isCompileTaskDefinition(task.definition)) {
       return this.compileTask(task.definition)
     }
@@ -312,11 +380,17 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     if (isGetBoardInfoTaskDefinition(task.definition)) {
       return this.getBoardInfoTask(task.definition)
     }
+    if (isCompileMatrixTaskDefinition(task.definition, boardlabTaskType)) {
+      return this.compileMatrixTask(task.definition)
+    }
     if (
       isValidateSketchProfileTaskDefinition(task.definition, boardlabTaskType)
     ) {
       return this.validateSketchProfileTask(task.definition)
     }
+    if (isTestHostTaskDefinition(task.definition, boardlabTaskType)) {
+      return this.testHostTask(task.definition)
+    }
     return undefined
   }
 
@@ -476,6 +550,28 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
             writeLine(`VID: ${VID}`)
             writeLine(`PID: ${PID}`)
             writeLine(`SN: ${SN}`)
+
+            if (!board) {
+              const { arduino } = await tasks.boardlabContext.client
+              const identified = await identifyBoards(
+                arduino,
+                port,
+                tasks.boardlabContext.boardIdentifications
+              )
+              writeLine('')
+              if (!identified.length) {
+                writeLine(
+                  'No candidate boards. Select the board manually to remember it for this VID/PID.'
+                )
+              } else {
+                writeLine('Candidate boards:')
+                for (const { board, installed } of identified) {
+                  writeLine(
+                    `  ${board.name} (${board.fqbn})${installed ? '' : ' - platform not installed'}`
+                  )
+                }
+              }
+            }
           } catch (error) {
             writeLine(
               red(error instanceof Error ? error.message : String(error))
@@ -501,6 +597,17 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     )
   }
 
+  private compileMatrixTask(
+    definition: CompileMatrixTaskDefinition
+  ): vscode.Task {
+    return createCompileMatrixTask({
+      definition,
+      boardlabTaskType,
+      boardlabProblemMatcher,
+      boardlabContext: this.boardlabContext,
+    })
+  }
+
   private validateSketchProfileTask(
     definition: ValidateSketchProfileTaskDefinition
   ): vscode.Task {
@@ -517,26 +624,39 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     })
   }
 
-  private exportBinariesTask(
+  private testHostTask(definition: TestHostTaskDefinition): vscode.Task {
+    return createTestHostTask({
+      definition,
+      boardlabTaskType,
+      boardlabProblemMatcher,
+      boardlabContext: this.boardlabContext,
+      recordCustomHookTaskExitCode: (taskRunId, code) =>
+        this.hooks.recordCustomHookTaskExitCode(taskRunId, code),
+    })
+  }
+
+  private async exportBinariesTask(
     definition: ExportBinaryTaskDefinition
-  ): vscode.Task {
+  ): Promise<vscode.Task> {
+    const profile = await resolveTaskProfile(definition, this.boardlabContext)
     return new vscode.Task(
       definition,
       vscode.TaskScope.Workspace,
-      `${definition.command} ${definition.fqbn}`,
+      buildTaskLabel(definition, profile),
       boardlabTaskType,
       this.createCompileCustomExecution({ exportBinaries: true }),
       boardlabProblemMatcher
     )
   }
 
-  private compileWithDebugSymbolsTask(
+  private async compileWithDebugSymbolsTask(
     definition: CompileWithDebugSymbolsTaskDefinition
-  ): vscode.Task {
+  ): Promise<vscode.Task> {
+    const profile = await resolveTaskProfile(definition, this.boardlabContext)
     return new vscode.Task(
       definition,
       vscode.TaskScope.Workspace,
-      `${definition.command} ${definition.fqbn}`,
+      buildTaskLabel(definition, profile),
       boardlabTaskType,
       this.createCompileCustomExecution({ optimizeForDebug: true }),
       boardlabProblemMatcher
@@ -685,11 +805,14 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     )
   }
 
-  private compileTask(definition: CompileTaskDefinition): vscode.Task {
+  private async compileTask(
+    definition: CompileTaskDefinition
+  ): Promise<vscode.Task> {
+    const profile = await resolveTaskProfile(definition, this.boardlabContext)
     return new vscode.Task(
       definition,
       vscode.TaskScope.Workspace,
-      `${definition.command} ${definition.fqbn}`,
+      buildTaskLabel(definition, profile),
       boardlabTaskType,
       this.createCompileCustomExecution(),
       boardlabProblemMatcher
@@ -701,13 +824,20 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
   ): vscode.CustomExecution {
     return new vscode.CustomExecution(async (resolvedTask) => {
       const { arduino } = await this.boardlabContext.client
+      const profile = await resolveTaskProfile(
+        resolvedTask as BuildTaskDefinition,
+        this.boardlabContext
+      )
       const preCompileHooks = await this.runPreHooksAndRestoreFocus({
         setting: 'preCompileTasks',
         sketchPath: resolvedTask.sketchPath,
         phase: 'pre-compile',
         blockOnFailure: true,
         showCancelPrompt: true,
-        mainTaskNameHint: `${resolvedTask.command} ${resolvedTask.fqbn}`,
+        mainTaskNameHint: buildTaskLabel(
+          resolvedTask as BuildTaskDefinition,
+          profile
+        ),
       })
       if (!preCompileHooks.ok) {
         return this.createValidationFailurePty(
@@ -724,12 +854,13 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
       const { pty, result, progress } = arduino.compile({
         sketchPath: resolvedTask.sketchPath,
         fqbn: resolvedTask.fqbn,
+        profile,
         verbose,
         warnings,
         ...overrides,
       })
       const progressDisposable = progress((update) =>
-        this.setCompileProgress(resolvedTask.sketchPath, update)
+        this.setCompileProgress(resolvedTask.sketchPath, update, profile)
       )
 
       result
@@ -738,7 +869,12 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
           if (compileResult) {
             this.boardlabContext.updateCompileSummary(
               resolvedTask.sketchPath,
-              compileResult
+              compileResult,
+              {
+                fqbn: resolvedTask.fqbn,
+                profile,
+                optimizeForDebug: Boolean(overrides.optimizeForDebug),
+              }
             )
           }
         })
@@ -804,21 +940,35 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     }
   }
 
-  private uploadTask(definition: UploadTaskDefinition): vscode.Task {
+  private async uploadTask(
+    definition: UploadTaskDefinition
+  ): Promise<vscode.Task> {
     return new vscode.Task(
       definition,
       vscode.TaskScope.Workspace,
-      `${definition.command} ${definition.port}`,
+      buildTaskLabel(
+        definition,
+        await resolveTaskProfile(definition, this.boardlabContext),
+        definition.port
+      ),
       boardlabTaskType,
       new vscode.CustomExecution(async (resolvedTask) => {
         const { arduino } = await this.boardlabContext.client
+        const profile = await resolveTaskProfile(
+          resolvedTask as UploadTaskDefinition,
+          this.boardlabContext
+        )
         const preUploadHooks = await this.runPreHooksAndRestoreFocus({
           setting: 'preUploadTasks',
           sketchPath: resolvedTask.sketchPath,
           phase: 'pre-upload',
           blockOnFailure: true,
           showCancelPrompt: true,
-          mainTaskNameHint: `${resolvedTask.command} ${resolvedTask.port}`,
+          mainTaskNameHint: buildTaskLabel(
+            resolvedTask as UploadTaskDefinition,
+            profile,
+            resolvedTask.port
+          ),
         })
         if (!preUploadHooks.ok) {
           return this.createValidationFailurePty(
@@ -844,6 +994,7 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
             sketchPath: resolvedTask.sketchPath,
             fqbn: resolvedTask.fqbn,
             port,
+            profile,
             verbose,
           })
           const wrappedPty = this.hooks.withPostHooks(pty, result, {
@@ -854,6 +1005,17 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
           return this.hooks.withPtyPreface(wrappedPty, preUploadHooks.output)
         }
 
+        const userFields = await this.resolveUploadUserFields(
+          arduino,
+          await resolveTaskFqbn(resolvedTask as UploadTaskDefinition, profile),
+          portIdentifier
+        )
+        if (!userFields) {
+          return this.createValidationFailurePty(
+            `Upload to ${portIdentifier.address} canceled.`
+          )
+        }
+
         const { pty, result } = await this.boardlabContext.withMonitorSuspended(
           portIdentifier,
           async (options) =>
@@ -861,10 +1023,28 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
               sketchPath: resolvedTask.sketchPath,
               fqbn: resolvedTask.fqbn,
               port,
+              profile,
               verbose,
+              userFields,
               retry: options?.retry,
             })
         )
+        if (Object.keys(userFields).length && this.uploadUserFields.remember) {
+          // Prompt again only when the upload tool rejects the password. Other
+          // failures, such as an unreachable board, keep the stored values.
+          let output = ''
+          const outputListener = pty.onDidWrite(
+            (text) => (output = `${output}${text}`.slice(-4096))
+          )
+          result
+            .catch((error) => {
+              const message = error instanceof Error ? error.message : ''
+              if (isAuthenticationFailure(`${output}\n${message}`)) {
+                return this.uploadUserFields.forget(portIdentifier)
+              }
+            })
+            .finally(() => outputListener.dispose())
+        }
         const wrappedPty = this.hooks.withPostHooks(pty, result, {
           setting: 'postUploadTasks',
           sketchPath: resolvedTask.sketchPath,
@@ -875,10 +1055,48 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     )
   }
 
+  /**
+   * Queries the user fields, such as the OTA password, the upload tool needs
+   * for the port protocol and resolves their values. Resolves to `undefined`
+   * when the user cancels the input.
+   */
+  private async resolveUploadUserFields(
+    arduino: Arduino,
+    fqbn: string | undefined,
+    port: PortIdentifier
+  ): Promise<UserFieldValues | undefined> {
+    if (!fqbn) {
+      return {}
+    }
+    let fields
+    try {
+      fields = await arduino.supportedUserFields({
+        fqbn,
+        protocol: port.protocol,
+      })
+    } catch (error) {
+      console.warn(
+        'Failed to query the upload user fields',
+        fqbn,
+        port.protocol,
+        error
+      )
+      return {}
+    }
+    return this.uploadUserFields.resolve(fields, port)
+  }
+
   private resolveContextualHookTask(
     task: vscode.Task,
     sketchPath: string
   ): vscode.Task {
+    if (isTestHostTaskDefinition(task.definition, boardlabTaskType)) {
+      return this.testHostTask({
+        ...task.definition,
+        sketchPath,
+        hookTaskRunId: createHookTaskRunId(),
+      })
+    }
     if (
       !isValidateSketchProfileTaskDefinition(task.definition, boardlabTaskType)
     ) {
@@ -1355,7 +1573,11 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
       return undefined
     }
     const hasProfile = this.hasSketchProfile(sketch.sketchPath)
-    const activeProfile = this.boardlabContext.getActiveProfileForUri(sketch)
+    // The status bar resolves the validated active profile of the sketch
+    const activeProfile =
+      this.resolvedProfile?.sketchPath === sketch.sketchPath
+        ? this.resolvedProfile.profile
+        : undefined
     const label = hasProfile
       ? '$(account) Open Profiles'
       : '$(account) Create Profile'
@@ -1451,7 +1673,8 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
 
   private setCompileProgress(
     sketchPath: string,
-    update: CompileProgressUpdate | undefined
+    update: CompileProgressUpdate | undefined,
+    profile?: string
   ): void {
     if (!update || typeof update.percent !== 'number') {
       if (
@@ -1470,6 +1693,7 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
       sketchPath,
       percent: bounded,
       message,
+      profile,
     }
     this.updateStatusBarItem()
   }
@@ -1499,13 +1723,22 @@ export class BoardLabTasks implements vscode.TaskProvider, vscode.Disposable {
     this.resolvedSketch = resolvedSketch
     this.resolvedBoard = resolvedBoard
     this.resolvedPort = resolvedPort
+    this.resolvedProfile = { sketchPath, profile: activeProfile }
+
+    // While building, show the profile the build runs against
+    const compileTaskProgress =
+      this.compileTaskProgress?.sketchPath === sketchPath
+        ? this.compileTaskProgress
+        : undefined
 
     return buildStatusText({
       icon,
       board: this.boardLabel(false),
       port: this.portLabel(false),
       sketch: this.sketchLabel(false),
-      profile: activeProfile,
+      profile: compileTaskProgress
+        ? compileTaskProgress.profile
+        : activeProfile,
       progress: this.compileTaskProgress
         ? typeof this.compileTaskProgress.percent === 'number'
           ? {
@@ -1684,6 +1917,8 @@ const pickPort = '${' + 'command:boardlab.pickPort' + '}'
 const boardlabTaskCommandLiterals = [
   ...taskKindLiterals,
   validateSketchProfileCommand,
+  compileMatrixCommand,
+  testHostCommand,
 ] as const
 type TaskCommand = (typeof boardlabTaskCommandLiterals)[number]
 function isTaskCommand(arg: unknown): arg is TaskCommand {
@@ -1727,10 +1962,21 @@ function isCommandTaskDefinition<T extends TaskCommand>(
   return false
 }
 
+/**
+ * Task definitions that build the sketch against a sketch profile. When
+ * `profile` is absent, the active profile of the sketch is used.
+ */
+type BuildTaskDefinition =
+  | CompileTaskDefinition
+  | CompileWithDebugSymbolsTaskDefinition
+  | ExportBinaryTaskDefinition
+  | UploadTaskDefinition
+
 interface CompileTaskDefinition extends CommandTaskDefinition {
   command: 'compile'
   sketchPath: string
   fqbn: FQBN
+  profile?: string
 }
 function isCompileTaskDefinition(arg: unknown): arg is CompileTaskDefinition {
   return (
@@ -1746,6 +1992,7 @@ interface CompileWithDebugSymbolsTaskDefinition extends CommandTaskDefinition {
   command: 'compile-with-debug-symbols'
   sketchPath: string
   fqbn: FQBN
+  profile?: string
 }
 function isCompileWithDebugSymbolsTaskDefinition(
   arg: unknown
@@ -1764,6 +2011,7 @@ interface ExportBinaryTaskDefinition extends CommandTaskDefinition {
   command: 'export-binary'
   sketchPath: string
   fqbn: FQBN
+  profile?: string
 }
 function isExportBinaryTaskDefinition(
   arg: unknown
@@ -1861,6 +2109,7 @@ interface UploadTaskDefinition extends CommandTaskDefinition {
   sketchPath: string
   fqbn?: FQBN
   port?: PortQName
+  profile?: string
 }
 function isUploadTaskDefinition(arg: unknown): arg is UploadTaskDefinition {
   return (
@@ -76,6 +76,62 @@ class Diagnostic {
   ) {}
 }
 
+class DiagnosticCollection {
+  private readonly entries = new Map<
+    string,
+    { uri: Uri; diagnostics: Diagnostic[] }
+  >()
+
+  set(uri: Uri, diagnostics: Diagnostic[]): void {
+    this.entries.set(uri.toString(), { uri, diagnostics })
+  }
+
+  get(uri: Uri): Diagnostic[] | undefined {
+    return this.entries.get(uri.toString())?.diagnostics
+  }
+
+  delete(uri: Uri): void {
+    this.entries.delete(uri.toString())
+  }
+
+  forEach(callback: (uri: Uri, diagnostics: Diagnostic[]) => void): void {
+    this.entries.forEach(({ uri, diagnostics }) => callback(uri, diagnostics))
+  }
+
+  dispose(): void {
+    this.entries.clear()
+  }
+}
+
+const languages = {
+  createDiagnosticCollection: () => new DiagnosticCollection(),
+  onDidChangeDiagnostics: () => new Disposable(),
+  getDiagnostics: (): Diagnostic[] => [],
+}
+
+const window = {
+  createOutputChannel: vi.fn(() => ({
+    appendLine: vi.fn(),
+    show: vi.fn(),
+    dispose: vi.fn(),
+  })),
+  showErrorMessage: vi.fn(),
+  showInformationMessage: vi.fn(),
+  showInputBox: vi.fn(),
+}
+
+const workspace = {
+  textDocuments: [] as unknown[],
+  openTextDocument: vi.fn(),
+  applyEdit: vi.fn(),
+  onDidChangeTextDocument: () => new Disposable(),
+  onDidCloseTextDocument: () => new Disposable(),
+  onDidChangeConfiguration: () => new Disposable(),
+  getConfiguration: vi.fn(() => ({
+    get: (_key: string, defaultValue?: unknown) => defaultValue,
+  })),
+}
+
 class WorkspaceEdit {
   readonly entries: Array<{ uri: Uri; range: Range; newText: string }> = []
 
@@ -99,6 +155,62 @@ class CodeAction {
   ) {}
 }
 
+class MarkdownString {
+  constructor(readonly value = '') {}
+}
+
+class SnippetString {
+  constructor(readonly value = '') {}
+}
+
+const CompletionItemKind = {
+  Value: 11,
+  Module: 8,
+  Property: 9,
+  Constant: 20,
+  EnumMember: 19,
+  Reference: 17,
+} as const
+
+class CompletionItem {
+  detail: string | undefined
+  documentation: string | MarkdownString | undefined
+  sortText: string | undefined
+  insertText: string | SnippetString | undefined
+  range: Range | undefined
+  command: { command: string; title: string } | undefined
+
+  constructor(
+    readonly label: string | { label: string; description?: string },
+    readonly kind?: number
+  ) {}
+}
+
+class CompletionList {
+  constructor(
+    readonly items: CompletionItem[] = [],
+    readonly isIncomplete = false
+  ) {}
+}
+
+class Hover {
+  readonly contents: MarkdownString[]
+
+  constructor(
+    contents: MarkdownString | MarkdownString[],
+    readonly range?: Range
+  ) {
+    this.contents = Array.isArray(contents) ? contents : [contents]
+  }
+}
+
+class Location {
+  constructor(
+    readonly uri: Uri,
+    readonly range: Range
+  ) {}
+}
+
 const CodeActionKind = {
   QuickFix: 'quickfix',
 } as const
@@ -110,6 +222,14 @@ class Uri {
     return new Uri(fsPath)
   }
 
+  static parse(value: string): Uri {
+    return new Uri(value.replace(/^file:\/\//, ''))
+  }
+
+  static joinPath(base: Uri, ...pathSegments: string[]): Uri {
+    return new Uri([base.fsPath, ...pathSegments].join('/'))
+  }
+
   toString(): string {
     return `file://${this.fsPath}`
   }
@@ -119,14 +239,24 @@ vi.mock('vscode', () => {
   return {
     CodeAction,
     CodeActionKind,
+    CompletionItem,
+    CompletionItemKind,
+    CompletionList,
     Disposable,
     Diagnostic,
     DiagnosticSeverity,
     EventEmitter,
+    Hover,
+    Location,
+    MarkdownString,
     Position,
     Range,
+    SnippetString,
     WorkspaceEdit,
     ThemeIcon,
+    languages,
+    window,
+    workspace,
     Uri,
     QuickPickItemKind: { Separator: -1 },
   }
@@ -0,0 +1,497 @@
+/**
+ * The mock Arduino layer of the host tests. The headers cover the core API that
+ * logic code usually depends on: the types and macros, the timing, the pins,
+ * `String`, and `Serial`. The tests drive the inputs and check the outputs
+ * through `boardlab_host::state()`.
+ */
+const arduinoHeader = String.raw`#ifndef BOARDLAB_HOST_ARDUINO_H
+#define BOARDLAB_HOST_ARDUINO_H
+
+#include <algorithm>
+#include <cctype>
+#include <cmath>
+#include <cstdarg>
+#include <cstdint>
+#include <cstdio>
+#include <cstdlib>
+#include <cstring>
+#include <string>
+
+typedef bool boolean;
+typedef uint8_t byte;
+typedef unsigned int word;
+
+#define HIGH 0x1
+#define LOW 0x0
+#define INPUT 0x0
+#define OUTPUT 0x1
+#define INPUT_PULLUP 0x2
+#define LED_BUILTIN 13
+#define A0 14
+#define A1 15
+#define A2 16
+#define A3 17
+#define A4 18
+#define A5 19
+
+#define DEC 10
+#define HEX 16
+#define OCT 8
+#define BIN 2
+
+#define PI 3.1415926535897932384626433832795
+#define HALF_PI 1.5707963267948966192313216916398
+#define TWO_PI 6.283185307179586476925286766559
+#define DEG_TO_RAD 0.017453292519943295769236907684886
+#define RAD_TO_DEG 57.295779513082320876798154814105
+
+#define constrain(amt, low, high) \
+  ((amt) < (low) ? (low) : ((amt) > (high) ? (high) : (amt)))
+#define radians(deg) ((deg) * DEG_TO_RAD)
+#define degrees(rad) ((rad) * RAD_TO_DEG)
+#define sq(x) ((x) * (x))
+#define lowByte(w) ((uint8_t)((w) & 0xff))
+#define highByte(w) ((uint8_t)((w) >> 8))
+#define bit(b) (1UL << (b))
+#define bitRead(value, b) (((value) >> (b)) & 0x01)
+#define bitSet(value, b) ((value) |= (1UL << (b)))
+#define bitClear(value, b) ((value) &= ~(1UL << (b)))
+#define bitWrite(value, b, bitvalue) \
+  ((bitvalue) ? bitSet(value, b) : bitClear(value, b))
+#define F(string_literal) (string_literal)
+
+using std::max;
+using std::min;
+
+namespace boardlab_host {
+
+constexpr int pinCount = 64;
+
+struct State {
+  unsigned long micros = 0;
+  int pinModes[pinCount] = {};
+  /** Set the inputs of digitalRead, check the outputs of digitalWrite. */
+  int digital[pinCount] = {};
+  /** Set the inputs of analogRead, check the outputs of analogWrite. */
+  int analog[pinCount] = {};
+};
+
+inline State &state() {
+  static State instance;
+  return instance;
+}
+
+inline void reset() { state() = State(); }
+
+inline void advanceMillis(unsigned long ms) { state().micros += ms * 1000UL; }
+
+} // namespace boardlab_host
+
+inline unsigned long micros() { return boardlab_host::state().micros; }
+inline unsigned long millis() { return boardlab_host::state().micros / 1000UL; }
+inline void delayMicroseconds(unsigned int us) {
+  boardlab_host::state().micros += us;
+}
+inline void delay(unsigned long ms) { boardlab_host::advanceMillis(ms); }
+inline void yield() {}
+
+inline bool boardlab_host_valid_pin(int pin) {
+  return pin >= 0 && pin < boardlab_host::pinCount;
+}
+inline void pinMode(int pin, int mode) {
+  if (boardlab_host_valid_pin(pin)) {
+    boardlab_host::state().pinModes[pin] = mode;
+  }
+}
+inline void digitalWrite(int pin, int value) {
+  if (boardlab_host_valid_pin(pin)) {
+    boardlab_host::state().digital[pin] = value ? HIGH : LOW;
+  }
+}
+inline int digitalRead(int pin) {
+  return boardlab_host_valid_pin(pin) ? boardlab_host::state().digital[pin]
+                                      : LOW;
+}
+inline void analogWrite(int pin, int value) {
+  if (boardlab_host_valid_pin(pin)) {
+    boardlab_host::state().analog[pin] = value;
+  }
+}
+inline int analogRead(int pin) {
+  return boardlab_host_valid_pin(pin) ? boardlab_host::state().analog[pin] : 0;
+}
+
+inline long map(long x, long in_min, long in_max, long out_min, long out_max) {
+  return (x - in_min) * (out_max - out_min) / (in_max - in_min) + out_min;
+}
+inline void randomSeed(unsigned long seed) { std::srand(seed); }
+inline long random(long howbig) { return howbig ? std::rand() % howbig : 0; }
+inline long random(long howsmall, long howbig) {
+  return howsmall >= howbig ? howsmall : random(howbig - howsmall) + howsmall;
+}
+
+class String {
+public:
+  String(const char *cstr = "") : value(cstr ? cstr : "") {}
+  String(const std::string &str) : value(str) {}
+  String(char c) : value(1, c) {}
+  String(int number, unsigned char base = DEC) : value(format(number, base)) {}
+  String(unsigned int number, unsigned char base = DEC)
+      : value(format(number, base)) {}
+  String(long number, unsigned char base = DEC) : value(format(number, base)) {}
+  String(unsigned long number, unsigned char base = DEC)
+      : value(format(number, base)) {}
+  String(double number, unsigned char decimals = 2) {
+    char buffer[64];
+    std::snprintf(buffer, sizeof(buffer), "%.*f", decimals, number);
+    value = buffer;
+  }
+
+  unsigned int length() const { return value.length(); }
+  const char *c_str() const { return value.c_str(); }
+  char charAt(unsigned int index) const {
+    return index < value.length() ? value[index] : 0;
+  }
+  char operator[](unsigned int index) const { return charAt(index); }
+  int indexOf(const String &str, unsigned int from = 0) const {
+    size_t found = value.find(str.value, from);
+    return found == std::string::npos ? -1 : (int)found;
+  }
+  int indexOf(char c, unsigned int from = 0) const {
+    size_t found = value.find(c, from);
+    return found == std::string::npos ? -1 : (int)found;
+  }
+  String substring(unsigned int from) const {
+    return from < value.length() ? String(value.substr(from)) : String();
+  }
+  String substring(unsigned int from, unsigned int to) const {
+    if (from > to) {
+      std::swap(from, to);
+    }
+    return from < value.length() ? String(value.substr(from, to - from))
+                                 : String();
+  }
+  bool startsWith(const String &prefix) const {
+    return value.compare(0, prefix.value.length(), prefix.value) == 0;
+  }
+  bool endsWith(const String &suffix) const {
+    return value.length() >= suffix.value.length() &&
+           value.compare(value.length() - suffix.value.length(),
+                         suffix.value.length(), suffix.value) == 0;
+  }
+  bool equals(const String &other) const { return value == other.value; }
+  void trim() {
+    const char *whitespace = " \t\r\n";
+    size_t begin = value.find_first_not_of(whitespace);
+    size_t end = value.find_last_not_of(whitespace);
+    value = begin == std::string::npos ? ""
+                                       : value.substr(begin, end - begin + 1);
+  }
+  void toUpperCase() {
+    for (char &c : value) {
+      c = std::toupper(c);
+    }
+  }
+  void toLowerCase() {
+    for (char &c : value) {
+      c = std::tolower(c);
+    }
+  }
+  long toInt() const { return std::atol(value.c_str()); }
+  float toFloat() const { return std::atof(value.c_str()); }
+
+  String &operator+=(const String &other) {
+    value += other.value;
+    return *this;
+  }
+  friend String operator+(const String &left, const String &right) {
+    return String(left.value + right.value);
+  }
+  friend bool operator==(const String &left, const String &right) {
+    return left.value == right.value;
+  }
+  friend bool operator!=(const String &left, const String &right) {
+    return left.value != right.value;
+  }
+
+private:
+  std::string value;
+
+  static std::string format(unsigned long number, unsigned char base) {
+    if (base < 2 || base > 36) {
+      base = DEC;
+    }
+    std::string digits;
+    do {
+      int digit = number % base;
+      digits.insert(digits.begin(),
+                    (char)(digit < 10 ? '0' + digit : 'A' + digit - 10));
+      number /= base;
+    } while (number);
+    return digits;
+  }
+  static std::string format(long number, unsigned char base) {
+    if (number < 0 && base == DEC) {
+      return "-" + format((unsigned long)-number, base);
+    }
+    return format((unsigned long)number, base);
+  }
+  static std::string format(int number, unsigned char base) {
+    return format((long)number, base);
+  }
+  static std::string format(unsigned int number, unsigned char base) {
+    return format((unsigned long)number, base);
+  }
+};
+
+/** Writes to the standard output. Reading reports no available data. */
+class HardwareSerial {
+public:
+  void begin(unsigned long) {}
+  void end() {}
+  int available() { return 0; }
+  int read() { return -1; }
+  int peek() { return -1; }
+  void flush() { std::fflush(stdout); }
+  size_t write(uint8_t c) { return std::fputc(c, stdout) == EOF ? 0 : 1; }
+  size_t write(const char *str) {
+    return std::fputs(str, stdout) < 0 ? 0 : std::strlen(str);
+  }
+  operator bool() const { return true; }
+
+  template <typename T> size_t print(const T &value) {
+    return write(String(value).c_str());
+  }
+  template <typename T> size_t print(const T &value, int format) {
+    return write(String(value, format).c_str());
+  }
+  size_t print(const String &value) { return write(value.c_str()); }
+  size_t print(const char *value) { return write(value); }
+  size_t println() { return write("\r\n"); }
+  template <typename T> size_t println(const T &value) {
+    return print(value) + println();
+  }
+  template <typename T> size_t println(const T &value, int format) {
+    return print(value, format) + println();
+  }
+  int printf(const char *format, ...) {
+    va_list args;
+    va_start(args, format);
+    int written = std::vprintf(format, args);
+    va_end(args);
+    return written;
+  }
+};
+
+inline HardwareSerial Serial;
+
+#endif
+`
+
+/**
+ * The subset of the Unity assertions with the output of Unity. The on-device
+ * Unity tests compile on the host without changes. A `unity.h` of the sketch
+ * takes precedence.
+ */
+const unityHeader = String.raw`#ifndef BOARDLAB_HOST_UNITY_H
+#define BOARDLAB_HOST_UNITY_H
+
+#include <cmath>
+#include <cstdio>
+#include <cstring>
+#include <sstream>
+#include <string>
+
+__attribute__((weak)) void setUp(void) {}
+__attribute__((weak)) void tearDown(void) {}
+
+namespace boardlab_unity {
+
+struct Failure {
+  const char *file;
+  int line;
+  std::string message;
+};
+
+struct Ignored {
+  const char *file;
+  int line;
+  std::string message;
+};
+
+struct Counts {
+  int tests = 0;
+  int failures = 0;
+  int ignored = 0;
+};
+
+inline Counts &counts() {
+  static Counts instance;
+  return instance;
+}
+
+inline void fail(const char *file, int line, const std::string &message) {
+  throw Failure{file, line, message};
+}
+
+inline void ignore(const char *file, int line, const std::string &message) {
+  throw Ignored{file, line, message};
+}
+
+template <typename T> std::string str(const T &value) {
+  std::ostringstream stream;
+  stream << value;
+  return stream.str();
+}
+
+inline std::string withMessage(const std::string &text, const char *message) {
+  return message && *message ? text + ". " + message : text;
+}
+
+inline void assertEqual(long long expected, long long actual, const char *file,
+                        int line, const char *message) {
+  if (expected != actual) {
+    fail(file, line,
+         withMessage("Expected " + str(expected) + " Was " + str(actual),
+                     message));
+  }
+}
+
+inline void assertEqualString(const char *expected, const char *actual,
+                              const char *file, int line,
+                              const char *message) {
+  if (expected == actual) {
+    return;
+  }
+  if (!expected || !actual || std::strcmp(expected, actual) != 0) {
+    fail(file, line,
+         withMessage(std::string("Expected '") +
+                         (expected ? expected : "NULL") + "' Was '" +
+                         (actual ? actual : "NULL") + "'",
+                     message));
+  }
+}
+
+inline void assertWithin(double delta, double expected, double actual,
+                         const char *file, int line, const char *message) {
+  if (!(std::fabs(expected - actual) <= std::fabs(delta))) {
+    fail(file, line,
+         withMessage("Expected " + str(expected) + " Was " + str(actual),
+                     message));
+  }
+}
+
+inline void run(void (*test)(void), const char *name, const char *file,
+                int line) {
+  counts().tests++;
+  try {
+    setUp();
+    test();
+    tearDown();
+    std::printf("%s:%d:%s:PASS\n", file, line, name);
+  } catch (const Failure &failure) {
+    counts().failures++;
+    std::printf("%s:%d:%s:FAIL: %s\n", failure.file, failure.line, name,
+                failure.message.c_str());
+  } catch (const Ignored &ignored) {
+    counts().ignored++;
+    std::printf("%s:%d:%s:IGNORE%s%s\n", ignored.file, ignored.line, name,
+                ignored.message.empty() ? "" : ": ",
+                ignored.message.c_str());
+  }
+  std::fflush(stdout);
+}
+
+inline int end() {
+  const Counts &total = counts();
+  std::printf("\n-----------------------\n%d Tests %d Failures %d Ignored\n%s\n",
+              total.tests, total.failures, total.ignored,
+              total.failures ? "FAIL" : "OK");
+  std::fflush(stdout);
+  return total.failures;
+}
+
+} // namespace boardlab_unity
+
+#define UNITY_BEGIN() (boardlab_unity::counts() = boardlab_unity::Counts())
+#define UNITY_END() boardlab_unity::end()
+#define RUN_TEST(func) boardlab_unity::run(func, #func, __FILE__, __LINE__)
+
+#define TEST_FAIL_MESSAGE(message) \
+  boardlab_unity::fail(__FILE__, __LINE__, message)
+#define TEST_FAIL() TEST_FAIL_MESSAGE("")
+#define TEST_IGNORE_MESSAGE(message) \
+  boardlab_unity::ignore(__FILE__, __LINE__, message)
+#define TEST_IGNORE() TEST_IGNORE_MESSAGE("")
+
+#define TEST_ASSERT_MESSAGE(condition, message) \
+  do { \
+    if (!(condition)) { \
+      boardlab_unity::fail(__FILE__, __LINE__, \
+                           boardlab_unity::withMessage( \
+                               "Expression Evaluated To FALSE", message)); \
+    } \
+  } while (0)
+#define TEST_ASSERT(condition) TEST_ASSERT_MESSAGE(condition, "")
+#define TEST_ASSERT_TRUE_MESSAGE(condition, message) \
+  TEST_ASSERT_MESSAGE(condition, message)
+#define TEST_ASSERT_TRUE(condition) TEST_ASSERT_MESSAGE(condition, "")
+#define TEST_ASSERT_FALSE_MESSAGE(condition, message) \
+  TEST_ASSERT_MESSAGE(!(condition), message)
+#define TEST_ASSERT_FALSE(condition) TEST_ASSERT_MESSAGE(!(condition), "")
+#define TEST_ASSERT_NULL(pointer) \
+  TEST_ASSERT_MESSAGE((pointer) == NULL, "Expected NULL")
+#define TEST_ASSERT_NOT_NULL(pointer) \
+  TEST_ASSERT_MESSAGE((pointer) != NULL, "Expected Non-NULL")
+
+#define TEST_ASSERT_EQUAL_MESSAGE(expected, actual, message) \
+  boardlab_unity::assertEqual((long long)(expected), (long long)(actual), \
+                              __FILE__, __LINE__, message)
+#define TEST_ASSERT_EQUAL(expected, actual) \
+  TEST_ASSERT_EQUAL_MESSAGE(expected, actual, "")
+#define TEST_ASSERT_EQUAL_INT_MESSAGE TEST_ASSERT_EQUAL_MESSAGE
+#define TEST_ASSERT_EQUAL_INT TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_INT8 TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_INT16 TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_INT32 TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_UINT TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_UINT8 TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_UINT16 TEST_ASSERT_EQUAL
+#define TEST_ASSERT_EQUAL_UINT32 TEST_ASSERT_EQUAL
+#define TEST_ASSERT_NOT_EQUAL(expected, actual) \
+  TEST_ASSERT_MESSAGE((expected) != (actual), "Expected Not-Equal")
+
+#define TEST_ASSERT_EQUAL_STRING_MESSAGE(expected, actual, message) \
+  boardlab_unity::assertEqualString(expected, actual, __FILE__, __LINE__, \
+                                    message)
+#define TEST_ASSERT_EQUAL_STRING(expected, actual) \
+  TEST_ASSERT_EQUAL_STRING_MESSAGE(expected, actual, "")
+
+#define TEST_ASSERT_FLOAT_WITHIN_MESSAGE(delta, expected, actual, message) \
+  boardlab_unity::assertWithin(delta, expected, actual, __FILE__, __LINE__, \
+                               message)
+#define TEST_ASSERT_FLOAT_WITHIN(delta, expected, actual) \
+  TEST_ASSERT_FLOAT_WITHIN_MESSAGE(delta, expected, actual, "")
+#define TEST_ASSERT_EQUAL_FLOAT(expected, actual) \
+  TEST_ASSERT_FLOAT_WITHIN((expected) * 0.00001, expected, actual)
+#define TEST_ASSERT_DOUBLE_WITHIN TEST_ASSERT_FLOAT_WITHIN
+#define TEST_ASSERT_EQUAL_DOUBLE TEST_ASSERT_EQUAL_FLOAT
+
+#endif
+`
+
+/** Calls the `setup` of the test file when it has no `main`. */
+export const hostTestMain = `#include <Arduino.h>
+
+void setup();
+
+int main() {
+  setup();
+  return 0;
+}
+`
+
+export const hostMockHeaders: Readonly<Record<string, string>> = {
+  'Arduino.h': arduinoHeader,
+  'unity.h': unityHeader,
+}
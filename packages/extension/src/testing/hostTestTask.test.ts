@@ -0,0 +1,122 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  collectHostTestSources,
+  defaultHostCompiler,
+  definesMain,
+  hostCompilerArgs,
+  isTestHostTaskDefinition,
+} from './hostTestTask'
+
+describe('hostTestTask', () => {
+  let sketchPath: string
+
+  beforeEach(async () => {
+    sketchPath = await fs.mkdtemp(path.join(os.tmpdir(), 'host-test-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(sketchPath, { recursive: true, force: true })
+  })
+
+  const touch = async (...segments: string[]) => {
+    const filePath = path.join(sketchPath, ...segments)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, '')
+    return filePath
+  }
+
+  it('collects the logic and the tests of the sketch without the .ino files', async () => {
+    await touch('blink.ino')
+    const helper = await touch('helper.cpp')
+    const filter = await touch('src', 'filter', 'filter.c')
+    await touch('src', 'filter', 'filter.h')
+    const driver = await touch('src', 'driver', 'motor_driver.cpp')
+    const test = await touch('test', 'test_filter.cpp')
+    // A test sketch of the board
+    await touch('test', 'test_motor', 'test_motor.ino')
+    await touch('test', 'test_motor', 'helper.cpp')
+
+    const collected = await collectHostTestSources(sketchPath, ['src/driver/'])
+
+    expect(collected.sources).toEqual([helper, filter])
+    expect(collected.tests).toEqual([test])
+    expect(collected.includeDirs).toEqual([
+      path.join(sketchPath, 'test'),
+      sketchPath,
+      path.join(sketchPath, 'src'),
+    ])
+    expect(collected.sources).not.toContain(driver)
+  })
+
+  it('collects no tests without a test folder', async () => {
+    await touch('blink.ino')
+    await touch('helper.cpp')
+
+    expect((await collectHostTestSources(sketchPath)).tests).toEqual([])
+  })
+
+  it('compiles with the mock headers after the headers of the sketch', () => {
+    expect(
+      hostCompilerArgs({
+        sources: ['/sketch/helper.cpp', '/sketch/test/test_helper.cpp'],
+        includeDirs: ['/sketch/test', '/sketch'],
+        mockDir: '/build/mock',
+        output: '/build/host-tests',
+        extraArgs: ['-DMOCK_WIRE'],
+      })
+    ).toEqual([
+      '-std=gnu++17',
+      '-g',
+      '-O0',
+      '-Wall',
+      '-DARDUINO=10819',
+      '-DBOARDLAB_HOST_TEST',
+      '-I/sketch/test',
+      '-I/sketch',
+      '-I/build/mock',
+      '-DMOCK_WIRE',
+      '-x',
+      'c++',
+      '/sketch/helper.cpp',
+      '/sketch/test/test_helper.cpp',
+      '-x',
+      'none',
+      '-o',
+      '/build/host-tests',
+    ])
+    expect(defaultHostCompiler('linux')).toBe('c++')
+    expect(defaultHostCompiler('win32')).toBe('g++')
+  })
+
+  it('detects the main function of the tests', () => {
+    expect(definesMain('int main(int argc, char **argv) {')).toBe(true)
+    expect(definesMain('void setup() {\n  UNITY_BEGIN();\n}')).toBe(false)
+    expect(definesMain('// int main() is generated')).toBe(false)
+  })
+
+  it('validates the task definition', () => {
+    expect(
+      isTestHostTaskDefinition(
+        { type: 'boardlab', command: 'test-host', exclude: ['src/driver'] },
+        'boardlab'
+      )
+    ).toBe(true)
+    expect(
+      isTestHostTaskDefinition(
+        { type: 'boardlab', command: 'test-host', exclude: 'src/driver' },
+        'boardlab'
+      )
+    ).toBe(false)
+    expect(
+      isTestHostTaskDefinition(
+        { type: 'boardlab', command: 'compile' },
+        'boardlab'
+      )
+    ).toBe(false)
+  })
+})
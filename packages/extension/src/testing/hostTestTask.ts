@@ -0,0 +1,454 @@
+import { spawn } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { promises as fs, type Dirent } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import * as vscode from 'vscode'
+
+import type { BoardLabContextImpl } from '../boardlabContext'
+import { red, terminalEOL } from '../cli/arduino'
+import { hostMockHeaders, hostTestMain } from './hostMock'
+import { TestOutputParser, type TestOutputEvent } from './testOutput'
+
+export const testHostCommand = 'test-host' as const
+
+export interface TestHostTaskDefinition extends vscode.TaskDefinition {
+  type: string
+  command: typeof testHostCommand
+  sketchPath?: string
+  /**
+   * The sketch-relative paths of the files and folders that do not compile on
+   * the host, such as the hardware drivers.
+   */
+  exclude?: string[]
+  hookTaskRunId?: string
+  /** Set by the Test Explorer to receive the results of the run. */
+  testRunId?: string
+}
+
+export function isTestHostTaskDefinition(
+  arg: unknown,
+  boardlabTaskType: string
+): arg is TestHostTaskDefinition {
+  const definition = arg as TestHostTaskDefinition
+  return (
+    definition.type === boardlabTaskType &&
+    definition.command === testHostCommand &&
+    (definition.sketchPath === undefined ||
+      typeof definition.sketchPath === 'string') &&
+    (definition.exclude === undefined ||
+      (Array.isArray(definition.exclude) &&
+        definition.exclude.every((item) => typeof item === 'string'))) &&
+    (definition.hookTaskRunId === undefined ||
+      typeof definition.hookTaskRunId === 'string') &&
+    (definition.testRunId === undefined ||
+      typeof definition.testRunId === 'string')
+  )
+}
+
+export type HostTestEvent =
+  | TestOutputEvent
+  | { readonly type: 'output'; readonly text: string }
+
+export interface HostTestReport {
+  readonly testRunId: string
+  readonly event: HostTestEvent
+}
+
+const didReportHostTest = new vscode.EventEmitter<HostTestReport>()
+
+/** The output and the results of the host test tasks of the Test Explorer. */
+export const onDidReportHostTest: vscode.Event<HostTestReport> =
+  didReportHostTest.event
+
+const sourceExtensions = new Set(['.c', '.cc', '.cpp'])
+const testFolderNames = ['test', 'tests']
+
+export interface HostTestSources {
+  /** The logic of the sketch: the root and the `src` folder, without `.ino`. */
+  readonly sources: string[]
+  readonly tests: string[]
+  readonly includeDirs: string[]
+}
+
+/**
+ * The `.ino` files and the subfolders with `.ino` files, such as the test
+ * sketches of the board, are not compiled on the host.
+ */
+export async function collectHostTestSources(
+  sketchPath: string,
+  exclude: readonly string[] = []
+): Promise<HostTestSources> {
+  const excluded = exclude.map((entry) =>
+    path.resolve(sketchPath, entry.replace(/[\\/]+$/, ''))
+  )
+  const isExcluded = (filePath: string) =>
+    excluded.some(
+      (entry) =>
+        filePath === entry || !path.relative(entry, filePath).startsWith('..')
+    )
+  const sources = [
+    ...(await listSources(sketchPath, false, false)),
+    ...(await listSources(path.join(sketchPath, 'src'), true)),
+  ].filter((filePath) => !isExcluded(filePath))
+  const tests: string[] = []
+  const includeDirs = [sketchPath]
+  for (const name of testFolderNames) {
+    const testFolder = path.join(sketchPath, name)
+    const testSources = (await listSources(testFolder, true)).filter(
+      (filePath) => !isExcluded(filePath)
+    )
+    if (testSources.length) {
+      tests.push(...testSources)
+      // A `unity.h` of the tests takes precedence over the mock
+      includeDirs.unshift(testFolder)
+    }
+  }
+  if (await isDirectory(path.join(sketchPath, 'src'))) {
+    includeDirs.push(path.join(sketchPath, 'src'))
+  }
+  return { sources, tests, includeDirs }
+}
+
+async function listSources(
+  folder: string,
+  recursive: boolean,
+  skipSketches = true
+): Promise<string[]> {
+  let entries: Dirent[]
+  try {
+    entries = await fs.readdir(folder, { withFileTypes: true })
+  } catch {
+    return []
+  }
+  if (
+    skipSketches &&
+    entries.some((entry) => entry.isFile() && entry.name.endsWith('.ino'))
+  ) {
+    return []
+  }
+  const sources: string[] = []
+  for (const entry of entries) {
+    const entryPath = path.join(folder, entry.name)
+    if (entry.isDirectory() && recursive) {
+      sources.push(...(await listSources(entryPath, true)))
+    } else if (
+      entry.isFile() &&
+      sourceExtensions.has(path.extname(entry.name).toLowerCase())
+    ) {
+      sources.push(entryPath)
+    }
+  }
+  return sources.sort()
+}
+
+async function isDirectory(folder: string): Promise<boolean> {
+  try {
+    return (await fs.stat(folder)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+export function definesMain(source: string): boolean {
+  return /^\s*int\s+main\s*\(/m.test(source)
+}
+
+/** The mock headers come last: the headers of the sketch take precedence. */
+export function hostCompilerArgs(params: {
+  sources: readonly string[]
+  includeDirs: readonly string[]
+  mockDir: string
+  output: string
+  extraArgs?: readonly string[]
+}): string[] {
+  return [
+    '-std=gnu++17',
+    '-g',
+    '-O0',
+    '-Wall',
+    '-DARDUINO=10819',
+    '-DBOARDLAB_HOST_TEST',
+    ...[...params.includeDirs, params.mockDir].map((dir) => `-I${dir}`),
+    ...(params.extraArgs ?? []),
+    // Compile the C sources as C++ for the C++ mock headers
+    '-x',
+    'c++',
+    ...params.sources,
+    '-x',
+    'none',
+    '-o',
+    params.output,
+  ]
+}
+
+export function defaultHostCompiler(
+  platform: NodeJS.Platform = process.platform
+): string {
+  return platform === 'win32' ? 'g++' : 'c++'
+}
+
+export function createTestHostTask(params: {
+  definition: TestHostTaskDefinition
+  boardlabTaskType: string
+  boardlabProblemMatcher: string
+  boardlabContext: BoardLabContextImpl
+  recordCustomHookTaskExitCode: (
+    taskRunId: string | undefined,
+    code: number | undefined
+  ) => void
+}): vscode.Task {
+  const { definition } = params
+  const sketchName =
+    definition.sketchPath && !isUnresolvedTaskVariable(definition.sketchPath)
+      ? ` ${path.basename(definition.sketchPath)}`
+      : ''
+  return new vscode.Task(
+    definition,
+    vscode.TaskScope.Workspace,
+    `${testHostCommand}${sketchName}`,
+    params.boardlabTaskType,
+    new vscode.CustomExecution(async (resolvedTask) =>
+      createTestHostPty(
+        resolvedTask as TestHostTaskDefinition,
+        params.boardlabContext,
+        params.recordCustomHookTaskExitCode
+      )
+    ),
+    params.boardlabProblemMatcher
+  )
+}
+
+function createTestHostPty(
+  definition: TestHostTaskDefinition,
+  boardlabContext: BoardLabContextImpl,
+  recordCustomHookTaskExitCode: (
+    taskRunId: string | undefined,
+    code: number | undefined
+  ) => void
+): vscode.Pseudoterminal {
+  const emitter = new vscode.EventEmitter<string>()
+  const closeEmitter = new vscode.EventEmitter<void | number>()
+  const abortController = new AbortController()
+  const { testRunId } = definition
+  let closed = false
+
+  const doClose = (code?: number) => {
+    if (closed) {
+      return
+    }
+    closed = true
+    recordCustomHookTaskExitCode(definition.hookTaskRunId, code)
+    closeEmitter.fire(code)
+    emitter.dispose()
+    closeEmitter.dispose()
+  }
+
+  const write = (text: string) => {
+    if (!closed) {
+      emitter.fire(terminalEOL(text))
+    }
+  }
+  const writeLine = (line: string) => write(`${line}\n`)
+  const report = (event: HostTestEvent) => {
+    if (testRunId) {
+      didReportHostTest.fire({ testRunId, event })
+    }
+  }
+
+  const run = async () => {
+    try {
+      const sketchPath = await resolveSketchPath(
+        definition.sketchPath,
+        boardlabContext
+      )
+      if (!sketchPath) {
+        writeLine(red('No sketch selected.'))
+        doClose(1)
+        return
+      }
+      const { sources, tests, includeDirs } = await collectHostTestSources(
+        sketchPath,
+        definition.exclude
+      )
+      if (!tests.length) {
+        writeLine(
+          `No host tests in the ${testFolderNames.map((name) => `'${name}'`).join(' or ')} folder of ${sketchPath}. Skipping.`
+        )
+        report({ type: 'end', failed: false })
+        doClose(0)
+        return
+      }
+
+      const buildDir = hostTestBuildPath(sketchPath)
+      const mockDir = path.join(buildDir, 'mock')
+      await fs.mkdir(mockDir, { recursive: true })
+      for (const [name, content] of Object.entries(hostMockHeaders)) {
+        await fs.writeFile(path.join(mockDir, name), content)
+      }
+      const testSources = await Promise.all(
+        tests.map((filePath) => fs.readFile(filePath, 'utf8'))
+      )
+      const allSources = [...sources, ...tests]
+      if (!testSources.some(definesMain)) {
+        const mainPath = path.join(buildDir, 'boardlab_host_main.cpp')
+        await fs.writeFile(mainPath, hostTestMain)
+        allSources.push(mainPath)
+      }
+
+      const settings = vscode.workspace.getConfiguration('boardlab.test')
+      const compiler =
+        settings.get<string>('hostCompiler')?.trim() || defaultHostCompiler()
+      const output = path.join(
+        buildDir,
+        process.platform === 'win32' ? 'host-tests.exe' : 'host-tests'
+      )
+      const args = hostCompilerArgs({
+        sources: allSources,
+        includeDirs,
+        mockDir,
+        output,
+        extraArgs: settings.get<string[]>('hostCompilerArgs') ?? [],
+      })
+      writeLine(
+        `Compiling ${tests.length} host test file(s) of ${path.basename(sketchPath)} with ${compiler}...`
+      )
+      const compileExitCode = await execute(compiler, args, {
+        cwd: sketchPath,
+        signal: abortController.signal,
+        onData: write,
+      })
+      if (abortController.signal.aborted) {
+        return
+      }
+      if (compileExitCode !== 0) {
+        writeLine(red('Compilation of the host tests failed.'))
+        doClose(1)
+        return
+      }
+
+      writeLine(`Running ${output}...`)
+      const parser = new TestOutputParser()
+      let failed: boolean | undefined
+      const onEvents = (events: TestOutputEvent[]) => {
+        for (const event of events) {
+          if (event.type === 'end') {
+            failed = event.failed
+          }
+          report(event)
+        }
+      }
+      const timeout = (settings.get<number>('timeout') ?? 60) * 1_000
+      const timer = setTimeout(() => abortController.abort(), timeout)
+      let exitCode: number
+      try {
+        exitCode = await execute(output, [], {
+          cwd: sketchPath,
+          signal: abortController.signal,
+          onData: (text) => {
+            write(text)
+            report({ type: 'output', text })
+            onEvents(parser.push(text))
+          },
+        })
+      } finally {
+        clearTimeout(timer)
+      }
+      onEvents(parser.flush())
+      if (closed) {
+        return
+      }
+      if (abortController.signal.aborted) {
+        writeLine(
+          red(`The host tests did not complete in ${timeout / 1_000} seconds.`)
+        )
+        doClose(1)
+        return
+      }
+      if (failed === undefined) {
+        // The test output did not complete, for example on a crash
+        report({ type: 'end', failed: true })
+      }
+      doClose(exitCode === 0 && failed === false ? 0 : 1)
+    } catch (err) {
+      writeLine(red(err instanceof Error ? err.message : String(err)))
+      doClose(1)
+    }
+  }
+
+  return {
+    onDidWrite: emitter.event,
+    onDidClose: closeEmitter.event,
+    open: () => {
+      run()
+    },
+    close: () => {
+      abortController.abort()
+      doClose()
+    },
+  }
+}
+
+/** The exit code of the process. Rejects if the process cannot start. */
+function execute(
+  command: string,
+  args: readonly string[],
+  options: {
+    cwd: string
+    signal: AbortSignal
+    onData: (text: string) => void
+  }
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      shell: false,
+      signal: options.signal,
+    })
+    const decode = (chunk: Buffer) => options.onData(chunk.toString())
+    child.stdout?.on('data', decode)
+    child.stderr?.on('data', decode)
+    child.on('error', (err) => {
+      if (options.signal.aborted) {
+        resolve(1)
+        return
+      }
+      reject(
+        'code' in err && err.code === 'ENOENT'
+          ? new Error(
+              `${command} was not found. Install a host C++ compiler or set \`boardlab.test.hostCompiler\`.`
+            )
+          : err
+      )
+    })
+    child.on('close', (code) => resolve(code ?? 1))
+  })
+}
+
+async function resolveSketchPath(
+  sketchPath: string | undefined,
+  boardlabContext: BoardLabContextImpl
+): Promise<string | undefined> {
+  const trimmed = sketchPath?.trim()
+  if (trimmed && !isUnresolvedTaskVariable(trimmed)) {
+    return trimmed
+  }
+  if (boardlabContext.currentSketch?.sketchPath) {
+    return boardlabContext.currentSketch.sketchPath
+  }
+  return (await boardlabContext.selectSketch())?.sketchPath
+}
+
+function isUnresolvedTaskVariable(value: string): boolean {
+  return /\$\{[^}]+\}/.test(value)
+}
+
+function hostTestBuildPath(sketchPath: string): string {
+  return path.join(
+    os.tmpdir(),
+    'boardlab',
+    'test-host',
+    createHash('md5').update(sketchPath).digest('hex').toUpperCase()
+  )
+}
@@ -0,0 +1,563 @@
+import { randomUUID } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import { createPortKey } from 'boards-list'
+import * as vscode from 'vscode'
+
+import type { BoardLabContextImpl, MonitorClient } from '../boardlabContext'
+import { terminalEOL } from '../cli/arduino'
+import type { BoardLabTasks } from '../tasks'
+import { disposeAll } from '../utils'
+import { collectHostTestSources, onDidReportHostTest } from './hostTestTask'
+import {
+  TestOutputBuffer,
+  TestOutputParser,
+  type TestCaseResult,
+} from './testOutput'
+import {
+  findSourceFile,
+  findTestCases,
+  isTestSketch,
+  isTestSource,
+} from './testSketches'
+
+/** The exit code of the task, `undefined` if it was canceled. */
+function taskExitCode(
+  execution: vscode.TaskExecution
+): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const isExecution = (candidate: vscode.TaskExecution) =>
+      candidate === execution || candidate.task === execution.task
+    const toDispose = [
+      vscode.tasks.onDidEndTaskProcess((event) => {
+        if (isExecution(event.execution)) {
+          disposeAll(...toDispose)
+          resolve(event.exitCode)
+        }
+      }),
+      // The process end precedes the task end
+      vscode.tasks.onDidEndTask((event) => {
+        if (isExecution(event.execution)) {
+          disposeAll(...toDispose)
+          resolve(undefined)
+        }
+      }),
+    ]
+  })
+}
+
+async function listSourceFiles(sketchPath: string): Promise<string[]> {
+  const entries = await fs.readdir(sketchPath, {
+    recursive: true,
+    withFileTypes: true,
+  })
+  return entries
+    .filter((entry) => entry.isFile() && isTestSource(entry.name))
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .filter((filePath) => {
+      // The `src` folder is the only sketch subfolder compiled recursively
+      const [first] = path.relative(sketchPath, filePath).split(path.sep)
+      return first === path.basename(filePath) || first === 'src'
+    })
+    .sort()
+}
+
+async function listHostTestFiles(sketchPath: string): Promise<string[]> {
+  const { sources, tests } = await collectHostTestSources(sketchPath)
+  return [...tests, ...sources]
+}
+
+/**
+ * Runs the test sketches of the workspace on the board from the Test Explorer.
+ * A test sketch is compiled and uploaded with the BoardLab tasks, then its
+ * Unity, AUnit, or TAP output is read from the monitor of the selected port.
+ *
+ * The host tests in the `test` folder of a sketch run on this machine with the
+ * `test-host` task.
+ */
+export class BoardLabTestController implements vscode.Disposable {
+  private readonly controller: vscode.TestController
+  private readonly toDispose: vscode.Disposable[]
+  /** The sketch paths of the host test items. */
+  private readonly hostSketches = new WeakMap<vscode.TestItem, string>()
+
+  constructor(
+    private readonly boardlabContext: BoardLabContextImpl,
+    private readonly tasks: BoardLabTasks
+  ) {
+    this.controller = vscode.tests.createTestController('boardlab', 'BoardLab')
+    this.controller.resolveHandler = (item) =>
+      item ? this.resolveTestCases(item) : this.refresh()
+    this.controller.refreshHandler = () => this.refresh()
+    this.controller.createRunProfile(
+      'Run',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.run(request, token),
+      true
+    )
+    this.toDispose = [
+      this.controller,
+      boardlabContext.sketchbooks.onDidChangeResolvedSketches(() =>
+        this.refresh()
+      ),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        this.sketchItemsOf(document.uri.fsPath).forEach((item) =>
+          this.resolveTestCases(item)
+        )
+      }),
+    ]
+  }
+
+  dispose(): void {
+    disposeAll(...this.toDispose)
+  }
+
+  private async refresh(): Promise<void> {
+    const items: vscode.TestItem[] = []
+    for (const { sketchPath } of this.boardlabContext.openedSketches) {
+      const name = path.basename(sketchPath)
+      if (isTestSketch(vscode.workspace.asRelativePath(sketchPath, false))) {
+        items.push(
+          this.controller.items.get(sketchPath) ??
+            this.createSketchItem(
+              sketchPath,
+              name,
+              vscode.Uri.file(path.join(sketchPath, `${name}.ino`))
+            )
+        )
+      }
+      const { tests } = await collectHostTestSources(sketchPath).catch(() => ({
+        tests: [],
+      }))
+      if (tests.length) {
+        const id = `${sketchPath}${path.sep}(host)`
+        const item =
+          this.controller.items.get(id) ??
+          this.createSketchItem(
+            id,
+            `${name} (host)`,
+            vscode.Uri.file(path.dirname(tests[0]))
+          )
+        this.hostSketches.set(item, sketchPath)
+        items.push(item)
+      }
+    }
+    this.controller.items.replace(items)
+  }
+
+  private createSketchItem(
+    id: string,
+    label: string,
+    uri: vscode.Uri
+  ): vscode.TestItem {
+    const item = this.controller.createTestItem(id, label, uri)
+    item.canResolveChildren = true
+    return item
+  }
+
+  private sketchPathOf(sketchItem: vscode.TestItem): string {
+    return this.hostSketches.get(sketchItem) ?? sketchItem.id
+  }
+
+  private sketchItemsOf(filePath: string): vscode.TestItem[] {
+    const found: vscode.TestItem[] = []
+    this.controller.items.forEach((item) => {
+      if (!path.relative(this.sketchPathOf(item), filePath).startsWith('..')) {
+        found.push(item)
+      }
+    })
+    return found
+  }
+
+  private listTestFiles(sketchItem: vscode.TestItem): Promise<string[]> {
+    const sketchPath = this.sketchPathOf(sketchItem)
+    return this.hostSketches.has(sketchItem)
+      ? listHostTestFiles(sketchPath)
+      : listSourceFiles(sketchPath)
+  }
+
+  private async resolveTestCases(sketchItem: vscode.TestItem): Promise<void> {
+    const children: vscode.TestItem[] = []
+    try {
+      for (const filePath of await this.listTestFiles(sketchItem)) {
+        const source = await fs.readFile(filePath, 'utf8')
+        for (const { name, line } of findTestCases(source)) {
+          const child = this.controller.createTestItem(
+            `${sketchItem.id}/${name}`,
+            name,
+            vscode.Uri.file(filePath)
+          )
+          child.range = new vscode.Range(line, 0, line, 0)
+          children.push(child)
+        }
+      }
+    } catch (err) {
+      console.warn('Failed to discover the tests of', sketchItem.id, err)
+    }
+    sketchItem.children.replace(children)
+  }
+
+  private async run(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request)
+    // The board runs all tests of the sketch
+    const sketchItems = new Set<vscode.TestItem>()
+    const add = (item: vscode.TestItem) => sketchItems.add(item.parent ?? item)
+    if (request.include) {
+      request.include.forEach(add)
+    } else {
+      this.controller.items.forEach(add)
+    }
+    try {
+      for (const sketchItem of sketchItems) {
+        if (token.isCancellationRequested) {
+          run.skipped(sketchItem)
+          continue
+        }
+        if (request.exclude?.includes(sketchItem)) {
+          continue
+        }
+        if (this.hostSketches.has(sketchItem)) {
+          await this.runHostTests(run, sketchItem, token)
+        } else {
+          await this.runSketch(run, sketchItem, token)
+        }
+      }
+    } finally {
+      run.end()
+    }
+  }
+
+  private async runSketch(
+    run: vscode.TestRun,
+    sketchItem: vscode.TestItem,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const sketchPath = sketchItem.id
+    const sketch = this.boardlabContext.openedSketches.find(
+      (candidate) => candidate.sketchPath === sketchPath
+    )
+    const fqbn = sketch?.board?.fqbn
+    const port = sketch?.port
+    if (!fqbn || !port) {
+      run.errored(
+        sketchItem,
+        new vscode.TestMessage(
+          'Select a board and a port for the test sketch to run it on the board.'
+        )
+      )
+      return
+    }
+    if (sketchItem.canResolveChildren && !sketchItem.children.size) {
+      await this.resolveTestCases(sketchItem)
+    }
+    run.started(sketchItem)
+    sketchItem.children.forEach((child) => run.enqueued(child))
+
+    const compileExitCode = await taskExitCode(
+      await this.tasks.compile({ sketchPath, fqbn })
+    )
+    if (compileExitCode !== 0) {
+      run.errored(
+        sketchItem,
+        new vscode.TestMessage(
+          compileExitCode === undefined
+            ? 'Compilation canceled.'
+            : 'Compilation failed. See the task output for the errors.'
+        )
+      )
+      return
+    }
+    if (token.isCancellationRequested) {
+      run.skipped(sketchItem)
+      return
+    }
+
+    const settings = vscode.workspace.getConfiguration('boardlab.test')
+    const timeout = (settings.get<number>('timeout') ?? 60) * 1_000
+    const baudrate = settings.get<string>('baudrate') || undefined
+    // Attached before the upload: the upload suspends the monitor and resumes
+    // it right after, so the first lines of the test sketch are not lost
+    const client = await this.boardlabContext.createMonitorClient(port, {
+      autoStart: true,
+      baudrate,
+    })
+    try {
+      const output = this.readTestOutput(client, run, sketchItem)
+      const uploadExitCode = await taskExitCode(
+        await this.tasks.upload({
+          sketchPath,
+          fqbn,
+          port: createPortKey(port),
+        })
+      )
+      if (uploadExitCode !== 0) {
+        output.dispose()
+        run.errored(
+          sketchItem,
+          new vscode.TestMessage(
+            uploadExitCode === undefined
+              ? 'Upload canceled.'
+              : 'Upload failed. See the task output for the errors.'
+          )
+        )
+        return
+      }
+      const outcome = await output.wait(timeout, token)
+      const reported = output.reported
+      sketchItem.children.forEach((child) => {
+        if (reported.has(child)) {
+          return
+        }
+        if (outcome === 'timeout') {
+          run.errored(
+            child,
+            new vscode.TestMessage(`No result in ${timeout / 1_000} seconds.`)
+          )
+        } else {
+          run.skipped(child)
+        }
+      })
+      switch (outcome) {
+        case 'passed':
+          run.passed(sketchItem)
+          break
+        case 'failed':
+          run.failed(sketchItem, [])
+          break
+        case 'timeout':
+          run.errored(
+            sketchItem,
+            new vscode.TestMessage(
+              `The test output did not complete in ${timeout / 1_000} seconds. Check the baud rate (\`boardlab.test.baudrate\`) and the timeout (\`boardlab.test.timeout\`) settings.`
+            )
+          )
+          break
+        case 'canceled':
+          run.skipped(sketchItem)
+          break
+      }
+    } finally {
+      client.dispose()
+    }
+  }
+
+  private async reportResult(
+    run: vscode.TestRun,
+    sketchItem: vscode.TestItem,
+    result: TestCaseResult,
+    sourceFiles: Promise<string[]>,
+    duration: number
+  ): Promise<vscode.TestItem> {
+    const id = `${sketchItem.id}/${result.name}`
+    let item = sketchItem.children.get(id)
+    if (!item) {
+      item = this.controller.createTestItem(id, result.name)
+      sketchItem.children.add(item)
+    }
+    switch (result.outcome) {
+      case 'passed':
+        run.passed(item, duration)
+        break
+      case 'skipped':
+        run.skipped(item)
+        break
+      case 'failed': {
+        const message = new vscode.TestMessage(result.message ?? 'Failed')
+        const sourceFile =
+          result.location &&
+          findSourceFile(await sourceFiles, result.location.file)
+        if (sourceFile && result.location) {
+          const line = result.location.line - 1
+          message.location = new vscode.Location(
+            vscode.Uri.file(sourceFile),
+            new vscode.Range(line, 0, line, 0)
+          )
+        } else if (item.uri && item.range) {
+          message.location = new vscode.Location(item.uri, item.range)
+        }
+        run.failed(item, message, duration)
+        break
+      }
+    }
+    return item
+  }
+
+  private async runHostTests(
+    run: vscode.TestRun,
+    sketchItem: vscode.TestItem,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    if (sketchItem.canResolveChildren && !sketchItem.children.size) {
+      await this.resolveTestCases(sketchItem)
+    }
+    run.started(sketchItem)
+    sketchItem.children.forEach((child) => run.enqueued(child))
+
+    const sketchPath = this.sketchPathOf(sketchItem)
+    const sourceFiles = listHostTestFiles(sketchPath).catch(() => [])
+    const testRunId = randomUUID()
+    const reported = new Set<vscode.TestItem>()
+    let failed: boolean | undefined
+    let lastResultAt = Date.now()
+    let queue = Promise.resolve()
+    const subscription = onDidReportHostTest(({ testRunId: id, event }) => {
+      if (id !== testRunId) {
+        return
+      }
+      switch (event.type) {
+        case 'output':
+          run.appendOutput(terminalEOL(event.text), undefined, sketchItem)
+          break
+        case 'result': {
+          const duration = Date.now() - lastResultAt
+          lastResultAt = Date.now()
+          queue = queue.then(async () => {
+            reported.add(
+              await this.reportResult(
+                run,
+                sketchItem,
+                event.result,
+                sourceFiles,
+                duration
+              )
+            )
+          })
+          break
+        }
+        case 'end':
+          failed = event.failed
+          break
+      }
+    })
+    let exitCode: number | undefined
+    try {
+      const execution = await this.tasks.testHost({ sketchPath, testRunId })
+      const cancellation = token.onCancellationRequested(() =>
+        execution.terminate()
+      )
+      try {
+        exitCode = await taskExitCode(execution)
+      } finally {
+        cancellation.dispose()
+      }
+      await queue
+    } finally {
+      subscription.dispose()
+    }
+
+    sketchItem.children.forEach((child) => {
+      if (!reported.has(child)) {
+        run.skipped(child)
+      }
+    })
+    if (token.isCancellationRequested || exitCode === undefined) {
+      run.skipped(sketchItem)
+    } else if (failed === undefined) {
+      run.errored(
+        sketchItem,
+        new vscode.TestMessage(
+          'The host tests failed to compile or run. See the task output for the errors.'
+        )
+      )
+    } else if (failed || exitCode !== 0) {
+      run.failed(sketchItem, [])
+    } else {
+      run.passed(sketchItem)
+    }
+  }
+
+  /**
+   * Parses the output of the board into the results of the test items. The
+   * output is buffered from the moment the monitor is attached and parsed when
+   * `wait` is called. The output before the upload suspends the monitor is of
+   * the previous sketch and is dropped.
+   */
+  private readTestOutput(
+    client: MonitorClient,
+    run: vscode.TestRun,
+    sketchItem: vscode.TestItem
+  ): {
+    reported: Set<vscode.TestItem>
+    wait(
+      timeout: number,
+      token: vscode.CancellationToken
+    ): Promise<'passed' | 'failed' | 'timeout' | 'canceled'>
+    dispose(): void
+  } {
+    const parser = new TestOutputParser()
+    const decoder = new TextDecoder()
+    const reported = new Set<vscode.TestItem>()
+    const sourceFiles = this.listTestFiles(sketchItem).catch(() => [])
+    let lastResultAt = Date.now()
+    let onDidEnd: ((failed: boolean) => void) | undefined
+    let queue = Promise.resolve()
+
+    const report = async (result: TestCaseResult) => {
+      const duration = Date.now() - lastResultAt
+      lastResultAt = Date.now()
+      reported.add(
+        await this.reportResult(run, sketchItem, result, sourceFiles, duration)
+      )
+    }
+
+    const buffer = new TestOutputBuffer((text) => {
+      run.appendOutput(text.replace(/\r?\n/g, '\r\n'), undefined, sketchItem)
+      for (const event of parser.push(text)) {
+        queue = queue.then(() =>
+          event.type === 'result'
+            ? report(event.result)
+            : onDidEnd?.(event.failed)
+        )
+      }
+    })
+    const subscription = vscode.Disposable.from(
+      client.onDidReceiveData((data) =>
+        buffer.push(decoder.decode(data, { stream: true }))
+      ),
+      client.onDidChangeState((state) => {
+        if (state === 'suspended') {
+          buffer.reset()
+        }
+      })
+    )
+
+    return {
+      reported,
+      dispose: () => subscription.dispose(),
+      wait: async (timeout, token) => {
+        lastResultAt = Date.now()
+        let timer: NodeJS.Timeout | undefined
+        let cancellation: vscode.Disposable | undefined
+        try {
+          const outcome = await new Promise<
+            'passed' | 'failed' | 'timeout' | 'canceled'
+          >((resolve) => {
+            onDidEnd = (failed) => resolve(failed ? 'failed' : 'passed')
+            timer = setTimeout(() => resolve('timeout'), timeout)
+            cancellation = token.onCancellationRequested(() =>
+              resolve('canceled')
+            )
+            buffer.listen()
+          })
+          if (outcome === 'timeout' || outcome === 'canceled') {
+            for (const event of parser.flush()) {
+              if (event.type === 'result') {
+                queue = queue.then(() => report(event.result))
+              }
+            }
+          }
+          await queue
+          return outcome
+        } finally {
+          clearTimeout(timer)
+          cancellation?.dispose()
+          subscription.dispose()
+        }
+      },
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  TestOutputBuffer,
+  TestOutputParser,
+  type TestOutputEvent,
+} from './testOutput'
+
+function parse(output: string): TestOutputEvent[] {
+  const parser = new TestOutputParser()
+  return [...parser.push(output), ...parser.flush()]
+}
+
+describe('TestOutputParser', () => {
+  it('parses the Unity output', () => {
+    expect(
+      parse(
+        [
+          'booting...',
+          '/tmp/arduino/sketches/A1B2/sketch/test_motor.ino.cpp:12:test_speed:PASS',
+          '/tmp/arduino/sketches/A1B2/sketch/test_motor.ino.cpp:20:test_stop:FAIL: Expected 0 Was 3',
+          'src/helpers.cpp:7:test_later:IGNORE',
+          '',
+          '-----------------------',
+          '3 Tests 1 Failures 1 Ignored',
+          'FAIL',
+          '',
+        ].join('\r\n')
+      )
+    ).toEqual([
+      {
+        type: 'result',
+        result: {
+          name: 'test_speed',
+          outcome: 'passed',
+          message: undefined,
+          location: {
+            file: '/tmp/arduino/sketches/A1B2/sketch/test_motor.ino.cpp',
+            line: 12,
+          },
+        },
+      },
+      {
+        type: 'result',
+        result: {
+          name: 'test_stop',
+          outcome: 'failed',
+          message: 'Expected 0 Was 3',
+          location: {
+            file: '/tmp/arduino/sketches/A1B2/sketch/test_motor.ino.cpp',
+            line: 20,
+          },
+        },
+      },
+      {
+        type: 'result',
+        result: {
+          name: 'test_later',
+          outcome: 'skipped',
+          message: undefined,
+          location: { file: 'src/helpers.cpp', line: 7 },
+        },
+      },
+      { type: 'end', failed: true },
+    ])
+  })
+
+  it('parses the AUnit output with the assertion of the failure', () => {
+    expect(
+      parse(
+        [
+          'TestRunner started on 3 test(s).',
+          'Test motor_speed passed.',
+          'Assertion failed: (stopped=false) == (true=true), file AUnitTest.ino, line 31.',
+          'Test motor_stop failed.',
+          'Test slow timed out.',
+          'TestRunner duration: 0.050 seconds.',
+          'TestRunner summary: 1 passed, 1 failed, 0 skipped, 1 timed out, out of 3 test(s).',
+          '',
+        ].join('\n')
+      )
+    ).toEqual([
+      { type: 'result', result: { name: 'motor_speed', outcome: 'passed' } },
+      {
+        type: 'result',
+        result: {
+          name: 'motor_stop',
+          outcome: 'failed',
+          message: 'Assertion failed: (stopped=false) == (true=true)',
+          location: { file: 'AUnitTest.ino', line: 31 },
+        },
+      },
+      {
+        type: 'result',
+        result: {
+          name: 'slow',
+          outcome: 'failed',
+          message: 'Timed out',
+          location: undefined,
+        },
+      },
+      { type: 'end', failed: true },
+    ])
+  })
+
+  it('parses the TAP output with the diagnostics of the failures', () => {
+    expect(
+      parse(
+        [
+          'TAP version 13',
+          '1..3',
+          'ok 1 - reads the sensor',
+          'not ok 2 - calibrates',
+          '# expected 42',
+          '# got 41',
+          'ok 3 - sleeps # SKIP no RTC',
+          '',
+        ].join('\n')
+      )
+    ).toEqual([
+      {
+        type: 'result',
+        result: { name: 'reads the sensor', outcome: 'passed' },
+      },
+      {
+        type: 'result',
+        result: {
+          name: 'calibrates',
+          outcome: 'failed',
+          message: 'expected 42\ngot 41',
+        },
+      },
+      {
+        type: 'result',
+        result: { name: 'sleeps', outcome: 'skipped', message: 'no RTC' },
+      },
+      { type: 'end', failed: true },
+    ])
+  })
+
+  it('joins the lines split across the chunks', () => {
+    const parser = new TestOutputParser()
+
+    expect(parser.push('ok 1 - fir')).toEqual([])
+    expect(parser.push('st\r\nok 2 - second\r\n1..2\r\n')).toEqual([
+      { type: 'result', result: { name: 'first', outcome: 'passed' } },
+      { type: 'result', result: { name: 'second', outcome: 'passed' } },
+      { type: 'end', failed: false },
+    ])
+    expect(parser.push('ok 3 - after the end\n')).toEqual([])
+  })
+})
+
+describe('TestOutputBuffer', () => {
+  it('keeps the output that arrives before listening', () => {
+    const received: string[] = []
+    const buffer = new TestOutputBuffer((text) => received.push(text))
+
+    buffer.push('previous sketch\n')
+    buffer.reset() // the upload suspends the monitor
+    buffer.push('1..2\nok 1 - first\n')
+
+    expect(received).toEqual([])
+
+    buffer.listen()
+    buffer.push('ok 2 - second\n')
+
+    expect(received).toEqual(['1..2\nok 1 - first\n', 'ok 2 - second\n'])
+  })
+})
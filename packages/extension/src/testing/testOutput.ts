@@ -0,0 +1,249 @@
+export type TestOutcome = 'passed' | 'failed' | 'skipped'
+
+export interface TestSourceLocation {
+  /** As printed by the board, usually the `__FILE__` of the build copy. */
+  readonly file: string
+  /** 1-based */
+  readonly line: number
+}
+
+export interface TestCaseResult {
+  readonly name: string
+  readonly outcome: TestOutcome
+  readonly message?: string
+  readonly location?: TestSourceLocation
+}
+
+export type TestOutputEvent =
+  | { readonly type: 'result'; readonly result: TestCaseResult }
+  /** The test run of the board completed. */
+  | { readonly type: 'end'; readonly failed: boolean }
+
+const unityResult =
+  /^(?<file>.+?):(?<line>\d+):(?<name>[^:]+):(?<status>PASS|FAIL|IGNORE)(?::\s*(?<message>.*))?$/
+const unitySummary = /^(\d+) Tests (\d+) Failures (\d+) Ignored$/
+
+const aunitResult =
+  /^Test (?<name>\S+) (?<status>passed|failed|skipped|timed out)\.$/
+const aunitAssertion =
+  /^Assertion failed: (?<message>.*), file (?<file>.+), line (?<line>\d+)\.$/
+const aunitSummary =
+  /^TestRunner summary: \d+ passed, (?<failed>\d+) failed, \d+ skipped, (?<timedOut>\d+) timed out/
+
+const tapPlan = /^1\.\.(?<count>\d+)/
+const tapResult =
+  /^(?<not>not )?ok\b(?:\s+\d+)?(?:\s*-?\s*(?<name>[^#]*?))?\s*(?:#\s*(?<directive>SKIP|TODO)\b\s*(?<reason>.*))?$/i
+const tapDiagnostic = /^#\s?(?<message>.*)$/
+
+/**
+ * Parses the Unity, AUnit, and TAP output of a test sketch line by line. The
+ * format is detected from the lines; the lines of other formats, such as the
+ * logs of the sketch, are ignored.
+ */
+export class TestOutputParser {
+  private buffer = ''
+  private tapCount = 0
+  private tapPlanned: number | undefined
+  private tapFailed = false
+  private tapFailure: { name: string; messages: string[] } | undefined
+  private ended = false
+  private aunitAssertion:
+    | Pick<TestCaseResult, 'message' | 'location'>
+    | undefined
+
+  /** Feeds the raw output of the board, which can split the lines. */
+  push(chunk: string): TestOutputEvent[] {
+    this.buffer += chunk
+    const lines = this.buffer.split(/\r?\n/)
+    this.buffer = lines.pop() ?? ''
+    return lines.flatMap((line) => this.pushLine(line))
+  }
+
+  pushLine(rawLine: string): TestOutputEvent[] {
+    if (this.ended) {
+      return []
+    }
+    const line = rawLine.trim()
+    const events: TestOutputEvent[] = []
+    if (this.tapFailure && !tapDiagnostic.test(line)) {
+      events.push(this.flushTapFailure())
+      if (this.tapPlanned !== undefined && this.tapCount >= this.tapPlanned) {
+        return this.end(events, this.tapFailed)
+      }
+    }
+
+    let match = line.match(unityResult)
+    if (match?.groups) {
+      const { file, line: lineNumber, name, status, message } = match.groups
+      events.push({
+        type: 'result',
+        result: {
+          name,
+          outcome:
+            status === 'PASS'
+              ? 'passed'
+              : status === 'FAIL'
+                ? 'failed'
+                : 'skipped',
+          message: message || undefined,
+          location: { file, line: Number(lineNumber) },
+        },
+      })
+      return events
+    }
+    match = line.match(unitySummary)
+    if (match) {
+      return this.end(events, Number(match[2]) > 0)
+    }
+
+    match = line.match(aunitAssertion)
+    if (match?.groups) {
+      const { message, file, line: lineNumber } = match.groups
+      this.aunitAssertion = {
+        message: `Assertion failed: ${message}`,
+        location: { file, line: Number(lineNumber) },
+      }
+      return events
+    }
+    match = line.match(aunitResult)
+    if (match?.groups) {
+      const { name, status } = match.groups
+      const assertion = this.aunitAssertion
+      this.aunitAssertion = undefined
+      events.push({
+        type: 'result',
+        result:
+          status === 'passed'
+            ? { name, outcome: 'passed' }
+            : status === 'skipped'
+              ? { name, outcome: 'skipped' }
+              : {
+                  name,
+                  outcome: 'failed',
+                  message:
+                    status === 'timed out' ? 'Timed out' : assertion?.message,
+                  location: assertion?.location,
+                },
+      })
+      return events
+    }
+    match = line.match(aunitSummary)
+    if (match?.groups) {
+      const { failed, timedOut } = match.groups
+      return this.end(events, Number(failed) + Number(timedOut) > 0)
+    }
+
+    match = line.match(tapPlan)
+    if (match?.groups) {
+      this.tapPlanned = Number(match.groups.count)
+      return this.endTapIfComplete(events)
+    }
+    match = line.match(tapResult)
+    if (match?.groups) {
+      this.tapCount++
+      const { not, name: rawName, directive, reason } = match.groups
+      const name = rawName?.trim() || `#${this.tapCount}`
+      if (directive) {
+        events.push({
+          type: 'result',
+          result: {
+            name,
+            outcome: 'skipped',
+            message: reason?.trim() || undefined,
+          },
+        })
+      } else if (not) {
+        this.tapFailed = true
+        // The diagnostics of the failure follow the result
+        this.tapFailure = { name, messages: [] }
+      } else {
+        events.push({ type: 'result', result: { name, outcome: 'passed' } })
+      }
+      return this.endTapIfComplete(events)
+    }
+    match = line.match(tapDiagnostic)
+    if (match?.groups && this.tapFailure) {
+      this.tapFailure.messages.push(match.groups.message)
+      return events
+    }
+    return events
+  }
+
+  /** Flushes the pending results when the output stops, for example on timeout. */
+  flush(): TestOutputEvent[] {
+    const events: TestOutputEvent[] = []
+    if (this.buffer) {
+      events.push(...this.pushLine(this.buffer))
+      this.buffer = ''
+    }
+    if (this.tapFailure) {
+      events.push(this.flushTapFailure())
+    }
+    return events
+  }
+
+  private flushTapFailure(): TestOutputEvent {
+    const { name, messages } = this.tapFailure!
+    this.tapFailure = undefined
+    return {
+      type: 'result',
+      result: {
+        name,
+        outcome: 'failed',
+        message: messages.join('\n') || undefined,
+      },
+    }
+  }
+
+  private endTapIfComplete(events: TestOutputEvent[]): TestOutputEvent[] {
+    if (this.tapPlanned === undefined || this.tapCount < this.tapPlanned) {
+      return events
+    }
+    if (this.tapFailure) {
+      // Wait for the diagnostics of the last failure
+      return events
+    }
+    return this.end(events, this.tapFailed)
+  }
+
+  private end(events: TestOutputEvent[], failed: boolean): TestOutputEvent[] {
+    if (this.tapFailure) {
+      events.push(this.flushTapFailure())
+    }
+    this.ended = true
+    return [...events, { type: 'end', failed }]
+  }
+}
+
+/**
+ * Buffers the output of the board from the moment the monitor is attached until
+ * `listen` is called, so the first lines of the test sketch are not lost when
+ * they arrive before the upload task ends. The output before the upload
+ * suspends the monitor is of the previous sketch; `reset` drops it.
+ */
+export class TestOutputBuffer {
+  private pending: string[] | undefined = []
+
+  constructor(private readonly onDidReceive: (text: string) => void) {}
+
+  push(text: string): void {
+    if (this.pending) {
+      this.pending.push(text)
+    } else {
+      this.onDidReceive(text)
+    }
+  }
+
+  reset(): void {
+    if (this.pending) {
+      this.pending = []
+    }
+  }
+
+  /** Replays the buffered output and passes the next output through. */
+  listen(): void {
+    const pending = this.pending ?? []
+    this.pending = undefined
+    pending.forEach((text) => this.onDidReceive(text))
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import { findSourceFile, findTestCases, isTestSketch } from './testSketches'
+
+describe('testSketches', () => {
+  it('detects the test sketches by folder or name', () => {
+    expect(isTestSketch('test/motor')).toBe(true)
+    expect(isTestSketch('firmware/tests/motor')).toBe(true)
+    expect(isTestSketch('test_motor')).toBe(true)
+    expect(isTestSketch('motor-tests')).toBe(true)
+    expect(isTestSketch('motor')).toBe(false)
+    expect(isTestSketch('attestation')).toBe(false)
+    expect(isTestSketch('motor/tester')).toBe(false)
+  })
+
+  it('finds the Unity and AUnit test cases', () => {
+    const source = [
+      '#include <unity.h>', // 0
+      '',
+      'void test_speed(void) {', // 2
+      '  TEST_ASSERT_EQUAL(3, speed());',
+      '}',
+      '',
+      'test(motor, stop) {', // 6
+      '  assertTrue(stopped());',
+      '}',
+      '',
+      '  testing(slow) {}', // 10
+      '',
+      'void setup() {',
+      '  UNITY_BEGIN();',
+      '  RUN_TEST(test_speed);',
+      '  RUN_TEST(test_missing);', // 15
+      '}',
+    ].join('\n')
+
+    expect(findTestCases(source)).toEqual([
+      { name: 'test_speed', line: 2 },
+      { name: 'test_missing', line: 15 },
+      { name: 'motor_stop', line: 6 },
+      { name: 'slow', line: 10 },
+    ])
+  })
+
+  it('maps the file printed by the board to the sketch source', () => {
+    const sourceFiles = [
+      '/ws/test_motor/test_motor.ino',
+      '/ws/test_motor/src/helpers.cpp',
+    ]
+
+    expect(
+      findSourceFile(
+        sourceFiles,
+        '/tmp/arduino/sketches/A1B2/sketch/test_motor.ino.cpp'
+      )
+    ).toBe('/ws/test_motor/test_motor.ino')
+    expect(
+      findSourceFile(sourceFiles, 'C:\\build\\sketch\\src\\helpers.cpp')
+    ).toBe('/ws/test_motor/src/helpers.cpp')
+    expect(findSourceFile(sourceFiles, 'unity.c')).toBeUndefined()
+  })
+})
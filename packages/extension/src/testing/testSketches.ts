@@ -0,0 +1,74 @@
+import path from 'node:path'
+
+/**
+ * Whether the sketch is a test sketch: it is in a `test` or `tests` folder, or
+ * its name starts or ends with `test`, such as `test_motor` or `motor-tests`.
+ * The `relativePath` is relative to the workspace folder.
+ */
+export function isTestSketch(relativePath: string): boolean {
+  const segments = relativePath.split(/[\\/]/).filter(Boolean)
+  const name = segments.pop() ?? ''
+  return (
+    segments.some((segment) => /^tests?$/i.test(segment)) ||
+    /^tests?$|^tests?[_-]|[_-]tests?$/i.test(name)
+  )
+}
+
+/** The sources of the sketch to look for test cases. */
+export function isTestSource(fileName: string): boolean {
+  return /\.(ino|pde|c|cc|cpp|h|hpp)$/i.test(path.basename(fileName))
+}
+
+export interface TestCaseDeclaration {
+  readonly name: string
+  /** 0-based */
+  readonly line: number
+}
+
+/**
+ * The Unity `RUN_TEST` functions and the AUnit `test`, `testing`, `testF`, and
+ * `testingF` macros of the source. The Unity tests are located at their
+ * function definitions, if found.
+ */
+export function findTestCases(source: string): TestCaseDeclaration[] {
+  const lines = source.split(/\r?\n/)
+  const lineOf = (index: number) =>
+    source.slice(0, index).split(/\r?\n/).length - 1
+  const cases: TestCaseDeclaration[] = []
+  for (const match of source.matchAll(/\bRUN_TEST\s*\(\s*(\w+)/g)) {
+    const name = match[1]
+    const definition = lines.findIndex((line) =>
+      RegExp(`^\\s*(?:static\\s+)?void\\s+${name}\\s*\\(`).test(line)
+    )
+    cases.push({
+      name,
+      line: definition >= 0 ? definition : lineOf(match.index),
+    })
+  }
+  for (const match of source.matchAll(
+    /^\s*(?:test|testing|testF|testingF)\s*\(\s*(\w+)\s*(?:,\s*(\w+)\s*)?\)/gm
+  )) {
+    const [, first, second] = match
+    cases.push({
+      // AUnit names the tests of a suite or fixture `suite_name`
+      name: second ? `${first}_${second}` : first,
+      line: lineOf(match.index + match[0].search(/\S/)),
+    })
+  }
+  return cases
+}
+
+/**
+ * The source file of the sketch printed by the board. The board prints the
+ * `__FILE__` of the build copy, where the `.ino` files are preprocessed to a
+ * single `.ino.cpp` file.
+ */
+export function findSourceFile(
+  sourceFiles: readonly string[],
+  printedFile: string
+): string | undefined {
+  const name = path
+    .basename(printedFile.replace(/\\/g, '/'))
+    .replace(/\.ino\.cpp$/i, '.ino')
+  return sourceFiles.find((sourceFile) => path.basename(sourceFile) === name)
+}
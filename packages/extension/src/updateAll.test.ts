@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Resource } from '@boardlab/protocol'
+
+import {
+  collectProfilePins,
+  createUpdatePlan,
+  runUpdatePlan,
+  type UpdatePlanItem,
+} from './updateAll'
+
+function resource(
+  id: string,
+  installedVersion: string | undefined,
+  availableVersions: string[]
+): Resource {
+  return {
+    id,
+    name: id,
+    installedVersion,
+    availableVersions,
+    summary: '',
+    author: '',
+    types: [],
+  }
+}
+
+describe('updateAll', () => {
+  it('collects the versions pinned by the profiles', () => {
+    const pins = collectProfilePins('/sketches/blink', {
+      profiles: {
+        uno: {
+          fqbn: 'arduino:avr:uno',
+          platforms: [{ platform: 'arduino:avr (1.8.5)' }],
+          libraries: ['ArduinoJson (6.21.0)', 'Servo'] as any,
+        },
+      },
+    })
+
+    expect(pins).toEqual([
+      {
+        kind: 'platform',
+        id: 'arduino:avr',
+        version: '1.8.5',
+        sketchPath: '/sketches/blink',
+        profile: 'uno',
+      },
+      {
+        kind: 'library',
+        id: 'ArduinoJson',
+        version: '6.21.0',
+        sketchPath: '/sketches/blink',
+        profile: 'uno',
+      },
+    ])
+  })
+
+  it('plans the updates with the notes of the pinned versions', () => {
+    const plan = createUpdatePlan(
+      {
+        platforms: [
+          resource('arduino:avr', '1.8.5', ['1.8.6', '1.8.5']),
+          resource('esp32:esp32', '3.0.0', ['3.0.0']),
+        ],
+        libraries: [
+          resource('ArduinoJson', '6.21.0', ['7.4.2', '6.21.0']),
+          resource('Servo', undefined, ['1.2.2']),
+        ],
+      },
+      [
+        {
+          kind: 'library',
+          id: 'ArduinoJson',
+          version: '6.21.0',
+          sketchPath: '/sketches/blink',
+          profile: 'uno',
+        },
+      ]
+    )
+
+    expect(plan).toEqual([
+      {
+        kind: 'platform',
+        id: 'arduino:avr',
+        name: 'arduino:avr',
+        installedVersion: '1.8.5',
+        version: '1.8.6',
+        notes: [],
+      },
+      {
+        kind: 'library',
+        id: 'ArduinoJson',
+        name: 'ArduinoJson',
+        installedVersion: '6.21.0',
+        version: '7.4.2',
+        notes: ["6.21.0 is pinned by the 'uno' profile of blink"],
+      },
+    ])
+  })
+
+  it('notes the pins that are not valid versions', () => {
+    const pins = collectProfilePins('/sketches/blink', {
+      profiles: {
+        uno: {
+          fqbn: 'arduino:avr:uno',
+          libraries: ['Servo (1.2)', 'Servo (latest)'] as any,
+        },
+      },
+    })
+
+    const plan = createUpdatePlan(
+      {
+        platforms: [],
+        libraries: [resource('Servo', '1.2.1', ['1.2.2', '1.2.1'])],
+      },
+      pins
+    )
+
+    expect(plan.map(({ notes }) => notes)).toEqual([
+      [
+        "1.2 pinned by the 'uno' profile of blink is not a valid version",
+        "latest pinned by the 'uno' profile of blink is not a valid version",
+      ],
+    ])
+  })
+
+  describe('runUpdatePlan', () => {
+    const items: UpdatePlanItem[] = ['a', 'b', 'c'].map((id) => ({
+      kind: 'library',
+      id,
+      name: id,
+      installedVersion: '1.0.0',
+      version: '2.0.0',
+      notes: [],
+    }))
+
+    it('continues after a failure', async () => {
+      const result = await runUpdatePlan(items, async ({ id }) => {
+        if (id === 'b') {
+          throw new Error('Download failed')
+        }
+      })
+
+      expect(result.updated.map(({ id }) => id)).toEqual(['a', 'c'])
+      expect(result.failures).toEqual([
+        { item: items[1], message: 'Download failed' },
+      ])
+      expect(result.skipped).toEqual([])
+    })
+
+    it('skips the remaining items when aborted', async () => {
+      const controller = new AbortController()
+      const result = await runUpdatePlan(
+        items,
+        async ({ id }) => {
+          if (id === 'b') {
+            controller.abort()
+            throw new Error('Canceled')
+          }
+        },
+        { signal: controller.signal }
+      )
+
+      expect(result.updated.map(({ id }) => id)).toEqual(['a'])
+      expect(result.failures).toEqual([])
+      expect(result.skipped.map(({ id }) => id)).toEqual(['b', 'c'])
+    })
+  })
+})
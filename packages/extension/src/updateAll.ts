@@ -0,0 +1,313 @@
+import path from 'node:path'
+
+import { isAbortError } from 'abort-controller-x'
+import { compareLoose, valid } from 'semver'
+import * as vscode from 'vscode'
+
+import type { Resource } from '@boardlab/protocol'
+
+import type { BoardLabContext } from './boardlabContext'
+import { readProfiles } from './profile/profiles'
+import type { Profiles } from './profile/types'
+import { isUpdatable } from './resourcesManager'
+
+export type UpdateKind = 'platform' | 'library'
+
+/** A platform or library version pinned by a sketch profile. */
+export interface ProfilePin {
+  readonly kind: UpdateKind
+  readonly id: string
+  readonly version: string
+  readonly sketchPath: string
+  readonly profile: string
+}
+
+export interface UpdatePlanItem {
+  readonly kind: UpdateKind
+  readonly id: string
+  readonly name: string
+  readonly installedVersion: string
+  /** The latest available version. */
+  readonly version: string
+  /** For example, the sketch profiles that pin an older version. */
+  readonly notes: readonly string[]
+}
+
+export interface UpdateFailure {
+  readonly item: UpdatePlanItem
+  readonly message: string
+}
+
+export interface UpdatePlanResult {
+  readonly updated: readonly UpdatePlanItem[]
+  readonly failures: readonly UpdateFailure[]
+  /** The items not run because the plan was canceled. */
+  readonly skipped: readonly UpdatePlanItem[]
+}
+
+/** Splits `"id (version)"` entries of the platforms and libraries of profiles. */
+function splitPinned(
+  value: unknown
+): { id: string; version: string } | undefined {
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  const match = value.trim().match(/^(.+?)\s*\(([^)]+)\)$/)
+  return match ? { id: match[1], version: match[2].trim() } : undefined
+}
+
+/** The versioned platforms and libraries of the profiles of the sketch. */
+export function collectProfilePins(
+  sketchPath: string,
+  profiles: Profiles
+): ProfilePin[] {
+  const pins: ProfilePin[] = []
+  for (const [profile, entry] of Object.entries(profiles.profiles ?? {})) {
+    const add = (kind: UpdateKind, value: unknown) => {
+      const pinned = splitPinned(value)
+      if (pinned) {
+        pins.push({ kind, ...pinned, sketchPath, profile })
+      }
+    }
+    for (const { platform } of entry?.platforms ?? []) {
+      add('platform', platform)
+    }
+    // The libraries are plain strings, such as `ArduinoJson (7.4.2)`
+    for (const library of (entry?.libraries ?? []) as unknown[]) {
+      add(
+        'library',
+        typeof library === 'string'
+          ? library
+          : (library as { library?: unknown } | undefined)?.library
+      )
+    }
+  }
+  return pins
+}
+
+/** Reads the pins of the sketches. Sketches without a `sketch.yaml` are skipped. */
+export async function readProfilePins(
+  sketchPaths: readonly string[]
+): Promise<ProfilePin[]> {
+  const pins: ProfilePin[] = []
+  for (const sketchPath of sketchPaths) {
+    try {
+      pins.push(
+        ...collectProfilePins(sketchPath, await readProfiles(sketchPath))
+      )
+    } catch {
+      // No or invalid sketch.yaml
+    }
+  }
+  return pins
+}
+
+/**
+ * The installed platforms and libraries with a newer version, platforms first.
+ * The resources must have their available versions sorted, the most recent
+ * first.
+ */
+export function createUpdatePlan(
+  resources: { platforms: readonly Resource[]; libraries: readonly Resource[] },
+  pins: readonly ProfilePin[] = []
+): UpdatePlanItem[] {
+  const toItems = (kind: UpdateKind, candidates: readonly Resource[]) =>
+    candidates.filter(isUpdatable).map((resource) => {
+      const version = resource.availableVersions[0]
+      const notes = pins
+        .filter((pin) => pin.kind === kind && pin.id === resource.id)
+        .flatMap((pin) => {
+          const pinnedBy = `the '${pin.profile}' profile of ${path.basename(pin.sketchPath)}`
+          // hand-written pins, such as `Servo (1.2)`, are not always semver
+          if (!valid(pin.version, true) || !valid(version, true)) {
+            return [
+              `${pin.version} pinned by ${pinnedBy} is not a valid version`,
+            ]
+          }
+          return compareLoose(pin.version, version) < 0
+            ? [`${pin.version} is pinned by ${pinnedBy}`]
+            : []
+        })
+      return {
+        kind,
+        id: resource.id,
+        name: resource.name,
+        installedVersion: resource.installedVersion ?? '',
+        version,
+        notes,
+      }
+    })
+  return [
+    ...toItems('platform', resources.platforms),
+    ...toItems('library', resources.libraries),
+  ]
+}
+
+/**
+ * Runs the updates one after the other. A failed update does not stop the plan;
+ * aborting the `signal` skips the remaining items.
+ */
+export async function runUpdatePlan(
+  items: readonly UpdatePlanItem[],
+  update: (item: UpdatePlanItem, signal: AbortSignal) => Promise<void>,
+  options: {
+    signal?: AbortSignal
+    onWillUpdate?: (item: UpdatePlanItem, index: number) => void
+  } = {}
+): Promise<UpdatePlanResult> {
+  const { signal = new AbortController().signal, onWillUpdate } = options
+  const updated: UpdatePlanItem[] = []
+  const failures: UpdateFailure[] = []
+  for (const [index, item] of items.entries()) {
+    if (signal.aborted) {
+      return { updated, failures, skipped: items.slice(index) }
+    }
+    onWillUpdate?.(item, index)
+    try {
+      await update(item, signal)
+      updated.push(item)
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) {
+        return { updated, failures, skipped: items.slice(index) }
+      }
+      failures.push({
+        item,
+        message: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+  return { updated, failures, skipped: [] }
+}
+
+/**
+ * Builds the update plan of the installed platforms and libraries, lets the
+ * user deselect the items, then updates them with a single progress
+ * notification and reports the failures.
+ */
+export async function updateAll(
+  boardlabContext: Pick<
+    BoardLabContext,
+    'platformsManager' | 'librariesManager' | 'openedSketches'
+  >
+): Promise<void> {
+  const { platformsManager, librariesManager } = boardlabContext
+  const plan = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Checking for platform and library updates...',
+      cancellable: true,
+    },
+    async (_, token) => {
+      const controller = new AbortController()
+      const toDispose = token.onCancellationRequested(() => controller.abort())
+      try {
+        const { signal } = controller
+        const [platforms, libraries, pins] = await Promise.all([
+          platformsManager.updatable(signal),
+          librariesManager.updatable(signal),
+          readProfilePins(
+            boardlabContext.openedSketches.map(({ sketchPath }) => sketchPath)
+          ),
+        ])
+        return createUpdatePlan({ platforms, libraries }, pins)
+      } catch (err) {
+        if (isAbortError(err)) {
+          return undefined
+        }
+        throw err
+      } finally {
+        toDispose.dispose()
+      }
+    }
+  )
+  if (!plan) {
+    return
+  }
+  if (!plan.length) {
+    vscode.window.showInformationMessage(
+      'All installed platforms and libraries are up to date.'
+    )
+    return
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    plan.map((item) => ({
+      label: `${item.kind === 'platform' ? '$(circuit-board)' : '$(library)'} ${item.name}`,
+      description: `${item.installedVersion} → ${item.version}`,
+      detail: item.notes.length
+        ? `$(warning) ${item.notes.join('; ')}`
+        : undefined,
+      picked: true,
+      item,
+    })),
+    {
+      title: `Update All (${plan.length})`,
+      placeHolder: 'Deselect the platforms and libraries to keep',
+      canPickMany: true,
+      matchOnDescription: true,
+    }
+  )
+  if (!picked?.length) {
+    return
+  }
+  const items = picked.map(({ item }) => item)
+
+  const result = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Updating',
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const controller = new AbortController()
+      const toDispose = token.onCancellationRequested(() => controller.abort())
+      try {
+        return await runUpdatePlan(
+          items,
+          (item, signal) => {
+            const manager =
+              item.kind === 'platform' ? platformsManager : librariesManager
+            return manager.update(
+              { id: item.id, name: item.name, version: item.version },
+              {
+                signal,
+                onProgress: (message) =>
+                  progress.report({ message: `${item.name}: ${message}` }),
+              }
+            )
+          },
+          {
+            signal: controller.signal,
+            onWillUpdate: (item, index) =>
+              progress.report({
+                increment: index ? 100 / items.length : 0,
+                message: `${item.name} ${item.version} (${index + 1}/${items.length})`,
+              }),
+          }
+        )
+      } finally {
+        toDispose.dispose()
+      }
+    }
+  )
+
+  const { updated, failures, skipped } = result
+  const summary = `Updated ${updated.length} of ${items.length} platforms and libraries.`
+  if (!failures.length && !skipped.length) {
+    vscode.window.showInformationMessage(summary)
+    return
+  }
+  const detail = [
+    ...failures.map(
+      ({ item, message }) => `- ${item.name} ${item.version}: ${message}`
+    ),
+    ...(skipped.length
+      ? [`Canceled: ${skipped.map(({ name }) => name).join(', ')}`]
+      : []),
+  ].join('\n')
+  if (failures.length) {
+    vscode.window.showErrorMessage(summary, { modal: true, detail })
+  } else {
+    vscode.window.showWarningMessage(summary, { detail })
+  }
+}
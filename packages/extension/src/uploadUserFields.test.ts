@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type * as vscode from 'vscode'
+
+import {
+  UploadUserFields,
+  isAuthenticationFailure,
+  pickUserFieldValues,
+} from './uploadUserFields'
+
+function createSecretStorage(): vscode.SecretStorage {
+  const secrets = new Map<string, string>()
+  return {
+    keys: async () => Array.from(secrets.keys()),
+    get: async (key: string) => secrets.get(key),
+    store: async (key: string, value: string) => {
+      secrets.set(key, value)
+    },
+    delete: async (key: string) => {
+      secrets.delete(key)
+    },
+  } as unknown as vscode.SecretStorage
+}
+
+const esp = { protocol: 'network', address: '192.168.1.42' }
+const esp2 = { protocol: 'network', address: '192.168.1.43' }
+
+describe('uploadUserFields', () => {
+  describe('pickUserFieldValues', () => {
+    it('picks the values only when all fields are stored', () => {
+      const fields = [{ name: 'password' }, { name: 'user' }]
+
+      expect(
+        pickUserFieldValues(fields, { password: 'secret', user: '', x: '1' })
+      ).toEqual({ password: 'secret', user: '' })
+      expect(pickUserFieldValues(fields, { password: 'secret' })).toBe(
+        undefined
+      )
+      expect(pickUserFieldValues(fields, undefined)).toBe(undefined)
+      expect(pickUserFieldValues([], undefined)).toEqual({})
+    })
+  })
+
+  describe('isAuthenticationFailure', () => {
+    it('detects the rejected passwords of the upload tools', () => {
+      expect(
+        isAuthenticationFailure(
+          'Sending invitation to 192.168.1.42 \nAuthenticating...FAIL\n20:14:02 [ERROR]: Authentication Failed'
+        )
+      ).toBe(true)
+      expect(isAuthenticationFailure('HTTP/1.1 401 Unauthorized')).toBe(true)
+      expect(
+        isAuthenticationFailure(
+          '20:14:02 [ERROR]: No response from the ESP\nFailed uploading: uploading error: exit status 1'
+        )
+      ).toBe(false)
+    })
+  })
+
+  describe('UploadUserFields', () => {
+    it('resolves no values without fields', async () => {
+      const userFields = new UploadUserFields(createSecretStorage())
+
+      expect(await userFields.resolve([], esp)).toEqual({})
+    })
+
+    it('stores and forgets the values per port', async () => {
+      const secrets = createSecretStorage()
+      await secrets.store('other', 'value')
+      const userFields = new UploadUserFields(secrets)
+
+      await userFields.store(esp, { password: 'secret' })
+      await userFields.store(esp2, { password: 'other' })
+
+      expect(await userFields.get(esp)).toEqual({ password: 'secret' })
+      expect(await userFields.ports()).toEqual([esp, esp2])
+
+      await userFields.forget(esp)
+      expect(await userFields.get(esp)).toBe(undefined)
+      expect(await userFields.ports()).toEqual([esp2])
+
+      await userFields.forget()
+      expect(await userFields.ports()).toEqual([])
+      expect(await secrets.get('other')).toBe('value')
+    })
+  })
+})
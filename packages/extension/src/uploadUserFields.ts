@@ -0,0 +1,153 @@
+import type { UserField } from 'ardunno-cli/api'
+import { createPortKey, type PortIdentifier } from 'boards-list'
+import * as vscode from 'vscode'
+
+/** The field name to the value, as the `userFields` of the `UploadRequest`. */
+export type UserFieldValues = Record<string, string>
+
+interface StoredUserFields {
+  readonly port: PortIdentifier
+  readonly values: UserFieldValues
+}
+
+const secretKeyPrefix = 'boardlab.uploadUserFields:'
+
+/**
+ * The stored values of the fields, or `undefined` if any of the fields has no
+ * stored value.
+ */
+export function pickUserFieldValues(
+  fields: readonly Pick<UserField, 'name'>[],
+  stored: UserFieldValues | undefined
+): UserFieldValues | undefined {
+  const values: UserFieldValues = {}
+  for (const { name } of fields) {
+    const value = stored?.[name]
+    if (value === undefined) {
+      return undefined
+    }
+    values[name] = value
+  }
+  return values
+}
+
+const authenticationFailure =
+  /\bauth(?:entication|orization)?\s+(?:failed|error)|\bunauthori[sz]ed\b|\b(?:wrong|invalid|incorrect)\s+password\b/i
+
+/**
+ * Whether the upload failed because the upload tool rejected the user fields,
+ * such as the `Authentication Failed` of `espota` and `arduinoOTA`.
+ */
+export function isAuthenticationFailure(output: string): boolean {
+  return authenticationFailure.test(output)
+}
+
+/**
+ * Prompts for the user fields of the uploads, such as the password of an OTA
+ * upload, and when `boardlab.upload.rememberUserFields` is enabled, keeps the
+ * values in the secret storage per port.
+ */
+export class UploadUserFields {
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  /** Resolves to `undefined` when the user cancels the input. */
+  async resolve(
+    fields: readonly UserField[],
+    port: PortIdentifier
+  ): Promise<UserFieldValues | undefined> {
+    if (!fields.length) {
+      return {}
+    }
+    const remember = this.remember
+    const stored = remember
+      ? pickUserFieldValues(fields, await this.get(port))
+      : undefined
+    if (stored) {
+      return stored
+    }
+    const values: UserFieldValues = {}
+    for (const [index, field] of fields.entries()) {
+      const value = await vscode.window.showInputBox({
+        title:
+          fields.length > 1
+            ? `Upload to ${port.address} (${index + 1}/${fields.length})`
+            : `Upload to ${port.address}`,
+        prompt: field.label || field.name,
+        password: field.secret,
+        ignoreFocusOut: true,
+      })
+      if (value === undefined) {
+        return undefined
+      }
+      values[field.name] = value
+    }
+    if (remember) {
+      await this.store(port, values)
+    }
+    return values
+  }
+
+  get remember(): boolean {
+    return (
+      vscode.workspace
+        .getConfiguration('boardlab.upload')
+        .get<boolean>('rememberUserFields') ?? false
+    )
+  }
+
+  async get(port: PortIdentifier): Promise<UserFieldValues | undefined> {
+    const raw = await this.secrets.get(secretKey(port))
+    if (!raw) {
+      return undefined
+    }
+    try {
+      return (JSON.parse(raw) as StoredUserFields).values
+    } catch {
+      return undefined
+    }
+  }
+
+  async store(port: PortIdentifier, values: UserFieldValues): Promise<void> {
+    const stored: StoredUserFields = {
+      port: { protocol: port.protocol, address: port.address },
+      values,
+    }
+    await this.secrets.store(secretKey(port), JSON.stringify(stored))
+  }
+
+  /** The ports with stored values. */
+  async ports(): Promise<PortIdentifier[]> {
+    const ports: PortIdentifier[] = []
+    for (const key of await this.secrets.keys()) {
+      if (!key.startsWith(secretKeyPrefix)) {
+        continue
+      }
+      try {
+        const raw = await this.secrets.get(key)
+        if (raw) {
+          ports.push((JSON.parse(raw) as StoredUserFields).port)
+        }
+      } catch {
+        // Ignore the corrupt entries; forgetting all ports removes them.
+      }
+    }
+    return ports
+  }
+
+  /** Forgets the values of the port, or of all ports when `port` is absent. */
+  async forget(port?: PortIdentifier): Promise<void> {
+    if (port) {
+      await this.secrets.delete(secretKey(port))
+      return
+    }
+    for (const key of await this.secrets.keys()) {
+      if (key.startsWith(secretKeyPrefix)) {
+        await this.secrets.delete(key)
+      }
+    }
+  }
+}
+
+function secretKey(port: PortIdentifier): string {
+  return `${secretKeyPrefix}${createPortKey(port)}`
+}
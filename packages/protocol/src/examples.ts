@@ -1,6 +1,12 @@
 import type { RequestType } from 'vscode-messenger-common'
 
-export type ExampleSource = 'builtin' | 'platform' | 'library'
+/**
+ * - `builtin`: the Arduino built-in examples.
+ * - `board`: the examples in the installed platform folder of the selected board.
+ * - `platform`: the examples of the platform libraries the CLI reports.
+ * - `library`: the examples of the installed libraries.
+ */
+export type ExampleSource = 'builtin' | 'board' | 'platform' | 'library'
 
 export interface ExampleLibrary {
   readonly id: string
@@ -14,6 +14,7 @@ export * from './notifications'
 export * from './platforms'
 export * from './portino'
 export * from './profiles'
+export * from './profilesSchema'
 export * from './resources'
 export * from './extensionClient'
 export * from './trace'
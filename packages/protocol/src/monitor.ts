@@ -200,9 +200,15 @@ export const RequestUpdateBaudrate = new JsonRpcRequestType<
   void
 >('boardlab/monitor/requestUpdateBaudrate')
 
+/**
+ * Text is sent UTF-8 encoded, bytes are sent as-is. Over JSON-RPC, the bytes
+ * travel as a serialized Node.js `Buffer`.
+ */
+export type MonitorMessage = string | Uint8Array
+
 export interface RequestSendMonitorMessageParams {
   readonly port: PortIdentifier
-  readonly message: string
+  readonly message: MonitorMessage
 }
 
 export const RequestSendMonitorMessage = new JsonRpcRequestType<
@@ -245,10 +251,39 @@ export interface MonitorEditorStatusNotification {
   readonly status: MonitorEditorStatus
 }
 
+/**
+ * How the monitor editor renders the received bytes. Selected with the `view`
+ * query of the monitor URI, for example, `monitor://serial/COM3?view=hex`.
+ */
+export type MonitorViewMode = 'text' | 'hex'
+
 export interface MonitorEditorContent {
   readonly text: string
 }
 
+/** The samples buffered by the plotter, column-wise. */
+export interface PlotterData {
+  /** The labels of the `ys` columns. */
+  readonly series: readonly string[]
+  readonly x: readonly number[]
+  readonly ys: readonly (readonly (number | null)[])[]
+  /** The visible window of the x-axis, if any. */
+  readonly range?: { readonly min: number; readonly max: number }
+}
+
+export interface PlotterSamples extends Omit<PlotterData, 'range'> {
+  /** The host time when the samples were parsed, in milliseconds. */
+  readonly timestamp: number
+}
+
+export interface PlotterRecordingNotification {
+  readonly recording: boolean
+}
+
+export interface PlotterFrozenNotification {
+  readonly frozen: boolean
+}
+
 export const notifyMonitorSelectionChanged: MessengerNotificationType<MonitorSelectionNotification> =
   {
     method: 'boardlab/monitor/selectionChanged',
@@ -512,3 +547,23 @@ export const requestPlotterEditorContent: MessengerRequestType<
 > = {
   method: 'boardlab/plotter/editor/get-content',
 }
+
+export const requestPlotterData: MessengerRequestType<void, PlotterData> = {
+  method: 'boardlab/plotter/editor/get-data',
+}
+
+/** Sent by the plotter editor while recording, for each parsed chunk. */
+export const notifyPlotterSamples: MessengerNotificationType<PlotterSamples> = {
+  method: 'boardlab/plotter/editor/samples',
+}
+
+export const notifyPlotterRecording: MessengerNotificationType<PlotterRecordingNotification> =
+  {
+    method: 'boardlab/plotter/editor/recording',
+  }
+
+/** Sent by the plotter editor when the plot is frozen or resumed. */
+export const notifyPlotterFrozen: MessengerNotificationType<PlotterFrozenNotification> =
+  {
+    method: 'boardlab/plotter/editor/frozen',
+  }
@@ -55,7 +55,12 @@ export const notifyMonitorLineEndingChanged: MessengerNotificationType<LineEndin
     method: 'monitor/line-ending-changed',
   }
 
-export type PlotterToolbarAction = 'clear' | 'resetYScale' | 'play' | 'stop'
+export type PlotterToolbarAction =
+  | 'clear'
+  | 'resetYScale'
+  | 'toggleFreeze'
+  | 'play'
+  | 'stop'
 
 export interface PlotterToolbarActionParams {
   readonly action: PlotterToolbarAction
@@ -13,6 +13,8 @@ export interface ProfileDescriptor {
   readonly protocol?: string
   readonly note?: string
   readonly portConfig?: Readonly<Record<string, string | number | boolean>>
+  /** The values of the `genericProfileKeys` of the profile. */
+  readonly fields?: Readonly<Record<string, string>>
   readonly platforms: readonly ProfilePlatformDescriptor[]
   readonly libraries: readonly ProfileLibraryDescriptor[]
 }
@@ -598,6 +600,20 @@ export const profilesPickPlatformIndexUrl: RequestType<
   method: 'boardlab.profiles.platform.pickIndexUrl',
 }
 
+export interface ProfilesEditFieldParams extends ProfilesDocumentParams {
+  readonly profile: string
+  /** One of the `genericProfileKeys`. */
+  readonly key: string
+  readonly clear?: boolean
+}
+
+export const profilesEditField: RequestType<
+  ProfilesEditFieldParams,
+  ProfilesDocumentState
+> = {
+  method: 'boardlab.profiles.field.edit',
+}
+
 // Resolve human-friendly platform name for a platform id (vendor:arch)
 export interface ProfilesResolvePlatformNameParams
   extends ProfilesDocumentParams {
@@ -0,0 +1,88 @@
+import schema from './sketch-yaml-schema.json'
+
+/** The subset of the JSON schema keywords the `sketch.yaml` schema uses. */
+export interface SketchYamlSchemaNode {
+  readonly $ref?: string
+  readonly title?: string
+  readonly description?: string
+  readonly markdownDescription?: string
+  readonly type?: string | readonly string[]
+  readonly pattern?: string
+  readonly patternErrorMessage?: string
+  readonly properties?: Readonly<Record<string, SketchYamlSchemaNode>>
+  readonly additionalProperties?: boolean | SketchYamlSchemaNode
+  readonly items?: SketchYamlSchemaNode
+  readonly required?: readonly string[]
+}
+
+export interface SketchYamlSchema extends SketchYamlSchemaNode {
+  readonly $schema: string
+  readonly definitions: Readonly<
+    Record<'profile' | 'platform' | 'library', SketchYamlSchemaNode>
+  >
+}
+
+/**
+ * The JSON schema of the `sketch.yaml` project file. The extension validates
+ * the profiles against it, contributes it to the YAML language server, and the
+ * profiles editor labels its fields after it.
+ */
+export const sketchYamlSchema: SketchYamlSchema = schema
+
+export interface SketchYamlSchemaKey {
+  readonly key: string
+  readonly title: string
+  readonly description: string
+  /** Falls back to the `description`. */
+  readonly markdownDescription: string
+}
+
+/** The documented keys of the root, the profiles, and the platform items. */
+export const sketchYamlSchemaKeys = {
+  root: keysOf(sketchYamlSchema),
+  profile: keysOf(sketchYamlSchema.definitions.profile),
+  platform: keysOf(sketchYamlSchema.definitions.platform),
+} as const
+
+/** The keys of the profiles that the profiles editor shows with their own UI. */
+export const dedicatedProfileKeys: readonly string[] = [
+  'notes',
+  'fqbn',
+  'programmer',
+  'port',
+  'port_config',
+  'protocol',
+  'platforms',
+  'libraries',
+]
+
+/**
+ * The string keys of the profile schema without a dedicated UI, such as the
+ * keys of a newer CLI. The profiles editor shows them as text fields.
+ */
+export const genericProfileKeys: readonly SketchYamlSchemaKey[] =
+  Object.entries(sketchYamlSchema.definitions.profile.properties ?? {})
+    .filter(
+      ([key, property]) =>
+        property.type === 'string' && !dedicatedProfileKeys.includes(key)
+    )
+    .map(([key]) => sketchYamlSchemaKeys.profile[key])
+
+function keysOf(
+  node: SketchYamlSchemaNode
+): Readonly<Record<string, SketchYamlSchemaKey>> {
+  return Object.fromEntries(
+    Object.entries(node.properties ?? {}).map(([key, property]) => {
+      const description = property.description ?? ''
+      return [
+        key,
+        {
+          key,
+          title: property.title ?? key,
+          description,
+          markdownDescription: property.markdownDescription ?? description,
+        },
+      ]
+    })
+  )
+}
@@ -311,7 +311,7 @@ export class MockCliBridge {
     const deferredReady = pDefer()
     setTimeout(() => deferredReady.resolve(), 10)
 
-    /** @type {string[]} */
+    /** @type {(string | Uint8Array)[]} */
     const pendingMessages = []
     let paused = false
     /** @type {(() => void)[]} */
@@ -333,7 +333,10 @@ export class MockCliBridge {
         }
         let unsentMessage = pendingMessages.shift()
         while (unsentMessage) {
-          const buf = enc.encode(unsentMessage + '\n')
+          const buf =
+            typeof unsentMessage === 'string'
+              ? enc.encode(unsentMessage + '\n')
+              : Uint8Array.from([...unsentMessage, 0x0a])
           yield buf
           unsentMessage = pendingMessages.shift()
         }
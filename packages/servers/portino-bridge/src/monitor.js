@@ -7,7 +7,7 @@ import defer from 'p-defer'
 /**
  * @typedef {Object} PortinoMonitor
  * @property {AsyncIterable<Uint8Array<ArrayBufferLike>>} messages
- * @property {(message: string) => void} sendMessage
+ * @property {(message: string | Uint8Array) => void} sendMessage
  * @property {(baudrate: string) => Promise<void>} updateBaudrate
  * @property {Promise<void>} ready
  * @property {() => Promise<void>} dispose
@@ -31,7 +31,7 @@ export function createMonitor({ client, instance, port, fqbn, baudrate }) {
   const encoder = new TextEncoder()
 
   // Deferred signals for outgoing commands and config updates
-  /** @type {import('p-defer').DeferredPromise<string>} */
+  /** @type {import('p-defer').DeferredPromise<string | Uint8Array>} */
   let nextMessage = defer()
   /** @type {import('p-defer').DeferredPromise<{ baudrate: string }>} */
   let nextBaudrateRequest = defer()
@@ -83,8 +83,9 @@ export function createMonitor({ client, instance, port, fqbn, baudrate }) {
           nextMessage = defer()
           nextBaudrateRequest = defer()
 
-          if (typeof result === 'string') {
-            const txData = encoder.encode(result)
+          if (typeof result === 'string' || result instanceof Uint8Array) {
+            const txData =
+              typeof result === 'string' ? encoder.encode(result) : result
             yield { message: { $case: 'txData', txData } }
           } else if (result && typeof result === 'object') {
             if ('type' in result && result.type === 'pause') {
@@ -251,7 +252,7 @@ export function createMonitor({ client, instance, port, fqbn, baudrate }) {
     dispose()
   }
 
-  /** @param {string} message */
+  /** @param {string | Uint8Array} message Text is sent UTF-8 encoded */
   function sendMessage(message) {
     nextMessage.resolve(message)
   }
@@ -398,6 +398,34 @@ const isBufferPayload = (value) =>
   /** @type {{ type?: string }} */ (value).type === 'Buffer' &&
   Array.isArray(/** @type {{ data?: unknown }} */ (value).data)
 
+/**
+ * Restores the bytes of a monitor write. Strings are UTF-8 encoded.
+ *
+ * @param {unknown} raw
+ * @returns {Buffer}
+ */
+const toMonitorWriteBuffer = (raw) => {
+  if (raw instanceof Uint8Array) {
+    return Buffer.from(raw)
+  }
+  if (raw instanceof ArrayBuffer) {
+    return Buffer.from(raw)
+  }
+  if (ArrayBuffer.isView(raw)) {
+    return Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength)
+  }
+  if (Array.isArray(raw)) {
+    return Buffer.from(raw)
+  }
+  if (isBufferPayload(raw)) {
+    return Buffer.from(raw.data)
+  }
+  if (typeof raw === 'string') {
+    return Buffer.from(raw)
+  }
+  return Buffer.alloc(0)
+}
+
 const baseConsoleFunctions = {
   log: console.log.bind(console),
   info: console.info.bind(console),
@@ -2886,8 +2914,12 @@ export async function createServer(options = {}) {
         if (!entry || !entry.monitor) {
           throw new Error(`No active monitor for port: ${portKey}`)
         }
-        v(`[serial] send message to ${portKey} (${message?.length ?? 0} bytes)`)
-        return entry.monitor.sendMessage(message)
+        const data =
+          typeof message === 'string'
+            ? message
+            : new Uint8Array(toMonitorWriteBuffer(message))
+        v(`[serial] send message to ${portKey} (${data.length} bytes)`)
+        return entry.monitor.sendMessage(data)
       }),
       messageConnection.onRequest(RequestPauseMonitor, async (params) => {
         const portKey = createPortKey(params.port)
@@ -3247,30 +3279,13 @@ export async function createServer(options = {}) {
         )
       }
       await openPortinoMonitorIfNeeded(entry, monitorEntry.clientId)
-      const raw = params?.data
-      let buffer
-      if (raw instanceof Uint8Array) {
-        buffer = Buffer.from(raw)
-      } else if (raw instanceof ArrayBuffer) {
-        buffer = Buffer.from(raw)
-      } else if (ArrayBuffer.isView(raw)) {
-        buffer = Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength)
-      } else if (Array.isArray(raw)) {
-        buffer = Buffer.from(raw)
-      } else if (isBufferPayload(raw)) {
-        buffer = Buffer.from(raw.data)
-      } else if (typeof raw === 'string') {
-        buffer = Buffer.from(raw)
-      } else {
-        buffer = Buffer.alloc(0)
-      }
+      const buffer = toMonitorWriteBuffer(params?.data)
       if (!buffer.length) {
         return { bytesWritten: 0 }
       }
-      const text = buffer.toString('utf8')
       entry.writeChain = (entry.writeChain ?? Promise.resolve())
         .then(() => {
-          entry.monitor?.sendMessage(text)
+          entry.monitor?.sendMessage(new Uint8Array(buffer))
           console.log('[portino][control] monitor write', {
             portKey: entry.portKey,
             clientId: monitorEntry.clientId,
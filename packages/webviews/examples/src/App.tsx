@@ -53,6 +53,11 @@ const BUCKET_DEFINITIONS: ReadonlyArray<{
     label: 'Built-in Examples',
     emptyLabel: 'No built-in examples available.',
   },
+  {
+    key: 'board',
+    label: 'Examples for the Board',
+    emptyLabel: 'Select a board to see the examples of its platform.',
+  },
   {
     key: 'platform',
     label: 'Board Libraries',
@@ -311,7 +316,7 @@ export function App(): JSX.Element {
         acc[library.source].push(library)
         return acc
       },
-      { builtin: [], platform: [], library: [] }
+      { builtin: [], board: [], platform: [], library: [] }
     )
   }, [filteredExamples])
 
@@ -500,6 +505,7 @@ export function App(): JSX.Element {
               ariaLabel="Arduino examples"
               items={buildTreeItems(
                 grouped,
+                selectedBoard,
                 openReadme,
                 openExampleSketch,
                 openResource
@@ -575,6 +581,7 @@ function buildNodePath(label: string, node: ExampleTreeNode): string {
 
 function buildTreeItems(
   grouped: GroupedLibraries,
+  selectedBoard: Board | undefined,
   onPreviewLibrary: (exampleId: string) => void,
   onPreviewSketch: (exampleId: string, relPath: string) => void,
   onOpenResource: (exampleId: string, relPath: string) => void
@@ -601,13 +608,17 @@ function buildTreeItems(
     depth: number,
     flattenBuiltinRoot: boolean
   ): TreeNode => {
-    const actions =
+    const previewTitle =
       example.source === 'builtin'
+        ? 'Preview built-in example'
+        : 'Preview board example'
+    const actions =
+      example.source === 'builtin' || example.source === 'board'
         ? [
             {
               icon: 'file-code',
-              ariaLabel: 'Preview built-in example',
-              title: 'Preview built-in example',
+              ariaLabel: previewTitle,
+              title: previewTitle,
               onClick: (ev: any) => {
                 onPreviewSketch(example.id, node.relPath!)
               },
@@ -694,7 +705,15 @@ function buildTreeItems(
   }
 
   const items: TreeNode[] = []
-  for (const bucket of BUCKET_DEFINITIONS) {
+  for (const definition of BUCKET_DEFINITIONS) {
+    const bucket =
+      definition.key === 'board' && selectedBoard
+        ? {
+            ...definition,
+            label: `Examples for ${selectedBoard.name}`,
+            emptyLabel: `No examples in the platform of ${selectedBoard.name}.`,
+          }
+        : definition
     const entries = grouped[bucket.key]
     const flattenBuiltin =
       bucket.key === 'builtin' &&
@@ -45,6 +45,7 @@ import { emitWebviewTraceEvent } from './trace.js'
  *   onStart?: () => void
  *   onStop?: () => void
  *   onText?: (text: string) => void
+ *   onData?: (data: Uint8Array) => void
  * }} MonitorStreamListener
  */
 
@@ -102,12 +103,21 @@ export function MonitorProvider({ client, children, extensionClient }) {
   }, [])
 
   const notify = useCallback(
-    (/** @type {string} */ type, /** @type {string} */ payload = '') => {
+    (
+      /** @type {string} */ type,
+      /** @type {string | Uint8Array} */ payload = ''
+    ) => {
       for (const listener of listenersRef.current) {
         try {
-          if (type === 'start') listener.onStart?.()
-          else if (type === 'stop') listener.onStop?.()
-          else if (type === 'text') listener.onText?.(payload)
+          if (type === 'start') {
+            listener.onStart?.()
+          } else if (type === 'stop') {
+            listener.onStop?.()
+          } else if (type === 'text') {
+            listener.onText?.(String(payload))
+          } else if (type === 'data') {
+            listener.onData?.(/** @type {Uint8Array} */ (payload))
+          }
         } catch (err) {
           console.error('Monitor listener error:', err)
         }
@@ -151,6 +161,13 @@ export function MonitorProvider({ client, children, extensionClient }) {
     [notify]
   )
 
+  const onStreamData = useCallback(
+    (/** @type {Uint8Array} */ data) => {
+      notify('data', data)
+    },
+    [notify]
+  )
+
   const playRef = useRef(() => {})
   const stopRef = useRef(() => {})
 
@@ -247,6 +264,7 @@ export function MonitorProvider({ client, children, extensionClient }) {
     monitorSettingsByProtocol: serialState.monitorSettingsByProtocol,
     session: monitorView.session,
     onText: onStreamText,
+    onData: onStreamData,
     onStart: onStreamStart,
     onStop: onStreamStop,
     onBusy: onStreamBusy,
@@ -527,6 +545,7 @@ export function useMonitorStream(listener) {
       onStart: () => listenerRef.current.onStart?.(),
       onStop: () => listenerRef.current.onStop?.(),
       onText: (text) => listenerRef.current.onText?.(text),
+      onData: (data) => listenerRef.current.onData?.(data),
     })
     return () => unsubscribe()
   }, [registerListener])
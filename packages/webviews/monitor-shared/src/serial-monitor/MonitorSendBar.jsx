@@ -19,9 +19,10 @@ import { emitWebviewTraceEvent } from './trace.js'
  * @param {{
  *   client?: import('./client.js').MonitorClient
  *   lineEnding: 'none' | 'lf' | 'cr' | 'crlf'
+ *   sendMode?: import('./SendPanel.jsx').SendMode
  * }} props
  */
-function MonitorSendBar({ client, lineEnding }) {
+function MonitorSendBar({ client, lineEnding, sendMode }) {
   const serialState = useSelector(selectSerialMonitor)
   const monitorView = useSelector(selectMonitorView)
   const { play, stop } = useMonitorController()
@@ -167,6 +168,7 @@ function MonitorSendBar({ client, lineEnding }) {
           disabled={sendDisabled}
           lineEnding={lineEnding}
           placeholder={sendPlaceholder}
+          sendMode={sendMode}
           onSend={(message) => {
             if (!client || !selectedPort) return
             client.sendMonitorMessage({
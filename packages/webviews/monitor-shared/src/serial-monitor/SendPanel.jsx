@@ -2,6 +2,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { VscodeIcon } from 'vscode-react-elements-x'
 
+import { parseHexBytes } from './hex.js'
 import SendText from './SendText.jsx'
 
 const HISTORY_KEY = 'boardlab.monitor.serialInput.history'
@@ -9,14 +10,22 @@ const MAX_HISTORY = 20
 
 /** @typedef {'none' | 'lf' | 'cr' | 'crlf'} LineEnding */
 
+/**
+ * In `hex` mode, the input is parsed as a byte sequence, such as `0xAA 55 01`,
+ * and sent without the line ending.
+ *
+ * @typedef {'text' | 'hex'} SendMode
+ */
+
 /**
  * Combined send input + EOL select. Emits processed payload on send.
  *
  * @param {{
  *   disabled?: boolean
- *   onSend?: (text: string) => void
+ *   onSend?: (message: string | Uint8Array) => void
  *   lineEnding: LineEnding
  *   placeholder?: string
+ *   sendMode?: SendMode
  * }} props
  */
 export default function SendPanel({
@@ -24,8 +33,15 @@ export default function SendPanel({
   onSend,
   lineEnding,
   placeholder,
+  sendMode: initialSendMode = 'text',
 }) {
   const [text, setText] = useState('')
+  const [sendMode, setSendMode] = useState(
+    /** @type {SendMode} */ (initialSendMode)
+  )
+  const [hexError, setHexError] = useState(
+    /** @type {string | undefined} */ (undefined)
+  )
   const [history, setHistory] = useState(/** @type {string[]} */ ([]))
   const [historyIndex, setHistoryIndex] = useState(-1)
 
@@ -43,7 +59,10 @@ export default function SendPanel({
   }, [])
 
   const doSend = useCallback(
-    (/** @type {string} */ typed, /** @type {string} */ finalMessage) => {
+    (
+      /** @type {string} */ typed,
+      /** @type {string | Uint8Array} */ finalMessage
+    ) => {
       const last = history[history.length - 1]
       const nextHistory =
         typed && typed !== last
@@ -73,11 +92,40 @@ export default function SendPanel({
         minWidth: 0,
       }}
     >
+      <VscodeIcon
+        name={sendMode === 'hex' ? 'file-binary' : 'symbol-text'}
+        title={
+          sendMode === 'hex' ? 'Switch to text input' : 'Switch to hex input'
+        }
+        actionIcon
+        onClick={() => {
+          setSendMode(sendMode === 'hex' ? 'text' : 'hex')
+          setHexError(undefined)
+        }}
+      />
       <SendText
         disabled={!!disabled}
         value={text}
-        onChange={setText}
+        onChange={(next) => {
+          setText(next)
+          setHexError(undefined)
+        }}
+        invalid={!!hexError}
+        title={hexError}
         onSubmit={(prepared) => {
+          if (sendMode === 'hex') {
+            try {
+              const bytes = parseHexBytes(prepared)
+              if (bytes.length) {
+                doSend(prepared, bytes)
+              }
+            } catch (error) {
+              setHexError(
+                error instanceof Error ? error.message : String(error)
+              )
+            }
+            return
+          }
           const suffix =
             lineEnding === 'lf'
               ? '\n'
@@ -107,7 +155,11 @@ export default function SendPanel({
           setHistoryIndex(nextIndex)
           return nextIndex === -1 ? '' : (history[nextIndex] ?? '')
         }}
-        placeholder={placeholder}
+        placeholder={
+          sendMode === 'hex' && !disabled
+            ? 'Hex bytes (Enter to send; for example, 0xAA 55 01)'
+            : placeholder
+        }
       />
       <VscodeIcon
         name="send"
@@ -14,6 +14,8 @@ import { VscodeTextarea } from 'vscode-react-elements-x'
  *   onHistoryNext?: () => string | undefined // returns new value
  *   registerSubmitter?: (fn: () => void) => void
  *   placeholder?: string
+ *   invalid?: boolean
+ *   title?: string
  * }} props
  */
 function SendText({
@@ -25,6 +27,8 @@ function SendText({
   onHistoryNext,
   registerSubmitter,
   placeholder,
+  invalid,
+  title,
 }) {
   const valueRef = useRef(value ?? '')
   useEffect(() => {
@@ -92,6 +96,8 @@ function SendText({
     <VscodeTextarea
       name="serial-input"
       placeholder={placeholder}
+      title={title}
+      invalid={!!invalid}
       value={value ?? ''}
       rows={rows}
       resize="vertical"
@@ -0,0 +1,34 @@
+// @ts-check
+
+/**
+ * Parses a hex byte sequence such as `0xAA 55 01`, `AA,55,01`, or `AA5501`.
+ * Tokens are separated by whitespace or commas and may have a `0x` prefix. A
+ * token of one or two digits is a single byte; longer tokens are split into
+ * byte pairs and must have an even number of digits.
+ *
+ * @param {string} text
+ * @returns {Uint8Array}
+ * @throws {Error} When a token is not a valid hex byte sequence
+ */
+export function parseHexBytes(text) {
+  /** @type {number[]} */
+  const bytes = []
+  for (const token of text.split(/[\s,]+/)) {
+    if (!token) continue
+    const digits = token.replace(/^0x/i, '')
+    if (
+      !/^[0-9a-f]+$/i.test(digits) ||
+      (digits.length > 2 && digits.length % 2 !== 0)
+    ) {
+      throw new Error(`Invalid hex byte: '${token}'`)
+    }
+    if (digits.length <= 2) {
+      bytes.push(parseInt(digits, 16))
+      continue
+    }
+    for (let i = 0; i < digits.length; i += 2) {
+      bytes.push(parseInt(digits.slice(i, i + 2), 16))
+    }
+  }
+  return Uint8Array.from(bytes)
+}
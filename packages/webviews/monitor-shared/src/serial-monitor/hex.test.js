@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseHexBytes } from './hex.js'
+
+describe('parseHexBytes', () => {
+  it('parses prefixed, separated, and packed bytes', () => {
+    expect([...parseHexBytes('0xAA 55 01')]).toEqual([0xaa, 0x55, 0x01])
+    expect([...parseHexBytes('aa,0x5, 01')]).toEqual([0xaa, 0x05, 0x01])
+    expect([...parseHexBytes('  AA5501\n0203 ')]).toEqual([
+      0xaa, 0x55, 0x01, 0x02, 0x03,
+    ])
+    expect(parseHexBytes('   ')).toHaveLength(0)
+  })
+
+  it('rejects invalid tokens', () => {
+    expect(() => parseHexBytes('AA 5G')).toThrow("Invalid hex byte: '5G'")
+    expect(() => parseHexBytes('AA555')).toThrow("Invalid hex byte: 'AA555'")
+    expect(() => parseHexBytes('0x')).toThrow("Invalid hex byte: '0x'")
+  })
+})
@@ -2,6 +2,7 @@ export { MonitorClient } from './client.js'
 export { MonitorClientContext } from './contexts/MonitorClientContext.js'
 export { MonitorClientContextProvider } from './contexts/MonitorClientContextProvider.jsx'
 export { createExtensionClient } from './extensionClient.js'
+export { parseHexBytes } from './hex.js'
 export { default as MonitorPlayStopButton } from './MonitorPlayStopButton.jsx'
 export {
   MonitorProvider,
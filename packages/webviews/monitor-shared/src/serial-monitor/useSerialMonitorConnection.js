@@ -23,6 +23,8 @@ const buildPortKey = (
  * @property {import('@boardlab/protocol').MonitorSettingsByProtocol} monitorSettingsByProtocol
  * @property {import('@boardlab/protocol').MonitorSessionState | undefined} session
  * @property {(text: string) => void} onText
+ * @property {(data: Uint8Array) => void} [onData] Receives the raw bytes before
+ *   decoding
  * @property {() => void} onStart
  * @property {() => void} onStop
  * @property {() => void} onBusy
@@ -37,6 +39,7 @@ export function useSerialMonitorConnection({
   monitorSettingsByProtocol,
   session,
   onText,
+  onData,
   onStart,
   onStop,
   onBusy,
@@ -299,6 +302,7 @@ export function useSerialMonitorConnection({
           const { value, done } = await reader.read()
           if (done) break
           if (value && value.length) {
+            onData?.(value)
             onText(decoder.decode(value, { stream: true }))
           }
         }
@@ -378,6 +382,7 @@ export function useSerialMonitorConnection({
     onStart,
     onStop,
     onText,
+    onData,
     onBusy,
   ])
 
@@ -22,6 +22,20 @@ import TerminalPanel from '../terminal/TerminalPanel.jsx'
 import Shell from './Shell.jsx'
 import { setTerminalSettings } from '../terminal/terminalSettingsSlice.js'
 
+/**
+ * The view mode the extension resolved from the monitor URI.
+ *
+ * @returns {import('@boardlab/protocol').MonitorViewMode}
+ */
+function resolveInitialView() {
+  try {
+    const state = /** @type {any} */ (window).__INITIAL_VSCODE_STATE__
+    return state?.resource?.view === 'hex' ? 'hex' : 'text'
+  } catch {
+    return 'text'
+  }
+}
+
 function MonitorToolbarActionHandler({ terminalRef }) {
   const { play, stop } = useMonitorController()
 
@@ -70,6 +84,7 @@ function App() {
   }, [])
 
   const { client } = useMonitorClientSync()
+  const [view] = useState(resolveInitialView)
   const terminalPanelRef = useRef(
     /**
      * @type {import('../terminal/TerminalPanel.jsx').TerminalPanelHandle
@@ -172,7 +187,11 @@ function App() {
                 minHeight: 0,
               }}
             >
-              <MonitorSendBar client={client} lineEnding={lineEnding} />
+              <MonitorSendBar
+                client={client}
+                lineEnding={lineEnding}
+                sendMode={view === 'hex' ? 'hex' : 'text'}
+              />
               <div
                 style={{
                   flex: 1,
@@ -181,7 +200,7 @@ function App() {
                   flexDirection: 'column',
                 }}
               >
-                <TerminalPanel ref={terminalPanelRef} />
+                <TerminalPanel ref={terminalPanelRef} view={view} />
               </div>
             </div>
           </div>
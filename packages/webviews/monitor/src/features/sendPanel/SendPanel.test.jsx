@@ -4,6 +4,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { SendPanel } from '@boardlab/monitor-shared/serial-monitor'
 
 const HISTORY_KEY = 'boardlab.monitor.serialInput.history'
+const HEX_PLACEHOLDER = 'Hex bytes (Enter to send; for example, 0xAA 55 01)'
 
 describe('SendPanel', () => {
   beforeEach(() => {
@@ -38,4 +39,50 @@ describe('SendPanel', () => {
     })
     expect(localStorage.getItem(HISTORY_KEY)).toBe(JSON.stringify(['hello']))
   })
+
+  it('sends hex bytes without the line ending', async () => {
+    const onSend = vi.fn()
+    const placeholder = 'Type something'
+
+    const { getByPlaceholderText, getByTitle } = render(
+      <SendPanel
+        disabled={false}
+        lineEnding="crlf"
+        onSend={onSend}
+        placeholder={placeholder}
+        sendMode="hex"
+      />
+    )
+
+    const textarea = getByPlaceholderText(HEX_PLACEHOLDER)
+    fireEvent.input(textarea, {
+      target: { value: '0xAA 55 01' },
+    })
+
+    fireEvent.click(getByTitle('Send'))
+
+    await waitFor(() => {
+      expect(onSend).toHaveBeenCalledWith(Uint8Array.from([0xaa, 0x55, 0x01]))
+    })
+  })
+
+  it('does not send invalid hex input', async () => {
+    const onSend = vi.fn()
+
+    const { getByPlaceholderText, getByTitle } = render(
+      <SendPanel disabled={false} lineEnding="none" onSend={onSend} />
+    )
+
+    fireEvent.click(getByTitle('Switch to hex input'))
+    const textarea = getByPlaceholderText(HEX_PLACEHOLDER)
+    fireEvent.input(textarea, {
+      target: { value: 'AA ZZ' },
+    })
+    fireEvent.click(getByTitle('Send'))
+
+    await waitFor(() => {
+      expect(textarea.getAttribute('title')).toBe("Invalid hex byte: 'ZZ'")
+    })
+    expect(onSend).not.toHaveBeenCalled()
+  })
 })
@@ -20,6 +20,7 @@ import {
   getPersistedState,
   updatePersistentState,
 } from '../../state/persistence.js'
+import { HexDumpWriter } from './hexDump.js'
 import XtermView, {
   DEFAULT_TERMINAL_FONT_FAMILY,
   DEFAULT_TERMINAL_FONT_SIZE,
@@ -40,7 +41,11 @@ const readEditorFontFamily = () => {
   return readCssProperty('--vscode-editor-font-family')
 }
 
-/** @typedef {Object} TerminalPanelProps */
+/**
+ * @typedef {Object} TerminalPanelProps
+ * @property {import('@boardlab/protocol').MonitorViewMode} [view='text']
+ *   Default is `'text'`
+ */
 
 /**
  * @typedef {Object} TerminalPanelHandle
@@ -53,8 +58,12 @@ const readEditorFontFamily = () => {
  * @param {TerminalPanelProps} props
  * @param {import('react').Ref<TerminalPanelHandle>} ref
  */
-const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
+const TerminalPanel = forwardRef(function TerminalPanel(
+  { view = 'text' },
+  ref
+) {
   const settings = useSelector(selectTerminalSettings)
+  const hexDumpWriterRef = useRef(new HexDumpWriter())
   const persistedTerminal = useRef(
     (() => {
       const state = getPersistedState()
@@ -67,9 +76,10 @@ const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
         return {
           text:
             typeof terminalState.text === 'string' ? terminalState.text : '',
+          hex: 'hex' in terminalState ? terminalState.hex : undefined,
         }
       }
-      return { text: '' }
+      return { text: '', hex: undefined }
     })()
   )
   const xtermRef = useRef(
@@ -191,9 +201,11 @@ const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
     updatePersistentState({
       terminal: {
         text: snapshot,
+        // The restored hex dump continues from the last, incomplete row
+        hex: view === 'hex' ? hexDumpWriterRef.current.getState() : undefined,
       },
     })
-  }, [collectSnapshot])
+  }, [collectSnapshot, view])
 
   const schedulePersist = useCallback(() => {
     if (persistTimerRef.current != null) return
@@ -298,6 +310,7 @@ const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
         bufferSessionRef.current = sessionRef.current
         bufferRef.current = ''
         startedRef.current = true
+        hexDumpWriterRef.current.reset()
         xtermRef.current?.clear()
         schedulePersist()
       } catch {}
@@ -310,7 +323,18 @@ const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
         schedulePersist()
       } catch {}
     },
+    onData: (data) => {
+      if (view !== 'hex' || !startedRef.current) {
+        return
+      }
+      xtermRef.current?.write(hexDumpWriterRef.current.push(data))
+      refreshScrollbar()
+      schedulePersist()
+    },
     onText: (text) => {
+      if (view === 'hex') {
+        return
+      }
       const chunk = String(text)
       const sid = sessionRef.current
       if (!startedRef.current) {
@@ -465,6 +489,9 @@ const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
       try {
         xtermRef.current.clear()
         xtermRef.current.write(initialText)
+        if (view === 'hex') {
+          hexDumpWriterRef.current.restore(persistedTerminal.current.hex)
+        }
         refreshScrollbar()
       } catch {}
       persistedTerminal.current.text = ''
@@ -473,7 +500,7 @@ const TerminalPanel = forwardRef(function TerminalPanel(_props, ref) {
     return () => {
       cancelled = true
     }
-  }, [refreshScrollbar])
+  }, [refreshScrollbar, view])
 
   useEffect(() => {
     return () => {
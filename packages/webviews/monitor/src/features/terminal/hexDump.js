@@ -0,0 +1,119 @@
+// @ts-check
+
+export const HEX_DUMP_BYTES_PER_ROW = 16
+
+/** Erases the current terminal line and moves the cursor to its start. */
+const REWRITE_LINE = '\r\x1b[2K'
+
+/**
+ * Formats a hex dump row with the offset, the hex bytes split in two halves,
+ * and the ASCII gutter. Rows shorter than `bytesPerRow` are padded to keep the
+ * gutter aligned.
+ *
+ * @param {number} offset
+ * @param {ArrayLike<number>} bytes
+ * @param {number} [bytesPerRow=HEX_DUMP_BYTES_PER_ROW] Default is
+ *   `HEX_DUMP_BYTES_PER_ROW`
+ * @returns {string}
+ */
+export function formatHexDumpRow(
+  offset,
+  bytes,
+  bytesPerRow = HEX_DUMP_BYTES_PER_ROW
+) {
+  const half = bytesPerRow / 2
+  let hex = ''
+  let ascii = ''
+  for (let i = 0; i < bytesPerRow; i++) {
+    if (i === half) {
+      hex += ' '
+    }
+    if (i < bytes.length) {
+      const byte = bytes[i]
+      hex += `${byte.toString(16).padStart(2, '0')} `
+      ascii += byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : '.'
+    } else {
+      hex += '   '
+    }
+  }
+  const address = offset.toString(16).padStart(8, '0')
+  return `${address}  ${hex} |${ascii}|`
+}
+
+/**
+ * Turns the received byte chunks into terminal output of hex dump rows. The
+ * last, incomplete row is written as-is and rewritten in place when more bytes
+ * arrive.
+ */
+export class HexDumpWriter {
+  /**
+   * @param {number} [bytesPerRow=HEX_DUMP_BYTES_PER_ROW] Default is
+   *   `HEX_DUMP_BYTES_PER_ROW`
+   */
+  constructor(bytesPerRow = HEX_DUMP_BYTES_PER_ROW) {
+    this.bytesPerRow = bytesPerRow
+    this.offset = 0
+    /** @type {number[]} */
+    this.pending = []
+  }
+
+  /**
+   * @param {Uint8Array} bytes
+   * @returns {string} The terminal output
+   */
+  push(bytes) {
+    let output = this.pending.length ? REWRITE_LINE : ''
+    for (const byte of bytes) {
+      this.pending.push(byte)
+      if (this.pending.length === this.bytesPerRow) {
+        output += `${formatHexDumpRow(this.offset, this.pending, this.bytesPerRow)}\r\n`
+        this.offset += this.bytesPerRow
+        this.pending = []
+      }
+    }
+    if (this.pending.length) {
+      output += formatHexDumpRow(this.offset, this.pending, this.bytesPerRow)
+    }
+    return output
+  }
+
+  reset() {
+    this.offset = 0
+    this.pending = []
+  }
+
+  /**
+   * The offset and the bytes of the incomplete row, persisted with the terminal
+   * content so the dump continues after a webview reload.
+   *
+   * @returns {HexDumpWriterState}
+   */
+  getState() {
+    return { offset: this.offset, pending: [...this.pending] }
+  }
+
+  /** @param {unknown} state */
+  restore(state) {
+    if (
+      !state ||
+      typeof state !== 'object' ||
+      !('offset' in state) ||
+      !('pending' in state) ||
+      typeof state.offset !== 'number' ||
+      !Array.isArray(state.pending) ||
+      state.pending.length >= this.bytesPerRow
+    ) {
+      return
+    }
+    this.offset = state.offset
+    this.pending = state.pending.filter(
+      (byte) => Number.isInteger(byte) && byte >= 0 && byte <= 0xff
+    )
+  }
+}
+
+/**
+ * @typedef {Object} HexDumpWriterState
+ * @property {number} offset
+ * @property {number[]} pending
+ */
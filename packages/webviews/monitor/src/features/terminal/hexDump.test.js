@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatHexDumpRow, HexDumpWriter } from './hexDump.js'
+
+const encoder = new TextEncoder()
+
+describe('hexDump', () => {
+  it('formats a full row', () => {
+    expect(
+      formatHexDumpRow(16, encoder.encode('Hello world\r\n\x00\x01\x02'))
+    ).toBe(
+      '00000010  48 65 6c 6c 6f 20 77 6f  72 6c 64 0d 0a 00 01 02  |Hello world.....|'
+    )
+  })
+
+  it('pads a partial row', () => {
+    expect(formatHexDumpRow(0, [0xaa, 0x55, 0x01])).toBe(
+      '00000000  aa 55 01                                          |.U.|'
+    )
+  })
+
+  it('rewrites the partial row when more bytes arrive', () => {
+    const writer = new HexDumpWriter(4)
+
+    expect(writer.push(Uint8Array.from([0x41, 0x42]))).toBe(
+      '00000000  41 42         |AB|'
+    )
+    expect(writer.push(Uint8Array.from([0x43, 0x44, 0x45]))).toBe(
+      '\r\x1b[2K00000000  41 42  43 44  |ABCD|\r\n00000004  45            |E|'
+    )
+
+    writer.reset()
+    expect(writer.push(Uint8Array.from([0x46]))).toBe(
+      '00000000  46            |F|'
+    )
+  })
+
+  it('continues the dump from the restored state', () => {
+    const writer = new HexDumpWriter(4)
+    writer.push(Uint8Array.from([0x41, 0x42, 0x43, 0x44, 0x45]))
+
+    const restored = new HexDumpWriter(4)
+    restored.restore(JSON.parse(JSON.stringify(writer.getState())))
+
+    expect(restored.push(Uint8Array.from([0x46]))).toBe(
+      '\r\x1b[2K00000004  45 46         |EF|'
+    )
+  })
+
+  it('ignores an invalid restored state', () => {
+    const writer = new HexDumpWriter(4)
+    writer.restore({ offset: 8, pending: [1, 2, 3, 4] })
+
+    expect(writer.getState()).toEqual({ offset: 0, pending: [] })
+  })
+})
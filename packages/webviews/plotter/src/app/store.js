@@ -69,6 +69,7 @@ store.subscribe(() => {
     },
     plotter: {
       maxPoints: state.plotter.maxPoints,
+      seriesConfig: state.plotter.seriesConfig,
     },
   })
 })
@@ -1,5 +1,6 @@
 // @ts-check
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { HOST_EXTENSION } from 'vscode-messenger-common'
 
 import { messengerx, useCodiconStylesheet, vscode } from '@boardlab/base'
 import { useMonitorClientSync } from '@boardlab/monitor-shared/hooks'
@@ -8,8 +9,12 @@ import {
   MonitorSendBar,
 } from '@boardlab/monitor-shared/serial-monitor'
 import {
+  notifyPlotterFrozen,
   notifyPlotterLineEndingChanged,
+  notifyPlotterRecording,
+  notifyPlotterSamples,
   notifyPlotterToolbarAction,
+  requestPlotterData,
 } from '@boardlab/protocol'
 
 import { applyNonce } from '../../utils/csp.js'
@@ -61,6 +66,9 @@ function App() {
             case 'resetYScale':
               plotter.resetYScale?.()
               break
+            case 'toggleFreeze':
+              plotter.toggleFreeze?.()
+              break
             default:
               break
           }
@@ -89,6 +97,69 @@ function App() {
     }
   }, [])
 
+  useEffect(() => {
+    const messenger = vscode.messenger
+    if (!messenger) return
+    const disposable = messengerx.onRequest(
+      messenger,
+      requestPlotterData,
+      () =>
+        plotterPanelRef.current?.getData?.() ?? { series: [], x: [], ys: [] }
+    )
+    return () => {
+      disposable.dispose()
+    }
+  }, [])
+
+  useEffect(() => {
+    const messenger = vscode.messenger
+    if (!messenger) return
+    const disposable = messengerx.onNotification(
+      messenger,
+      notifyPlotterRecording,
+      ({ recording }) => {
+        plotterPanelRef.current?.setRecording?.(recording)
+      }
+    )
+    return () => {
+      disposable.dispose()
+    }
+  }, [])
+
+  const handleSamples = useCallback(
+    /** @param {import('@boardlab/protocol').PlotterSamples} samples */
+    (samples) => {
+      try {
+        vscode.messenger?.sendNotification(
+          notifyPlotterSamples,
+          HOST_EXTENSION,
+          samples
+        )
+      } catch (error) {
+        console.error('Failed to send plotter samples', error)
+      }
+    },
+    []
+  )
+
+  const handleFrozenChange = useCallback(
+    /** @param {boolean} frozen */
+    (frozen) => {
+      try {
+        vscode.messenger?.sendNotification(
+          notifyPlotterFrozen,
+          HOST_EXTENSION,
+          {
+            frozen,
+          }
+        )
+      } catch (error) {
+        console.error('Failed to send plotter frozen state', error)
+      }
+    },
+    []
+  )
+
   return (
     <Shell
       header={null}
@@ -111,7 +182,12 @@ function App() {
                 flexDirection: 'column',
               }}
             >
-              <PlotterPanel ref={plotterPanelRef} active />
+              <PlotterPanel
+                ref={plotterPanelRef}
+                active
+                onSamples={handleSamples}
+                onFrozenChange={handleFrozenChange}
+              />
             </div>
           </div>
         </MonitorProvider>
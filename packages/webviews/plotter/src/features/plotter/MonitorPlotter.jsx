@@ -41,7 +41,13 @@ import { plotterDebug } from './plotterDebug.js'
  *   useAnsiColors?: boolean
  *   width?: number
  *   height?: number
+ *   series?: { label: string; show: boolean }[]
+ *   onSeriesToggle?: (index: number, show: boolean) => void
+ *   onSeriesRename?: (index: number, label: string) => void
  * }} props
+ *   The `series` are the legend entries of the y columns. When present, they
+ *   drive the series labels and visibility, and the legend changes are reported
+ *   with the zero-based y column index.
  */
 const MonitorPlotter = forwardRef(function MonitorPlotter(
   {
@@ -53,6 +59,9 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
     useAnsiColors = false,
     width: extWidth,
     height: extHeight,
+    series,
+    onSeriesToggle,
+    onSeriesRename,
   },
   ref
 ) {
@@ -149,6 +158,12 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
   const extInitDoneRef = useRef(false)
   const hiddenSeriesRef = useRef(new Set())
   const seriesUpdateMutedRef = useRef(false)
+  const seriesPropRef = useRef(series)
+  seriesPropRef.current = series
+  const onSeriesToggleRef = useRef(onSeriesToggle)
+  onSeriesToggleRef.current = onSeriesToggle
+  const onSeriesRenameRef = useRef(onSeriesRename)
+  onSeriesRenameRef.current = onSeriesRename
   const hasFixedX = typeof xWindow === 'number' && xWindow > 0
 
   // Persist last manual Y scale (survives autoscale on/off & session restarts)
@@ -214,6 +229,43 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
     } catch {}
   }
 
+  /** @param {number} idx UPlot series index (1..n) */
+  function seriesLabel(idx) {
+    return seriesPropRef.current?.[idx - 1]?.label ?? 'y' + String(idx)
+  }
+
+  /** Rebuild the hidden series from the `series` prop, if any. */
+  function syncHiddenSeries() {
+    /** @type {{ label: string; show: boolean }[] | undefined} */
+    const entries = seriesPropRef.current
+    if (!entries) return
+    hiddenSeriesRef.current = new Set(
+      entries.flatMap((entry, i) => (entry.show ? [] : [i + 1]))
+    )
+  }
+
+  /**
+   * @param {number} idx UPlot series index (1..n)
+   * @param {string} label
+   */
+  function applySeriesLabel(idx, label) {
+    try {
+      const u = plotRef.current
+      if (u && u.series && u.series[idx]) {
+        u.series[idx].label = label
+      }
+    } catch {}
+    try {
+      const host = legendHostRef.current
+      if (host) {
+        const rows = host.querySelectorAll('tbody tr')
+        const row = rows?.[idx]
+        const labelEl = row?.querySelector?.('.u-label')
+        if (labelEl) labelEl.textContent = label
+      }
+    } catch {}
+  }
+
   function withSeriesUpdateMuted(fn) {
     seriesUpdateMutedRef.current = true
     try {
@@ -232,7 +284,7 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
       while ((u.series?.length || 0) < count) {
         const idx = u.series.length // adding at end => y index == idx
         u.addSeries({
-          label: 'y' + String(idx),
+          label: seriesLabel(idx),
           width: strokeWidth,
           stroke: () => colorForSeries(idx - 1),
           fill: () => withAlpha(colorForSeries(idx - 1), 0.12),
@@ -284,6 +336,7 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
                 const shown = u.series?.[si]?.show !== false
                 if (shown) hiddenSeriesRef.current.delete(si)
                 else hiddenSeriesRef.current.add(si)
+                onSeriesToggleRef.current?.(si - 1, shown)
 
                 console.log('[plotter] hook:setSeries', { si, shown })
               }
@@ -300,6 +353,26 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
     return opts
   }, [strokeWidth, hasFixedX, xWindow])
 
+  /** Apply the labels and visibility of the `series` prop to the legend. */
+  function applySeriesProp() {
+    syncHiddenSeries()
+    const u = plotRef.current
+    if (!u) return
+    for (let i = 1; i < (u.series?.length || 0); i++) {
+      const label = seriesLabel(i)
+      if (u.series[i].label !== label) applySeriesLabel(i, label)
+    }
+    ensureSeriesCount(1 + yBufsRef.current.length)
+  }
+  const applySeriesPropRef = useRef(applySeriesProp)
+  applySeriesPropRef.current = applySeriesProp
+
+  // The helpers read the latest render through the refs; rerun on new `series`
+  useEffect(() => {
+    if (!series) return
+    applySeriesPropRef.current()
+  }, [series])
+
   // Initial sizing
   useEffect(() => {
     const rect = plotPaneRef.current?.getBoundingClientRect()
@@ -626,23 +699,8 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
       setRename((s) => ({ ...s, show: false }))
       return
     }
-    try {
-      const u = plotRef.current
-      if (u && u.series && u.series[idx]) {
-        u.series[idx].label = next
-      }
-    } catch {}
-    try {
-      const host = legendHostRef.current
-      if (host) {
-        const rows = host.querySelectorAll('tbody tr')
-        const row = rows?.[idx]
-        const labelEl = row?.querySelector?.('.u-label')
-        if (labelEl) labelEl.textContent = next
-      }
-    } catch {}
-
-    console.log('hallo', { index: idx, name: next })
+    applySeriesLabel(idx, next)
+    if (idx > 0) onSeriesRenameRef.current?.(idx - 1, next)
     setRename((s) => ({ ...s, show: false }))
   }
 
@@ -751,7 +809,7 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
           const idx = yBufs.length
           try {
             u.addSeries({
-              label: 'y' + String(idx),
+              label: seriesLabel(idx),
               width: strokeWidth,
               stroke: () => colorForSeries(idx - 1),
               fill: () => withAlpha(colorForSeries(idx - 1), 0.12),
@@ -934,8 +992,9 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
   function resetPlot(opts) {
     const full = !opts || opts.full !== false
 
-    // Clear client-side caches/buffers
+    // Clear client-side caches/buffers; keep the configured visibility
     hiddenSeriesRef.current.clear()
+    syncHiddenSeries()
     lastXScaleRef.current = null
     xBufRef.current = []
     yBufsRef.current = []
@@ -962,11 +1021,11 @@ const MonitorPlotter = forwardRef(function MonitorPlotter(
         } catch {}
       }
 
-      // Show all series again (1..n)
+      // Show all series again (1..n), except the configured hidden ones
       try {
         withSeriesUpdateMuted(() => {
           for (let i = 1; i < (u.series?.length || 0); i++) {
-            u.setSeries?.(i, { show: true }, true)
+            u.setSeries?.(i, { show: !hiddenSeriesRef.current.has(i) }, true)
           }
         })
       } catch {}
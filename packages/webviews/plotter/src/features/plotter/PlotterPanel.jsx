@@ -18,7 +18,11 @@ import { plotterDebug } from './plotterDebug.js'
 import {
   appendColumns as appendColumnsAction,
   clearData as clearPlotterData,
+  renameSeries,
   selectPlotData,
+  selectPlotSeries,
+  setSeries,
+  setSeriesHidden,
 } from './plotterSlice.js'
 
 /**
@@ -26,16 +30,28 @@ import {
  * @property {boolean} [active]
  * @property {number} [extWidth]
  * @property {number} [extHeight]
+ * @property {(samples: import('@boardlab/protocol').PlotterSamples) => void} [onSamples]
+ *   Called with the parsed samples while recording
+ * @property {(frozen: boolean) => void} [onFrozenChange] Called when the plot
+ *   is frozen or resumed
  */
 
-/** @typedef {{ clear: () => void; resetYScale: () => void }} PlotterPanelHandle */
+/**
+ * @typedef {{
+ *   clear: () => void
+ *   resetYScale: () => void
+ *   toggleFreeze: () => void
+ *   setRecording: (recording: boolean) => void
+ *   getData: () => import('@boardlab/protocol').PlotterData
+ * }} PlotterPanelHandle
+ */
 
 /**
  * @param {PlotterPanelProps} props
  * @param {import('react').Ref<PlotterPanelHandle>} ref
  */
 const PlotterPanel = forwardRef(function PlotterPanel(
-  { active = true, extWidth, extHeight },
+  { active = true, extWidth, extHeight, onSamples, onFrozenChange },
   ref
 ) {
   /**
@@ -93,6 +109,7 @@ const PlotterPanel = forwardRef(function PlotterPanel(
   )
   const nextIndexRef = useRef(0)
   const lastXRef = useRef(/** @type {number | null} */ null)
+  const seriesRef = useRef(/** @type {string[]} */ ([]))
   const textBufRef = useRef('')
 
   const pendingRef = useRef(
@@ -100,6 +117,19 @@ const PlotterPanel = forwardRef(function PlotterPanel(
   )
   const rafIdRef = useRef(/** @type {number | null} */ (null))
   const streamingRef = useRef(false)
+  // While frozen, the parsed samples are not added to the plot so that the
+  // user can zoom into the captured window.
+  const frozenRef = useRef(false)
+  const [frozen, setFrozen] = useState(false)
+  const recordingRef = useRef(false)
+  const onSamplesRef = useRef(onSamples)
+  useEffect(() => {
+    onSamplesRef.current = onSamples
+  }, [onSamples])
+  const onFrozenChangeRef = useRef(onFrozenChange)
+  useEffect(() => {
+    onFrozenChangeRef.current = onFrozenChange
+  }, [onFrozenChange])
   const forceAutoscaleOnceRef = useRef(false)
   const plotData = useSelector(selectPlotData)
   const plotDataRef = useRef(plotData)
@@ -107,6 +137,44 @@ const PlotterPanel = forwardRef(function PlotterPanel(
     plotDataRef.current = plotData
   }, [plotData])
   const dispatch = useDispatch()
+  const plotSeries = useSelector(selectPlotSeries)
+  const plotSeriesRef = useRef(plotSeries)
+  useEffect(() => {
+    plotSeriesRef.current = plotSeries
+  }, [plotSeries])
+
+  const handleSeriesToggle = useCallback(
+    /**
+     * @param {number} index
+     * @param {boolean} show
+     */
+    (index, show) => {
+      const entry = plotSeriesRef.current[index]
+      if (entry && entry.show !== show) {
+        dispatch(setSeriesHidden({ series: entry.series, hidden: !show }))
+      }
+    },
+    [dispatch]
+  )
+
+  const handleSeriesRename = useCallback(
+    /**
+     * @param {number} index
+     * @param {string} label
+     */
+    (index, label) => {
+      const entry = plotSeriesRef.current[index]
+      if (entry) {
+        dispatch(
+          renameSeries({
+            series: entry.series,
+            label: label === entry.series ? '' : label,
+          })
+        )
+      }
+    },
+    [dispatch]
+  )
 
   const clearPlot = useCallback(() => {
     try {
@@ -131,7 +199,7 @@ const PlotterPanel = forwardRef(function PlotterPanel(
     rafIdRef.current = null
     const batch = pendingRef.current
     pendingRef.current = null
-    if (!batch || !batch.length) return
+    if (!batch || !batch.length || frozenRef.current) return
     dispatch(appendColumnsAction(batch))
     // No direct render here; redraw is handled by effect on [active, plotData.version]
   }, [dispatch])
@@ -215,6 +283,9 @@ const PlotterPanel = forwardRef(function PlotterPanel(
       console.log('[plotterPanel] stream:start')
     } catch {}
     clearPlot()
+    // The sketch might print other series after an upload
+    seriesRef.current = []
+    dispatch(setSeries([]))
     try {
       plotRef.current?.resetPlot?.({ full: true })
     } catch {}
@@ -223,7 +294,7 @@ const PlotterPanel = forwardRef(function PlotterPanel(
     } catch {}
     streamingRef.current = true
     forceAutoscaleOnceRef.current = true
-  }, [clearPlot])
+  }, [clearPlot, dispatch])
 
   const handleStreamStop = useCallback(() => {
     try {
@@ -449,9 +520,25 @@ const PlotterPanel = forwardRef(function PlotterPanel(
       const parts = combined.split(/\r?\n/)
       textBufRef.current = parts.pop() ?? ''
       const complete = parts.length ? parts.join('\n') : ''
+      const knownSeries = seriesRef.current
       const columns = complete
-        ? parseSamples(complete, modeRef, nextIndexRef, lastXRef)
+        ? parseSamples(complete, modeRef, nextIndexRef, lastXRef, seriesRef)
         : null
+      if (seriesRef.current !== knownSeries) {
+        dispatch(setSeries(seriesRef.current))
+      }
+      if (columns && columns.length && recordingRef.current) {
+        try {
+          onSamplesRef.current?.({
+            timestamp: Date.now(),
+            series: seriesRef.current,
+            x: /** @type {number[]} */ (columns[0]),
+            ys: columns.slice(1).map((col) => col.map((v) => v ?? null)),
+          })
+        } catch (error) {
+          console.error('[plotterPanel] failed to report samples', error)
+        }
+      }
       if (columns && columns.length) {
         try {
           console.log('[plotterPanel] parse->columns', {
@@ -496,7 +583,7 @@ const PlotterPanel = forwardRef(function PlotterPanel(
         })
       }
     },
-    [flush]
+    [dispatch, flush]
   )
 
   useMonitorStream({
@@ -505,13 +592,48 @@ const PlotterPanel = forwardRef(function PlotterPanel(
     onText: handleStreamText,
   })
 
+  const toggleFreeze = useCallback(() => {
+    frozenRef.current = !frozenRef.current
+    setFrozen(frozenRef.current)
+    onFrozenChangeRef.current?.(frozenRef.current)
+  }, [])
+
+  const getData = useCallback(() => {
+    const { x, ys } = plotDataRef.current
+    const series = plotSeriesRef.current
+    /** @type {import('@boardlab/protocol').PlotterData['range']} */
+    let range
+    try {
+      const sx = plotRef.current?.uplot?.scales['x']
+      if (sx && Number.isFinite(sx.min) && Number.isFinite(sx.max)) {
+        range = {
+          min: /** @type {number} */ (sx.min),
+          max: /** @type {number} */ (sx.max),
+        }
+      }
+    } catch {}
+    return {
+      series: ys.map(
+        (_, index) => series[index]?.label ?? `value ${index + 1}`
+      ),
+      x,
+      ys,
+      range,
+    }
+  }, [])
+
   useImperativeHandle(
     ref,
     () => ({
       clear: clearPlot,
       resetYScale: () => plotRef.current?.resetYScale?.(),
+      toggleFreeze,
+      setRecording: (recording) => {
+        recordingRef.current = recording
+      },
+      getData,
     }),
-    [clearPlot]
+    [clearPlot, getData, toggleFreeze]
   )
 
   return (
@@ -525,11 +647,32 @@ const PlotterPanel = forwardRef(function PlotterPanel(
         margin: 4,
       }}
     >
+      {frozen && (
+        <div
+          title="The plot is frozen. Zoom into a window and export it."
+          style={{
+            position: 'absolute',
+            top: 4,
+            right: 8,
+            zIndex: 1,
+            padding: '0 6px',
+            borderRadius: 2,
+            fontSize: 11,
+            color: 'var(--vscode-badge-foreground)',
+            background: 'var(--vscode-badge-background)',
+          }}
+        >
+          <span className="codicon codicon-debug-pause" /> Frozen
+        </div>
+      )}
       <MonitorPlotter
         key={plotKey}
         ref={plotRef}
         maxPoints={5000}
         autoscale={false}
+        series={plotSeries}
+        onSeriesToggle={handleSeriesToggle}
+        onSeriesRename={handleSeriesRename}
         width={
           (extWidth && extWidth > 0
             ? extWidth
@@ -5,12 +5,20 @@
  *
  * - Split by CR/LF; tokenize by whitespace/comma/semicolon.
  * - Extract finite numbers only.
- * - Mode detection: first line with >= 2 numbers switches to 'explicit-x'.
+ * - Labeled values (`temp:21.5`, Arduino IDE 2 style) keep a stable series per
+ *   label. Unlabeled values on a labeled line get the `value N` label of their
+ *   position, as in the Arduino IDE plotter.
+ * - Mode detection: first unlabeled line with >= 2 numbers switches to
+ *   'explicit-x'.
  *
- *   - Explicit-x: x = first column, ys = remaining columns; drop row if x <= lastX.
- *   - Implicit-index: x = nextIndex++, ys = [last column].
+ *   - Explicit-x: x = first unlabeled column, ys = remaining columns; drop row if x
+ *       <= lastX.
+ *   - Implicit-index: x = nextIndex++, ys = [last column], or all values of a
+ *       labeled line.
  * - Do not convert x units once mode is chosen.
  * - Multiple series: keep common x[] and parallel yN[]; fill nulls for missing.
+ *   The series order is the order of the labels in `seriesRef`; unlabeled
+ *   columns are labeled `value 1`, `value 2`, ... by their position.
  *
  * @typedef {'implicit-index' | 'explicit-x'} Mode
  *
@@ -21,9 +29,17 @@
  * @param {{ current: Mode }} modeRef
  * @param {{ current: number }} nextIndexRef
  * @param {{ current: number | null }} lastXRef
+ * @param {{ current: string[] }} [seriesRef] The series labels, in column
+ *   order. Pass the same ref across calls to keep the series stable.
  * @returns {FixedSample | null}
  */
-export function parseSamples(text, modeRef, nextIndexRef, lastXRef) {
+export function parseSamples(
+  text,
+  modeRef,
+  nextIndexRef,
+  lastXRef,
+  seriesRef = { current: [] }
+) {
   const lines = String(text).split(/\r?\n/)
   /** @type {number[]} */
   const xs = []
@@ -37,34 +53,68 @@ export function parseSamples(text, modeRef, nextIndexRef, lastXRef) {
     const tokens = line.split(/[\s,;]+/).filter(Boolean)
     if (tokens.length === 0) continue
 
-    // Extract numeric columns
-    const nums = tokens.map(Number).filter((n) => Number.isFinite(n))
-    if (nums.length === 0) continue
+    const labeled = parseLabeledTokens(tokens)
+    let x
+    /** @type {[string, number][]} */
+    let rowValues
+    if (labeled) {
+      if (modeRef.current === 'explicit-x') {
+        const xIndex = labeled.findIndex(([label]) => label === undefined)
+        if (xIndex < 0) continue
+        x = labeled[xIndex][1]
+        const lastX = lastXRef.current
+        if (lastX != null && !(x > lastX)) continue
+        lastXRef.current = x
+        labeled.splice(xIndex, 1)
+      } else {
+        x = nextIndexRef.current++
+      }
+      rowValues = labeled.map(([label, value], i) => [
+        label ?? `value ${i + 1}`,
+        value,
+      ])
+    } else {
+      // Extract numeric columns
+      const nums = tokens.map(Number).filter((n) => Number.isFinite(n))
+      if (nums.length === 0) continue
+
+      // Lock mode to explicit-x once we see multi-number numeric lines
+      if (modeRef.current === 'implicit-index' && nums.length >= 2) {
+        modeRef.current = 'explicit-x'
+      }
 
-    // Lock mode to explicit-x once we see multi-number numeric lines
-    if (modeRef.current === 'implicit-index' && nums.length >= 2) {
-      modeRef.current = 'explicit-x'
+      /** @type {number[]} */
+      let rowYs
+      if (modeRef.current === 'explicit-x') {
+        x = /** @type {number} */ (nums[0])
+        rowYs = nums.slice(1)
+        const lastX = lastXRef.current
+        if (lastX != null && !(x > lastX)) {
+          // Non-increasing x: drop the row
+          continue
+        }
+        lastXRef.current = x
+      } else {
+        x = nextIndexRef.current++
+        rowYs = [nums[nums.length - 1]]
+      }
+      rowValues = rowYs.map((value, i) => [`value ${i + 1}`, value])
     }
 
-    let x
-    /** @type {number[]} */
-    let rowYs
-    if (modeRef.current === 'explicit-x') {
-      x = /** @type {number} */ (nums[0])
-      rowYs = nums.slice(1)
-      const lastX = lastXRef.current
-      if (lastX != null && !(x > lastX)) {
-        // Non-increasing x: drop the row
-        continue
+    // Assign the values to the series of their labels
+    /** @type {(number | null)[]} */
+    const row = []
+    for (const [label, value] of rowValues) {
+      let s = seriesRef.current.indexOf(label)
+      if (s < 0) {
+        seriesRef.current = [...seriesRef.current, label]
+        s = seriesRef.current.length - 1
       }
-      lastXRef.current = x
-    } else {
-      x = nextIndexRef.current++
-      rowYs = [nums[nums.length - 1]]
+      row[s] = value
     }
 
     // Ensure we have enough series arrays; backfill previous rows with nulls
-    for (let s = ys.length; s < rowYs.length; s++) {
+    for (let s = ys.length; s < seriesRef.current.length; s++) {
       const arr = new Array(rowCount)
       for (let i = 0; i < rowCount; i++) arr[i] = null
       ys.push(arr)
@@ -72,7 +122,7 @@ export function parseSamples(text, modeRef, nextIndexRef, lastXRef) {
 
     xs.push(x)
     for (let s = 0; s < ys.length; s++) {
-      ys[s].push(s < rowYs.length ? rowYs[s] : null)
+      ys[s].push(row[s] ?? null)
     }
     rowCount++
   }
@@ -81,3 +131,33 @@ export function parseSamples(text, modeRef, nextIndexRef, lastXRef) {
   // @ts-ignore - variadic tuple
   return [xs, ...ys]
 }
+
+/** A label without a colon and a non-empty value. */
+const labeledToken = /^([^:]+):([^:]+)$/
+
+/**
+ * The `[label, value]` pairs of a line with `label:value` tokens, otherwise
+ * `undefined`. The label of an unlabeled number is `undefined`; tokens without
+ * a finite number are skipped. A line with any other token with a colon, such
+ * as the `12:34:56` of a timestamp, is not a labeled line.
+ *
+ * @param {string[]} tokens
+ * @returns {[string | undefined, number][] | undefined}
+ */
+function parseLabeledTokens(tokens) {
+  if (!tokens.some((token) => token.includes(':'))) return undefined
+  /** @type {[string | undefined, number][]} */
+  const values = []
+  for (const token of tokens) {
+    if (!token.includes(':')) {
+      const value = Number(token)
+      if (Number.isFinite(value)) values.push([undefined, value])
+      continue
+    }
+    const match = labeledToken.exec(token)
+    const value = Number(match?.[2])
+    if (!match || !Number.isFinite(value)) return undefined
+    values.push([match[1], value])
+  }
+  return values.length ? values : undefined
+}
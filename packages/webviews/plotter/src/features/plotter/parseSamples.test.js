@@ -58,4 +58,88 @@ describe('parseSamples', () => {
     expect(x).toEqual([0, 1, 2])
     expect(y1).toEqual([1, 2, 3])
   })
+
+  it('E) labeled values keep a stable series per label', () => {
+    const r = makeRefs()
+    const seriesRef = { current: /** @type {string[]} */ ([]) }
+    const first = parseSamples(
+      'temp:21.5,humidity:40\nhumidity:41\n',
+      r.modeRef,
+      r.nextIndexRef,
+      r.lastXRef,
+      seriesRef
+    )
+    const second = parseSamples(
+      'pressure:1013 temp:22\n',
+      r.modeRef,
+      r.nextIndexRef,
+      r.lastXRef,
+      seriesRef
+    )
+    expect(r.modeRef.current).toBe('implicit-index')
+    expect(seriesRef.current).toEqual(['temp', 'humidity', 'pressure'])
+    expect(first).toEqual([
+      [0, 1],
+      [21.5, null],
+      [40, 41],
+    ])
+    expect(second).toEqual([[2], [22], [null], [1013]])
+  })
+
+  it('F) unlabeled values on a labeled line are labeled by position', () => {
+    const r = makeRefs()
+    const seriesRef = { current: /** @type {string[]} */ ([]) }
+    const s = parseSamples(
+      'min:0 512 max:1023\nTemperature: 21.5 C\n',
+      r.modeRef,
+      r.nextIndexRef,
+      r.lastXRef,
+      seriesRef
+    )
+    expect(seriesRef.current).toEqual(['min', 'value 2', 'max', 'value 1'])
+    expect(s).toEqual([
+      [0, 1],
+      [0, null],
+      [512, null],
+      [1023, null],
+      [null, 21.5],
+    ])
+  })
+
+  it('G) explicit X uses the unlabeled column of labeled lines as x', () => {
+    const r = makeRefs()
+    const seriesRef = { current: /** @type {string[]} */ ([]) }
+    const s = parseSamples(
+      '0 5\n1 a:1 b:2\n1 a:3\nb:4\n2 b:5\n',
+      r.modeRef,
+      r.nextIndexRef,
+      r.lastXRef,
+      seriesRef
+    )
+    expect(r.modeRef.current).toBe('explicit-x')
+    expect(seriesRef.current).toEqual(['value 1', 'a', 'b'])
+    expect(s).toEqual([
+      [0, 1, 2],
+      [5, null, null],
+      [null, 1, null],
+      [null, 2, 5],
+    ])
+  })
+
+  it('H) a line with colons that are not labels has unlabeled values', () => {
+    const r = makeRefs()
+    const seriesRef = { current: /** @type {string[]} */ ([]) }
+    const s = parseSamples(
+      '12:34:56 21.5\nt:1:2 7\ntemp:x 8\n',
+      r.modeRef,
+      r.nextIndexRef,
+      r.lastXRef,
+      seriesRef
+    )
+    expect(seriesRef.current).toEqual(['value 1'])
+    expect(s).toEqual([
+      [0, 1, 2],
+      [21.5, 7, 8],
+    ])
+  })
 })
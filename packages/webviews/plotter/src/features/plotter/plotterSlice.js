@@ -1,10 +1,21 @@
 // @ts-check
 import { createSelector, createSlice } from '@reduxjs/toolkit'
 
+/**
+ * User settings of a series, keyed by the series label parsed from the output.
+ *
+ * @typedef {{
+ *   label?: string
+ *   hidden?: boolean
+ * }} SeriesConfig
+ */
+
 /**
  * @typedef {{
  *   x: number[]
  *   ys: (number | null)[][]
+ *   series: string[]
+ *   seriesConfig: Record<string, SeriesConfig>
  *   maxPoints: number
  *   version: number
  * }} PlotterState
@@ -14,6 +25,8 @@ import { createSelector, createSlice } from '@reduxjs/toolkit'
 const initialState = {
   x: [],
   ys: [],
+  series: [],
+  seriesConfig: {},
   maxPoints: 5000,
   version: 0,
 }
@@ -43,10 +56,42 @@ const plotterSlice = createSlice({
       return {
         x: [],
         ys: [],
+        series: [],
+        seriesConfig: {},
         maxPoints: 5000,
         version: 0,
       }
     },
+    /**
+     * Sets the parsed series labels, in the order of the y columns.
+     *
+     * @param {PlotterState} state
+     * @param {{ payload: string[] }} action
+     */
+    setSeries(state, action) {
+      state.series = action.payload
+    },
+    /**
+     * @param {PlotterState} state
+     * @param {{ payload: { series: string; hidden: boolean } }} action
+     */
+    setSeriesHidden(state, action) {
+      const { series, hidden } = action.payload
+      state.seriesConfig[series] = { ...state.seriesConfig[series], hidden }
+    },
+    /**
+     * An empty label restores the parsed label.
+     *
+     * @param {PlotterState} state
+     * @param {{ payload: { series: string; label: string } }} action
+     */
+    renameSeries(state, action) {
+      const { series, label } = action.payload
+      state.seriesConfig[series] = {
+        ...state.seriesConfig[series],
+        label: label || undefined,
+      }
+    },
     setMaxPoints(state, action) {
       const v = Math.max(1, Math.floor(action.payload || 1))
       state.maxPoints = v
@@ -90,8 +135,16 @@ const plotterSlice = createSlice({
 /** @type {PlotterActions} */
 const actions = plotterSlice.actions
 
-export const { reset, clearData, hardReset, setMaxPoints, appendColumns } =
-  actions
+export const {
+  reset,
+  clearData,
+  hardReset,
+  setSeries,
+  setSeriesHidden,
+  renameSeries,
+  setMaxPoints,
+  appendColumns,
+} = actions
 export default plotterSlice.reducer
 
 /** @type {(state: import('../../app/store').RootState) => PlotterState} */
@@ -107,3 +160,21 @@ export const selectPlotData = createSelector([selectPlotter], (plotter) => ({
   version: plotter.version,
   maxPoints: plotter.maxPoints,
 }))
+
+/**
+ * The legend entries of the y columns: the display label and visibility of each
+ * parsed series.
+ *
+ * @type {(
+ *   state: import('../../app/store').RootState
+ * ) => { series: string; label: string; show: boolean }[]}
+ */
+export const selectPlotSeries = createSelector(
+  [selectPlotter],
+  ({ series, seriesConfig }) =>
+    series.map((key) => ({
+      series: key,
+      label: seriesConfig[key]?.label ?? key,
+      show: !seriesConfig[key]?.hidden,
+    }))
+)
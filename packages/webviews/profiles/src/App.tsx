@@ -29,6 +29,7 @@ import {
 import {
   BoardDescriptor,
   createProfile,
+  genericProfileKeys,
   listProfiles,
   notifyProfilesActiveProfileChanged,
   notifyProfilesChanged,
@@ -37,6 +38,7 @@ import {
   profilesAddPortConfig,
   profilesApplyQuickFixById,
   ProfilesDocumentState,
+  profilesEditField,
   profilesGetActiveProfile,
   profilesListDiagnostics,
   profilesListQuickFixes,
@@ -71,9 +73,11 @@ import {
   profilesSetActiveProfile,
   removeLibrary,
   removePlatform,
+  sketchYamlSchemaKeys,
   updateProfile,
   type ProfileLibraryDescriptor,
   type ProfilePlatformDescriptor,
+  type SketchYamlSchemaKey,
 } from '@boardlab/protocol'
 
 import '../../base/styles/tree.css'
@@ -91,6 +95,11 @@ interface BootstrapState {
 
 const DRAFT_PROFILE_KEY = '__draft__'
 
+// The tree labels the profile fields after the sketch.yaml schema and shows
+// the string keys without a dedicated UI as generic fields
+const profileFields = sketchYamlSchemaKeys.profile
+const platformFields = sketchYamlSchemaKeys.platform
+
 interface DraftProfile {
   name: string
   fqbn: string
@@ -1092,6 +1101,42 @@ export function App(): JSX.Element {
     [selectedProfile, documentUri, execute]
   )
 
+  const handleFieldEdit = useCallback(
+    async (key: string) => {
+      if (!selectedProfile) return
+      // Preserve selection even if user cancels the input
+      setSelectedDetailsItem(`field:${key}`)
+      await execute(
+        (messenger) =>
+          messenger.sendRequest(profilesEditField, HOST_EXTENSION, {
+            uri: documentUri,
+            profile: selectedProfile.name,
+            key,
+          }),
+        { suppressBusy: true }
+      )
+    },
+    [selectedProfile, documentUri, execute]
+  )
+
+  const handleFieldClear = useCallback(
+    async (key: string) => {
+      if (!selectedProfile) return
+      setSelectedDetailsItem(`field:${key}`)
+      await execute(
+        (messenger) =>
+          messenger.sendRequest(profilesEditField, HOST_EXTENSION, {
+            uri: documentUri,
+            profile: selectedProfile.name,
+            key,
+            clear: true,
+          }),
+        { suppressBusy: true }
+      )
+    },
+    [selectedProfile, documentUri, execute]
+  )
+
   const handlePlatformClearIndexUrl = useCallback(
     async (platform: ProfilePlatformDescriptor, preferChildFocus?: boolean) => {
       if (!selectedProfile) return
@@ -2064,6 +2109,8 @@ export function App(): JSX.Element {
                         handlePlatformRemove,
                         handlePlatformSetIndexUrl,
                         handlePlatformClearIndexUrl,
+                        handleFieldEdit,
+                        handleFieldClear,
                         handleLibraryAdd,
                         handleLibraryEdit,
                         handleLibraryRemove,
@@ -2500,6 +2547,9 @@ function buildDetailsTree(
     handleLibraryAdd: () => void
     handleLibraryRemove: (l: ProfileLibraryDescriptor) => void
     handleLibraryEdit: (l: ProfileLibraryDescriptor) => void
+    // Drafts do not support the generic fields yet
+    handleFieldEdit?: (key: string) => void
+    handleFieldClear?: (key: string) => void
   },
   selectedKey?: string
 ): TreeNode[] {
@@ -2525,8 +2575,8 @@ function buildDetailsTree(
     return parsed ? parsed.toString(true) : activeProfile.fqbn
   })()
   const boardLabel = isResolved
-    ? (boardDetails?.label ?? sanitizedFqbn ?? 'Board')
-    : (sanitizedFqbn ?? 'Board')
+    ? (boardDetails?.label ?? sanitizedFqbn ?? profileFields.fqbn.title)
+    : (sanitizedFqbn ?? profileFields.fqbn.title)
   const boardChildren: TreeNode[] = []
 
   // Config options
@@ -2634,11 +2684,7 @@ function buildDetailsTree(
   // Programmer root
   items.push({
     id: 'programmer',
-    label: (
-      <span className="tree-item__label">
-        <span className="tree-item__labelText">Programmer</span>
-      </span>
-    ),
+    label: schemaFieldLabel(profileFields.programmer),
     icon: 'tools',
     description: ctx.programmerLabel,
     selected: selectedKey === 'programmer',
@@ -2733,11 +2779,7 @@ function buildDetailsTree(
   }
   items.push({
     id: 'port',
-    label: (
-      <span className="tree-item__label">
-        <span className="tree-item__labelText">Port</span>
-      </span>
-    ),
+    label: schemaFieldLabel(profileFields.port),
     icon: portIcon,
     description: portDescription,
     selected: selectedKey === 'port',
@@ -2763,6 +2805,38 @@ function buildDetailsTree(
     children: portChildren,
   })
 
+  // Generic fields of the schema keys without a dedicated UI
+  const { handleFieldEdit, handleFieldClear } = actions
+  if (handleFieldEdit && handleFieldClear) {
+    for (const field of genericProfileKeys) {
+      const value = activeProfile.fields?.[field.key]
+      items.push({
+        id: `field:${field.key}`,
+        label: schemaFieldLabel(field),
+        icon: 'symbol-string',
+        description: value ?? 'Not set',
+        selected: selectedKey === `field:${field.key}`,
+        dataAttrs: { 'profile-item': `field:${field.key}` },
+        actions: [
+          {
+            icon: 'edit',
+            ariaLabel: `Change ${field.title}`,
+            title: `Change ${field.title}`,
+            onClick: () => handleFieldEdit(field.key),
+            disabled: ctx.busy,
+          },
+          {
+            icon: 'discard',
+            ariaLabel: `Reset ${field.title}`,
+            title: `Reset ${field.title}`,
+            onClick: () => handleFieldClear(field.key),
+            disabled: ctx.busy || value === undefined,
+          },
+        ],
+      })
+    }
+  }
+
   // Platforms root
   const platformChildren: TreeNode[] = activeProfile.platforms.map(
     (p, idx) => ({
@@ -2818,11 +2892,7 @@ function buildDetailsTree(
         ? [
             {
               id: `platform-index-url:${p.platform}:${idx}`,
-              label: (
-                <span className="tree-item__label">
-                  <span className="tree-item__labelText">Index URL</span>
-                </span>
-              ),
+              label: schemaFieldLabel(platformFields.platform_index_url),
               description: String(p.platformIndexUrl),
               defaultAction: 'last',
               dataAttrs: {
@@ -2859,11 +2929,7 @@ function buildDetailsTree(
   }
   items.push({
     id: 'platforms',
-    label: (
-      <span className="tree-item__label">
-        <span className="tree-item__labelText">Platforms</span>
-      </span>
-    ),
+    label: schemaFieldLabel(profileFields.platforms),
     icon: 'package',
     selected: selectedKey === 'platforms',
     dataAttrs: { 'profile-item': 'platforms' },
@@ -2927,11 +2993,7 @@ function buildDetailsTree(
   }
   items.push({
     id: 'libraries',
-    label: (
-      <span className="tree-item__label">
-        <span className="tree-item__labelText">Libraries</span>
-      </span>
-    ),
+    label: schemaFieldLabel(profileFields.libraries),
     icon: 'library',
     selected: selectedKey === 'libraries',
     dataAttrs: { 'profile-item': 'libraries' },
@@ -2957,6 +3019,14 @@ function buildDetailsTree(
   return items
 }
 
+function schemaFieldLabel(field: SketchYamlSchemaKey): React.ReactNode {
+  return (
+    <span className="tree-item__label" title={field.description}>
+      <span className="tree-item__labelText">{field.title}</span>
+    </span>
+  )
+}
+
 function buildDraftDetailsTree(
   draft: DraftProfile,
   ctx: {